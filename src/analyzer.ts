@@ -1,5 +1,6 @@
 import * as path from 'path';
 import { parseXcodeProject } from './parsers/xcodeproj.js';
+import { parseAppArtifact, isAppArtifactPath } from './parsers/artifact.js';
 import { InfoPlistAnalyzer } from './analyzers/info-plist.js';
 import { PrivacyAnalyzer } from './analyzers/privacy.js';
 import { EntitlementsAnalyzer } from './analyzers/entitlements.js';
@@ -12,6 +13,18 @@ import { DeprecatedAPIAnalyzer } from './analyzers/deprecated-api.js';
 import { PrivateAPIAnalyzer } from './analyzers/private-api.js';
 import { SecurityAnalyzer } from './analyzers/security.js';
 import { UIUXAnalyzer } from './analyzers/ui-ux.js';
+import { ThirdPartySDKAnalyzer } from './analyzers/third-party-sdks.js';
+import { DependencyAnalyzer } from './analyzers/dependencies.js';
+import { ProvisioningAnalyzer } from './analyzers/provisioning.js';
+import { WatchOSAnalyzer } from './analyzers/watchos.js';
+import { AppClipAnalyzer } from './analyzers/app-clip.js';
+import { LocalizationAnalyzer } from './analyzers/localization.js';
+import { InterfaceBuilderAnalyzer } from './analyzers/interface-builder.js';
+import { SignInWithAppleAnalyzer } from './analyzers/sign-in-with-apple.js';
+import { AccountDeletionAnalyzer } from './analyzers/account-deletion.js';
+import { PaymentsAnalyzer } from './analyzers/payments.js';
+import { DynamicCodeAnalyzer } from './analyzers/dynamic-code.js';
+import { UserGeneratedContentAnalyzer } from './analyzers/user-generated-content.js';
 import { RuleLoader, CustomRuleEngine } from './rules/index.js';
 import { GuidelineMatcher } from './guidelines/index.js';
 import { getChangedFiles } from './git/index.js';
@@ -25,6 +38,7 @@ import type {
   AnalysisResult,
   AnalysisSummary,
   Analyzer,
+  XcodeProject,
 } from './types/index.js';
 
 /**
@@ -39,6 +53,18 @@ const ANALYZERS: Record<string, () => Analyzer> = {
   'private-api': () => new PrivateAPIAnalyzer(),
   security: () => new SecurityAnalyzer(),
   'ui-ux': () => new UIUXAnalyzer(),
+  'third-party-sdks': () => new ThirdPartySDKAnalyzer(),
+  dependencies: () => new DependencyAnalyzer(),
+  provisioning: () => new ProvisioningAnalyzer(),
+  watchos: () => new WatchOSAnalyzer(),
+  'app-clip': () => new AppClipAnalyzer(),
+  localization: () => new LocalizationAnalyzer(),
+  'interface-builder': () => new InterfaceBuilderAnalyzer(),
+  'sign-in-with-apple': () => new SignInWithAppleAnalyzer(),
+  'account-deletion': () => new AccountDeletionAnalyzer(),
+  payments: () => new PaymentsAnalyzer(),
+  'dynamic-code': () => new DynamicCodeAnalyzer(),
+  'user-generated-content': () => new UserGeneratedContentAnalyzer(),
 };
 
 /**
@@ -51,6 +77,25 @@ const ASC_ANALYZERS: Record<string, () => Analyzer> = {
   'asc-iap': () => new ASCIAPAnalyzer(),
 };
 
+/**
+ * Analyzers run by default on built artifacts, which carry no source code
+ */
+const ARTIFACT_ANALYZERS = [
+  'info-plist',
+  'privacy',
+  'entitlements',
+  'provisioning',
+  'ui-ux',
+  'private-api',
+  'deprecated-api',
+  'watchos',
+  'app-clip',
+  'localization',
+  'sign-in-with-apple',
+  'payments',
+  'dynamic-code',
+];
+
 export interface RunAnalysisOptions {
   onProgress?: ProgressCallback;
   cache?: FileCache;
@@ -66,14 +111,55 @@ export async function runAnalysis(
   const startTime = Date.now();
   const projectPath = path.resolve(input.projectPath);
 
+  // Built .ipa/.xcarchive: analyze the app bundle, then remove extracted files
+  if (isAppArtifactPath(projectPath)) {
+    const artifact = await parseAppArtifact(projectPath);
+    try {
+      return await analyzeProject(
+        artifact.project,
+        input,
+        options,
+        startTime,
+        artifact.toArtifactPath
+      );
+    } finally {
+      await artifact.cleanup();
+    }
+  }
+
   // Parse the Xcode project
-  const project = await parseXcodeProject(projectPath);
+  const project = await parseXcodeProject(projectPath, {
+    configuration: input.configuration,
+    scheme: input.scheme,
+  });
+
+  return analyzeProject(project, input, options, startTime);
+}
+
+/**
+ * Run the selected analyzers against a parsed project or artifact
+ */
+async function analyzeProject(
+  project: XcodeProject,
+  input: AnalyzeInput,
+  options: RunAnalysisOptions | undefined,
+  startTime: number,
+  mapFilePath?: (filePath: string) => string
+): Promise<EnrichedAnalysisReport> {
+  const projectPath = path.resolve(input.projectPath);
+
+  // A scheme's Archive action picks the configuration unless one was given
+  const configuration =
+    input.configuration ??
+    (input.scheme
+      ? project.schemes?.find((s) => s.name === input.scheme)?.archiveConfiguration
+      : undefined);
 
   // Determine which analyzers to run
   let analyzerNames: string[];
 
   if (!input.analyzers || input.analyzers.includes('all')) {
-    analyzerNames = Object.keys(ANALYZERS);
+    analyzerNames = project.artifact ? [...ARTIFACT_ANALYZERS] : Object.keys(ANALYZERS);
     if (input.includeASC) {
       analyzerNames.push(...Object.keys(ASC_ANALYZERS));
     }
@@ -84,7 +170,7 @@ export async function runAnalysis(
   }
 
   // Resolve changed files for incremental scanning
-  const basePath = path.dirname(projectPath);
+  const basePath = project.artifact?.appPath ?? path.dirname(projectPath);
   let changedFiles: string[] | undefined;
   if (input.changedSince) {
     changedFiles = getChangedFiles(basePath, input.changedSince);
@@ -110,6 +196,7 @@ export async function runAnalysis(
     const analyzer = createAnalyzer();
     const result = await analyzer.analyze(project, {
       targetName: input.targetName,
+      configuration,
       basePath,
       bundleId: input.bundleId,
       changedFiles,
@@ -137,6 +224,7 @@ export async function runAnalysis(
       const analyzer = createAnalyzer();
       const result = await analyzer.analyze(project, {
         targetName: input.targetName,
+        configuration,
         basePath,
         bundleId: input.bundleId,
         changedFiles,
@@ -174,6 +262,17 @@ export async function runAnalysis(
     // Custom rules are optional; silently skip on error
   }
 
+  // Point issues in extracted files back at the artifact
+  if (mapFilePath) {
+    for (const result of results) {
+      for (const issue of result.issues) {
+        if (issue.filePath) {
+          issue.filePath = mapFilePath(issue.filePath);
+        }
+      }
+    }
+  }
+
   // Calculate summary
   const totalDuration = Date.now() - startTime;
   const summary = calculateSummary(results, totalDuration);
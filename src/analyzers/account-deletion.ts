@@ -0,0 +1,88 @@
+import { readUserFacingText } from '../parsers/strings.js';
+import {
+  SOURCE_EXTENSIONS,
+  TEXT_EXTENSIONS,
+  readSourceLines,
+  findAppFiles,
+  findInSources,
+  findInText,
+  type Evidence,
+} from './shared.js';
+import type { Analyzer, AnalysisResult, AnalyzerOptions, Issue, XcodeProject } from '../types/index.js';
+
+/**
+ * Sign-up calls of common auth SDKs (Firebase, Supabase, Amplify, Auth0,
+ * Parse, Realm), sign-up screens and registration endpoints
+ */
+const ACCOUNT_CREATION_CODE =
+  /\bcreateUser\s*\(\s*withEmail:|\bcreateUserWithEmail:|\bsignUp(?:InBackground)?\s*\(|\bregisterUser\s*\(|\bsignup\s*\(\s*email:|\b(?:SignUp|Registration|CreateAccount)(?:View|ViewController|Screen|ViewModel)\b|["'/](?:api\/)?(?:v\d+\/)?(?:auth\/)?(?:signup|sign-up|sign_up|register)["'?/]/;
+
+const ACCOUNT_CREATION_TEXT =
+  /\b(?:create\s+(?:an?\s+|your\s+|new\s+)?account|sign\s+up|register\s+(?:now|(?:an?\s+|your\s+)?account))\b/i;
+
+/**
+ * Account deletion calls, screens and endpoints, and Sign in with Apple
+ * token revocation. Deactivating an account does not count.
+ */
+const ACCOUNT_DELETION_CODE =
+  /\b(?:delete|remove|close)[_-]?(?:my[_-]?)?(?:user[_-]?)?account\b|\bdeleteUser\b|\bcurrentUser\??\.delete\s*\(|\brevokeToken\s*\(|\baccount\/(?:delete|deletion|close)\b/i;
+
+const ACCOUNT_DELETION_TEXT =
+  /\b(?:delete|remove|close|erase)\s+(?:my\s+|your\s+|the\s+)?(?:user\s+)?account\b|\baccount\s+deletion\b/i;
+
+/**
+ * Guideline 5.1.1(v): apps that support account creation must let users
+ * delete their account from within the app
+ */
+export class AccountDeletionAnalyzer implements Analyzer {
+  name = 'Account Deletion Analyzer';
+  description = 'Detects account creation flows without an in-app account deletion option';
+
+  async analyze(project: XcodeProject, options: AnalyzerOptions): Promise<AnalysisResult> {
+    const startTime = Date.now();
+    const issues: Issue[] = [];
+
+    const sources = await findAppFiles(project, options, (t) => t.sourceFiles, SOURCE_EXTENSIONS);
+    const textFiles = await findAppFiles(project, options, (t) => t.resourceFiles ?? [], TEXT_EXTENSIONS);
+
+    const lines = await readSourceLines(Array.from(new Set([...sources.values()].flat())));
+    const texts = await readUserFacingText(Array.from(new Set([...textFiles.values()].flat())));
+
+    const creation = [
+      findInSources(lines, ACCOUNT_CREATION_CODE),
+      findInSources(lines, ACCOUNT_CREATION_TEXT) ?? findInText(texts, ACCOUNT_CREATION_TEXT),
+    ].filter((e): e is Evidence => e !== undefined);
+    const deletion =
+      findInSources(lines, ACCOUNT_DELETION_CODE) ??
+      findInSources(lines, ACCOUNT_DELETION_TEXT) ??
+      findInText(texts, ACCOUNT_DELETION_TEXT) ??
+      findInText(texts, ACCOUNT_DELETION_CODE);
+
+    const first = creation[0];
+    if (first && !deletion) {
+      issues.push({
+        id: 'account-deletion-missing',
+        title: 'Account creation without account deletion',
+        description:
+          `The app appears to let users create accounts (${creation.map((e) => e.description).join('; ')}) ` +
+          `but no way to delete an account was found: no account deletion API calls, "Delete account" text or Sign in with Apple token revocation. ` +
+          `Apps that support account creation must let users initiate deletion of their account from within the app.`,
+        severity: 'warning',
+        filePath: first.filePath,
+        lineNumber: first.lineNumber,
+        category: 'authentication',
+        guideline: 'Guideline 5.1.1(v) - Account Sign-In',
+        suggestion:
+          'Add a clearly labeled option (e.g. in account settings) that deletes the account and its associated data; deactivating it is not enough. ' +
+          'Linking to a web page that completes the deletion is acceptable. Apps offering Sign in with Apple must also revoke the user\'s tokens with the Sign in with Apple REST API.',
+      });
+    }
+
+    return {
+      analyzer: this.name,
+      passed: issues.filter((i) => i.severity === 'error').length === 0,
+      issues,
+      duration: Date.now() - startTime,
+    };
+  }
+}
@@ -0,0 +1,336 @@
+import * as fs from 'fs/promises';
+import { readPlistObject, isRecord, stringArray } from '../parsers/plist.js';
+import { readMachO } from '../parsers/macho.js';
+import { expandBuildSettingValue, targetBuildSettings } from '../parsers/build-settings.js';
+import { findHostApp, resolvePlistValue } from './info-plist.js';
+import type {
+  Analyzer,
+  AnalysisResult,
+  AnalyzerOptions,
+  Issue,
+  XcodeProject,
+  XcodeTarget,
+  InfoPlist,
+} from '../types/index.js';
+
+const PARENT_IDENTIFIERS_KEY = 'com.apple.developer.parent-application-identifiers';
+const ON_DEMAND_INSTALL_KEY = 'com.apple.developer.on-demand-install-capable';
+const ASSOCIATED_APP_CLIP_KEY = 'com.apple.developer.associated-appclip-app-identifiers';
+const ASSOCIATED_DOMAINS_KEY = 'com.apple.developer.associated-domains';
+
+/** Boolean keys of the NSAppClip dictionary */
+const NS_APP_CLIP_KEYS = ['NSAppClipRequestEphemeralUserNotification', 'NSAppClipRequestLocationConfirmation'];
+
+/**
+ * Frameworks whose functionality is unavailable to App Clips: they link,
+ * but return no data or fail at runtime
+ */
+const UNAVAILABLE_FRAMEWORKS = new Set([
+  'AssetsLibrary',
+  'CallKit',
+  'CareKit',
+  'Contacts',
+  'ContactsUI',
+  'CoreMotion',
+  'EventKit',
+  'EventKitUI',
+  'FileProvider',
+  'FileProviderUI',
+  'HealthKit',
+  'HomeKit',
+  'MediaPlayer',
+  'Messages',
+  'MessageUI',
+  'Photos',
+  'ResearchKit',
+  'SensorKit',
+  'Speech',
+]);
+
+/** `import X`, `@import X;` and `#import <X/...>` */
+const IMPORT_PATTERN = /^\s*(?:@?import\s+(?:(?:class|struct|enum|protocol|func|var|let|typealias)\s+)?|#import\s+<)(\w+)/;
+
+/** System frameworks in a Mach-O load command path */
+const SYSTEM_FRAMEWORK_PATTERN = /^\/System\/Library\/Frameworks\/(\w+)\.framework\//;
+
+/**
+ * Team ID prefix of an application identifier, literal or as a build setting
+ */
+const APP_ID_PREFIX_PATTERN = /^(?:\$\((?:AppIdentifierPrefix|TeamIdentifierPrefix)\)|[A-Z0-9]{10}\.)/;
+
+/**
+ * Analyzer for App Clip targets
+ */
+export class AppClipAnalyzer implements Analyzer {
+  name = 'App Clip Analyzer';
+  description = 'Validates App Clip Info.plist keys, entitlements, bundle ID and framework usage';
+
+  async analyze(project: XcodeProject, options: AnalyzerOptions): Promise<AnalysisResult> {
+    const startTime = Date.now();
+    const issues: Issue[] = [];
+
+    const targets = project.targets.filter(
+      (t) => t.type === 'appClip' && (!options.targetName || t.name === options.targetName)
+    );
+
+    for (const target of targets) {
+      const plist = await readPlistObject<InfoPlist>(target.infoPlistPath);
+      const entitlements = await readPlistObject<InfoPlist>(target.entitlementsPath);
+      const parent = findHostApp(project, target);
+
+      issues.push(...this.checkInfoPlist(target, plist));
+      issues.push(...(await this.checkEntitlements(target, plist, entitlements, parent)));
+      if (parent) {
+        issues.push(...this.checkBundleId(target, plist, parent, await readPlistObject<InfoPlist>(parent.infoPlistPath)));
+      }
+      issues.push(...(await this.checkFrameworks(target)));
+    }
+
+    return {
+      analyzer: this.name,
+      passed: issues.filter((i) => i.severity === 'error').length === 0,
+      issues,
+      duration: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * The NSAppClip dictionary marks the bundle as an App Clip
+   */
+  private checkInfoPlist(target: XcodeTarget, plist: InfoPlist | undefined): Issue[] {
+    if (!plist) {
+      return [];
+    }
+
+    const appClip = plist['NSAppClip'];
+    if (!isRecord(appClip)) {
+      return [
+        {
+          id: 'app-clip-missing-nsappclip',
+          title: `Missing NSAppClip dictionary: ${target.name}`,
+          description: `The Info.plist of "${target.name}" has no NSAppClip dictionary. App Store Connect does not recognize the bundle as an App Clip without it.`,
+          severity: 'error',
+          filePath: target.infoPlistPath,
+          category: 'app-clip',
+          suggestion: 'Add an NSAppClip dictionary (with NSAppClipRequestEphemeralUserNotification and NSAppClipRequestLocationConfirmation) to the App Clip Info.plist.',
+        },
+      ];
+    }
+
+    const issues: Issue[] = [];
+    for (const key of NS_APP_CLIP_KEYS) {
+      if (key in appClip && typeof appClip[key] !== 'boolean') {
+        issues.push({
+          id: 'app-clip-invalid-nsappclip-key',
+          title: `NSAppClip key is not a Boolean: ${key}`,
+          description: `NSAppClip › ${key} is ${JSON.stringify(appClip[key])}; the system only reads Boolean values.`,
+          severity: 'warning',
+          filePath: target.infoPlistPath,
+          category: 'app-clip',
+          suggestion: `Set ${key} to YES or NO.`,
+        });
+      }
+    }
+    return issues;
+  }
+
+  /**
+   * Check the App Clip entitlements and the parent app's side of the
+   * association
+   */
+  private async checkEntitlements(
+    target: XcodeTarget,
+    plist: InfoPlist | undefined,
+    entitlements: Record<string, unknown> | undefined,
+    parent: XcodeTarget | undefined
+  ): Promise<Issue[]> {
+    const issues: Issue[] = [];
+    const filePath = target.entitlementsPath ?? target.infoPlistPath;
+    const values = entitlements ?? {};
+
+    if (values[ON_DEMAND_INSTALL_KEY] !== true) {
+      issues.push({
+        id: 'app-clip-missing-on-demand-entitlement',
+        title: `App Clip is not on-demand install capable: ${target.name}`,
+        description: `The entitlements of "${target.name}" do not set ${ON_DEMAND_INSTALL_KEY} to true. App Store Connect rejects App Clips without it.`,
+        severity: 'error',
+        filePath,
+        category: 'app-clip',
+        suggestion: `Add ${ON_DEMAND_INSTALL_KEY} = YES to the App Clip entitlements (Xcode adds it to the App Clip target template).`,
+      });
+    }
+
+    const parentIdentifiers = stringArray(values[PARENT_IDENTIFIERS_KEY]).map((id) =>
+      expandBuildSettingValue(id, targetBuildSettings(target))
+    );
+    const parentPlist = parent ? await readPlistObject<InfoPlist>(parent.infoPlistPath) : undefined;
+    const parentBundleId = parent
+      ? resolvePlistValue(parent, parentPlist ?? {}, 'CFBundleIdentifier', 'PRODUCT_BUNDLE_IDENTIFIER')
+      : undefined;
+
+    if (parentIdentifiers.length === 0) {
+      issues.push({
+        id: 'app-clip-missing-parent-identifiers',
+        title: `App Clip does not name its parent app: ${target.name}`,
+        description: `The entitlements of "${target.name}" have no ${PARENT_IDENTIFIERS_KEY}, so the App Clip is not associated with a full app.`,
+        severity: 'error',
+        filePath,
+        category: 'app-clip',
+        suggestion: `Add ${PARENT_IDENTIFIERS_KEY} with "$(AppIdentifierPrefix)${parentBundleId ?? '<parent bundle ID>'}".`,
+      });
+    } else if (parentBundleId && !parentIdentifiers.some((id) => identifierMatches(id, parentBundleId))) {
+      issues.push({
+        id: 'app-clip-parent-identifier-mismatch',
+        title: `App Clip parent identifier does not match the app: ${target.name}`,
+        description: `${PARENT_IDENTIFIERS_KEY} lists ${parentIdentifiers.join(', ')} but the parent app "${parent?.name}" has bundle identifier "${parentBundleId}".`,
+        severity: 'error',
+        filePath,
+        category: 'app-clip',
+        suggestion: `Use "$(AppIdentifierPrefix)${parentBundleId}".`,
+      });
+    }
+
+    const clipDomains = stringArray(values[ASSOCIATED_DOMAINS_KEY]).filter((d) => d.startsWith('appclips:'));
+    if (entitlements && clipDomains.length === 0) {
+      issues.push({
+        id: 'app-clip-missing-appclips-domain',
+        title: `No appclips: associated domain: ${target.name}`,
+        description: `"${target.name}" declares no appclips: associated domains. Without them the App Clip can only be invoked through its default App Clip experience, not from your website, Smart App Banners, App Clip Codes or QR codes.`,
+        severity: 'warning',
+        filePath,
+        category: 'app-clip',
+        suggestion: 'Add "appclips:<your domain>" to the Associated Domains of the App Clip and the parent app, and list the App Clip in the domain\'s apple-app-site-association file.',
+      });
+    }
+
+    if (!parent?.entitlementsPath) {
+      return issues;
+    }
+    const parentEntitlements = await readPlistObject<InfoPlist>(parent.entitlementsPath);
+    if (!parentEntitlements) {
+      return issues;
+    }
+
+    const clipBundleId = resolvePlistValue(target, plist ?? {}, 'CFBundleIdentifier', 'PRODUCT_BUNDLE_IDENTIFIER');
+    const associated = stringArray(parentEntitlements[ASSOCIATED_APP_CLIP_KEY]).map((id) =>
+      expandBuildSettingValue(id, targetBuildSettings(parent))
+    );
+    if (clipBundleId && !associated.some((id) => identifierMatches(id, clipBundleId))) {
+      issues.push({
+        id: 'app-clip-parent-missing-association',
+        title: `Parent app does not declare the App Clip: ${parent.name}`,
+        description: `The entitlements of "${parent.name}" do not list "${clipBundleId}" in ${ASSOCIATED_APP_CLIP_KEY}, so the full app will not replace the App Clip when installed.`,
+        severity: 'error',
+        filePath: parent.entitlementsPath,
+        category: 'app-clip',
+        suggestion: `Add ${ASSOCIATED_APP_CLIP_KEY} with "$(AppIdentifierPrefix)${clipBundleId}" to the parent app entitlements.`,
+      });
+    }
+
+    const parentDomains = stringArray(parentEntitlements[ASSOCIATED_DOMAINS_KEY]);
+    const unshared = clipDomains.filter((domain) => !parentDomains.includes(domain));
+    if (unshared.length > 0) {
+      issues.push({
+        id: 'app-clip-parent-missing-appclips-domain',
+        title: `Parent app is missing App Clip domains: ${parent.name}`,
+        description: `The App Clip declares ${unshared.join(', ')} but "${parent.name}" does not. Once the full app is installed, invocations from these domains no longer open it.`,
+        severity: 'warning',
+        filePath: parent.entitlementsPath,
+        category: 'app-clip',
+        suggestion: 'Add the same appclips: entries to the Associated Domains of the parent app.',
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * The App Clip bundle ID must be nested under the parent app's
+   */
+  private checkBundleId(
+    target: XcodeTarget,
+    plist: InfoPlist | undefined,
+    parent: XcodeTarget,
+    parentPlist: InfoPlist | undefined
+  ): Issue[] {
+    const bundleId = resolvePlistValue(target, plist ?? {}, 'CFBundleIdentifier', 'PRODUCT_BUNDLE_IDENTIFIER');
+    const parentBundleId = resolvePlistValue(
+      parent,
+      parentPlist ?? {},
+      'CFBundleIdentifier',
+      'PRODUCT_BUNDLE_IDENTIFIER'
+    );
+    if (!bundleId || !parentBundleId || bundleId.startsWith(`${parentBundleId}.`)) {
+      return [];
+    }
+
+    return [
+      {
+        id: 'app-clip-bundle-id-prefix',
+        title: `App Clip bundle ID not nested under the parent app's: ${target.name}`,
+        description: `The bundle identifier "${bundleId}" of "${target.name}" does not start with "${parentBundleId}.", the bundle identifier of "${parent.name}". App Store Connect requires App Clip bundle IDs to extend the parent app's.`,
+        severity: 'error',
+        filePath: target.infoPlistPath,
+        category: 'app-clip',
+        suggestion: `Set PRODUCT_BUNDLE_IDENTIFIER of the App Clip to "${parentBundleId}.Clip".`,
+      },
+    ];
+  }
+
+  /**
+   * Report frameworks App Clips cannot use, from the App Clip's own source
+   * imports or, for built artifacts, the executable's linked libraries
+   */
+  private async checkFrameworks(target: XcodeTarget): Promise<Issue[]> {
+    const found = new Map<string, { filePath: string; lineNumber?: number }>();
+
+    if (target.executablePath) {
+      try {
+        for (const image of await readMachO(target.executablePath)) {
+          for (const library of image.linkedLibraries) {
+            const name = SYSTEM_FRAMEWORK_PATTERN.exec(library)?.[1];
+            if (name && UNAVAILABLE_FRAMEWORKS.has(name) && !found.has(name)) {
+              found.set(name, { filePath: target.executablePath });
+            }
+          }
+        }
+      } catch {
+        // Unreadable executables are reported by the binary scanners
+      }
+    }
+
+    for (const file of target.sourceFiles) {
+      let content: string;
+      try {
+        content = await fs.readFile(file, 'utf-8');
+      } catch {
+        continue;
+      }
+      content.split('\n').forEach((line, index) => {
+        const name = IMPORT_PATTERN.exec(line)?.[1];
+        if (name && UNAVAILABLE_FRAMEWORKS.has(name) && !found.has(name)) {
+          found.set(name, { filePath: file, lineNumber: index + 1 });
+        }
+      });
+    }
+
+    return [...found].map(([name, location]) => ({
+      id: 'app-clip-unavailable-framework',
+      title: `Framework unavailable to App Clips: ${name}`,
+      description: `"${target.name}" uses ${name}, whose functionality is not available to App Clips. Its APIs return no data or fail at runtime, and reviewers reject App Clips whose features do not work.`,
+      severity: 'warning',
+      filePath: location.filePath,
+      ...(location.lineNumber !== undefined ? { lineNumber: location.lineNumber } : {}),
+      category: 'app-clip',
+      suggestion: `Move the ${name} functionality to the full app and offer it after the user installs it (e.g. with SKOverlay).`,
+    }));
+  }
+}
+
+/**
+ * Whether an application identifier (`TEAMID.bundle.id`, possibly with an
+ * unexpanded `$(AppIdentifierPrefix)`) names the bundle ID
+ */
+function identifierMatches(identifier: string, bundleId: string): boolean {
+  return identifier.replace(APP_ID_PREFIX_PATTERN, '') === bundleId;
+}
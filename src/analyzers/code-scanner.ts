@@ -172,7 +172,7 @@ export class CodeScanner implements Analyzer {
     // Get source files from targets or scan directory
     const targets = options.targetName
       ? project.targets.filter((t) => t.name === options.targetName)
-      : project.targets.filter((t) => t.type === 'application');
+      : project.targets.filter((t) => t.type === 'application' || t.type === 'appExtension');
 
     let sourceFiles: string[] = [];
     for (const target of targets) {
@@ -0,0 +1,349 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import fg from 'fast-glob';
+import { fileExists } from '../parsers/plist.js';
+import { parsePodfileLock, type InstalledPod } from '../parsers/cocoapods.js';
+import { parseCartfileResolved, type CarthageDependency } from '../parsers/carthage.js';
+import { isCommonlyUsedSdk } from './third-party-sdks.js';
+import { SOURCE_EXTENSIONS, readSourceLines, findSourceLine } from './shared.js';
+import type {
+  Analyzer,
+  AnalysisResult,
+  AnalyzerOptions,
+  DeclaredDependency,
+  Issue,
+  XcodeProject,
+} from '../types/index.js';
+
+/**
+ * A pod or Carthage framework to inspect
+ */
+interface VendoredDependency {
+  name: string;
+  version?: string | undefined;
+  manager: 'CocoaPods' | 'Carthage';
+  /** Pod directory or framework bundle */
+  location: string;
+}
+
+const UIWEBVIEW_PATTERN = /\bUIWebView\b/;
+
+/**
+ * List the Swift packages (and the products targets link from them), pods,
+ * Carthage dependencies and, for built artifacts, embedded frameworks of a
+ * project. Lockfiles that can't be parsed are skipped.
+ */
+export async function listDependencies(
+  project: XcodeProject,
+  basePath: string
+): Promise<DeclaredDependency[]> {
+  const dependencies: DeclaredDependency[] = [];
+  const add = (name: string, manager: DeclaredDependency['manager'], filePath: string): void => {
+    if (!dependencies.some((d) => d.name === name && d.manager === manager)) {
+      dependencies.push({ name, manager, filePath });
+    }
+  };
+
+  for (const pkg of project.packages ?? []) {
+    add(pkg.identity, 'Swift Package Manager', project.path);
+  }
+  for (const product of project.targets.flatMap((t) => t.packageProducts ?? [])) {
+    add(product.name, 'Swift Package Manager', project.path);
+  }
+
+  const podfileLockPath = path.join(basePath, 'Podfile.lock');
+  if (await fileExists(podfileLockPath)) {
+    try {
+      for (const pod of await parsePodfileLock(podfileLockPath)) {
+        add(pod.name, 'CocoaPods', podfileLockPath);
+        for (const subspec of pod.subspecs) {
+          add(`${pod.name}/${subspec}`, 'CocoaPods', podfileLockPath);
+        }
+      }
+    } catch {
+      // Reported by DependencyAnalyzer
+    }
+  }
+
+  const cartfilePath = path.join(basePath, 'Cartfile.resolved');
+  if (await fileExists(cartfilePath)) {
+    try {
+      for (const dependency of await parseCartfileResolved(cartfilePath)) {
+        add(dependency.name, 'Carthage', cartfilePath);
+      }
+    } catch {
+      // Reported by DependencyAnalyzer
+    }
+  }
+
+  for (const framework of project.artifact?.frameworks ?? []) {
+    add(path.basename(framework, '.framework'), 'Embedded', framework);
+  }
+
+  return dependencies;
+}
+
+/**
+ * CocoaPods and Carthage dependency analyzer.
+ *
+ * The other scanners skip `Pods/` and `Carthage/` to keep third-party code
+ * out of first-party results; this analyzer covers them separately.
+ */
+export class DependencyAnalyzer implements Analyzer {
+  name = 'Dependency Analyzer';
+  description =
+    'Checks CocoaPods and Carthage dependencies for UIWebView usage, missing privacy manifests and unsigned binaries';
+
+  async analyze(_project: XcodeProject, options: AnalyzerOptions): Promise<AnalysisResult> {
+    const startTime = Date.now();
+    const issues: Issue[] = [];
+    const dependencies: VendoredDependency[] = [];
+
+    const podfileLockPath = path.join(options.basePath, 'Podfile.lock');
+    const pods = await this.readLockfile(podfileLockPath, parsePodfileLock, issues);
+    if (pods) {
+      dependencies.push(...(await this.collectPods(options.basePath, pods, issues)));
+    }
+
+    const cartfilePath = path.join(options.basePath, 'Cartfile.resolved');
+    const carthage = await this.readLockfile(cartfilePath, parseCartfileResolved, issues);
+    if (carthage) {
+      dependencies.push(...(await this.collectCarthage(options.basePath, carthage, issues)));
+    }
+
+    for (const dependency of dependencies) {
+      issues.push(...(await this.checkDependency(dependency)));
+    }
+
+    return {
+      analyzer: this.name,
+      passed: issues.filter((i) => i.severity === 'error').length === 0,
+      issues,
+      duration: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Parse a lockfile if present, reporting parse failures as issues
+   */
+  private async readLockfile<T>(
+    filePath: string,
+    parse: (filePath: string) => Promise<T[]>,
+    issues: Issue[]
+  ): Promise<T[] | null> {
+    if (!(await fileExists(filePath))) {
+      return null;
+    }
+
+    try {
+      return await parse(filePath);
+    } catch (error) {
+      issues.push({
+        id: 'dependency-lockfile-parse-error',
+        title: `Failed to parse ${path.basename(filePath)}`,
+        description: `Could not parse ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        severity: 'warning',
+        filePath,
+        category: 'dependencies',
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Map Podfile.lock entries to their directories under Pods/
+   */
+  private async collectPods(
+    basePath: string,
+    pods: InstalledPod[],
+    issues: Issue[]
+  ): Promise<VendoredDependency[]> {
+    const podsDir = path.join(basePath, 'Pods');
+    if (!(await fileExists(podsDir))) {
+      issues.push({
+        id: 'dependency-pods-not-installed',
+        title: 'CocoaPods dependencies not installed',
+        description: `Podfile.lock lists ${pods.length} pod(s) but the Pods directory is missing, so they could not be inspected.`,
+        severity: 'info',
+        filePath: path.join(basePath, 'Podfile.lock'),
+        category: 'dependencies',
+        suggestion: 'Run `pod install` before scanning to include third-party code in the analysis.',
+      });
+      return [];
+    }
+
+    const dependencies: VendoredDependency[] = [];
+    for (const pod of pods) {
+      const location = path.join(podsDir, pod.name);
+      // Local (:path) pods are not copied into Pods/
+      if (await fileExists(location)) {
+        dependencies.push({ name: pod.name, version: pod.version, manager: 'CocoaPods', location });
+      }
+    }
+    return dependencies;
+  }
+
+  /**
+   * Find the frameworks Carthage built for the resolved dependencies
+   */
+  private async collectCarthage(
+    basePath: string,
+    resolved: CarthageDependency[],
+    issues: Issue[]
+  ): Promise<VendoredDependency[]> {
+    const buildDir = path.join(basePath, 'Carthage', 'Build');
+    const bundles = await fg(['*.xcframework', 'iOS/*.framework'], {
+      cwd: buildDir,
+      onlyDirectories: true,
+      absolute: true,
+    });
+
+    if (bundles.length === 0) {
+      if (resolved.length > 0) {
+        issues.push({
+          id: 'dependency-carthage-not-built',
+          title: 'Carthage dependencies not built',
+          description: `Cartfile.resolved lists ${resolved.length} dependency(ies) but no frameworks were found in Carthage/Build, so they could not be inspected.`,
+          severity: 'info',
+          filePath: path.join(basePath, 'Cartfile.resolved'),
+          category: 'dependencies',
+          suggestion:
+            'Run `carthage bootstrap --use-xcframeworks` before scanning to include third-party code in the analysis.',
+        });
+      }
+      return [];
+    }
+
+    return bundles.sort().map((bundle) => {
+      const name = path.basename(bundle, path.extname(bundle));
+      const dependency = resolved.find((d) => d.name.toLowerCase() === name.toLowerCase());
+      return { name, version: dependency?.version, manager: 'Carthage', location: bundle };
+    });
+  }
+
+  /**
+   * Run every check against one pod or framework
+   */
+  private async checkDependency(dependency: VendoredDependency): Promise<Issue[]> {
+    const issues: Issue[] = [];
+    const label = `${dependency.name}${dependency.version ? ` (${dependency.version})` : ''}`;
+
+    const uiWebViewHit = await this.findUIWebViewUsage(dependency.location);
+    if (uiWebViewHit) {
+      issues.push({
+        id: 'dependency-uiwebview',
+        title: `${dependency.manager} dependency uses UIWebView: ${dependency.name}`,
+        description: `${label} references UIWebView. App Store Connect rejects new apps and updates that use UIWebView (ITMS-90809), including usage inside third-party code.`,
+        severity: 'error',
+        filePath: uiWebViewHit.filePath,
+        lineNumber: uiWebViewHit.lineNumber,
+        category: 'dependencies',
+        guideline: 'Guideline 2.5.1 - Software Requirements',
+        suggestion: `Update ${dependency.name} to a version that uses WKWebView, or replace it.`,
+      });
+    }
+
+    if (isCommonlyUsedSdk(dependency.name)) {
+      const manifests = await fg('**/PrivacyInfo.xcprivacy', {
+        cwd: dependency.location,
+        onlyFiles: true,
+      });
+      if (manifests.length === 0) {
+        issues.push({
+          id: 'dependency-missing-privacy-manifest',
+          title: `Missing privacy manifest: ${dependency.name}`,
+          description: `${label} is on Apple's list of commonly used third-party SDKs but does not include a PrivacyInfo.xcprivacy file. Submissions containing these SDKs without a privacy manifest are rejected.`,
+          severity: 'error',
+          filePath: dependency.location,
+          category: 'dependencies',
+          guideline: 'Guideline 5.1.1 - Data Collection and Storage',
+          suggestion: `Update ${dependency.name} to a release that ships PrivacyInfo.xcprivacy.`,
+        });
+      }
+
+      const unsigned = await this.findUnsignedXCFrameworks(dependency.location);
+      for (const xcframework of unsigned) {
+        issues.push({
+          id: 'dependency-unsigned-binary',
+          title: `Unsigned binary SDK: ${path.basename(xcframework)}`,
+          description: `${label} is on Apple's list of commonly used third-party SDKs and is distributed as a binary, but ${path.basename(xcframework)} has no code signature. Binary versions of these SDKs must be signed by the SDK developer.`,
+          severity: 'error',
+          filePath: xcframework,
+          category: 'dependencies',
+          guideline: 'Guideline 5.1.1 - Data Collection and Storage',
+          suggestion: `Use a signed XCFramework release of ${dependency.name}.`,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Find the first UIWebView reference in a dependency's sources or binaries
+   */
+  private async findUIWebViewUsage(
+    location: string
+  ): Promise<{ filePath: string; lineNumber?: number } | null> {
+    const sources = await fg(
+      Array.from(SOURCE_EXTENSIONS, (extension) => `**/*${extension}`),
+      { cwd: location, absolute: true, onlyFiles: true }
+    );
+
+    const found = findSourceLine(await readSourceLines(sources.sort()), UIWEBVIEW_PATTERN);
+    if (found) {
+      return { filePath: found.filePath, lineNumber: found.lineNumber };
+    }
+
+    for (const binary of await this.findBinaries(location)) {
+      try {
+        if ((await fs.readFile(binary)).includes('UIWebView')) {
+          return { filePath: binary };
+        }
+      } catch {
+        // Skip files that can't be read
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find framework executables and static libraries under a location
+   */
+  private async findBinaries(location: string): Promise<string[]> {
+    const candidates = await fg(['**/*.framework/*', '**/*.a'], {
+      cwd: location,
+      absolute: true,
+      onlyFiles: true,
+    });
+    if (location.endsWith('.framework')) {
+      candidates.push(path.join(location, path.basename(location, '.framework')));
+    }
+
+    return candidates.filter((file) => {
+      if (file.endsWith('.a')) {
+        return true;
+      }
+      const frameworkName = path.basename(path.dirname(file), '.framework');
+      return path.basename(file) === frameworkName;
+    });
+  }
+
+  /**
+   * XCFrameworks without a `_CodeSignature` directory
+   */
+  private async findUnsignedXCFrameworks(location: string): Promise<string[]> {
+    const xcframeworks = location.endsWith('.xcframework')
+      ? [location]
+      : await fg('**/*.xcframework', { cwd: location, absolute: true, onlyDirectories: true });
+
+    const unsigned: string[] = [];
+    for (const xcframework of xcframeworks.sort()) {
+      if (!(await fileExists(path.join(xcframework, '_CodeSignature')))) {
+        unsigned.push(xcframework);
+      }
+    }
+    return unsigned;
+  }
+}
@@ -1,6 +1,8 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import fg from 'fast-glob';
+import { findProjectBinaries, findMachOBinaries, isMachOFile, readMachO } from '../parsers/macho.js';
+import type { MachOImage } from '../parsers/macho.js';
 import type {
   Analyzer,
   AnalysisResult,
@@ -254,9 +256,10 @@ export class DeprecatedAPIAnalyzer implements Analyzer {
     // Get deployment target from project
     const targets = options.targetName
       ? project.targets.filter((t) => t.name === options.targetName)
-      : project.targets.filter((t) => t.type === 'application');
+      : project.targets.filter((t) => t.type === 'application' || t.type === 'appExtension');
 
-    const deploymentTarget = targets[0]?.deploymentTarget ?? '13.0';
+    const deploymentTarget =
+      (targets.find((t) => t.type === 'application') ?? targets[0])?.deploymentTarget ?? '13.0';
 
     // Get source files
     let sourceFiles: string[] = [];
@@ -264,17 +267,24 @@ export class DeprecatedAPIAnalyzer implements Analyzer {
       sourceFiles.push(...target.sourceFiles);
     }
 
-    if (sourceFiles.length === 0) {
+    // Built artifacts have no sources; their binaries are scanned instead
+    if (sourceFiles.length === 0 && !project.artifact) {
       sourceFiles = await this.findSourceFiles(options.basePath);
     }
 
+    let binaries = await findProjectBinaries(project, options.basePath);
+
     // Filter to changed files for incremental scanning
     if (options.changedFiles) {
       const changedSet = new Set(options.changedFiles);
       sourceFiles = sourceFiles.filter((f) => changedSet.has(f));
+      binaries = binaries.filter((f) => changedSet.has(f));
     }
 
-    const issues = await this.scanFiles(sourceFiles, deploymentTarget);
+    const issues = [
+      ...(await this.scanFiles(sourceFiles, deploymentTarget)),
+      ...(await this.scanBinaries(binaries, deploymentTarget)),
+    ];
 
     return {
       analyzer: this.name,
@@ -285,18 +295,24 @@ export class DeprecatedAPIAnalyzer implements Analyzer {
   }
 
   /**
-   * Scan a specific path for deprecated APIs
+   * Scan a specific path (sources, or prebuilt binaries) for deprecated APIs
    */
   async scanPath(scanPath: string, deploymentTarget?: string): Promise<AnalysisResult> {
     const startTime = Date.now();
     const target = deploymentTarget ?? '13.0';
 
     const stats = await fs.stat(scanPath);
-    const files = stats.isDirectory()
-      ? await this.findSourceFiles(scanPath)
-      : [scanPath];
-
-    const issues = await this.scanFiles(files, target);
+    let issues: Issue[];
+    if (stats.isDirectory()) {
+      issues = [
+        ...(await this.scanFiles(await this.findSourceFiles(scanPath), target)),
+        ...(await this.scanBinaries(await findMachOBinaries(scanPath), target)),
+      ];
+    } else if (await isMachOFile(scanPath)) {
+      issues = await this.scanBinaries([scanPath], target);
+    } else {
+      issues = await this.scanFiles([scanPath], target);
+    }
 
     return {
       analyzer: this.name,
@@ -387,4 +403,61 @@ export class DeprecatedAPIAnalyzer implements Analyzer {
 
     return issues;
   }
+
+  /**
+   * Scan Mach-O binaries for references to deprecated classes, functions
+   * and selectors (e.g. the `UIWebView` class that triggers ITMS-90809)
+   */
+  private async scanBinaries(binaries: string[], deploymentTarget: string): Promise<Issue[]> {
+    const issues: Issue[] = [];
+
+    for (const binary of binaries) {
+      let images: MachOImage[];
+      try {
+        images = await readMachO(binary);
+      } catch {
+        // Skip binaries that can't be parsed
+        continue;
+      }
+
+      const references = new Set([
+        ...images
+          .flatMap((image) => image.undefinedSymbols)
+          .map((symbol) => symbol.replace(/^_OBJC_(?:META)?CLASS_\$_/, '').replace(/^_/, '')),
+        ...images.flatMap((image) => image.selectors),
+      ]);
+
+      for (const api of DEPRECATED_APIS) {
+        const found = [...references].filter((name) => {
+          api.pattern.lastIndex = 0;
+          return api.pattern.test(name);
+        });
+        if (found.length === 0) {
+          continue;
+        }
+
+        const isRemoved = api.removedIn && compareVersions(deploymentTarget, api.removedIn) >= 0;
+        const removedMsg = api.removedIn ? `, removed in iOS ${api.removedIn}` : '';
+
+        issues.push({
+          id: api.id,
+          title: `Deprecated API: ${api.name}`,
+          description: `Binary references \`${api.name}\` (${api.framework}), which is deprecated. Deprecated in iOS ${api.deprecatedIn}${removedMsg}.\n\nFound: ${found
+            .sort()
+            .slice(0, 5)
+            .map((name) => `\`${name}\``)
+            .join(', ')}`,
+          severity: isRemoved ? 'error' : 'warning',
+          filePath: binary,
+          category: 'deprecated-api',
+          guideline: isRemoved
+            ? `ITMS-90809 - Deprecated API Usage`
+            : `Guideline 2.5.1 - Software Requirements`,
+          suggestion: `Replace with ${api.replacement}, or update the library that ships this binary.`,
+        });
+      }
+    }
+
+    return issues;
+  }
 }
@@ -0,0 +1,346 @@
+import * as path from 'path';
+import { readPlistObject } from '../parsers/plist.js';
+import { listDependencies } from './dependencies.js';
+import {
+  SOURCE_EXTENSIONS,
+  readSourceLines,
+  findAppFiles,
+  readBinaryNames,
+  findDependency,
+  findInSources,
+  findInFilesWith,
+  findInBinary,
+  type Evidence,
+} from './shared.js';
+import type {
+  Analyzer,
+  AnalysisResult,
+  AnalyzerOptions,
+  DeclaredDependency,
+  Issue,
+  XcodeProject,
+  XcodeTarget,
+} from '../types/index.js';
+
+/**
+ * An SDK that downloads code, recognized by the libraries that provide it,
+ * the code that calls it and the classes and frameworks it leaves in a binary
+ */
+interface CodeLoadingSdk {
+  name: string;
+  /** Pod, package, product or framework names */
+  dependencies: RegExp;
+  /** A line of source code */
+  code: RegExp;
+  /** Objective-C class names, symbols and linked libraries of a built executable */
+  binary: RegExp;
+}
+
+/** Frameworks that replace native methods with downloaded scripts */
+const HOT_PATCHING_SDKS: CodeLoadingSdk[] = [
+  {
+    name: 'JSPatch',
+    dependencies: /^JSPatch(?:Platform|SDK)?$/i,
+    code: /\bJPEngine\b|\bimport\s+JSPatch\w*\b|#import\s+[<"]JSPatch/,
+    binary: /^JP(?:Engine|Boxing)$|\/JSPatch\w*\.framework\//,
+  },
+  {
+    name: 'Rollout',
+    dependencies: /^(?:Rollout(?:\.io|SDK)?|rollout-ios-sdk)$/i,
+    code: /\bimport\s+Rollout\b|#import\s+[<"]Rollout\/|\bRollout\.setup\w*|\bRolloutOptions\b/,
+    binary: /^Rollout\w*$|\/Rollout\w*\.framework\//,
+  },
+  {
+    name: 'Wax',
+    dependencies: /^(?:Wax|WaxPatch)$/i,
+    code: /\bwax_start\s*\(|\bwax_runLuaFile\s*\(/,
+    binary: /^_?wax_start$|\/Wax\w*\.framework\//,
+  },
+];
+
+/** React Native and Expo over-the-air JavaScript bundle updates */
+const OTA_UPDATE_SDKS: CodeLoadingSdk[] = [
+  {
+    name: 'CodePush',
+    dependencies: /^(?:CodePush|react-native-code-push)$/i,
+    code: /\bCodePush\s+bundleURL\b|\bCodePush\.bundleURL\s*\(|#import\s+[<"]CodePush\/|\bimport\s+CodePush\b/,
+    binary: /^CodePush$|\/CodePush\.framework\//,
+  },
+  {
+    name: 'Expo Updates',
+    dependencies: /^(?:EXUpdates|expo-updates)$/i,
+    code: /\bimport\s+EXUpdates\b|#import\s+[<"]EXUpdates\/|\bEXUpdatesAppController\b/,
+    binary: /^EXUpdates\w*$|\/EXUpdates\.framework\//,
+  },
+];
+
+/** JavaScriptCore script evaluation; WKWebView's evaluateJavaScript runs in the page and is allowed */
+const JS_CONTEXT_EVALUATE = /\bevaluateScript\s*\(|\bevaluateScript:|\bJSEvaluateScript\s*\(/;
+
+/** Code that fetches data from the network */
+const NETWORK_FETCH =
+  /\b(?:NS)?URLSession\b|\b(?:data|download)Task\s*\(|\bdataTaskWith\w*|\bAF\.(?:request|download)\b|\bAlamofire\b|\bcontentsOf:\s*URL\s*\(\s*string:\s*"https?:|\bWithContentsOfURL:/;
+
+/** dlopen of a computed path; literal paths are checked by the private API analyzer */
+const DLOPEN = /\bdlopen\s*\(\s*(?!["'`@]|nil\b|NULL\b)[^,)]+/;
+
+/** Bundles created from a path or URL at runtime */
+const BUNDLE_FROM_PATH =
+  /\b(?:NS)?Bundle\s*\(\s*(?:path|url):|\[NSBundle\s+bundleWith(?:Path|URL):|\[\[NSBundle\s+alloc\]\s+initWith(?:Path|URL):/;
+
+/** The variable a bundle is assigned to: `let bundle = Bundle(path:`, `NSBundle *bundle = [NSBundle` */
+const BUNDLE_VARIABLE = /\b(\w+)(?:\s*:\s*(?:NS)?Bundle[?!]?)?\s*=\s*(?:\[+NSBundle\b|(?:NS)?Bundle\s*\()/;
+
+/** A bundle's executable loaded right where the bundle is created */
+const CHAINED_BUNDLE_LOAD =
+  /\bBundle\s*\(.*\)\s*[?!]?\.(?:load\s*\(|loadAndReturnError\b|principalClass\b|classNamed\b)|\[\[NSBundle\s+bundleWith(?:Path|URL):.*\]\s+(?:load|loadAndReturnError:|principalClass|classNamed:)/;
+
+/** Writable directories downloaded files end up in */
+const WRITABLE_DIRECTORY =
+  /\b(?:document|caches|applicationSupport)Directory\b|\bNS(?:Document|Caches|ApplicationSupport)Directory\b|\bNSTemporaryDirectory\s*\(|\btemporaryDirectory\b|\bdownloadTask\b|["'/](?:Documents|Library\/Caches|tmp)\//;
+
+const DOWNLOADED_CODE_RULES =
+  'Apps may not download, install or execute code that introduces or changes features or functionality of the app. ' +
+  'Interpreted code may be downloaded only if it does not change the primary purpose of the app, create a store or storefront for other code, ' +
+  'or bypass signing, sandbox or other security features of the OS.';
+
+/**
+ * Guideline 2.5.2: apps may not download and run code that changes their
+ * features. JavaScript in a WKWebView and over-the-air React Native bundle
+ * updates that leave native behavior alone are allowed.
+ */
+export class DynamicCodeAnalyzer implements Analyzer {
+  name = 'Dynamic Code Analyzer';
+  description = 'Detects hot-patching SDKs and code downloaded and executed at runtime';
+
+  async analyze(project: XcodeProject, options: AnalyzerOptions): Promise<AnalysisResult> {
+    const startTime = Date.now();
+    const issues: Issue[] = [];
+
+    const dependencies = await listDependencies(project, options.basePath);
+    const sources = await findAppFiles(project, options, (t) => t.sourceFiles, SOURCE_EXTENSIONS);
+
+    for (const [app, files] of sources) {
+      const lines = await readSourceLines(files);
+      const binaryNames = app.executablePath ? await readBinaryNames(app.executablePath) : [];
+
+      issues.push(...this.checkHotPatching(app, dependencies, lines, binaryNames));
+      issues.push(...this.checkDownloadedCode(app, lines));
+      issues.push(...(await this.checkOtaUpdates(app, dependencies, lines, binaryNames)));
+    }
+
+    return {
+      analyzer: this.name,
+      passed: issues.filter((i) => i.severity === 'error').length === 0,
+      issues,
+      duration: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Hot-patching frameworks, which exist to change native behavior after
+   * review
+   */
+  private checkHotPatching(
+    app: XcodeTarget,
+    dependencies: DeclaredDependency[],
+    lines: Map<string, string[]>,
+    binaryNames: string[]
+  ): Issue[] {
+    const issues: Issue[] = [];
+    for (const sdk of HOT_PATCHING_SDKS) {
+      const evidence =
+        findDependency(dependencies, sdk.dependencies) ??
+        findInSources(lines, sdk.code) ??
+        findInBinary(app, binaryNames, sdk.binary);
+      if (!evidence) {
+        continue;
+      }
+      issues.push({
+        id: 'dynamic-code-hot-patching',
+        title: `Hot-patching framework: ${sdk.name}`,
+        description:
+          `Target "${app.name}" uses ${sdk.name} (${evidence.description}), which replaces native methods with code downloaded at runtime. ${DOWNLOADED_CODE_RULES}`,
+        severity: 'error',
+        filePath: evidence.filePath,
+        lineNumber: evidence.lineNumber,
+        category: 'code',
+        guideline: 'Guideline 2.5.2 - Self-Contained Bundles',
+        suggestion: `Remove ${sdk.name} and ship fixes as app updates through App Review.`,
+      });
+    }
+    return issues;
+  }
+
+  /**
+   * Scripts, libraries and bundles loaded from downloaded files. Each is
+   * only reported when the same file fetches from the network or uses a
+   * writable directory.
+   */
+  private checkDownloadedCode(app: XcodeTarget, lines: Map<string, string[]>): Issue[] {
+    const issues: Issue[] = [];
+
+    const script = findInFilesWith(lines, JS_CONTEXT_EVALUATE, NETWORK_FETCH);
+    if (script) {
+      issues.push({
+        id: 'dynamic-code-remote-script',
+        title: 'JavaScriptCore evaluates downloaded scripts',
+        description:
+          `Target "${app.name}" evaluates scripts in a JSContext (${script.description}) in a file that also fetches from the network. ${DOWNLOADED_CODE_RULES}`,
+        severity: 'warning',
+        filePath: script.filePath,
+        lineNumber: script.lineNumber,
+        category: 'code',
+        guideline: 'Guideline 2.5.2 - Self-Contained Bundles',
+        suggestion:
+          'Bundle scripts with the app, or make sure downloaded scripts cannot call into native code that adds features. JavaScript running in a WKWebView is not affected.',
+      });
+    }
+
+    const library = findInFilesWith(lines, DLOPEN, WRITABLE_DIRECTORY) ?? findInFilesWith(lines, DLOPEN, NETWORK_FETCH);
+    if (library) {
+      issues.push({
+        id: 'dynamic-code-dlopen-downloaded',
+        title: 'dlopen of a downloaded library',
+        description:
+          `Target "${app.name}" calls dlopen with a computed path (${library.description}) in a file that downloads files or uses a writable directory. ` +
+          `Loading native code from outside the app bundle is not allowed. ${DOWNLOADED_CODE_RULES}`,
+        severity: 'error',
+        filePath: library.filePath,
+        lineNumber: library.lineNumber,
+        category: 'code',
+        guideline: 'Guideline 2.5.2 - Self-Contained Bundles',
+        suggestion: 'Link the library or embed it in the app bundle; only load libraries shipped inside the signed bundle.',
+      });
+    }
+
+    const bundle = findInFilesWith(lines, BUNDLE_FROM_PATH, WRITABLE_DIRECTORY);
+    if (bundle?.filePath) {
+      const load = findBundleLoad(bundle, lines.get(bundle.filePath) ?? []);
+      issues.push({
+        id: 'dynamic-code-downloaded-bundle',
+        title: load ? 'Executable code loaded from a downloaded bundle' : 'Bundle loaded from a writable directory',
+        description: load
+          ? `Target "${app.name}" creates a bundle from Documents, Caches or a temporary directory (${bundle.description}) and loads its code (${load.description}). ${DOWNLOADED_CODE_RULES}`
+          : `Target "${app.name}" creates a bundle from Documents, Caches or a temporary directory (${bundle.description}). ` +
+            'Reading resources from it is fine as long as no code is loaded from it.',
+        severity: load ? 'error' : 'info',
+        filePath: bundle.filePath,
+        lineNumber: bundle.lineNumber,
+        category: 'code',
+        guideline: 'Guideline 2.5.2 - Self-Contained Bundles',
+        suggestion: load
+          ? 'Ship code in the app bundle. Downloaded bundles may only provide resources such as images, fonts and localized strings.'
+          : 'Make sure only resources are read from the bundle; never call load() or principalClass on it.',
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * CodePush and Expo Updates. Allowed while updates only change the
+   * JavaScript bundle and assets, so reported for review rather than as a
+   * rejection.
+   */
+  private async checkOtaUpdates(
+    app: XcodeTarget,
+    dependencies: DeclaredDependency[],
+    lines: Map<string, string[]>,
+    binaryNames: string[]
+  ): Promise<Issue[]> {
+    const issues: Issue[] = [];
+    const configuration = await this.otaConfiguration(app);
+
+    for (const sdk of OTA_UPDATE_SDKS) {
+      const configured = configuration.get(sdk.name);
+      if (configured === false) {
+        continue;
+      }
+      const evidence =
+        configured ??
+        findDependency(dependencies, sdk.dependencies) ??
+        findInSources(lines, sdk.code) ??
+        findInBinary(app, binaryNames, sdk.binary);
+      if (!evidence) {
+        continue;
+      }
+      issues.push({
+        id: 'dynamic-code-ota-update',
+        title: `Over-the-air JavaScript updates: ${sdk.name}`,
+        description:
+          `Target "${app.name}" downloads JavaScript bundle updates with ${sdk.name} (${evidence.description}). ` +
+          'Updating the JavaScript bundle is allowed as long as updates do not change the primary purpose of the app or add features that were not reviewed.',
+        severity: 'info',
+        filePath: evidence.filePath,
+        lineNumber: evidence.lineNumber,
+        category: 'code',
+        guideline: 'Guideline 2.5.2 - Self-Contained Bundles',
+        suggestion:
+          'Limit over-the-air updates to bug fixes and content. Ship new features and native changes as app updates.',
+      });
+    }
+    return issues;
+  }
+
+  /**
+   * Update configuration in Info.plist (CodePush) and Expo.plist. Maps an
+   * SDK to where it is configured, or to false when updates are disabled.
+   */
+  private async otaConfiguration(app: XcodeTarget): Promise<Map<string, Evidence | false>> {
+    const configuration = new Map<string, Evidence | false>();
+
+    const infoPlist = app.infoPlistPath ?? (app.bundlePath ? path.join(app.bundlePath, 'Info.plist') : undefined);
+    const info = await readPlistObject(infoPlist);
+    if (typeof info?.['CodePushDeploymentKey'] === 'string' && infoPlist) {
+      configuration.set('CodePush', {
+        description: `CodePushDeploymentKey in ${path.basename(infoPlist)}`,
+        filePath: infoPlist,
+        match: 'CodePushDeploymentKey',
+      });
+    }
+
+    const expoPlist =
+      (app.resourceFiles ?? []).find((f) => path.basename(f) === 'Expo.plist') ??
+      (app.bundlePath ? path.join(app.bundlePath, 'Expo.plist') : undefined);
+    const expo = await readPlistObject(expoPlist);
+    if (expo?.['EXUpdatesEnabled'] === false) {
+      configuration.set('Expo Updates', false);
+    } else if (typeof expo?.['EXUpdatesURL'] === 'string' && expoPlist) {
+      configuration.set('Expo Updates', {
+        description: `EXUpdatesURL ${expo['EXUpdatesURL']} in Expo.plist`,
+        filePath: expoPlist,
+        match: expo['EXUpdatesURL'],
+      });
+    }
+
+    return configuration;
+  }
+}
+
+/**
+ * Where the executable of a bundle created from a path is loaded: load(),
+ * loadAndReturnError, principalClass or classNamed on the bundle itself or
+ * on the variable holding it
+ */
+function findBundleLoad(bundle: Evidence, fileLines: string[]): Evidence | undefined {
+  const line = fileLines[(bundle.lineNumber ?? 0) - 1] ?? '';
+  const chained = CHAINED_BUNDLE_LOAD.exec(line)?.[0];
+  if (chained) {
+    return {
+      ...bundle,
+      description: `${chained} in ${path.basename(bundle.filePath ?? '')}:${bundle.lineNumber}`,
+      match: chained,
+    };
+  }
+
+  const file = new Map([[bundle.filePath ?? '', fileLines]]);
+  const variable = BUNDLE_VARIABLE.exec(line)?.[1];
+  const load = variable
+    ? new RegExp(
+        `\\b${variable}\\s*[?!]?\\.(?:load\\s*\\(|loadAndReturnError\\b|principalClass\\b|classNamed\\b)|` +
+          `\\[${variable}\\s+(?:load|loadAndReturnError:|principalClass|classNamed:)`
+      )
+    : undefined;
+  return load ? findInSources(file, load) : undefined;
+}
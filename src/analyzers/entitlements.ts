@@ -1,10 +1,13 @@
-import { parsePlist, fileExists } from '../parsers/plist.js';
+import { parsePlist, fileExists, readPlistObject, stringArray } from '../parsers/plist.js';
+import { readMachO } from '../parsers/macho.js';
+import { SOURCE_EXTENSIONS, readSourceLines, findSourceLine, findFiles } from './shared.js';
 import type {
   Analyzer,
   AnalysisResult,
   AnalyzerOptions,
   Issue,
   XcodeProject,
+  XcodeTarget,
 } from '../types/index.js';
 
 /**
@@ -112,6 +115,18 @@ const ENTITLEMENT_INFO: Record<
   },
 };
 
+/**
+ * Code that receives universal links (UIKit/AppKit delegates and SwiftUI modifiers)
+ */
+const UNIVERSAL_LINK_HANDLER =
+  /NSUserActivityTypeBrowsingWeb|continueUserActivity|continue\s+userActivity|onContinueUserActivity|onOpenURL|webpageURL/;
+
+/**
+ * Code that presents Apple Pay
+ */
+const PASSKIT_USAGE =
+  /\bimport\s+PassKit\b|@import\s+PassKit\b|<PassKit\/|\bPKPayment(?:Request|AuthorizationController|AuthorizationViewController|Button)\b/;
+
 /**
  * Entitlements file analyzer
  */
@@ -123,10 +138,10 @@ export class EntitlementsAnalyzer implements Analyzer {
     const startTime = Date.now();
     const issues: Issue[] = [];
 
-    // Find app targets
+    // Find app and app extension targets: each is signed with its own entitlements
     const targets = options.targetName
       ? project.targets.filter((t) => t.name === options.targetName)
-      : project.targets.filter((t) => t.type === 'application');
+      : project.targets.filter((t) => t.type === 'application' || t.type === 'appExtension');
 
     for (const target of targets) {
       if (!target.entitlementsPath) {
@@ -156,8 +171,16 @@ export class EntitlementsAnalyzer implements Analyzer {
         continue;
       }
 
-      const entitlementIssues = await this.analyzeEntitlementsFile(entitlementsPath);
-      issues.push(...entitlementIssues);
+      let entitlements: Record<string, unknown>;
+      try {
+        entitlements = await parsePlist<Record<string, unknown>>(entitlementsPath);
+      } catch (error) {
+        issues.push(parseErrorIssue(entitlementsPath, error));
+        continue;
+      }
+
+      issues.push(...this.checkEntitlements(entitlementsPath, entitlements, target.configuration));
+      issues.push(...(await this.crossCheckTarget(project, target, entitlements, options)));
     }
 
     return {
@@ -169,26 +192,33 @@ export class EntitlementsAnalyzer implements Analyzer {
   }
 
   /**
-   * Analyze a specific entitlements file
+   * Analyze a specific entitlements file, optionally naming the build
+   * configuration it was resolved from
    */
-  async analyzeEntitlementsFile(entitlementsPath: string): Promise<Issue[]> {
-    const issues: Issue[] = [];
-
+  async analyzeEntitlementsFile(
+    entitlementsPath: string,
+    configuration?: string
+  ): Promise<Issue[]> {
     let entitlements: Record<string, unknown>;
     try {
       entitlements = await parsePlist<Record<string, unknown>>(entitlementsPath);
     } catch (error) {
-      issues.push({
-        id: 'entitlements-parse-error',
-        title: 'Failed to parse entitlements',
-        description: `Could not parse entitlements file: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        severity: 'error',
-        filePath: entitlementsPath,
-        category: 'entitlements',
-      });
-      return issues;
+      return [parseErrorIssue(entitlementsPath, error)];
     }
 
+    return this.checkEntitlements(entitlementsPath, entitlements, configuration);
+  }
+
+  /**
+   * Validate the format of each entitlement in a parsed entitlements file
+   */
+  private checkEntitlements(
+    entitlementsPath: string,
+    entitlements: Record<string, unknown>,
+    configuration?: string
+  ): Issue[] {
+    const issues: Issue[] = [];
+
     // Check for debug-only entitlements
     for (const [key, info] of Object.entries(ENTITLEMENT_INFO)) {
       if (info.debugOnly && key in entitlements) {
@@ -197,7 +227,7 @@ export class EntitlementsAnalyzer implements Analyzer {
           issues.push({
             id: `debug-entitlement-${key}`,
             title: `Debug entitlement present: ${key}`,
-            description: `The entitlement "${key}" (${info.description}) should not be present in release builds. This is typically handled by the signing process but verify your release configuration.`,
+            description: `The entitlement "${key}" (${info.description}) should not be present in release builds. This is typically handled by the signing process but verify your release configuration.${configuration ? ` Checked the "${configuration}" build configuration.` : ''}`,
             severity: 'warning',
             filePath: entitlementsPath,
             category: 'entitlements',
@@ -342,4 +372,190 @@ export class EntitlementsAnalyzer implements Analyzer {
 
     return issues;
   }
+
+  /**
+   * Check the target's entitlements for consistency with its Info.plist,
+   * its code and the entitlements of its app extensions
+   */
+  private async crossCheckTarget(
+    project: XcodeProject,
+    target: XcodeTarget,
+    entitlements: Record<string, unknown>,
+    options: AnalyzerOptions
+  ): Promise<Issue[]> {
+    const entitlementsPath = target.entitlementsPath;
+    if (!entitlementsPath || typeof entitlements !== 'object' || entitlements === null) {
+      return [];
+    }
+
+    const issues: Issue[] = [];
+    const infoPlist = (await readPlistObject(target.infoPlistPath)) ?? {};
+    const backgroundModes = Array.isArray(infoPlist['UIBackgroundModes'])
+      ? infoPlist['UIBackgroundModes']
+      : [];
+
+    // Push notifications and background delivery
+    const hasPush = typeof entitlements['aps-environment'] === 'string';
+    const hasRemoteNotificationMode = backgroundModes.includes('remote-notification');
+    if (hasPush && !hasRemoteNotificationMode) {
+      issues.push({
+        id: 'push-without-remote-notification-mode',
+        title: 'Push entitlement without remote-notification background mode',
+        description: `Target "${target.name}" has aps-environment but UIBackgroundModes does not include "remote-notification". Visible notifications work, but silent (content-available) pushes will not wake the app.`,
+        severity: 'info',
+        filePath: entitlementsPath,
+        category: 'entitlements',
+        suggestion: 'Add "remote-notification" to UIBackgroundModes if the app relies on background pushes.',
+      });
+    } else if (!hasPush && hasRemoteNotificationMode) {
+      issues.push({
+        id: 'remote-notification-mode-without-push',
+        title: 'remote-notification background mode without push entitlement',
+        description: `Target "${target.name}" declares the "remote-notification" background mode but its entitlements have no aps-environment, so it can never receive remote notifications.`,
+        severity: 'warning',
+        filePath: target.infoPlistPath ?? entitlementsPath,
+        category: 'entitlements',
+        suggestion: 'Enable the Push Notifications capability, or remove "remote-notification" from UIBackgroundModes.',
+      });
+    }
+
+    // HealthKit requires a purpose string for reading health data
+    if (entitlements['com.apple.developer.healthkit'] === true && !infoPlist['NSHealthShareUsageDescription']) {
+      issues.push({
+        id: 'healthkit-missing-usage-description',
+        title: 'HealthKit entitlement without NSHealthShareUsageDescription',
+        description: `Target "${target.name}" has the HealthKit entitlement but its Info.plist has no NSHealthShareUsageDescription. Requesting HealthKit authorization crashes without it.`,
+        severity: 'error',
+        filePath: target.infoPlistPath ?? entitlementsPath,
+        category: 'entitlements',
+        suggestion: 'Add NSHealthShareUsageDescription (and NSHealthUpdateUsageDescription when writing data) explaining how health data is used.',
+      });
+    }
+
+    // Capabilities that need matching code
+    const domains = entitlements['com.apple.developer.associated-domains'];
+    const hasAppLinks = Array.isArray(domains) && domains.some((d) => typeof d === 'string' && d.startsWith('applinks:'));
+    const hasApplePay = Array.isArray(entitlements['com.apple.developer.in-app-payments']);
+    if (hasAppLinks || hasApplePay) {
+      const usesCode = await this.codeMatcher(project, target, options);
+      if (usesCode && hasAppLinks && !usesCode(UNIVERSAL_LINK_HANDLER, /continueUserActivity|onOpenURL|onContinueUserActivity/)) {
+        issues.push({
+          id: 'associated-domains-without-handler',
+          title: 'Universal links configured but not handled',
+          description: `Target "${target.name}" declares applinks: associated domains, but no code handles incoming universal links (NSUserActivityTypeBrowsingWeb, continueUserActivity or onOpenURL). Links will open the app without navigating anywhere.`,
+          severity: 'warning',
+          filePath: entitlementsPath,
+          category: 'entitlements',
+          suggestion: 'Handle NSUserActivity in scene(_:continue:) / application(_:continue:restorationHandler:) or SwiftUI onContinueUserActivity / onOpenURL, or remove the applinks: entries.',
+        });
+      }
+      if (usesCode && hasApplePay && !usesCode(PASSKIT_USAGE, /PassKit\.framework/)) {
+        issues.push({
+          id: 'apple-pay-without-passkit',
+          title: 'Apple Pay entitlement without PassKit usage',
+          description: `Target "${target.name}" has Apple Pay merchant IDs (com.apple.developer.in-app-payments) but does not use PassKit to present payments.`,
+          severity: 'warning',
+          filePath: entitlementsPath,
+          category: 'entitlements',
+          suggestion: 'Remove the unused Apple Pay capability, or implement payments with PKPaymentRequest / PKPaymentAuthorizationController.',
+        });
+      }
+    }
+
+    issues.push(...(await this.checkExtensionAppGroups(project, target, entitlements)));
+
+    return issues;
+  }
+
+  /**
+   * App extensions can only share data with the app through App Groups both
+   * declare. Only groups an extension uses and the app lacks are reported:
+   * the app may declare groups it shares with other apps or extensions.
+   */
+  private async checkExtensionAppGroups(
+    project: XcodeProject,
+    app: XcodeTarget,
+    appEntitlements: Record<string, unknown>
+  ): Promise<Issue[]> {
+    if (app.type !== 'application') {
+      return [];
+    }
+
+    const issues: Issue[] = [];
+    const appGroups = stringArray(appEntitlements['com.apple.security.application-groups']);
+    const extensions = project.targets.filter(
+      (t) => t.type === 'appExtension' && (!app.dependencies?.length || app.dependencies.includes(t.name))
+    );
+
+    for (const extension of extensions) {
+      const entitlements = await readPlistObject(extension.entitlementsPath);
+      const extensionGroups = stringArray(entitlements?.['com.apple.security.application-groups']);
+      const unshared = extensionGroups.filter((group) => !appGroups.includes(group));
+      if (!extension.entitlementsPath || unshared.length === 0) {
+        continue;
+      }
+
+      issues.push({
+        id: 'app-group-mismatch',
+        title: `App Group not shared with the app: ${extension.name}`,
+        description: `Extension "${extension.name}" uses App Group(s) ${unshared.join(', ')} that "${app.name}" does not declare${appGroups.length > 0 ? ` (app uses ${appGroups.join(', ')})` : ''}. Data written to the group container is not visible to the app.`,
+        severity: 'warning',
+        filePath: extension.entitlementsPath,
+        category: 'entitlements',
+        suggestion: 'Use the same App Group identifier in the app and extension entitlements.',
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Build a matcher over the target's code: source files, or for built
+   * artifacts the executable's selectors, symbols and linked frameworks.
+   * Returns undefined when there is no code to inspect.
+   */
+  private async codeMatcher(
+    project: XcodeProject,
+    target: XcodeTarget,
+    options: AnalyzerOptions
+  ): Promise<((source: RegExp, binary: RegExp) => boolean) | undefined> {
+    if (project.artifact) {
+      if (!target.executablePath) {
+        return undefined;
+      }
+      try {
+        const names = (await readMachO(target.executablePath)).flatMap((image) => [
+          ...image.selectors,
+          ...image.undefinedSymbols,
+          ...image.linkedLibraries,
+        ]);
+        return (_source, binary) => names.some((name) => binary.test(name));
+      } catch {
+        return undefined;
+      }
+    }
+
+    // Extensions only count their own sources; the project-wide fallback
+    // belongs to the app
+    const files =
+      target.sourceFiles.length > 0 || target.type === 'appExtension'
+        ? target.sourceFiles
+        : await findFiles(options.basePath, SOURCE_EXTENSIONS);
+    const lines = await readSourceLines(files);
+    if (lines.size === 0) {
+      return undefined;
+    }
+    return (source) => findSourceLine(lines, source) !== undefined;
+  }
+}
+
+function parseErrorIssue(entitlementsPath: string, error: unknown): Issue {
+  return {
+    id: 'entitlements-parse-error',
+    title: 'Failed to parse entitlements',
+    description: `Could not parse entitlements file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    severity: 'error',
+    filePath: entitlementsPath,
+    category: 'entitlements',
+  };
 }
@@ -10,3 +10,15 @@ export { DeprecatedAPIAnalyzer } from './deprecated-api.js';
 export { PrivateAPIAnalyzer } from './private-api.js';
 export { SecurityAnalyzer } from './security.js';
 export { UIUXAnalyzer } from './ui-ux.js';
+export { ThirdPartySDKAnalyzer } from './third-party-sdks.js';
+export { DependencyAnalyzer } from './dependencies.js';
+export { ProvisioningAnalyzer } from './provisioning.js';
+export { WatchOSAnalyzer } from './watchos.js';
+export { AppClipAnalyzer } from './app-clip.js';
+export { LocalizationAnalyzer } from './localization.js';
+export { InterfaceBuilderAnalyzer } from './interface-builder.js';
+export { SignInWithAppleAnalyzer } from './sign-in-with-apple.js';
+export { AccountDeletionAnalyzer } from './account-deletion.js';
+export { PaymentsAnalyzer } from './payments.js';
+export { DynamicCodeAnalyzer } from './dynamic-code.js';
+export { UserGeneratedContentAnalyzer } from './user-generated-content.js';
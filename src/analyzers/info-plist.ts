@@ -1,10 +1,13 @@
-import { parsePlist, fileExists } from '../parsers/plist.js';
+import { parsePlist, fileExists, isRecord } from '../parsers/plist.js';
+import { expandBuildSettingValue, targetBuildSettings } from '../parsers/build-settings.js';
 import type {
   Analyzer,
   AnalysisResult,
   AnalyzerOptions,
   Issue,
   XcodeProject,
+  XcodeTarget,
+  TargetType,
   InfoPlist,
 } from '../types/index.js';
 
@@ -114,6 +117,58 @@ const PRIVACY_KEYS: Record<string, { description: string; frameworks: string[] }
   },
 };
 
+/**
+ * Extension points App Store apps can ship (NSExtensionPointIdentifier)
+ */
+const KNOWN_EXTENSION_POINTS = new Set([
+  'com.apple.widgetkit-extension',
+  'com.apple.widget-extension',
+  'com.apple.usernotifications.service',
+  'com.apple.usernotifications.content-extension',
+  'com.apple.share-services',
+  'com.apple.ui-services',
+  'com.apple.services',
+  'com.apple.intents-service',
+  'com.apple.intents-ui-service',
+  'com.apple.appintents-extension',
+  'com.apple.keyboard-service',
+  'com.apple.photo-editing',
+  'com.apple.fileprovider-nonui',
+  'com.apple.fileprovider-actionsui',
+  'com.apple.broadcast-services-upload',
+  'com.apple.broadcast-services-setupui',
+  'com.apple.callkit.call-directory',
+  'com.apple.message-payload-provider',
+  'com.apple.Safari.content-blocker',
+  'com.apple.Safari.web-extension',
+  'com.apple.authentication-services-credential-provider-ui',
+  'com.apple.authentication-services-account-authentication-modification-ui',
+  'com.apple.classkit.context-provider',
+  'com.apple.spotlight.import',
+  'com.apple.spotlight.index',
+  'com.apple.quicklook.preview',
+  'com.apple.quicklook.thumbnail',
+  'com.apple.identitylookup.message-filter',
+  'com.apple.identitylookup.classification-ui',
+  'com.apple.networkextension.packet-tunnel',
+  'com.apple.networkextension.app-proxy',
+  'com.apple.networkextension.dns-proxy',
+  'com.apple.networkextension.filter-data',
+  'com.apple.networkextension.filter-control',
+  'com.apple.location.push.service',
+  'com.apple.deviceactivity.monitor-extension',
+  'com.apple.deviceactivityui.report-extension',
+  'com.apple.ManagedSettings.shield-action-service',
+  'com.apple.ManagedSettingsUI.shield-configuration-service',
+  'com.apple.background-asset-downloader-extension',
+  'com.apple.usernotifications.communication',
+]);
+
+/**
+ * Extension points whose NSExtensionActivationRule decides when they are offered
+ */
+const ACTIVATION_RULE_EXTENSION_POINTS = new Set(['com.apple.share-services', 'com.apple.ui-services']);
+
 /**
  * Analyzer for Info.plist files
  */
@@ -125,10 +180,10 @@ export class InfoPlistAnalyzer implements Analyzer {
     const startTime = Date.now();
     const issues: Issue[] = [];
 
-    // Find app targets
+    // Find app and app extension targets
     const targets = options.targetName
       ? project.targets.filter((t) => t.name === options.targetName)
-      : project.targets.filter((t) => t.type === 'application');
+      : project.targets.filter((t) => t.type === 'application' || t.type === 'appExtension');
 
     if (targets.length === 0) {
       issues.push({
@@ -175,7 +230,7 @@ export class InfoPlistAnalyzer implements Analyzer {
         continue;
       }
 
-      const plistIssues = await this.analyzePlistFile(plistPath);
+      const plistIssues = await this.analyzePlistFile(plistPath, project, target);
       issues.push(...plistIssues);
     }
 
@@ -222,9 +277,14 @@ export class InfoPlistAnalyzer implements Analyzer {
   }
 
   /**
-   * Analyze a plist file and return issues
+   * Analyze a plist file and return issues. App extension targets are also
+   * checked against their host app.
    */
-  private async analyzePlistFile(plistPath: string): Promise<Issue[]> {
+  private async analyzePlistFile(
+    plistPath: string,
+    project?: XcodeProject,
+    target?: XcodeTarget
+  ): Promise<Issue[]> {
     const issues: Issue[] = [];
 
     let plist: InfoPlist;
@@ -317,7 +377,8 @@ export class InfoPlistAnalyzer implements Analyzer {
       plist['UILaunchScreen'] ??
       plist['UILaunchStoryboardName~ipad'];
 
-    if (!hasLaunchScreen) {
+    const isExtension = target?.type === 'appExtension';
+    if (!hasLaunchScreen && !isExtension) {
       issues.push({
         id: 'missing-launch-screen',
         title: 'Missing launch screen',
@@ -384,6 +445,145 @@ export class InfoPlistAnalyzer implements Analyzer {
       }
     }
 
+    if (project && target && isExtension) {
+      issues.push(...this.checkExtensionPoint(plist, plistPath));
+      issues.push(...(await this.checkExtensionHost(project, target, plist, plistPath)));
+    }
+
+    return issues;
+  }
+
+  /**
+   * Validate the NSExtension dictionary of an app extension
+   */
+  private checkExtensionPoint(plist: InfoPlist, plistPath: string): Issue[] {
+    const extension = plist['NSExtension'];
+    if (!isRecord(extension)) {
+      // ExtensionKit extensions declare their point under EXAppExtensionAttributes
+      if (isRecord(plist['EXAppExtensionAttributes'])) {
+        return [];
+      }
+      return [
+        {
+          id: 'missing-nsextension',
+          title: 'Missing NSExtension dictionary',
+          description: 'The app extension Info.plist has no NSExtension dictionary, so the system cannot load the extension. App Store Connect rejects extensions without it.',
+          severity: 'error',
+          filePath: plistPath,
+          category: 'info-plist',
+          suggestion: 'Add an NSExtension dictionary with NSExtensionPointIdentifier and the principal class or storyboard.',
+        },
+      ];
+    }
+
+    const pointIdentifier = extension['NSExtensionPointIdentifier'];
+    if (typeof pointIdentifier !== 'string' || pointIdentifier === '') {
+      return [
+        {
+          id: 'missing-extension-point-identifier',
+          title: 'Missing NSExtensionPointIdentifier',
+          description: 'The NSExtension dictionary does not declare NSExtensionPointIdentifier.',
+          severity: 'error',
+          filePath: plistPath,
+          category: 'info-plist',
+          suggestion: 'Set NSExtensionPointIdentifier to the extension point this extension implements (e.g. com.apple.widgetkit-extension).',
+        },
+      ];
+    }
+
+    const issues: Issue[] = [];
+    if (!KNOWN_EXTENSION_POINTS.has(pointIdentifier)) {
+      issues.push({
+        id: 'unknown-extension-point-identifier',
+        title: `Unrecognized extension point: ${pointIdentifier}`,
+        description: `NSExtensionPointIdentifier "${pointIdentifier}" is not a known iOS extension point. A misspelled identifier makes the extension unusable.`,
+        severity: 'warning',
+        filePath: plistPath,
+        category: 'info-plist',
+        suggestion: 'Check the identifier against the extension target template in Xcode.',
+      });
+    }
+
+    const attributes = extension['NSExtensionAttributes'];
+    const activationRule = isRecord(attributes) ? attributes['NSExtensionActivationRule'] : undefined;
+    if (
+      ACTIVATION_RULE_EXTENSION_POINTS.has(pointIdentifier) &&
+      typeof activationRule === 'string' &&
+      activationRule.trim() === 'TRUEPREDICATE'
+    ) {
+      issues.push({
+        id: 'extension-activation-rule-truepredicate',
+        title: 'Extension activation rule is TRUEPREDICATE',
+        description: 'NSExtensionActivationRule is TRUEPREDICATE, which offers the extension for every item. It is only meant for development and App Store Connect rejects builds that ship it.',
+        severity: 'error',
+        filePath: plistPath,
+        category: 'info-plist',
+        suggestion: 'Replace it with an activation rule dictionary (e.g. NSExtensionActivationSupportsImageWithMaxCount) or a predicate for the supported types.',
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * An extension's bundle identifier must be prefixed by its host app's, and
+   * its version and build number must match the host app's
+   */
+  private async checkExtensionHost(
+    project: XcodeProject,
+    extension: XcodeTarget,
+    plist: InfoPlist,
+    plistPath: string
+  ): Promise<Issue[]> {
+    const host = findHostApp(project, extension);
+    if (!host) {
+      return [];
+    }
+
+    let hostPlist: InfoPlist = {};
+    if (host.infoPlistPath) {
+      try {
+        hostPlist = await parsePlist<InfoPlist>(host.infoPlistPath);
+      } catch {
+        // Reported when the host target is analyzed
+      }
+    }
+
+    const issues: Issue[] = [];
+    const bundleId = resolvePlistValue(extension, plist, 'CFBundleIdentifier', 'PRODUCT_BUNDLE_IDENTIFIER');
+    const hostBundleId = resolvePlistValue(host, hostPlist, 'CFBundleIdentifier', 'PRODUCT_BUNDLE_IDENTIFIER');
+    if (bundleId && hostBundleId && !bundleId.startsWith(`${hostBundleId}.`)) {
+      issues.push({
+        id: 'extension-bundle-id-prefix',
+        title: `Extension bundle ID not prefixed by the app's: ${extension.name}`,
+        description: `The bundle identifier "${bundleId}" of "${extension.name}" does not start with "${hostBundleId}.", the bundle identifier of "${host.name}". App Store Connect rejects apps whose extensions are not namespaced under the app.`,
+        severity: 'error',
+        filePath: plistPath,
+        category: 'info-plist',
+        suggestion: `Set PRODUCT_BUNDLE_IDENTIFIER of the extension to "${hostBundleId}.<ExtensionName>".`,
+      });
+    }
+
+    const versionKeys = [
+      ['CFBundleShortVersionString', 'MARKETING_VERSION', 'version'],
+      ['CFBundleVersion', 'CURRENT_PROJECT_VERSION', 'build number'],
+    ] as const;
+    for (const [key, setting, label] of versionKeys) {
+      const value = resolvePlistValue(extension, plist, key, setting);
+      const hostValue = resolvePlistValue(host, hostPlist, key, setting);
+      if (value && hostValue && value !== hostValue) {
+        issues.push({
+          id: `extension-${key.toLowerCase()}-mismatch`,
+          title: `Extension ${label} does not match the app: ${extension.name}`,
+          description: `${key} of "${extension.name}" is "${value}" but "${host.name}" uses "${hostValue}". App Store Connect flags extensions whose ${key} differs from the containing app (ITMS-90473).`,
+          severity: 'error',
+          filePath: plistPath,
+          category: 'info-plist',
+          suggestion: `Use $(${setting}) for ${key} in every target and set ${setting} once at the project level.`,
+        });
+      }
+    }
+
     return issues;
   }
 
@@ -407,3 +607,33 @@ export class InfoPlistAnalyzer implements Analyzer {
     return placeholderPatterns.some((pattern) => pattern.test(text));
   }
 }
+
+/**
+ * The target embedding an extension or watch app: the `hostType` target that
+ * depends on it, or the only target of that type
+ */
+export function findHostApp(
+  project: XcodeProject,
+  embedded: XcodeTarget,
+  hostType: TargetType = 'application'
+): XcodeTarget | undefined {
+  const hosts = project.targets.filter((t) => t.type === hostType);
+  return hosts.find((t) => t.dependencies?.includes(embedded.name)) ?? (hosts.length === 1 ? hosts[0] : undefined);
+}
+
+/**
+ * Read an Info.plist value, falling back to the build setting that generates
+ * it, with build setting references expanded. Returns undefined when the value
+ * cannot be resolved statically.
+ */
+export function resolvePlistValue(
+  target: XcodeTarget,
+  plist: InfoPlist,
+  key: string,
+  setting: string
+): string | undefined {
+  const settings = targetBuildSettings(target);
+  const raw = plist[key];
+  const value = typeof raw === 'string' ? expandBuildSettingValue(raw, settings) : settings[setting];
+  return value && !value.includes('$') ? value : undefined;
+}
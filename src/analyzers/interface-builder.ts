@@ -0,0 +1,556 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import fg from 'fast-glob';
+import { parsePlist } from '../parsers/plist.js';
+import {
+  parseInterfaceBuilderFile,
+  walkElements,
+  childElements,
+  type IBDocument,
+  type IBElement,
+} from '../parsers/interface-builder.js';
+import { SOURCE_EXTENSIONS } from './shared.js';
+import type {
+  Analyzer,
+  AnalysisResult,
+  AnalyzerOptions,
+  Issue,
+  XcodeProject,
+  XcodeTarget,
+  InfoPlist,
+} from '../types/index.js';
+
+/**
+ * Outlets declared by UIKit classes, connected without app code
+ */
+const UIKIT_OUTLETS = new Set([
+  'view',
+  'delegate',
+  'dataSource',
+  'tableView',
+  'collectionView',
+  'searchDisplayController',
+  'inputView',
+  'inputAccessoryView',
+  'backgroundView',
+  'selectedBackgroundView',
+  'gestureRecognizers',
+]);
+
+/** UIKit and Foundation classes, such as UIResponder on the First Responder placeholder */
+const FRAMEWORK_CLASS_PATTERN = /^(?:UI|NS)[A-Z]/;
+
+/** Swift keywords that can follow `class` */
+const NON_CLASS_NAMES = new Set(['func', 'var', 'let', 'subscript', 'protocol', 'init', 'deinit', 'override', 'final', 'public', 'open']);
+
+/**
+ * A class declared in the project's sources
+ */
+interface SourceClass {
+  superclass?: string | undefined;
+  /** Files declaring the class or extending it */
+  files: Set<string>;
+}
+
+interface SourceIndex {
+  classes: Map<string, SourceClass>;
+  /** Property names declared in each file */
+  properties: Map<string, Set<string>>;
+}
+
+/**
+ * Analyzer for storyboards and XIBs
+ */
+export class InterfaceBuilderAnalyzer implements Analyzer {
+  name = 'Interface Builder Analyzer';
+  description = 'Checks storyboards and XIBs for accessibility, Dynamic Type, broken connections and launch screen rules';
+
+  async analyze(project: XcodeProject, options: AnalyzerOptions): Promise<AnalysisResult> {
+    const startTime = Date.now();
+    const issues: Issue[] = [];
+
+    const targets = project.targets.filter(
+      (t) =>
+        (t.type === 'application' || t.type === 'appExtension' || t.type === 'appClip') &&
+        (!options.targetName || t.name === options.targetName)
+    );
+
+    let files = interfaceBuilderFiles(targets.flatMap((t) => t.resourceFiles ?? []));
+    if (files.length === 0 && !project.artifact) {
+      files = await fg(['**/*.storyboard', '**/*.xib'], {
+        cwd: options.basePath,
+        absolute: true,
+        ignore: ['**/Pods/**', '**/Carthage/**', '**/build/**', '**/DerivedData/**', '**/.build/**'],
+      });
+    }
+    if (files.length === 0) {
+      return { analyzer: this.name, passed: true, issues, duration: Date.now() - startTime };
+    }
+
+    const storyboards = new Set(
+      interfaceBuilderFiles(project.targets.flatMap((t) => t.resourceFiles ?? []))
+        .concat(files)
+        .filter((f) => f.endsWith('.storyboard'))
+        .map((f) => path.basename(f, '.storyboard'))
+    );
+    const launchScreens = await this.launchScreenNames(targets);
+    const sources = await indexSources(await this.findSourceFiles(project, options.basePath));
+
+    for (const filePath of files.sort()) {
+      let document: IBDocument;
+      try {
+        document = await parseInterfaceBuilderFile(filePath);
+      } catch (error) {
+        issues.push({
+          id: 'ib-invalid-document',
+          title: `Invalid Interface Builder document: ${path.basename(filePath)}`,
+          description: `Failed to parse ${filePath}: ${error instanceof Error ? error.message : String(error)}. Xcode cannot compile a malformed storyboard or XIB.`,
+          severity: 'error',
+          filePath,
+          category: 'ui-ux',
+          suggestion: 'Resolve merge conflicts or restore the file from version control, then reopen it in Interface Builder.',
+        });
+        continue;
+      }
+
+      // watchOS and macOS documents use different classes
+      if (!document.type.includes('CocoaTouch')) {
+        continue;
+      }
+
+      const isLaunchScreen =
+        document.launchScreen || launchScreens.has(path.basename(filePath, path.extname(filePath)));
+      if (isLaunchScreen) {
+        issues.push(...this.checkLaunchScreen(filePath, document));
+        continue;
+      }
+
+      issues.push(...this.checkAccessibility(filePath, document));
+      issues.push(...this.checkFonts(filePath, document));
+      issues.push(...this.checkConnections(filePath, document, storyboards));
+      if (sources.classes.size > 0) {
+        issues.push(...this.checkClasses(filePath, document, sources));
+      }
+    }
+
+    return {
+      analyzer: this.name,
+      passed: issues.filter((i) => i.severity === 'error').length === 0,
+      issues,
+      duration: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Launch screens are displayed by the system before the app runs, so they
+   * cannot use the app's classes
+   */
+  private checkLaunchScreen(filePath: string, document: IBDocument): Issue[] {
+    const issues: Issue[] = [];
+    walkElements(document.root, (element) => {
+      const customClass = element.attributes['customClass'];
+      // File's Owner and First Responder are not rendered
+      if (customClass && element.tag !== 'placeholder' && !FRAMEWORK_CLASS_PATTERN.test(customClass)) {
+        issues.push({
+          id: 'ib-launch-screen-custom-class',
+          title: `Launch screen uses custom class ${customClass}`,
+          description: `The <${element.tag}> in ${path.basename(filePath)} has custom class "${customClass}". Launch screens are rendered without running app code, so custom classes are not allowed and the screen may appear blank.`,
+          severity: 'error',
+          filePath,
+          lineNumber: element.lineNumber,
+          category: 'ui-ux',
+          guideline: 'Guideline 4.6 - Launch Screen',
+          suggestion: 'Use only standard UIKit views and controllers in the launch screen; move custom drawing to the first screen of the app.',
+        });
+      }
+    });
+    return issues;
+  }
+
+  /**
+   * Images and buttons VoiceOver cannot describe
+   */
+  private checkAccessibility(filePath: string, document: IBDocument): Issue[] {
+    const issues: Issue[] = [];
+    // Code connected through an outlet may configure the element itself
+    const outletTargets = new Set(
+      document.connections.filter((c) => c.kind === 'outlet').map((c) => c.destination)
+    );
+
+    walkElements(document.root, (element) => {
+      const id = element.attributes['id'];
+      if (
+        (element.tag !== 'imageView' && element.tag !== 'button') ||
+        (id !== undefined && outletTargets.has(id)) ||
+        hasAccessibilityLabel(element)
+      ) {
+        return;
+      }
+
+      const isElement = accessibilityElementSetting(element);
+      if (element.tag === 'imageView') {
+        // Image views are hidden from VoiceOver unless enabled or made tappable
+        const tappable =
+          element.attributes['userInteractionEnabled'] === 'YES' ||
+          document.connections.some((c) => c.source === element && c.kind === 'outletCollection');
+        if (isElement === true || (tappable && isElement !== false)) {
+          issues.push({
+            id: 'ib-image-missing-accessibility-label',
+            title: `Image without accessibility label${element.attributes['image'] ? `: ${element.attributes['image']}` : ''}`,
+            description: `An ${tappable ? 'interactive ' : ''}image view in ${path.basename(filePath)} is exposed to VoiceOver without a label, so VoiceOver reads the image name or nothing.`,
+            severity: 'warning',
+            filePath,
+            lineNumber: element.lineNumber,
+            category: 'ui-ux',
+            guideline: 'Guideline 2.5.1 - Accessibility',
+            suggestion: 'Set a Label in the Accessibility section of the Identity inspector.',
+          });
+        }
+        return;
+      }
+
+      if (isElement !== false && !hasButtonTitle(element)) {
+        issues.push({
+          id: 'ib-button-missing-accessibility-label',
+          title: 'Button without title or accessibility label',
+          description: `A button in ${path.basename(filePath)} has no title and no accessibility label. VoiceOver announces it as "button" or by its image name.`,
+          severity: 'warning',
+          filePath,
+          lineNumber: element.lineNumber,
+          category: 'ui-ux',
+          guideline: 'Guideline 2.5.1 - Accessibility',
+          suggestion: 'Set a Label in the Accessibility section of the Identity inspector describing the action.',
+        });
+      }
+    });
+
+    return issues;
+  }
+
+  /**
+   * Labels with fixed-size fonts that do not scale with Dynamic Type
+   */
+  private checkFonts(filePath: string, document: IBDocument): Issue[] {
+    const fixed: IBElement[] = [];
+    walkElements(document.root, (element) => {
+      if (element.tag !== 'label' || element.attributes['adjustsFontForContentSizeCategory'] === 'YES') {
+        return;
+      }
+      const font = element.children.find((c) => c.tag === 'fontDescription');
+      if (font && !font.attributes['style']) {
+        fixed.push(element);
+      }
+    });
+
+    if (fixed.length === 0) {
+      return [];
+    }
+    return [
+      {
+        id: 'ib-fixed-font-size',
+        title: `${fixed.length} label(s) with fixed font sizes: ${path.basename(filePath)}`,
+        description: `${fixed.length} label(s) use a fixed point size without "Automatically Adjusts Font" (adjustsFontForContentSizeCategory), so their text ignores the user's Dynamic Type setting.`,
+        severity: 'info',
+        filePath,
+        lineNumber: fixed[0]?.lineNumber,
+        category: 'ui-ux',
+        guideline: 'Guideline 2.5.1 - Accessibility',
+        suggestion: 'Use a text style font (e.g. Body, Headline) and enable "Automatically Adjusts Font" in the Attributes inspector.',
+      },
+    ];
+  }
+
+  /**
+   * Outlets, actions and segues pointing at objects or storyboards that do
+   * not exist
+   */
+  private checkConnections(filePath: string, document: IBDocument, storyboards: Set<string>): Issue[] {
+    const issues: Issue[] = [];
+
+    for (const connection of document.connections) {
+      const { destination, element } = connection;
+      if (destination !== undefined && document.objects.has(destination)) {
+        continue;
+      }
+      const name = element.attributes['property'] ?? element.attributes['selector'] ?? element.attributes['identifier'] ?? connection.kind;
+      issues.push({
+        id: 'ib-broken-connection',
+        title: `Broken ${connection.kind}: ${name}`,
+        description: `The ${connection.kind} "${name}" in ${path.basename(filePath)} points to object "${destination ?? ''}", which does not exist in the document. This usually follows a bad merge and fails at compile time or when the scene loads.`,
+        severity: 'error',
+        filePath,
+        lineNumber: element.lineNumber,
+        category: 'ui-ux',
+        suggestion: 'Delete the connection in the Connections inspector and reconnect it.',
+      });
+    }
+
+    walkElements(document.root, (element) => {
+      const storyboardName = element.attributes['storyboardName'];
+      if (
+        element.tag === 'viewControllerPlaceholder' &&
+        storyboardName &&
+        !element.attributes['bundleIdentifier'] &&
+        !storyboards.has(storyboardName)
+      ) {
+        issues.push({
+          id: 'ib-missing-storyboard-reference',
+          title: `Storyboard reference to missing storyboard: ${storyboardName}`,
+          description: `A storyboard reference in ${path.basename(filePath)} points to "${storyboardName}.storyboard", which is not in the project. Segues to it crash at runtime.`,
+          severity: 'error',
+          filePath,
+          lineNumber: element.lineNumber,
+          category: 'ui-ux',
+          suggestion: `Add ${storyboardName}.storyboard to the target or update the storyboard reference.`,
+        });
+      }
+    });
+
+    return issues;
+  }
+
+  /**
+   * Custom classes and outlet properties that the project's sources do not
+   * declare
+   */
+  private checkClasses(filePath: string, document: IBDocument, sources: SourceIndex): Issue[] {
+    const issues: Issue[] = [];
+
+    walkElements(document.root, (element) => {
+      const customClass = element.attributes['customClass'];
+      if (!customClass || !isProjectClass(element)) {
+        return;
+      }
+
+      const outlets = document.connections.filter(
+        (c) => c.source === element && (c.kind === 'outlet' || c.kind === 'outletCollection')
+      );
+
+      if (!sources.classes.has(customClass)) {
+        issues.push({
+          id: 'ib-unknown-custom-class',
+          title: `Unknown class in Interface Builder: ${customClass}`,
+          description: `${path.basename(filePath)} uses custom class "${customClass}", which is not declared in the project's sources. UIKit logs "Unknown class ${customClass} in Interface Builder file" and falls back to the base class${outlets.length > 0 ? `; setting its outlets then crashes with "not key value coding-compliant"` : ''}.`,
+          severity: outlets.length > 0 ? 'error' : 'warning',
+          filePath,
+          lineNumber: element.lineNumber,
+          category: 'ui-ux',
+          suggestion: 'Fix the class name in the Identity inspector, or add the file declaring it to the target. For Swift classes, check the Module setting.',
+        });
+        return;
+      }
+
+      const declared = declaredProperties(customClass, sources);
+      if (!declared) {
+        return;
+      }
+      for (const outlet of outlets) {
+        const property = outlet.element.attributes['property'];
+        if (property && !declared.has(property) && !UIKIT_OUTLETS.has(property)) {
+          issues.push({
+            id: 'ib-missing-outlet-property',
+            title: `Outlet ${property} not declared on ${customClass}`,
+            description: `${path.basename(filePath)} connects outlet "${property}", but ${customClass} has no such property. Loading the ${document.kind} crashes with "this class is not key value coding-compliant for the key ${property}".`,
+            severity: 'error',
+            filePath,
+            lineNumber: outlet.element.lineNumber,
+            category: 'ui-ux',
+            suggestion: `Remove the stale outlet in the Connections inspector or declare @IBOutlet ${property} on ${customClass}.`,
+          });
+        }
+      }
+    });
+
+    return issues;
+  }
+
+  /**
+   * Storyboard names from UILaunchStoryboardName
+   */
+  private async launchScreenNames(targets: XcodeTarget[]): Promise<Set<string>> {
+    const names = new Set<string>();
+    for (const target of targets) {
+      if (!target.infoPlistPath) {
+        continue;
+      }
+      try {
+        const plist = await parsePlist<InfoPlist>(target.infoPlistPath);
+        const name = plist['UILaunchStoryboardName'];
+        if (typeof name === 'string') {
+          names.add(name);
+        }
+      } catch {
+        // Reported by the Info.plist analyzer
+      }
+    }
+    return names;
+  }
+
+  /**
+   * Swift and Objective-C sources of every target, with the headers next to
+   * Objective-C implementation files
+   */
+  private async findSourceFiles(project: XcodeProject, basePath: string): Promise<string[]> {
+    const files = project.targets
+      .flatMap((t) => t.sourceFiles)
+      .filter((f) => SOURCE_EXTENSIONS.has(path.extname(f)));
+    if (files.length === 0) {
+      return project.artifact
+        ? []
+        : fg(['**/*.swift', '**/*.m', '**/*.mm', '**/*.h'], {
+            cwd: basePath,
+            absolute: true,
+            ignore: ['**/Pods/**', '**/Carthage/**', '**/build/**', '**/DerivedData/**', '**/.build/**'],
+          });
+    }
+
+    const headers = files
+      .filter((f) => f.endsWith('.m') || f.endsWith('.mm'))
+      .map((f) => f.replace(/\.mm?$/, '.h'));
+    return Array.from(new Set([...files, ...headers]));
+  }
+}
+
+/**
+ * Storyboards and XIBs among a target's resources
+ */
+function interfaceBuilderFiles(files: string[]): string[] {
+  return Array.from(new Set(files.filter((f) => f.endsWith('.storyboard') || f.endsWith('.xib'))));
+}
+
+/**
+ * A custom class from the app's own module: no module set (Objective-C or
+ * `@objc` names) or "Inherit Module From Target". Framework classes and the
+ * First Responder placeholder, which every XIB has, are not.
+ */
+function isProjectClass(element: IBElement): boolean {
+  const customClass = element.attributes['customClass'] ?? '';
+  if (FRAMEWORK_CLASS_PATTERN.test(customClass) || element.attributes['placeholderIdentifier'] === 'IBFirstResponder') {
+    return false;
+  }
+  return !element.attributes['customModule'] || element.attributes['customModuleProvider'] === 'target';
+}
+
+function accessibilityConfiguration(element: IBElement): IBElement | undefined {
+  return element.children.find(
+    (c) => c.tag === 'accessibility' && c.attributes['key'] === 'accessibilityConfiguration'
+  );
+}
+
+function hasAccessibilityLabel(element: IBElement): boolean {
+  if (accessibilityConfiguration(element)?.attributes['label']?.trim()) {
+    return true;
+  }
+  return childElements(element, 'userDefinedRuntimeAttributes')
+    .flatMap((attributes) => attributes.children)
+    .some((attribute) => attribute.attributes['keyPath'] === 'accessibilityLabel');
+}
+
+/**
+ * The "Accessibility Enabled" checkbox, when set explicitly
+ */
+function accessibilityElementSetting(element: IBElement): boolean | undefined {
+  const setting = accessibilityConfiguration(element)?.children.find(
+    (c) => c.tag === 'bool' && c.attributes['key'] === 'isElement'
+  );
+  return setting ? setting.attributes['value'] === 'YES' : undefined;
+}
+
+/**
+ * Titles from `<state>`, iOS 15 button configurations or attributed titles
+ */
+function hasButtonTitle(button: IBElement): boolean {
+  if (button.attributes['title']?.trim()) {
+    return true;
+  }
+  return button.children.some(
+    (child) =>
+      ((child.tag === 'state' || child.tag === 'buttonConfiguration') && !!child.attributes['title']?.trim()) ||
+      child.children.some((c) => c.tag === 'attributedString' && c.attributes['key'] === 'attributedTitle')
+  );
+}
+
+/**
+ * Properties declared by a class and its superclasses in the project, or
+ * undefined when the chain ends in a class from another module that may
+ * declare the outlet
+ */
+function declaredProperties(className: string, sources: SourceIndex): Set<string> | undefined {
+  const properties = new Set<string>();
+  const visited = new Set<string>();
+  let current: string | undefined = className;
+
+  while (current && !visited.has(current)) {
+    visited.add(current);
+    const declaration = sources.classes.get(current);
+    if (!declaration) {
+      return /^(?:UI|NS)/.test(current) ? properties : undefined;
+    }
+    for (const file of declaration.files) {
+      sources.properties.get(file)?.forEach((p) => properties.add(p));
+    }
+    current = declaration.superclass;
+  }
+
+  return properties;
+}
+
+/**
+ * Index class declarations and property names in Swift and Objective-C
+ * sources
+ */
+async function indexSources(files: string[]): Promise<SourceIndex> {
+  const classes = new Map<string, SourceClass>();
+  const properties = new Map<string, Set<string>>();
+
+  const declare = (name: string, file: string, superclass?: string): void => {
+    const declaration = classes.get(name) ?? { files: new Set<string>() };
+    declaration.files.add(file);
+    declaration.superclass ??= superclass;
+    classes.set(name, declaration);
+  };
+
+  for (const file of files) {
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf-8');
+    } catch {
+      // Headers inferred from implementation files may not exist
+      continue;
+    }
+
+    const names = new Set<string>();
+    if (file.endsWith('.swift')) {
+      for (const match of content.matchAll(/\bclass\s+([A-Za-z_]\w*)(?:\s*<[^>{]*>)?(?:\s*:\s*([A-Za-z_][\w.]*))?/g)) {
+        if (match[1] && !NON_CLASS_NAMES.has(match[1])) {
+          declare(match[1], file, match[2]?.split('.').pop());
+        }
+      }
+      for (const match of content.matchAll(/@objc\((\w+)\)\s*(?:(?:public|open|final|internal)\s+)*class\s+(\w+)/g)) {
+        if (match[1]) {
+          declare(match[1], file, classes.get(match[2] ?? '')?.superclass);
+        }
+      }
+      for (const match of content.matchAll(/\bextension\s+([A-Za-z_]\w*)/g)) {
+        if (match[1] && classes.has(match[1])) {
+          declare(match[1], file);
+        }
+      }
+      for (const match of content.matchAll(/\b(?:var|let)\s+([A-Za-z_]\w*)/g)) {
+        names.add(match[1] ?? '');
+      }
+    } else {
+      for (const match of content.matchAll(/@(?:interface|implementation)\s+(\w+)(?:\s*:\s*(\w+))?/g)) {
+        if (match[1]) {
+          declare(match[1], file, match[2]);
+        }
+      }
+      for (const match of content.matchAll(/(?:@property|IBOutlet)[^;]*?(\w+)\s*;/g)) {
+        names.add(match[1] ?? '');
+      }
+    }
+    properties.set(file, names);
+  }
+
+  return { classes, properties };
+}
@@ -0,0 +1,530 @@
+import * as path from 'path';
+import fg from 'fast-glob';
+import { readPlistObject } from '../parsers/plist.js';
+import { targetBuildSettings } from '../parsers/build-settings.js';
+import {
+  parseStringsFile,
+  parseStringsdictFile,
+  parseStringCatalog,
+  type LocalizedString,
+  type StringCatalog,
+} from '../parsers/strings.js';
+import { resolvePlistValue } from './info-plist.js';
+import type {
+  Analyzer,
+  AnalysisResult,
+  AnalyzerOptions,
+  Issue,
+  XcodeProject,
+  XcodeTarget,
+  InfoPlist,
+} from '../types/index.js';
+
+/** Table holding the localized Info.plist values */
+const INFO_PLIST_TABLE = 'InfoPlist';
+
+/** Keys listed in a single issue before the rest are summarized */
+const MAX_LISTED_KEYS = 10;
+
+const USAGE_DESCRIPTION_PATTERN = /^NS\w+UsageDescription$/;
+
+/**
+ * printf-style format specifiers, plus `%#@variable@` references to
+ * .stringsdict rules
+ */
+const FORMAT_SPECIFIER_PATTERN =
+  /%(?:%|#@(\w+)@|(?:(\d+)\$)?[-+ #0']*(?:\d+|\*)?(?:\.(?:\d+|\*))?(?:hh|h|ll|l|q|z|t|j|L)?([@dDiuUxXoOfFeEgGaAcCsSp]))/g;
+
+/**
+ * A `.strings`/`.stringsdict` table in one language
+ */
+interface LocaleTable {
+  filePath: string;
+  entries: Map<string, LocalizedString & { filePath: string }>;
+}
+
+/**
+ * A strings table (e.g. Localizable) across the `.lproj` folders of one
+ * directory
+ */
+interface StringsTable {
+  name: string;
+  locales: Map<string, LocaleTable>;
+}
+
+interface CatalogFile {
+  filePath: string;
+  name: string;
+  catalog: StringCatalog;
+}
+
+interface LoadedFiles {
+  tables: StringsTable[];
+  catalogs: CatalogFile[];
+  issues: Issue[];
+}
+
+/**
+ * Analyzer for missing, untranslated and inconsistent localizations
+ */
+export class LocalizationAnalyzer implements Analyzer {
+  name = 'Localization Analyzer';
+  description = 'Checks strings tables and string catalogs for missing translations and format specifier mismatches';
+
+  async analyze(project: XcodeProject, options: AnalyzerOptions): Promise<AnalysisResult> {
+    const startTime = Date.now();
+    const issues: Issue[] = [];
+
+    const targets = project.targets.filter(
+      (t) =>
+        (t.type === 'application' || t.type === 'appExtension') &&
+        (!options.targetName || t.name === options.targetName)
+    );
+    const apps = await Promise.all(
+      targets
+        .filter((t) => t.type === 'application')
+        .map(async (target) => ({ target, plist: await readPlistObject<InfoPlist>(target.infoPlistPath) }))
+    );
+
+    let files = localizationFiles(targets.flatMap((t) => t.resourceFiles ?? []));
+    if (files.length === 0 && !project.artifact) {
+      files = await this.findLocalizationFiles(options.basePath);
+    }
+    const loaded = await loadFiles(files);
+    issues.push(...loaded.issues);
+
+    const developmentLanguage = this.developmentLanguage(project, apps);
+    const projectLocales = new Set(project.knownRegions ?? []);
+    for (const { plist } of apps) {
+      const localizations = plist?.['CFBundleLocalizations'];
+      if (Array.isArray(localizations)) {
+        localizations.filter((l): l is string => typeof l === 'string').forEach((l) => projectLocales.add(l));
+      }
+    }
+
+    const locales = new Set(projectLocales);
+    for (const table of loaded.tables) {
+      table.locales.forEach((_, locale) => locales.add(locale));
+    }
+    locales.delete('Base');
+
+    for (const table of loaded.tables.filter((t) => t.name !== INFO_PLIST_TABLE)) {
+      issues.push(...this.checkTable(table, developmentLanguage, locales));
+    }
+    for (const catalog of loaded.catalogs.filter((c) => c.name !== INFO_PLIST_TABLE)) {
+      issues.push(...this.checkCatalog(catalog, locales));
+    }
+
+    projectLocales.delete('Base');
+    projectLocales.delete(developmentLanguage);
+    for (const { target, plist } of apps) {
+      const own = localizationFiles(target.resourceFiles ?? []);
+      const infoPlistFiles = own.length > 0 ? await loadFiles(own) : loaded;
+      issues.push(...this.checkUsageDescriptions(target, plist, infoPlistFiles, projectLocales));
+    }
+
+    return {
+      analyzer: this.name,
+      passed: issues.filter((i) => i.severity === 'error').length === 0,
+      issues,
+      duration: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Compare each language of a strings table with the development language
+   */
+  private checkTable(table: StringsTable, developmentLanguage: string, locales: Set<string>): Issue[] {
+    // Base.lproj holds the development language strings when there is no
+    // separate folder for it
+    const referenceLocale = table.locales.has(developmentLanguage) ? developmentLanguage : 'Base';
+    const reference = table.locales.get(referenceLocale);
+    if (!reference || reference.entries.size === 0) {
+      return [];
+    }
+
+    const issues: Issue[] = [];
+    const fileName = path.basename(reference.filePath);
+
+    for (const locale of Array.from(locales).sort()) {
+      if (locale === developmentLanguage || locale === referenceLocale) {
+        continue;
+      }
+
+      const translation = table.locales.get(locale);
+      if (!translation) {
+        issues.push({
+          id: 'localization-missing-table',
+          title: `Missing ${locale} localization: ${table.name}`,
+          description: `The app is localized in ${locale}, but ${table.name} has no ${locale}.lproj version. All ${reference.entries.size} strings fall back to ${referenceLocale}.`,
+          severity: 'warning',
+          filePath: reference.filePath,
+          category: 'localization',
+          suggestion: `Add ${locale}.lproj/${fileName}, or localize the table for ${locale} in Xcode's File inspector.`,
+        });
+        continue;
+      }
+
+      const missing = Array.from(reference.entries.keys()).filter((key) => !translation.entries.has(key));
+      if (missing.length > 0) {
+        issues.push({
+          id: 'localization-missing-keys',
+          title: `${missing.length} string(s) missing in ${locale}: ${table.name}`,
+          description: `${translation.filePath} is missing keys present in ${referenceLocale}: ${listKeys(missing)}. These strings appear in ${referenceLocale} to ${locale} users.`,
+          severity: 'warning',
+          filePath: translation.filePath,
+          category: 'localization',
+          suggestion: `Translate the missing keys into ${locale}.`,
+        });
+      }
+
+      const untranslated = Array.from(translation.entries.values()).filter(
+        (entry) => entry.value.trim() === '' && reference.entries.get(entry.key)?.value.trim() !== ''
+      );
+      if (untranslated.length > 0) {
+        issues.push({
+          id: 'localization-untranslated',
+          title: `${untranslated.length} empty translation(s) in ${locale}: ${table.name}`,
+          description: `These keys have empty values in ${translation.filePath}: ${listKeys(untranslated.map((e) => e.key))}. Users see blank text instead of a fallback.`,
+          severity: 'warning',
+          filePath: translation.filePath,
+          lineNumber: untranslated[0]?.lineNumber,
+          category: 'localization',
+          suggestion: `Provide ${locale} translations or remove the empty entries so the ${referenceLocale} strings are used.`,
+        });
+      }
+
+      const stale = Array.from(translation.entries.keys()).filter((key) => !reference.entries.has(key));
+      if (stale.length > 0) {
+        issues.push({
+          id: 'localization-stale',
+          title: `${stale.length} stale string(s) in ${locale}: ${table.name}`,
+          description: `${translation.filePath} contains keys no longer present in ${referenceLocale}: ${listKeys(stale)}.`,
+          severity: 'info',
+          filePath: translation.filePath,
+          category: 'localization',
+          suggestion: 'Remove translations of keys that were deleted from the development language.',
+        });
+      }
+
+      for (const entry of translation.entries.values()) {
+        const source = reference.entries.get(entry.key);
+        if (source && entry.value.trim() !== '') {
+          const issue = compareFormats(entry.key, source.value, entry.value, locale, {
+            filePath: entry.filePath,
+            lineNumber: entry.lineNumber,
+          });
+          if (issue) {
+            issues.push(issue);
+          }
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Check every language of a string catalog against its source language
+   */
+  private checkCatalog({ filePath, catalog }: CatalogFile, projectLocales: Set<string>): Issue[] {
+    const source = catalog.sourceLanguage;
+    const locales = new Set(projectLocales);
+    for (const entry of catalog.entries) {
+      Object.keys(entry.localizations).forEach((l) => locales.add(l));
+    }
+    locales.delete(source);
+    locales.delete('Base');
+
+    const issues: Issue[] = [];
+    const entries = catalog.entries.filter((e) => e.shouldTranslate);
+    const stale = entries.filter((e) => e.extractionState === 'stale');
+    const active = entries.filter((e) => e.extractionState !== 'stale');
+
+    for (const locale of Array.from(locales).sort()) {
+      const missing = active.filter((e) => !e.localizations[locale]);
+      if (missing.length > 0) {
+        issues.push({
+          id: 'localization-missing-keys',
+          title: `${missing.length} string(s) missing in ${locale}: ${path.basename(filePath)}`,
+          description: `The string catalog has no ${locale} translation for: ${listKeys(missing.map((e) => e.key))}. These strings appear in ${source} to ${locale} users.`,
+          severity: 'warning',
+          filePath,
+          category: 'localization',
+          suggestion: `Translate the missing strings into ${locale} in the string catalog editor.`,
+        });
+      }
+
+      const untranslated = active.filter((e) => {
+        const state = e.localizations[locale]?.state;
+        return state !== undefined && state !== 'translated';
+      });
+      if (untranslated.length > 0) {
+        issues.push({
+          id: 'localization-untranslated',
+          title: `${untranslated.length} string(s) need translation in ${locale}: ${path.basename(filePath)}`,
+          description: `These ${locale} strings are marked new or needing review: ${listKeys(untranslated.map((e) => e.key))}.`,
+          severity: 'warning',
+          filePath,
+          category: 'localization',
+          suggestion: `Review the ${locale} strings and mark them as translated.`,
+        });
+      }
+
+      for (const entry of active) {
+        const value = entry.localizations[locale]?.value;
+        if (value !== undefined && value.trim() !== '') {
+          const issue = compareFormats(
+            entry.key,
+            entry.localizations[source]?.value ?? entry.key,
+            value,
+            locale,
+            { filePath }
+          );
+          if (issue) {
+            issues.push(issue);
+          }
+        }
+      }
+    }
+
+    if (stale.length > 0) {
+      issues.push({
+        id: 'localization-stale',
+        title: `${stale.length} stale string(s): ${path.basename(filePath)}`,
+        description: `These strings are no longer found in code but are still in the catalog: ${listKeys(stale.map((e) => e.key))}.`,
+        severity: 'info',
+        filePath,
+        category: 'localization',
+        suggestion: 'Remove stale strings from the string catalog.',
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Privacy usage descriptions are shown in permission prompts, so every
+   * language the app supports needs an InfoPlist.strings translation
+   */
+  private checkUsageDescriptions(
+    target: XcodeTarget,
+    plist: InfoPlist | undefined,
+    files: LoadedFiles,
+    locales: Set<string>
+  ): Issue[] {
+    const settings = targetBuildSettings(target);
+    const keys = new Set(Object.keys(plist ?? {}).filter((key) => USAGE_DESCRIPTION_PATTERN.test(key)));
+    for (const setting of Object.keys(settings)) {
+      const key = setting.replace(/^INFOPLIST_KEY_/, '');
+      if (key !== setting && USAGE_DESCRIPTION_PATTERN.test(key)) {
+        keys.add(key);
+      }
+    }
+    if (keys.size === 0) {
+      return [];
+    }
+
+    const tables = files.tables.filter((t) => t.name === INFO_PLIST_TABLE);
+    const catalogs = files.catalogs.filter((c) => c.name === INFO_PLIST_TABLE);
+    const issues: Issue[] = [];
+
+    for (const locale of Array.from(locales).sort()) {
+      const tableFiles = tables.map((t) => t.locales.get(locale)).filter((t): t is LocaleTable => t !== undefined);
+      const isLocalized = (key: string): boolean =>
+        tableFiles.some((t) => (t.entries.get(key)?.value.trim() ?? '') !== '') ||
+        catalogs.some(
+          (c) => c.catalog.entries.find((e) => e.key === key)?.localizations[locale]?.state === 'translated'
+        );
+
+      const missing = Array.from(keys).filter((key) => !isLocalized(key));
+      if (missing.length > 0) {
+        issues.push({
+          id: 'localization-usage-description-not-localized',
+          title: `Usage descriptions not localized in ${locale}: ${target.name}`,
+          description: `${missing.join(', ')} ${missing.length === 1 ? 'has' : 'have'} no ${locale} translation, so ${locale} users see the permission prompt in the development language. Guideline 5.1.1 requires purpose strings users can understand.`,
+          severity: 'warning',
+          filePath: tableFiles[0]?.filePath ?? catalogs[0]?.filePath ?? target.infoPlistPath,
+          category: 'localization',
+          guideline: 'Guideline 5.1.1 - Data Collection and Storage',
+          suggestion: `Add ${missing.map((key) => `"${key}"`).join(', ')} to ${locale}.lproj/InfoPlist.strings or the InfoPlist string catalog.`,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * The language of the source strings: the project's development region,
+   * else the app's CFBundleDevelopmentRegion
+   */
+  private developmentLanguage(
+    project: XcodeProject,
+    apps: { target: XcodeTarget; plist: InfoPlist | undefined }[]
+  ): string {
+    if (project.developmentRegion) {
+      return project.developmentRegion;
+    }
+    for (const { target, plist } of apps) {
+      const region = plist && resolvePlistValue(target, plist, 'CFBundleDevelopmentRegion', 'DEVELOPMENT_LANGUAGE');
+      if (region) {
+        return region;
+      }
+    }
+    return 'en';
+  }
+
+  /**
+   * Find strings tables and catalogs when targets do not list their resources
+   */
+  private async findLocalizationFiles(basePath: string): Promise<string[]> {
+    return fg(['**/*.lproj/*.strings', '**/*.lproj/*.stringsdict', '**/*.xcstrings'], {
+      cwd: basePath,
+      absolute: true,
+      ignore: ['**/Pods/**', '**/Carthage/**', '**/build/**', '**/DerivedData/**', '**/.build/**'],
+    });
+  }
+}
+
+/**
+ * Strings tables inside `.lproj` folders and string catalogs
+ */
+function localizationFiles(files: string[]): string[] {
+  return Array.from(
+    new Set(
+      files.filter((file) =>
+        file.endsWith('.xcstrings') ||
+        ((file.endsWith('.strings') || file.endsWith('.stringsdict')) && path.dirname(file).endsWith('.lproj'))
+      )
+    )
+  );
+}
+
+/**
+ * Parse strings tables, grouping `.lproj` copies of the same table, and
+ * string catalogs
+ */
+async function loadFiles(files: string[]): Promise<LoadedFiles> {
+  const tables = new Map<string, StringsTable>();
+  const catalogs: CatalogFile[] = [];
+  const issues: Issue[] = [];
+
+  for (const filePath of files.sort()) {
+    const extension = path.extname(filePath);
+    const name = path.basename(filePath, extension);
+
+    try {
+      if (extension === '.xcstrings') {
+        catalogs.push({ filePath, name, catalog: await parseStringCatalog(filePath) });
+        continue;
+      }
+
+      const entries = extension === '.stringsdict' ? await parseStringsdictFile(filePath) : await parseStringsFile(filePath);
+      const locale = path.basename(path.dirname(filePath), '.lproj');
+      const tableKey = path.join(path.dirname(path.dirname(filePath)), name);
+
+      let table = tables.get(tableKey);
+      if (!table) {
+        table = { name, locales: new Map() };
+        tables.set(tableKey, table);
+      }
+      // Localizable.strings and Localizable.stringsdict make up one table
+      let localeTable = table.locales.get(locale);
+      if (!localeTable) {
+        localeTable = { filePath, entries: new Map() };
+        table.locales.set(locale, localeTable);
+      }
+      for (const entry of entries) {
+        localeTable.entries.set(entry.key, { ...entry, filePath });
+      }
+    } catch (error) {
+      issues.push({
+        id: 'localization-invalid-file',
+        title: `Invalid localization file: ${path.basename(filePath)}`,
+        description: `Failed to parse ${filePath}: ${error instanceof Error ? error.message : String(error)}. Xcode fails the build when a strings file cannot be read.`,
+        severity: 'error',
+        filePath,
+        category: 'localization',
+        suggestion: 'Fix the syntax error, e.g. a missing semicolon or unescaped quote.',
+      });
+    }
+  }
+
+  return { tables: Array.from(tables.values()), catalogs, issues };
+}
+
+/**
+ * Report a translation whose format specifiers do not match the source
+ * string. Extra or differently typed arguments read the wrong memory and
+ * crash; omitted arguments are only dropped from the text.
+ */
+function compareFormats(
+  key: string,
+  sourceValue: string,
+  value: string,
+  locale: string,
+  location: Pick<Issue, 'filePath' | 'lineNumber'>
+): Issue | undefined {
+  const expected = formatArguments(sourceValue);
+  const actual = formatArguments(value);
+
+  const conflicting = actual.some((type, index) => type !== undefined && type !== expected[index]);
+  const omitted = expected.some((type, index) => type !== undefined && actual[index] === undefined);
+  if (!conflicting && !omitted) {
+    return undefined;
+  }
+
+  return {
+    id: 'localization-format-mismatch',
+    title: `Format specifiers differ in ${locale}: ${key}`,
+    description: `The ${locale} translation "${value}" does not use the same format specifiers as "${sourceValue}".${conflicting ? ' Mismatched specifiers read the wrong arguments and can crash the app.' : ' Some arguments are never displayed.'}`,
+    severity: conflicting ? 'error' : 'warning',
+    ...location,
+    category: 'localization',
+    suggestion: 'Use the same specifiers as the source string; reorder arguments with positional specifiers such as %1$@.',
+  };
+}
+
+/**
+ * The argument types a format string consumes, indexed by position
+ */
+function formatArguments(format: string): (string | undefined)[] {
+  const types: (string | undefined)[] = [];
+  let next = 0;
+
+  for (const match of format.matchAll(FORMAT_SPECIFIER_PATTERN)) {
+    const [, variable, position, conversion] = match;
+    if (!variable && !conversion) {
+      continue;
+    }
+    const index = position ? Number(position) - 1 : next++;
+    types[index] = variable ? `variable:${variable}` : conversionType(conversion ?? '');
+  }
+
+  return types;
+}
+
+function conversionType(conversion: string): string {
+  if ('dDiuUxXoOc'.includes(conversion)) {
+    return 'integer';
+  }
+  if ('fFeEgGaA'.includes(conversion)) {
+    return 'double';
+  }
+  if (conversion === '@') {
+    return 'object';
+  }
+  if (conversion === 'C') {
+    return 'unichar';
+  }
+  if ('sS'.includes(conversion)) {
+    return 'c-string';
+  }
+  return 'pointer';
+}
+
+function listKeys(keys: string[]): string {
+  const listed = keys.slice(0, MAX_LISTED_KEYS).map((key) => `"${key}"`).join(', ');
+  return keys.length > MAX_LISTED_KEYS ? `${listed} and ${keys.length - MAX_LISTED_KEYS} more` : listed;
+}
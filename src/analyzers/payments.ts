@@ -0,0 +1,283 @@
+import { readPlistObject } from '../parsers/plist.js';
+import { readUserFacingText, type UserFacingText } from '../parsers/strings.js';
+import { listDependencies } from './dependencies.js';
+import {
+  SOURCE_EXTENSIONS,
+  TEXT_EXTENSIONS,
+  readSourceLines,
+  findAppFiles,
+  readBinaryNames,
+  findDependency,
+  findInSources,
+  findInText,
+  findInBinary,
+} from './shared.js';
+import type {
+  Analyzer,
+  AnalysisResult,
+  AnalyzerOptions,
+  DeclaredDependency,
+  Issue,
+  XcodeProject,
+  XcodeTarget,
+} from '../types/index.js';
+
+/**
+ * A payment SDK, recognized by the libraries that provide it, the code that
+ * calls it and the classes and frameworks it leaves in a binary
+ */
+interface PaymentProvider {
+  name: string;
+  /** Pod, package, product or framework names (including Flutter and React Native plugins) */
+  dependencies: RegExp;
+  /** A line of source code */
+  code: RegExp;
+  /** Objective-C class names, symbols and linked libraries of a built executable */
+  binary: RegExp;
+}
+
+const PAYMENT_PROVIDERS: PaymentProvider[] = [
+  {
+    name: 'Stripe',
+    dependencies: /^(?:Stripe(?:PaymentSheet|Payments|PaymentsUI|ApplePay|Core|UICore)?|stripe-ios(?:-spm)?|stripe-react-native|flutter_stripe)$/i,
+    code: /\bimport\s+Stripe\w*\b|@import\s+Stripe\b|\bSTPPaymentHandler\b|\bSTPAPIClient\b|\bPaymentSheet\s*\(/,
+    binary: /\bSTPPaymentHandler\b|\bSTPAPIClient\b|\/Stripe\w*\.framework\//,
+  },
+  {
+    name: 'PayPal',
+    dependencies: /^(?:PayPalCheckout|paypal-ios|paypal-checkout-ios|PayPal(?:Web|Native)Payments|PayPal-iOS-SDK|react-native-paypal|flutter_paypal)$/i,
+    code: /\bimport\s+(?:PayPalCheckout|PayPal\w*Payments)\b|\bPayPalButton\b|\bCheckout\.start\s*\(/,
+    binary: /\bPPCheckout\w*\b|\/PayPal\w*\.framework\//,
+  },
+  {
+    name: 'Braintree',
+    dependencies: /^(?:Braintree(?:DropIn|Core|Card|PayPal|Venmo)?|braintree_ios|braintree-ios-drop-in)$/i,
+    code: /\bimport\s+Braintree\w*\b|@import\s+Braintree\w*\b|\bBTDropInController\b|\bBTAPIClient\b/,
+    binary: /\bBTDropInController\b|\bBTAPIClient\b|\/Braintree\w*\.framework\//,
+  },
+  {
+    name: 'Adyen',
+    dependencies: /^(?:Adyen(?:DropIn|Components|Card)?|adyen-ios|adyen-react-native)$/i,
+    code: /\bimport\s+Adyen\w*\b|\bAdyenContext\b|\bDropInComponent\b/,
+    binary: /\/Adyen\w*\.framework\//,
+  },
+  {
+    name: 'Square In-App Payments',
+    dependencies: /^(?:SquareInAppPaymentsSDK|SquareBuyerVerificationSDK)$/i,
+    code: /\bimport\s+SquareInAppPaymentsSDK\b|\bSQIPCardEntryViewController\b/,
+    binary: /\bSQIPCardEntryViewController\b|\/SquareInAppPaymentsSDK\.framework\//,
+  },
+  {
+    name: 'Razorpay',
+    dependencies: /^(?:razorpay-pod|razorpay-customui-pod|razorpay_flutter|react-native-razorpay)$/i,
+    code: /\bimport\s+Razorpay\b|\bRazorpayCheckout\b/,
+    binary: /\bRazorpayCheckout\b|\/Razorpay\w*\.framework\//,
+  },
+];
+
+/** Hosted checkout pages of payment providers */
+const HOSTED_CHECKOUT_URL =
+  /https?:\/\/(?:checkout\.stripe\.com|buy\.stripe\.com|(?:www\.)?paypal\.com\/(?:checkoutnow|cgi-bin\/webscr)|(?:www\.)?paypal\.me\/|[\w-]+\.lemonsqueezy\.com\/checkout|(?:buy|checkout)\.paddle\.com|[\w-]+\.gumroad\.com|gumroad\.com\/l\/)[^\s"'<>]*/i;
+
+/**
+ * Checkout and pricing pages opened in Safari, an SFSafariViewController or
+ * a SwiftUI Link. API endpoints with the same paths are not links.
+ */
+const OPENED_CHECKOUT_URL =
+  /(?<=(?:\bSFSafariViewController\s*\(\s*url:|\.open\s*\(|\bopenURL(?:\s*\(|:)|\bLink\s*\([^)]*destination:)\s*(?:URL\s*\(\s*string:\s*|\[NSURL\s+URLWithString:\s*)?@?")https?:\/\/(?![\w.-]*apple\.com\b)[\w.-]+\.[a-z]{2,}(?:\/[\w.-]+)*\/(?:checkout|pricing|subscribe|upgrade|purchase|buy)\b[^\s"'<>]*/i;
+
+/** Calls to action pointing users to purchases outside the app */
+const EXTERNAL_PURCHASE_TEXT =
+  /\b(?:buy|purchase|subscribe|upgrade|pay)\b(?:\s+\S+){0,3}\s+(?:on|at|through|from)\s+(?:our|the)\s+(?:web\s*site|site|web)\b|\b(?:cheaper|save\s+\d+\s*%)(?:\s+\S+){0,2}\s+on\s+(?:our|the)\s+(?:web\s*site|web)\b|\bvisit\s+(?:our\s+)?(?:web\s*site|[\w-]+\.com)\s+to\s+(?:buy|purchase|subscribe|upgrade)\b/i;
+
+/** StoreKit 1 and 2, SwiftUI store views and RevenueCat */
+const STOREKIT_PURCHASE =
+  /\bSKPaymentQueue\b|\bSKProductsRequest\b|\bProduct\.products\s*\(\s*for:|\b(?:Subscription)?StoreView\b|\bPurchases\.shared\.purchase\b/;
+
+const STOREKIT_RESTORE =
+  /\brestoreCompletedTransactions\b|\bAppStore\.sync\s*\(|\brestorePurchases\b/;
+
+const RESTORE_TEXT = /\brestore\s+(?:my\s+|your\s+)?purchases?\b/i;
+
+const SUBSCRIPTION_CODE =
+  /\bSubscriptionStoreView\b|\.autoRenewable\b|\bsubscriptionGroupID\b|\bsubscriptionPeriod\b|\bProduct\.SubscriptionInfo\b|\bSKProductSubscriptionPeriod\b/;
+
+const SUBSCRIPTION_WORDS = /subscri|membership/i;
+
+/**
+ * StoreKit entitlements that allow purchases outside in-app purchase in
+ * some storefronts or for reader apps
+ */
+const EXTERNAL_PURCHASE_ENTITLEMENTS = [
+  'com.apple.developer.storekit.external-purchase',
+  'com.apple.developer.storekit.external-purchase-link',
+  'com.apple.developer.storekit.external-link.account',
+];
+
+const EXTERNAL_PURCHASE_EXCEPTIONS =
+  'Digital content, subscriptions and premium features must be sold with in-app purchase. ' +
+  'Other payment methods are only allowed for physical goods and services consumed outside the app (Guideline 3.1.3(e)), ' +
+  'or with a StoreKit entitlement: External Purchase (com.apple.developer.storekit.external-purchase) for alternative payment providers ' +
+  'and External Purchase Link (com.apple.developer.storekit.external-purchase-link) for linking to a website, in the storefronts where Apple offers them, ' +
+  'and External Link Account (com.apple.developer.storekit.external-link.account) for reader apps (Guideline 3.1.3(a)).';
+
+/**
+ * Guidelines 3.1.1 and 3.1.2: digital goods must be sold with StoreKit,
+ * and restorable purchases need a restore mechanism
+ */
+export class PaymentsAnalyzer implements Analyzer {
+  name = 'Payments Analyzer';
+  description = 'Detects purchase flows that bypass StoreKit and in-app purchases without restore support';
+
+  async analyze(project: XcodeProject, options: AnalyzerOptions): Promise<AnalysisResult> {
+    const startTime = Date.now();
+    const issues: Issue[] = [];
+
+    const dependencies = await listDependencies(project, options.basePath);
+    const sources = await findAppFiles(project, options, (t) => t.sourceFiles, SOURCE_EXTENSIONS);
+    const textFiles = await findAppFiles(project, options, (t) => t.resourceFiles ?? [], TEXT_EXTENSIONS);
+
+    for (const [app, files] of sources) {
+      const lines = await readSourceLines(files);
+      const texts = await readUserFacingText(textFiles.get(app) ?? []);
+      const binaryNames = app.executablePath ? await readBinaryNames(app.executablePath) : [];
+      const entitlements = await this.externalPurchaseEntitlements(app);
+
+      issues.push(...this.checkExternalPayments(app, dependencies, lines, texts, binaryNames, entitlements));
+      issues.push(...this.checkRestore(app, lines, texts));
+    }
+
+    return {
+      analyzer: this.name,
+      passed: issues.filter((i) => i.severity === 'error').length === 0,
+      issues,
+      duration: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Payment SDKs, links to external checkout pages and "buy on our website"
+   * calls to action. Reported as info when the app has an external purchase
+   * entitlement.
+   */
+  private checkExternalPayments(
+    app: XcodeTarget,
+    dependencies: DeclaredDependency[],
+    lines: Map<string, string[]>,
+    texts: UserFacingText[],
+    binaryNames: string[],
+    entitlements: string[]
+  ): Issue[] {
+    const issues: Issue[] = [];
+    const severity = entitlements.length > 0 ? 'info' : 'warning';
+    const entitled =
+      entitlements.length > 0
+        ? ` The target has ${entitlements.join(', ')}; make sure the flow is only offered in the storefronts and for the content the entitlement covers, after the system disclosure sheet.`
+        : '';
+
+    for (const provider of PAYMENT_PROVIDERS) {
+      const evidence =
+        findDependency(dependencies, provider.dependencies) ??
+        findInSources(lines, provider.code) ??
+        findInBinary(app, binaryNames, provider.binary);
+      if (!evidence) {
+        continue;
+      }
+      issues.push({
+        id: 'payments-third-party-sdk',
+        title: `Third-party payment SDK: ${provider.name}`,
+        description:
+          `Target "${app.name}" uses ${provider.name} (${evidence.description}). ${EXTERNAL_PURCHASE_EXCEPTIONS}${entitled}`,
+        severity,
+        filePath: evidence.filePath ?? app.entitlementsPath,
+        lineNumber: evidence.lineNumber,
+        category: 'iap',
+        guideline: 'Guideline 3.1.1 - In-App Purchase',
+        suggestion: `Only use ${provider.name} for physical goods and real-world services. Sell digital content and features with StoreKit.`,
+      });
+    }
+
+    const link =
+      findInSources(lines, HOSTED_CHECKOUT_URL) ??
+      findInSources(lines, OPENED_CHECKOUT_URL) ??
+      findInText(texts, HOSTED_CHECKOUT_URL);
+    if (link) {
+      issues.push({
+        id: 'payments-external-checkout-link',
+        title: `Link to an external checkout page: ${link.match}`,
+        description:
+          `Target "${app.name}" links to what looks like a purchase page outside the App Store (${link.description}). ${EXTERNAL_PURCHASE_EXCEPTIONS}${entitled}`,
+        severity,
+        filePath: link.filePath,
+        lineNumber: link.lineNumber,
+        category: 'iap',
+        guideline: purchaseGuideline(link.match),
+        suggestion: 'Remove links and buttons that lead to external purchases of digital content, or offer the content with in-app purchase.',
+      });
+    }
+
+    const callToAction = findInSources(lines, EXTERNAL_PURCHASE_TEXT) ?? findInText(texts, EXTERNAL_PURCHASE_TEXT);
+    if (callToAction) {
+      issues.push({
+        id: 'payments-external-purchase-text',
+        title: 'Call to action for purchases outside the app',
+        description:
+          `Target "${app.name}" directs users to buy outside the app (${callToAction.description}). ${EXTERNAL_PURCHASE_EXCEPTIONS}${entitled}`,
+        severity,
+        filePath: callToAction.filePath,
+        lineNumber: callToAction.lineNumber,
+        category: 'iap',
+        guideline: purchaseGuideline(callToAction.match),
+        suggestion: 'Remove text directing users to buy elsewhere. Reader apps may point to account management on the web only with the External Link Account entitlement.',
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * StoreKit purchases need a way to restore non-consumables and
+   * subscriptions
+   */
+  private checkRestore(app: XcodeTarget, lines: Map<string, string[]>, texts: UserFacingText[]): Issue[] {
+    const purchase = findInSources(lines, STOREKIT_PURCHASE);
+    const restore =
+      findInSources(lines, STOREKIT_RESTORE) ?? findInSources(lines, RESTORE_TEXT) ?? findInText(texts, RESTORE_TEXT);
+    if (!purchase || restore) {
+      return [];
+    }
+
+    const subscriptions = findInSources(lines, SUBSCRIPTION_CODE) !== undefined;
+    return [
+      {
+        id: 'payments-missing-restore',
+        title: 'In-app purchases without restore support',
+        description:
+          `Target "${app.name}" makes StoreKit purchases (${purchase.description}) but never restores them: no restoreCompletedTransactions, AppStore.sync(), ` +
+          `restorePurchases or "Restore Purchases" button. Apps selling non-consumables${subscriptions ? ' or auto-renewable subscriptions' : ''} must let users restore them, e.g. on a new device.`,
+        severity: 'warning',
+        filePath: purchase.filePath,
+        lineNumber: purchase.lineNumber,
+        category: 'iap',
+        guideline: subscriptions ? 'Guideline 3.1.2 - Subscriptions' : 'Guideline 3.1.1 - In-App Purchase',
+        suggestion:
+          'Add a "Restore Purchases" button that calls AppStore.sync() (StoreKit 2) or SKPaymentQueue.restoreCompletedTransactions(), or show it with .storeButton(.visible, for: .restorePurchases). Apps that only sell consumables can ignore this.',
+      },
+    ];
+  }
+
+  /**
+   * External purchase entitlements the target declares
+   */
+  private async externalPurchaseEntitlements(target: XcodeTarget): Promise<string[]> {
+    const entitlements = (await readPlistObject(target.entitlementsPath)) ?? {};
+    return EXTERNAL_PURCHASE_ENTITLEMENTS.filter((key) => entitlements[key] !== undefined && entitlements[key] !== false);
+  }
+}
+
+/**
+ * Subscriptions fall under 3.1.2, other digital purchases under 3.1.1
+ */
+function purchaseGuideline(text: string): string {
+  return SUBSCRIPTION_WORDS.test(text) ? 'Guideline 3.1.2 - Subscriptions' : 'Guideline 3.1.1 - In-App Purchase';
+}
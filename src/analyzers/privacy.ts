@@ -2,12 +2,14 @@ import * as path from 'path';
 import * as fs from 'fs/promises';
 import fg from 'fast-glob';
 import { parsePlist, fileExists } from '../parsers/plist.js';
+import { isCommonlyUsedSdk } from './third-party-sdks.js';
 import type {
   Analyzer,
   AnalysisResult,
   AnalyzerOptions,
   Issue,
   XcodeProject,
+  XcodeTarget,
   PrivacyManifest,
 } from '../types/index.js';
 
@@ -81,17 +83,34 @@ export class PrivacyAnalyzer implements Analyzer {
     const startTime = Date.now();
     const issues: Issue[] = [];
 
-    // Find app targets
+    // Find app and app extension targets: every bundle needs its own manifest
     const targets = options.targetName
       ? project.targets.filter((t) => t.name === options.targetName)
-      : project.targets.filter((t) => t.type === 'application');
+      : project.targets.filter((t) => t.type === 'application' || t.type === 'appExtension');
 
     for (const target of targets) {
+      const isExtension = target.type === 'appExtension';
+
+      // Built bundles: scan the binary and embedded frameworks instead of sources
+      if (target.bundlePath) {
+        issues.push(
+          ...(await this.analyzeBundle(
+            target.bundlePath,
+            target.executablePath,
+            isExtension ? [] : project.artifact?.frameworks ?? []
+          ))
+        );
+        continue;
+      }
+
       // Check if privacy manifest exists
-      const manifestPath = await this.findPrivacyManifest(options.basePath, target.name);
+      const manifestPath = isExtension
+        ? await this.findExtensionPrivacyManifest(options.basePath, target)
+        : await this.findPrivacyManifest(options.basePath, target.name);
 
-      // Scan source files for required reason API usage
-      const sourceFiles = target.sourceFiles.length > 0
+      // Scan source files for required reason API usage. Extensions only
+      // count their own sources; the project-wide fallback belongs to the app.
+      const sourceFiles = target.sourceFiles.length > 0 || isExtension
         ? target.sourceFiles
         : await this.findSourceFiles(options.basePath);
 
@@ -100,8 +119,10 @@ export class PrivacyAnalyzer implements Analyzer {
       if (detectedApis.length > 0 && !manifestPath) {
         issues.push({
           id: 'missing-privacy-manifest',
-          title: 'Missing Privacy Manifest',
-          description: `Your app uses Required Reason APIs but no PrivacyInfo.xcprivacy file was found. Starting Spring 2024, Apple requires apps using these APIs to include a privacy manifest.`,
+          title: isExtension ? `Missing Privacy Manifest: ${target.name}` : 'Missing Privacy Manifest',
+          description: isExtension
+            ? `The "${target.name}" extension uses Required Reason APIs but has no PrivacyInfo.xcprivacy of its own. Each bundle using these APIs, including app extensions, must include a privacy manifest.`
+            : `Your app uses Required Reason APIs but no PrivacyInfo.xcprivacy file was found. Starting Spring 2024, Apple requires apps using these APIs to include a privacy manifest.`,
           severity: 'error',
           category: 'privacy',
           guideline: 'Guideline 5.1.1 - Data Collection and Storage',
@@ -172,6 +193,63 @@ export class PrivacyAnalyzer implements Analyzer {
     };
   }
 
+  /**
+   * Validate a built bundle: the manifest must sit at the bundle root, Required
+   * Reason API usage is detected from the executable's symbols and strings,
+   * and every embedded framework's manifest is validated too
+   */
+  private async analyzeBundle(
+    bundlePath: string,
+    executablePath: string | undefined,
+    frameworks: string[]
+  ): Promise<Issue[]> {
+    const issues: Issue[] = [];
+    const manifestPath = path.join(bundlePath, 'PrivacyInfo.xcprivacy');
+    const hasManifest = await fileExists(manifestPath);
+    const detectedApis = executablePath
+      ? await this.scanForRequiredReasonApis([executablePath])
+      : [];
+
+    if (detectedApis.length > 0 && !hasManifest) {
+      issues.push({
+        id: 'missing-privacy-manifest',
+        title: 'Missing Privacy Manifest',
+        description: `The ${path.basename(bundlePath)} binary references Required Reason APIs but the bundle contains no PrivacyInfo.xcprivacy. Starting Spring 2024, Apple requires apps using these APIs to include a privacy manifest.`,
+        severity: 'error',
+        filePath: executablePath,
+        category: 'privacy',
+        guideline: 'Guideline 5.1.1 - Data Collection and Storage',
+        suggestion: `Add PrivacyInfo.xcprivacy to the target's resources and declare the following API categories: ${detectedApis.map((a) => a.category).join(', ')}`,
+      });
+    }
+
+    if (hasManifest) {
+      issues.push(...(await this.analyzeManifestFile(manifestPath, detectedApis)));
+    }
+
+    for (const framework of frameworks) {
+      const frameworkManifest = path.join(framework, 'PrivacyInfo.xcprivacy');
+      const name = path.basename(framework, '.framework');
+
+      if (await fileExists(frameworkManifest)) {
+        issues.push(...(await this.analyzeManifestFile(frameworkManifest, [])));
+      } else if (isCommonlyUsedSdk(name)) {
+        issues.push({
+          id: 'dependency-missing-privacy-manifest',
+          title: `Missing privacy manifest: ${name}`,
+          description: `The embedded ${name}.framework is on Apple's list of commonly used third-party SDKs but does not include a PrivacyInfo.xcprivacy file. Submissions containing these SDKs without a privacy manifest are rejected.`,
+          severity: 'error',
+          filePath: framework,
+          category: 'dependencies',
+          guideline: 'Guideline 5.1.1 - Data Collection and Storage',
+          suggestion: `Update ${name} to a release that ships PrivacyInfo.xcprivacy.`,
+        });
+      }
+    }
+
+    return issues;
+  }
+
   /**
    * Find privacy manifest in project
    */
@@ -202,6 +280,34 @@ export class PrivacyAnalyzer implements Analyzer {
     return found[0] ?? null;
   }
 
+  /**
+   * Find the privacy manifest bundled into an app extension: one of its
+   * resources, or one inside its own directory. The project-wide search is
+   * skipped since it would find the app's manifest.
+   */
+  private async findExtensionPrivacyManifest(
+    basePath: string,
+    target: XcodeTarget
+  ): Promise<string | null> {
+    const resource = target.resourceFiles?.find(
+      (file) => path.basename(file) === 'PrivacyInfo.xcprivacy'
+    );
+    if (resource) {
+      return resource;
+    }
+
+    for (const p of [
+      path.join(basePath, target.name, 'PrivacyInfo.xcprivacy'),
+      path.join(basePath, target.name, 'Resources', 'PrivacyInfo.xcprivacy'),
+    ]) {
+      if (await fileExists(p)) {
+        return p;
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Find all Swift and Objective-C source files
    */
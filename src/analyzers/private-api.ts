@@ -1,6 +1,8 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import fg from 'fast-glob';
+import { findProjectBinaries, findMachOBinaries, isMachOFile, readMachO } from '../parsers/macho.js';
+import type { MachOImage } from '../parsers/macho.js';
 import type {
   Analyzer,
   AnalysisResult,
@@ -54,6 +56,56 @@ const PRIVATE_URL_SCHEMES = [
   { scheme: 'dbapi://', description: 'Private debug API URL scheme' },
 ];
 
+/**
+ * Undocumented selectors flagged when they appear in a binary's selector table
+ */
+const PRIVATE_SELECTORS = [
+  '_setStatusBarHidden:',
+  '_statusBarWindow',
+  'statusBarWindow',
+  '_setApplicationIsOpaque:',
+  '_setBackgroundStyle:',
+  'setBacklightLevel:',
+  'terminateWithSuccess',
+  'defaultWorkspace',
+  'allInstalledApplications',
+  'allApplications',
+  'applicationIsInstalled:',
+  'openApplicationWithBundleID:',
+  'launchApplicationWithIdentifier:suspended:',
+  'publicURLSchemes',
+  'privateURLSchemes',
+];
+
+/**
+ * Private classes flagged when a binary links against them
+ */
+const PRIVATE_CLASS_PATTERN = /^(?:_UI\w+|_NS\w+|UIStatusBar\w*Internal|_CK\w+|_MF\w+|LSApplicationWorkspace|LSApplicationProxy)$/;
+
+/**
+ * Private C functions flagged when a binary imports them
+ */
+const PRIVATE_SYMBOLS: { id: string; title: string; symbols: string[]; suggestion: string }[] = [
+  {
+    id: 'private-iokit',
+    title: 'IOKit private API usage',
+    symbols: ['IOServiceGetMatchingService', 'IORegistryEntryCreateCFProperties', 'IOMasterPort', 'IOServiceMatching'],
+    suggestion: 'IOKit is a private framework on iOS. Use public APIs (e.g., UIDevice) instead.',
+  },
+  {
+    id: 'private-symbol',
+    title: 'Private function import',
+    symbols: [
+      'MGCopyAnswer',
+      'GSEventSetBacklightLevel',
+      'SBSCopyApplicationDisplayIdentifiers',
+      'CTTelephonyCenterGetDefault',
+      '_CTServerConnectionCreate',
+    ],
+    suggestion: 'Remove calls to private system functions. Use only documented public APIs.',
+  },
+];
+
 /**
  * Patterns for detecting private API usage
  */
@@ -172,24 +224,28 @@ export class PrivateAPIAnalyzer implements Analyzer {
 
     const targets = options.targetName
       ? project.targets.filter((t) => t.name === options.targetName)
-      : project.targets.filter((t) => t.type === 'application');
+      : project.targets.filter((t) => t.type === 'application' || t.type === 'appExtension');
 
     let sourceFiles: string[] = [];
     for (const target of targets) {
       sourceFiles.push(...target.sourceFiles);
     }
 
-    if (sourceFiles.length === 0) {
+    // Built artifacts have no sources; their binaries are scanned instead
+    if (sourceFiles.length === 0 && !project.artifact) {
       sourceFiles = await this.findSourceFiles(options.basePath);
     }
 
+    let binaries = await findProjectBinaries(project, options.basePath);
+
     // Filter to changed files for incremental scanning
     if (options.changedFiles) {
       const changedSet = new Set(options.changedFiles);
       sourceFiles = sourceFiles.filter((f) => changedSet.has(f));
+      binaries = binaries.filter((f) => changedSet.has(f));
     }
 
-    const issues = await this.scanFiles(sourceFiles);
+    const issues = [...(await this.scanFiles(sourceFiles)), ...(await this.scanBinaries(binaries))];
 
     return {
       analyzer: this.name,
@@ -200,17 +256,23 @@ export class PrivateAPIAnalyzer implements Analyzer {
   }
 
   /**
-   * Scan a specific path for private API usage
+   * Scan a specific path (sources, or prebuilt binaries) for private API usage
    */
   async scanPath(scanPath: string): Promise<AnalysisResult> {
     const startTime = Date.now();
 
     const stats = await fs.stat(scanPath);
-    const files = stats.isDirectory()
-      ? await this.findSourceFiles(scanPath)
-      : [scanPath];
-
-    const issues = await this.scanFiles(files);
+    let issues: Issue[];
+    if (stats.isDirectory()) {
+      issues = [
+        ...(await this.scanFiles(await this.findSourceFiles(scanPath))),
+        ...(await this.scanBinaries(await findMachOBinaries(scanPath))),
+      ];
+    } else if (await isMachOFile(scanPath)) {
+      issues = await this.scanBinaries([scanPath]);
+    } else {
+      issues = await this.scanFiles([scanPath]);
+    }
 
     return {
       analyzer: this.name,
@@ -298,6 +360,102 @@ export class PrivateAPIAnalyzer implements Analyzer {
     return issues;
   }
 
+  /**
+   * Scan Mach-O binaries for linked private frameworks, undocumented
+   * selectors, private classes and private function imports
+   */
+  private async scanBinaries(binaries: string[]): Promise<Issue[]> {
+    const issues: Issue[] = [];
+
+    for (const binary of binaries) {
+      let images: MachOImage[];
+      try {
+        images = await readMachO(binary);
+      } catch {
+        // Skip binaries that can't be parsed
+        continue;
+      }
+
+      const libraries = new Set(images.flatMap((image) => image.linkedLibraries));
+      const selectors = new Set(images.flatMap((image) => image.selectors));
+      const imports = new Set(
+        images.flatMap((image) => image.undefinedSymbols).map((symbol) => symbol.replace(/^_/, ''))
+      );
+
+      const reported = new Set<string>();
+      for (const library of [...libraries].sort()) {
+        const framework = /([^/]+)\.framework\//.exec(library)?.[1] ?? path.basename(library);
+        const isPrivate =
+          library.includes('/PrivateFrameworks/') || PRIVATE_FRAMEWORKS.includes(framework);
+        if (!isPrivate || reported.has(framework)) {
+          continue;
+        }
+        reported.add(framework);
+
+        issues.push({
+          id: `private-framework-${framework.toLowerCase()}`,
+          title: `Private framework: ${framework}`,
+          description: `Binary links private/undocumented framework \`${framework}\`, which will cause App Store rejection.\n\nFound: \`${library}\``,
+          severity: 'error',
+          filePath: binary,
+          category: 'private-api',
+          guideline: 'Guideline 2.5.1 - Use of Non-Public APIs',
+          suggestion: `Remove the \`${framework}\` dependency. Use only public Apple frameworks.`,
+        });
+      }
+
+      const privateSelectors = PRIVATE_SELECTORS.filter((selector) => selectors.has(selector));
+      if (privateSelectors.length > 0) {
+        issues.push({
+          id: 'private-selector',
+          title: 'Undocumented selectors in binary',
+          description: `The binary's selector table references undocumented selectors that App Store processing flags as non-public API usage.\n\nFound: ${formatNames(privateSelectors)}`,
+          severity: 'error',
+          filePath: binary,
+          category: 'private-api',
+          guideline: 'Guideline 2.5.1 - Use of Non-Public APIs',
+          suggestion: 'Remove calls to (and methods named like) private selectors. Use only public APIs.',
+        });
+      }
+
+      const privateClasses = [...imports]
+        .filter((symbol) => symbol.startsWith('OBJC_CLASS_$_'))
+        .map((symbol) => symbol.slice('OBJC_CLASS_$_'.length))
+        .filter((name) => PRIVATE_CLASS_PATTERN.test(name))
+        .sort();
+      if (privateClasses.length > 0) {
+        issues.push({
+          id: 'private-class-reference',
+          title: 'Private class referenced by binary',
+          description: `The binary links against private Objective-C classes.\n\nFound: ${formatNames(privateClasses)}`,
+          severity: 'error',
+          filePath: binary,
+          category: 'private-api',
+          guideline: 'Guideline 2.5.1 - Use of Non-Public APIs',
+          suggestion: 'Do not use private classes. Use only documented public APIs.',
+        });
+      }
+
+      for (const group of PRIVATE_SYMBOLS) {
+        const found = group.symbols.filter((symbol) => imports.has(symbol));
+        if (found.length > 0) {
+          issues.push({
+            id: group.id,
+            title: group.title,
+            description: `The binary imports private functions.\n\nFound: ${formatNames(found)}`,
+            severity: 'error',
+            filePath: binary,
+            category: 'private-api',
+            guideline: 'Guideline 2.5.1 - Use of Non-Public APIs',
+            suggestion: group.suggestion,
+          });
+        }
+      }
+    }
+
+    return issues;
+  }
+
   private checkPrivateFrameworks(
     content: string,
     lines: string[],
@@ -375,3 +533,8 @@ export class PrivateAPIAnalyzer implements Analyzer {
     }
   }
 }
+
+function formatNames(names: string[]): string {
+  const shown = names.slice(0, 10).map((name) => `\`${name}\``).join(', ');
+  return names.length > 10 ? `${shown} and ${names.length - 10} more` : shown;
+}
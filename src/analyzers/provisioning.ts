@@ -0,0 +1,277 @@
+import { parsePlist } from '../parsers/plist.js';
+import { parseProvisioningProfile, findInstalledProfile } from '../parsers/provisioning.js';
+import { expandBuildSettingValue, targetBuildSettings } from '../parsers/build-settings.js';
+import type { ProvisioningProfile } from '../parsers/provisioning.js';
+import type {
+  Analyzer,
+  AnalysisResult,
+  AnalyzerOptions,
+  Issue,
+  XcodeProject,
+  XcodeTarget,
+} from '../types/index.js';
+
+/** Profiles expiring within this many days are flagged */
+const EXPIRY_WARNING_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Analyzer that cross-checks provisioning profiles against the target's
+ * entitlements
+ */
+export class ProvisioningAnalyzer implements Analyzer {
+  name = 'Provisioning Profile Analyzer';
+  description = 'Checks the provisioning profile type and expiry and cross-checks it against entitlements';
+
+  async analyze(project: XcodeProject, options: AnalyzerOptions): Promise<AnalysisResult> {
+    const startTime = Date.now();
+    const issues: Issue[] = [];
+
+    // App extensions are signed with their own profiles
+    const targets = options.targetName
+      ? project.targets.filter((t) => t.name === options.targetName)
+      : project.targets.filter((t) => t.type === 'application' || t.type === 'appExtension');
+
+    for (const target of targets) {
+      const profilePath = target.provisioningProfilePath ?? (await this.findTargetProfile(target));
+
+      if (!profilePath) {
+        // Automatic signing in a source project: Xcode picks the profile at archive time
+        if (project.artifact) {
+          issues.push({
+            id: 'provisioning-profile-missing',
+            title: 'No embedded provisioning profile',
+            description: `The "${target.name}" bundle has no embedded.mobileprovision. App Store builds must be signed with a distribution provisioning profile.`,
+            severity: 'error',
+            filePath: target.bundlePath ?? project.path,
+            category: 'entitlements',
+            suggestion: 'Export the archive with the App Store Connect distribution method so Xcode embeds the profile.',
+          });
+        }
+        continue;
+      }
+
+      let profile: ProvisioningProfile;
+      try {
+        profile = await parseProvisioningProfile(profilePath);
+      } catch (error) {
+        issues.push({
+          id: 'provisioning-profile-parse-error',
+          title: 'Failed to parse provisioning profile',
+          description: `Could not parse provisioning profile: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          severity: 'error',
+          filePath: profilePath,
+          category: 'entitlements',
+        });
+        continue;
+      }
+
+      issues.push(...this.checkProfile(profile, profilePath));
+      issues.push(...(await this.crossCheckEntitlements(profile, target)));
+    }
+
+    return {
+      analyzer: this.name,
+      passed: issues.filter((i) => i.severity === 'error').length === 0,
+      issues,
+      duration: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Check the profile's distribution type and expiry
+   */
+  checkProfile(profile: ProvisioningProfile, profilePath: string, now: Date = new Date()): Issue[] {
+    const issues: Issue[] = [];
+    const label = profile.name ? `"${profile.name}"` : 'The provisioning profile';
+
+    if (profile.distributionType === 'development') {
+      issues.push({
+        id: 'provisioning-development-profile',
+        title: 'Development provisioning profile',
+        description: `${label} is a development profile (get-task-allow, ${profile.provisionedDevices.length} provisioned device(s)). Builds signed with it cannot be uploaded to App Store Connect.`,
+        severity: 'error',
+        filePath: profilePath,
+        category: 'entitlements',
+        suggestion: 'Sign the Release/Archive build with an App Store distribution profile.',
+      });
+    } else if (profile.distributionType !== 'app-store') {
+      issues.push({
+        id: 'provisioning-non-app-store-profile',
+        title: `${profile.distributionType === 'ad-hoc' ? 'Ad hoc' : 'Enterprise'} provisioning profile`,
+        description: `${label} is an ${profile.distributionType} distribution profile. App Store Connect only accepts builds signed with an App Store distribution profile.`,
+        severity: 'error',
+        filePath: profilePath,
+        category: 'entitlements',
+        suggestion: 'Sign the build for App Store submission with an App Store distribution profile.',
+      });
+    }
+
+    if (profile.expirationDate) {
+      const remaining = profile.expirationDate.getTime() - now.getTime();
+      if (remaining <= 0) {
+        issues.push({
+          id: 'provisioning-profile-expired',
+          title: 'Provisioning profile expired',
+          description: `${label} expired on ${profile.expirationDate.toISOString().slice(0, 10)}.`,
+          severity: 'error',
+          filePath: profilePath,
+          category: 'entitlements',
+          suggestion: 'Regenerate the profile in the Apple Developer portal and re-sign the build.',
+        });
+      } else if (remaining < EXPIRY_WARNING_DAYS * DAY_MS) {
+        issues.push({
+          id: 'provisioning-profile-expiring',
+          title: 'Provisioning profile expires soon',
+          description: `${label} expires on ${profile.expirationDate.toISOString().slice(0, 10)} (in ${Math.ceil(remaining / DAY_MS)} day(s)).`,
+          severity: 'warning',
+          filePath: profilePath,
+          category: 'entitlements',
+          suggestion: 'Renew the profile before the next submission.',
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Check that every entitlement the target signs with is allowed by the profile
+   */
+  private async crossCheckEntitlements(
+    profile: ProvisioningProfile,
+    target: XcodeTarget
+  ): Promise<Issue[]> {
+    if (!target.entitlementsPath) {
+      return [];
+    }
+
+    let entitlements: Record<string, unknown>;
+    try {
+      entitlements = await parsePlist<Record<string, unknown>>(target.entitlementsPath);
+    } catch {
+      // Reported by the entitlements analyzer
+      return [];
+    }
+
+    const issues: Issue[] = [];
+    const settings: Record<string, string> = {
+      ...targetBuildSettings(target),
+      ...(profile.teamIdentifier
+        ? {
+            AppIdentifierPrefix: `${profile.teamIdentifier}.`,
+            TeamIdentifierPrefix: `${profile.teamIdentifier}.`,
+            DEVELOPMENT_TEAM: profile.teamIdentifier,
+          }
+        : {}),
+    };
+
+    const appAps = entitlements['aps-environment'];
+    const profileAps = profile.entitlements['aps-environment'];
+    if (typeof appAps === 'string' && typeof profileAps === 'string' && appAps !== profileAps) {
+      issues.push({
+        id: 'provisioning-aps-environment-mismatch',
+        title: 'Push environment does not match the profile',
+        description: `The entitlements request aps-environment "${appAps}" but the provisioning profile grants "${profileAps}". Push registration fails for builds signed this way.`,
+        severity: 'error',
+        filePath: target.entitlementsPath,
+        category: 'entitlements',
+        suggestion:
+          profileAps === 'production'
+            ? 'Set aps-environment to "production" for App Store builds (or let Xcode manage it via the Push Notifications capability).'
+            : 'Use a distribution profile whose aps-environment is "production".',
+      });
+    }
+
+    for (const [key, rawValue] of Object.entries(entitlements)) {
+      if (key === 'aps-environment') {
+        continue;
+      }
+      const value = expandValue(rawValue, settings);
+      if (containsUnresolved(value) || value === false) {
+        continue;
+      }
+
+      if (!(key in profile.entitlements)) {
+        issues.push({
+          id: 'provisioning-entitlement-missing',
+          title: `Entitlement not in provisioning profile: ${key}`,
+          description: `The entitlements file requests "${key}" but the provisioning profile${profile.name ? ` "${profile.name}"` : ''} does not include it. Code signing or installation will fail.`,
+          severity: 'error',
+          filePath: target.entitlementsPath,
+          category: 'entitlements',
+          suggestion: 'Enable the matching capability for the App ID in the Apple Developer portal and regenerate the profile.',
+        });
+        continue;
+      }
+
+      if (!isAllowed(profile.entitlements[key], value)) {
+        issues.push({
+          id: 'provisioning-entitlement-mismatch',
+          title: `Entitlement value not allowed by provisioning profile: ${key}`,
+          description: `The entitlements file sets "${key}" to ${JSON.stringify(value)}, but the provisioning profile only allows ${JSON.stringify(profile.entitlements[key])}.`,
+          severity: 'error',
+          filePath: target.entitlementsPath,
+          category: 'entitlements',
+          suggestion: 'Update the capability configuration (identifiers, groups or containers) for the App ID and regenerate the profile.',
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Resolve the profile named by the PROVISIONING_PROFILE(_SPECIFIER) build
+   * settings among the profiles installed by Xcode
+   */
+  private async findTargetProfile(target: XcodeTarget): Promise<string | undefined> {
+    const settings = targetBuildSettings(target);
+    for (const key of ['PROVISIONING_PROFILE_SPECIFIER', 'PROVISIONING_PROFILE']) {
+      const specifier = settings[key];
+      if (specifier) {
+        return findInstalledProfile(specifier);
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Expand build setting references (e.g. `$(AppIdentifierPrefix)`) in
+ * entitlement values
+ */
+function expandValue(value: unknown, settings: Record<string, string>): unknown {
+  if (typeof value === 'string') {
+    return expandBuildSettingValue(value, settings);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => expandValue(item, settings));
+  }
+  return value;
+}
+
+function containsUnresolved(value: unknown): boolean {
+  if (typeof value === 'string') {
+    return value.includes('$(');
+  }
+  return Array.isArray(value) && value.some(containsUnresolved);
+}
+
+/**
+ * Whether a profile entitlement value permits the requested value. Profile
+ * strings may be wildcards (`*`, `TEAMID.*`).
+ */
+function isAllowed(allowed: unknown, requested: unknown): boolean {
+  if (Array.isArray(requested)) {
+    return requested.every((item) => isAllowed(allowed, item));
+  }
+  if (Array.isArray(allowed)) {
+    return allowed.some((item) => isAllowed(item, requested));
+  }
+  if (typeof allowed === 'string' && typeof requested === 'string') {
+    return allowed.endsWith('*') ? requested.startsWith(allowed.slice(0, -1)) : allowed === requested;
+  }
+  return allowed === requested;
+}
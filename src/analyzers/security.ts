@@ -201,7 +201,7 @@ export class SecurityAnalyzer implements Analyzer {
 
     const targets = options.targetName
       ? project.targets.filter((t) => t.name === options.targetName)
-      : project.targets.filter((t) => t.type === 'application');
+      : project.targets.filter((t) => t.type === 'application' || t.type === 'appExtension');
 
     let sourceFiles: string[] = [];
     for (const target of targets) {
@@ -0,0 +1,241 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import fg from 'fast-glob';
+import { readMachO } from '../parsers/macho.js';
+import type { UserFacingText } from '../parsers/strings.js';
+import type { AnalyzerOptions, DeclaredDependency, XcodeProject, XcodeTarget } from '../types/index.js';
+
+/** Swift and Objective-C sources */
+export const SOURCE_EXTENSIONS = new Set(['.swift', '.m', '.mm', '.h']);
+
+/** Strings tables, string catalogs, storyboards and XIBs */
+export const TEXT_EXTENSIONS = new Set(['.strings', '.xcstrings', '.storyboard', '.xib']);
+
+/** Targets whose code ends up in the app that links them */
+export const LIBRARY_TYPES = new Set(['framework', 'staticLibrary', 'dynamicLibrary']);
+
+/**
+ * A line of source code matching a pattern
+ */
+export interface SourceLineMatch {
+  filePath: string;
+  /** 1-based line number */
+  lineNumber: number;
+  /** Text matched by the pattern */
+  match: string;
+}
+
+/**
+ * Where a dependency, line of code, piece of text or binary symbol was found
+ */
+export interface Evidence {
+  description: string;
+  filePath?: string | undefined;
+  lineNumber?: number | undefined;
+  /** Text matched by the pattern */
+  match: string;
+}
+
+/**
+ * Read the lines of each source file, skipping files that can't be read
+ */
+export async function readSourceLines(files: string[]): Promise<Map<string, string[]>> {
+  const lines = new Map<string, string[]>();
+  for (const file of files) {
+    try {
+      lines.set(file, (await fs.readFile(file, 'utf-8')).split('\n'));
+    } catch {
+      // Skip files that can't be read
+    }
+  }
+  return lines;
+}
+
+/**
+ * Find the first line matching a pattern, ignoring comment lines
+ */
+export function findSourceLine(
+  lines: Map<string, string[]>,
+  pattern: RegExp
+): SourceLineMatch | undefined {
+  for (const [filePath, fileLines] of lines) {
+    for (const [index, line] of fileLines.entries()) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith('//') || trimmed.startsWith('*')) {
+        continue;
+      }
+      const match = line.match(pattern);
+      if (match) {
+        return { filePath, lineNumber: index + 1, match: match[0] };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A target and the framework and library targets it depends on
+ */
+export function linkedTargets(project: XcodeProject, target: XcodeTarget): XcodeTarget[] {
+  const dependencies = target.dependencies ?? [];
+  return [
+    target,
+    ...project.targets.filter((t) => LIBRARY_TYPES.has(t.type) && dependencies.includes(t.name)),
+  ];
+}
+
+/**
+ * Files of the targets with one of the extensions, without duplicates
+ */
+export function filesOf(
+  targets: XcodeTarget[],
+  files: (target: XcodeTarget) => string[],
+  extensions: Set<string>
+): string[] {
+  return Array.from(new Set(targets.flatMap(files).filter((f) => extensions.has(path.extname(f)))));
+}
+
+/**
+ * Files with one of the extensions under a directory, outside dependencies,
+ * build output and tests. Used when the project lists no files.
+ */
+export async function findFiles(basePath: string, extensions: Set<string>): Promise<string[]> {
+  return fg(
+    Array.from(extensions, (extension) => `**/*${extension}`),
+    {
+      cwd: basePath,
+      absolute: true,
+      ignore: [
+        '**/Pods/**',
+        '**/Carthage/**',
+        '**/build/**',
+        '**/DerivedData/**',
+        '**/.build/**',
+        '**/*Tests/**',
+      ],
+    }
+  );
+}
+
+/**
+ * Files with one of the extensions of the requested app, or of every app,
+ * and the libraries it links. When none of the apps list such files and the
+ * project isn't a built artifact, each app gets the files under the base
+ * path instead.
+ */
+export async function findAppFiles(
+  project: XcodeProject,
+  options: AnalyzerOptions,
+  files: (target: XcodeTarget) => string[],
+  extensions: Set<string>
+): Promise<Map<XcodeTarget, string[]>> {
+  const apps = project.targets.filter(
+    (t) => t.type === 'application' && (!options.targetName || t.name === options.targetName)
+  );
+  const found = new Map(apps.map((app) => [app, filesOf(linkedTargets(project, app), files, extensions)]));
+  if (project.artifact !== undefined || Array.from(found.values()).some((f) => f.length > 0)) {
+    return found;
+  }
+  const fallback = await findFiles(options.basePath, extensions);
+  return new Map(apps.map((app) => [app, fallback]));
+}
+
+/**
+ * Class names, imported symbols and linked libraries of an executable
+ */
+export async function readBinaryNames(executablePath: string): Promise<string[]> {
+  try {
+    return (await readMachO(executablePath)).flatMap((image) => [
+      ...image.classNames,
+      ...image.undefinedSymbols,
+      ...image.linkedLibraries,
+    ]);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The first dependency whose name matches a pattern
+ */
+export function findDependency(
+  dependencies: DeclaredDependency[],
+  pattern: RegExp | undefined
+): Evidence | undefined {
+  const dependency = pattern ? dependencies.find((d) => pattern.test(d.name)) : undefined;
+  return dependency
+    ? {
+        description: `${dependency.manager} dependency ${dependency.name}`,
+        filePath: dependency.filePath,
+        match: dependency.name,
+      }
+    : undefined;
+}
+
+/**
+ * The first line of code matching a pattern, outside comments
+ */
+export function findInSources(lines: Map<string, string[]>, pattern: RegExp): Evidence | undefined {
+  const found = findSourceLine(lines, pattern);
+  return found
+    ? {
+        description: `${found.match} in ${path.basename(found.filePath)}:${found.lineNumber}`,
+        filePath: found.filePath,
+        lineNumber: found.lineNumber,
+        match: found.match,
+      }
+    : undefined;
+}
+
+/**
+ * The first line matching a pattern in a file that also matches another
+ */
+export function findInFilesWith(
+  lines: Map<string, string[]>,
+  pattern: RegExp,
+  context: RegExp
+): Evidence | undefined {
+  for (const [filePath, fileLines] of lines) {
+    const file = new Map([[filePath, fileLines]]);
+    const found = findSourceLine(file, context) ? findInSources(file, pattern) : undefined;
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The first user-facing text matching a pattern, quoting only the matched
+ * part
+ */
+export function findInText(texts: UserFacingText[], pattern: RegExp): Evidence | undefined {
+  for (const text of texts) {
+    const match = text.text.match(pattern);
+    if (match) {
+      const line = text.lineNumber ? `:${text.lineNumber}` : '';
+      return {
+        description: `"${match[0]}" in ${path.basename(text.filePath)}${line}`,
+        filePath: text.filePath,
+        lineNumber: text.lineNumber,
+        match: match[0],
+      };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The first class name, symbol or linked library of an executable matching
+ * a pattern
+ */
+export function findInBinary(
+  target: XcodeTarget,
+  names: string[],
+  pattern: RegExp | undefined
+): Evidence | undefined {
+  const name = pattern ? names.find((n) => pattern.test(n)) : undefined;
+  return name
+    ? { description: `${name} in the executable`, filePath: target.executablePath, match: name }
+    : undefined;
+}
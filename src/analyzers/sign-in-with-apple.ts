@@ -0,0 +1,185 @@
+import { readPlistObject } from '../parsers/plist.js';
+import { listDependencies } from './dependencies.js';
+import {
+  SOURCE_EXTENSIONS,
+  readSourceLines,
+  findAppFiles,
+  readBinaryNames,
+  findDependency,
+  findInSources,
+  findInBinary,
+  type Evidence,
+} from './shared.js';
+import type {
+  Analyzer,
+  AnalysisResult,
+  AnalyzerOptions,
+  Issue,
+  XcodeProject,
+  XcodeTarget,
+} from '../types/index.js';
+
+const SIWA_ENTITLEMENT = 'com.apple.developer.applesignin';
+
+/**
+ * A third-party or social login service, recognized by the libraries that
+ * provide it, the code that calls it and the classes it leaves in a binary
+ */
+interface LoginProvider {
+  name: string;
+  /** Pod, package, product or framework names (including Flutter and React Native plugins) */
+  dependencies?: RegExp;
+  /** A line of source code */
+  code: RegExp;
+  /** Objective-C class names, symbols and linked libraries of a built executable */
+  binary?: RegExp;
+}
+
+const LOGIN_PROVIDERS: LoginProvider[] = [
+  {
+    name: 'Google Sign-In',
+    dependencies: /^(?:GoogleSignIn(?:Swift(?:Support)?)?|googlesignin-ios|google_sign_in_ios|RNGoogleSignin)$/i,
+    code: /\bimport\s+GoogleSignIn\b|@import\s+GoogleSignIn\b|<GoogleSignIn\/|\bGIDSignIn\b/,
+    binary: /\bGIDSignIn\b|\/GoogleSignIn\.framework\//,
+  },
+  {
+    name: 'Facebook Login',
+    dependencies: /^(?:FBSDKLoginKit|FacebookLogin|react-native-fbsdk-next|flutter_facebook_auth)$/i,
+    code: /\bimport\s+(?:FacebookLogin|FBSDKLoginKit)\b|@import\s+FBSDKLoginKit\b|<FBSDKLoginKit\/|\bFBSDKLoginManager\b|\bFB(?:SDK)?LoginButton\b/,
+    binary: /\bFBSDKLoginManager\b|\/FBSDKLoginKit\.framework\//,
+  },
+  {
+    name: 'Firebase Authentication social providers',
+    dependencies: /^(?:FirebaseUI\/(?:Google|Facebook|OAuth)|Firebase(?:Google|Facebook|OAuth)AuthUI)$/i,
+    // OAuthProvider with any provider but apple.com, which is Sign in with Apple
+    code: /\b(?:FIR)?(?:Google|Facebook|Twitter|GitHub)AuthProvider\b|OAuthProvider(?:\.provider)?\s*\(\s*providerID:\s*"(?!apple\.com")|providerWithProviderID:\s*@"(?!apple\.com")/,
+    binary: /\bFIR(?:Google|Facebook|Twitter|GitHub)AuthProvider\b/,
+  },
+  {
+    name: 'Twitter Kit',
+    dependencies: /^TwitterKit$/i,
+    code: /\bimport\s+TwitterKit\b|<TwitterKit\/|\bTWTRTwitter\b/,
+    binary: /\bTWTRTwitter\b/,
+  },
+  {
+    name: 'LINE Login',
+    dependencies: /^(?:LineSDK|LineSDKSwift|line-sdk-ios-swift)$/i,
+    code: /\bimport\s+LineSDK\b|<LineSDK\/|\bLineSDKLoginManager\b/,
+    binary: /\bLineSDKLoginManager\b/,
+  },
+  {
+    name: 'Kakao Login',
+    dependencies: /^(?:KakaoSDKAuth|KakaoSDKUser|kakao-ios-sdk)$/i,
+    code: /\bimport\s+KakaoSDKAuth\b|\bloginWithKakao(?:Talk|Account)\b/,
+    binary: /\/KakaoSDKAuth\.framework\//,
+  },
+  {
+    name: 'Snapchat Login Kit',
+    dependencies: /^(?:SnapSDK\/SCSDKLoginKit|SCSDKLoginKit)$/i,
+    code: /\bimport\s+SCSDKLoginKit\b|<SCSDKLoginKit\/|\bSCSDKLoginClient\b/,
+    binary: /\bSCSDKLoginClient\b/,
+  },
+  {
+    name: 'Login with Amazon',
+    dependencies: /^LoginWithAmazon$/i,
+    code: /\bimport\s+LoginWithAmazon\b|<LoginWithAmazon\/|\bAMZNAuthorizationManager\b/,
+    binary: /\bAMZNAuthorizationManager\b/,
+  },
+  {
+    name: 'OAuth with a social provider',
+    code: /https:\/\/(?:accounts\.google\.com\/o\/oauth2|(?:www|m)\.facebook\.com\/(?:v\d+\.\d+\/)?dialog\/oauth|(?:api\.)?(?:twitter|x)\.com\/(?:oauth|i\/oauth2)|github\.com\/login\/oauth|www\.linkedin\.com\/oauth|api\.instagram\.com\/oauth|discord(?:app)?\.com\/(?:api\/)?oauth2|access\.line\.me\/oauth2|kauth\.kakao\.com\/oauth|www\.tiktok\.com\/v2\/auth|accounts\.snapchat\.com\/accounts\/oauth2|www\.amazon\.com\/ap\/oa)\b/,
+  },
+];
+
+/**
+ * Sign in with Apple in code: AuthenticationServices, SwiftUI, and
+ * Firebase's apple.com OAuth provider
+ */
+const SIWA_CODE =
+  /\bASAuthorizationAppleIDProvider\b|\bASAuthorizationAppleIDButton\b|\bSignInWithAppleButton\b|\bappleCredential\s*\(|OAuthProvider(?:\.provider)?\s*\(\s*providerID:\s*(?:"apple\.com"|AuthProviderID\.apple|\.apple\b)|providerWithProviderID:\s*@"apple\.com"/;
+
+const SIWA_BINARY = /ASAuthorizationAppleID(?:Provider|Button)|SignInWithAppleButton/;
+
+/** Flutter, React Native, Capacitor and Expo Sign in with Apple plugins */
+const SIWA_DEPENDENCIES =
+  /^(?:sign_in_with_apple|RNAppleAuthentication|react-native-apple-authentication|CapacitorSignInWithApple|ExpoAppleAuthentication)$/i;
+
+/**
+ * Guideline 4.8: apps offering a third-party or social login must also
+ * offer Sign in with Apple (or an equivalent privacy-focused login)
+ */
+export class SignInWithAppleAnalyzer implements Analyzer {
+  name = 'Sign in with Apple Analyzer';
+  description = 'Detects third-party and social login services offered without Sign in with Apple';
+
+  async analyze(project: XcodeProject, options: AnalyzerOptions): Promise<AnalysisResult> {
+    const startTime = Date.now();
+    const issues: Issue[] = [];
+
+    const dependencies = await listDependencies(project, options.basePath);
+    const sources = await findAppFiles(project, options, (t) => t.sourceFiles, SOURCE_EXTENSIONS);
+
+    for (const [app, files] of sources) {
+      const lines = await readSourceLines(files);
+      const binaryNames = app.executablePath ? await readBinaryNames(app.executablePath) : [];
+
+      const providers = new Map<string, Evidence>();
+      for (const provider of LOGIN_PROVIDERS) {
+        const evidence =
+          findDependency(dependencies, provider.dependencies) ??
+          findInSources(lines, provider.code) ??
+          findInBinary(app, binaryNames, provider.binary);
+        if (evidence) {
+          providers.set(provider.name, evidence);
+        }
+      }
+      if (providers.size === 0) {
+        continue;
+      }
+
+      const implementsSiwa =
+        (await this.hasSiwaEntitlement(app)) ||
+        findDependency(dependencies, SIWA_DEPENDENCIES) !== undefined ||
+        findInSources(lines, SIWA_CODE) !== undefined ||
+        findInBinary(app, binaryNames, SIWA_BINARY) !== undefined;
+      if (implementsSiwa) {
+        continue;
+      }
+
+      const names = Array.from(providers.keys());
+      const evidence = Array.from(providers.values());
+      const located = evidence.find((e) => e.filePath !== undefined);
+      issues.push({
+        id: 'siwa-required',
+        title: `Third-party login without Sign in with Apple: ${names.join(', ')}`,
+        description:
+          `Target "${app.name}" offers ${names.join(', ')} (${evidence.map((e) => e.description).join('; ')}) ` +
+          `but has neither the ${SIWA_ENTITLEMENT} entitlement nor any Sign in with Apple code. ` +
+          `Apps that use a third-party or social login service to set up or authenticate the user's primary account ` +
+          `must also offer a login option that limits data collection to name and email, lets users keep their email private ` +
+          `and does not track them without consent. Sign in with Apple meets these requirements.`,
+        severity: 'error',
+        filePath: located?.filePath ?? app.entitlementsPath ?? project.path,
+        lineNumber: located?.lineNumber,
+        category: 'authentication',
+        guideline: 'Guideline 4.8 - Login Services',
+        suggestion:
+          'Enable the Sign in with Apple capability and offer ASAuthorizationAppleIDProvider (or SwiftUI SignInWithAppleButton) next to the other login buttons. ' +
+          'It is not required when the app only uses your own account system, an education or enterprise identity provider, or a government ID, ' +
+          'or when it is a client for the third-party service itself; another login service with the same privacy guarantees is also accepted.',
+      });
+    }
+
+    return {
+      analyzer: this.name,
+      passed: issues.filter((i) => i.severity === 'error').length === 0,
+      issues,
+      duration: Date.now() - startTime,
+    };
+  }
+
+  private async hasSiwaEntitlement(target: XcodeTarget): Promise<boolean> {
+    const entitlements = await readPlistObject(target.entitlementsPath);
+    return entitlements !== undefined && SIWA_ENTITLEMENT in entitlements;
+  }
+}
@@ -0,0 +1,195 @@
+import type {
+  Analyzer,
+  AnalysisResult,
+  AnalyzerOptions,
+  Issue,
+  SwiftPackage,
+  XcodeProject,
+} from '../types/index.js';
+
+/**
+ * Apple's list of commonly used third-party SDKs that must ship a privacy
+ * manifest (and a signature when distributed as a binary), mapped to the
+ * Swift package identities that provide them.
+ * https://developer.apple.com/support/third-party-SDK-requirements/
+ *
+ * Bundled so the check works offline; SDKs without a Swift package
+ * (Flutter and its plugins, React Native's hermes, Unity) match by pod,
+ * framework or product name only.
+ */
+const COMMONLY_USED_SDKS: Record<string, string[]> = {
+  Abseil: ['abseil-cpp-binary', 'abseil-cpp-swiftpm'],
+  AFNetworking: ['afnetworking'],
+  Alamofire: ['alamofire'],
+  AppAuth: ['appauth-ios'],
+  BoringSSL: ['boringssl-swiftpm'],
+  Capacitor: ['capacitor-swift-pm'],
+  Charts: ['charts', 'dgcharts'],
+  connectivity_plus: [],
+  Cordova: ['cordova-ios'],
+  device_info_plus: [],
+  DKImagePickerController: ['dkimagepickercontroller'],
+  DKPhotoGallery: ['dkphotogallery'],
+  FBAEMKit: ['facebook-ios-sdk'],
+  FBLPromises: ['promises'],
+  FBSDKCoreKit: ['facebook-ios-sdk'],
+  FBSDKCoreKit_Basics: ['facebook-ios-sdk'],
+  FBSDKLoginKit: ['facebook-ios-sdk'],
+  FBSDKShareKit: ['facebook-ios-sdk'],
+  file_picker: [],
+  FirebaseABTesting: ['firebase-ios-sdk'],
+  FirebaseAuth: ['firebase-ios-sdk'],
+  FirebaseCore: ['firebase-ios-sdk'],
+  FirebaseCoreDiagnostics: ['firebase-ios-sdk'],
+  FirebaseCoreExtension: ['firebase-ios-sdk'],
+  FirebaseCoreInternal: ['firebase-ios-sdk'],
+  FirebaseCrashlytics: ['firebase-ios-sdk'],
+  FirebaseDynamicLinks: ['firebase-ios-sdk'],
+  FirebaseFirestore: ['firebase-ios-sdk'],
+  FirebaseInstallations: ['firebase-ios-sdk'],
+  FirebaseMessaging: ['firebase-ios-sdk'],
+  FirebaseRemoteConfig: ['firebase-ios-sdk'],
+  Flutter: [],
+  fluttertoast: [],
+  FMDB: ['fmdb'],
+  geolocator_apple: [],
+  GoogleDataTransport: ['googledatatransport'],
+  GoogleSignIn: ['googlesignin-ios'],
+  GoogleToolboxForMac: ['google-toolbox-for-mac'],
+  GoogleUtilities: ['googleutilities'],
+  grpcpp: ['grpc-ios', 'grpc-binary'],
+  GTMAppAuth: ['gtmappauth'],
+  GTMSessionFetcher: ['gtm-session-fetcher'],
+  hermes: [],
+  image_picker_ios: [],
+  IQKeyboardManager: ['iqkeyboardmanager'],
+  IQKeyboardManagerSwift: ['iqkeyboardmanager'],
+  Kingfisher: ['kingfisher'],
+  leveldb: ['leveldb'],
+  Lottie: ['lottie-ios', 'lottie-spm'],
+  MBProgressHUD: ['mbprogresshud'],
+  nanopb: ['nanopb'],
+  OneSignal: ['onesignal-xcframework', 'onesignal-ios-sdk'],
+  OneSignalCore: ['onesignal-xcframework', 'onesignal-ios-sdk'],
+  OneSignalExtension: ['onesignal-xcframework', 'onesignal-ios-sdk'],
+  OneSignalOutcomes: ['onesignal-xcframework', 'onesignal-ios-sdk'],
+  OpenSSL: ['openssl', 'openssl-package'],
+  OrderedSet: ['orderedset'],
+  package_info: [],
+  package_info_plus: [],
+  path_provider: [],
+  path_provider_ios: [],
+  Promises: ['promises'],
+  PromisesObjC: ['promises'],
+  PromisesSwift: ['promises'],
+  Protobuf: ['protobuf'],
+  Reachability: ['reachability.swift'],
+  RealmSwift: ['realm-swift'],
+  RxCocoa: ['rxswift'],
+  RxRelay: ['rxswift'],
+  RxSwift: ['rxswift'],
+  SDWebImage: ['sdwebimage'],
+  share_plus: [],
+  shared_preferences_ios: [],
+  SnapKit: ['snapkit'],
+  sqflite: [],
+  Starscream: ['starscream'],
+  SVProgressHUD: ['svprogresshud'],
+  SwiftyGif: ['swiftygif'],
+  SwiftyJSON: ['swiftyjson'],
+  Toast: ['toast-swift'],
+  UnityFramework: [],
+  url_launcher: [],
+  url_launcher_ios: [],
+  video_player_avfoundation: [],
+  wakelock: [],
+  webview_flutter_wkwebview: [],
+};
+
+/**
+ * Whether a pod, framework or product name is on the commonly used SDK list
+ */
+export function isCommonlyUsedSdk(name: string): boolean {
+  const lower = name.toLowerCase();
+  return Object.keys(COMMONLY_USED_SDKS).some((sdk) => sdk.toLowerCase() === lower);
+}
+
+/**
+ * Flags Swift packages that provide SDKs on Apple's commonly used
+ * third-party SDK list
+ */
+export class ThirdPartySDKAnalyzer implements Analyzer {
+  name = 'Third-Party SDK Analyzer';
+  description =
+    'Flags Swift packages on Apple’s commonly used third-party SDK list, which require privacy manifests and signatures';
+
+  async analyze(project: XcodeProject, _options: AnalyzerOptions): Promise<AnalysisResult> {
+    const startTime = Date.now();
+    const issues: Issue[] = [];
+
+    for (const pkg of project.packages ?? []) {
+      const linkedProducts = project.targets.flatMap((t) =>
+        (t.packageProducts ?? [])
+          .filter((p) => p.package === pkg.identity)
+          .map((p) => ({ target: t.name, product: p.name }))
+      );
+
+      const sdks = this.findCommonlyUsedSdks(
+        pkg,
+        linkedProducts.map((p) => p.product)
+      );
+      if (sdks.length === 0) {
+        continue;
+      }
+
+      const linkedTargets = [...new Set(linkedProducts.map((p) => p.target))];
+      issues.push({
+        id: 'commonly-used-sdk',
+        title: `Commonly used third-party SDK: ${sdks.join(', ')}`,
+        description:
+          `Swift package "${pkg.identity}"${this.describeVersion(pkg)} provides ${sdks.join(', ')}, ` +
+          `which Apple lists as commonly used third-party SDKs. Apps including them must ship each SDK's privacy manifest, ` +
+          `and binary versions of them must be signed by the SDK developer.` +
+          (pkg.direct ? '' : ' It is a transitive dependency of another package.') +
+          (linkedTargets.length > 0 ? ` Linked into: ${linkedTargets.join(', ')}.` : ''),
+        severity: 'warning',
+        filePath: project.path,
+        category: 'dependencies',
+        guideline: 'Guideline 5.1.1 - Data Collection and Storage',
+        suggestion:
+          'Update to a release that includes PrivacyInfo.xcprivacy (and a code signature for XCFramework distributions), then confirm it appears in the privacy report generated from your archive.',
+      });
+    }
+
+    return {
+      analyzer: this.name,
+      passed: issues.filter((i) => i.severity === 'error').length === 0,
+      issues,
+      duration: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * SDK names provided by a package, matched by package identity or by the
+   * names of the products targets link from it
+   */
+  private findCommonlyUsedSdks(pkg: SwiftPackage, productNames: string[]): string[] {
+    const products = new Set(productNames.map((name) => name.toLowerCase()));
+
+    return Object.entries(COMMONLY_USED_SDKS)
+      .filter(
+        ([sdk, identities]) => identities.includes(pkg.identity) || products.has(sdk.toLowerCase())
+      )
+      .map(([sdk]) => sdk);
+  }
+
+  private describeVersion(pkg: SwiftPackage): string {
+    if (pkg.version) {
+      return ` (${pkg.version})`;
+    }
+    if (pkg.branch) {
+      return ` (branch ${pkg.branch})`;
+    }
+    return pkg.revision ? ` (revision ${pkg.revision.substring(0, 7)})` : '';
+  }
+}
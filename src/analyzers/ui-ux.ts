@@ -1,7 +1,9 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import fg from 'fast-glob';
-import { parsePlist } from '../parsers/plist.js';
+import { parsePlist, fileExists } from '../parsers/plist.js';
+import { parseInterfaceBuilderFile, walkElements, type IBDocument } from '../parsers/interface-builder.js';
+import { readImageInfo, type ImageInfo } from '../parsers/image.js';
 import type {
   Analyzer,
   AnalysisResult,
@@ -48,26 +50,34 @@ const IPAD_ORIENTATIONS = [
 ];
 
 /**
- * Placeholder text patterns to detect in storyboard/xib files
+ * Placeholder text patterns to detect in storyboard/xib text
  */
 const PLACEHOLDER_PATTERNS = [
-  /\blorem\s+ipsum\b/gi,
-  /\bplaceholder\b/gi,
-  /\bsample\s+text\b/gi,
-  /\bdummy\s+text\b/gi,
-  /text="Label"\s/g,
-  /title="Button"\s/g,
-  /text="Title"\s/g,
-  /text="Subtitle"\s/g,
-  /text="Description"\s/g,
+  /\blorem\s+ipsum\b/i,
+  /\bplaceholder\b/i,
+  /\bsample\s+text\b/i,
+  /\bdummy\s+text\b/i,
 ];
 
+/**
+ * Default titles Interface Builder gives new labels and buttons
+ */
+const DEFAULT_TEXTS = new Set(['Label', 'Button', 'Title', 'Subtitle', 'Description']);
+
+/**
+ * Lowest iOS deployment target for single-size (1024x1024 only) app icons
+ */
+const SINGLE_SIZE_ICON_MIN_IOS = 12;
+
 interface AppIconContentsImage {
   size?: string;
   scale?: string;
   filename?: string;
   idiom?: string;
   platform?: string;
+  subtype?: string;
+  /** Dark and tinted variants (iOS 18), which may be transparent */
+  appearances?: { appearance: string; value: string }[];
 }
 
 /**
@@ -81,11 +91,13 @@ export class UIUXAnalyzer implements Analyzer {
     const startTime = Date.now();
     const issues: Issue[] = [];
 
+    // Prefer the app; projects with only extensions still get the checks
+    // that apply to any bundle
     const targets = options.targetName
       ? project.targets.filter((t) => t.name === options.targetName)
-      : project.targets.filter((t) => t.type === 'application');
+      : project.targets.filter((t) => t.type === 'application' || t.type === 'appExtension');
 
-    const target = targets[0];
+    const target = targets.find((t) => t.type !== 'appExtension') ?? targets[0];
     if (!target) {
       return {
         analyzer: this.name,
@@ -93,7 +105,7 @@ export class UIUXAnalyzer implements Analyzer {
         issues: [{
           id: 'uiux-no-target',
           title: 'No app target found',
-          description: 'Could not find an application target to analyze.',
+          description: 'Could not find an app or app extension target to analyze.',
           severity: 'info',
           category: 'ui-ux',
         }],
@@ -102,15 +114,39 @@ export class UIUXAnalyzer implements Analyzer {
     }
 
     const basePath = options.basePath;
+    // Launch screens, app icons and iPad orientations belong to the app
+    const isExtension = target.type === 'appExtension';
+
+    // Built bundles: check the compiled Info.plist and resources instead of sources
+    if (target.bundlePath) {
+      if (!isExtension) {
+        await this.checkBundle(target.bundlePath, issues);
+        await this.checkIPadSupport(basePath, target.infoPlistPath, issues);
+      }
 
-    // Check launch screen
-    await this.checkLaunchScreen(basePath, target.infoPlistPath, issues);
+      return {
+        analyzer: this.name,
+        passed: issues.filter((i) => i.severity === 'error').length === 0,
+        issues,
+        duration: Date.now() - startTime,
+      };
+    }
 
-    // Check app icons
-    await this.checkAppIcons(basePath, issues);
+    if (!isExtension) {
+      // Check launch screen
+      await this.checkLaunchScreen(basePath, target.infoPlistPath, issues);
+
+      // Check app icons
+      await this.checkAppIcons(basePath, issues, target.deploymentTarget);
+    }
 
-    // Check iPad support
-    await this.checkIPadSupport(basePath, target.infoPlistPath, issues);
+    // Check images
+    await this.checkImageSets(basePath, issues);
+
+    if (!isExtension) {
+      // Check iPad support
+      await this.checkIPadSupport(basePath, target.infoPlistPath, issues);
+    }
 
     // Check for placeholder text in storyboards/xibs
     await this.checkPlaceholderText(basePath, issues);
@@ -147,6 +183,7 @@ export class UIUXAnalyzer implements Analyzer {
 
     await this.checkLaunchScreen(basePath, infoPlistPath, issues);
     await this.checkAppIcons(basePath, issues);
+    await this.checkImageSets(basePath, issues);
     await this.checkIPadSupport(basePath, infoPlistPath, issues);
     await this.checkPlaceholderText(basePath, issues);
     await this.checkAccessibility(basePath, issues);
@@ -210,10 +247,108 @@ export class UIUXAnalyzer implements Analyzer {
     }
   }
 
+  /**
+   * Check the launch screen and icons of a built app bundle, where
+   * storyboards are compiled and icons live in Assets.car
+   */
+  private async checkBundle(bundlePath: string, issues: Issue[]): Promise<void> {
+    const infoPlistPath = path.join(bundlePath, 'Info.plist');
+    let plist: Record<string, unknown>;
+    try {
+      plist = await parsePlist(infoPlistPath);
+    } catch {
+      // Reported by the Info.plist analyzer
+      return;
+    }
+
+    const launchStoryboard = plist['UILaunchStoryboardName'];
+    const hasLaunchScreen =
+      plist['UILaunchScreen'] !== undefined ||
+      (typeof launchStoryboard === 'string' &&
+        (await fg([`${launchStoryboard}.storyboardc`, `**/${launchStoryboard}.storyboardc`], {
+          cwd: bundlePath,
+          onlyDirectories: true,
+        })).length > 0);
+
+    if (!hasLaunchScreen) {
+      issues.push({
+        id: 'uiux-no-launch-screen',
+        title: 'Missing launch screen',
+        description: typeof launchStoryboard === 'string'
+          ? `UILaunchStoryboardName is "${launchStoryboard}" but ${launchStoryboard}.storyboardc is not in the app bundle.`
+          : 'The app bundle has no launch screen. Apps must include a launch screen storyboard.',
+        severity: 'error',
+        filePath: infoPlistPath,
+        category: 'ui-ux',
+        guideline: 'Guideline 4.6 - Launch Screen',
+        suggestion:
+          'Add a LaunchScreen.storyboard to the app target and set UILaunchStoryboardName in Info.plist.',
+      });
+    }
+
+    const hasAssetCatalog = await fileExists(path.join(bundlePath, 'Assets.car'));
+    for (const [key, idiom] of [['CFBundleIcons', 'iPhone'], ['CFBundleIcons~ipad', 'iPad']] as const) {
+      const primaryIcon = (plist[key] as { CFBundlePrimaryIcon?: Record<string, unknown> } | undefined)
+        ?.CFBundlePrimaryIcon;
+      const iconFiles = primaryIcon?.['CFBundleIconFiles'];
+      const hasIcon =
+        primaryIcon?.['CFBundleIconName'] !== undefined ||
+        (Array.isArray(iconFiles) && iconFiles.length > 0);
+
+      if (key === 'CFBundleIcons' && !hasIcon) {
+        issues.push({
+          id: 'uiux-no-app-icon',
+          title: 'Missing app icon',
+          description:
+            'The compiled Info.plist has no CFBundleIcons entry, so the app bundle has no app icon.',
+          severity: 'error',
+          filePath: infoPlistPath,
+          category: 'ui-ux',
+          guideline: 'Guideline 4.0 - App Icons',
+          suggestion:
+            'Add AppIcon.appiconset to your asset catalog and set it as the target\'s App Icon.',
+        });
+      } else if (key === 'CFBundleIcons~ipad' && !hasIcon && this.supportsIPad(plist)) {
+        issues.push({
+          id: 'uiux-missing-ipad-icon',
+          title: 'Missing iPad app icon',
+          description: 'The app supports iPad but the compiled Info.plist has no CFBundleIcons~ipad entry.',
+          severity: 'warning',
+          filePath: infoPlistPath,
+          category: 'ui-ux',
+          suggestion: 'Add iPad icon sizes to your AppIcon asset catalog.',
+        });
+      }
+
+      if (hasIcon && primaryIcon?.['CFBundleIconName'] !== undefined && !hasAssetCatalog) {
+        issues.push({
+          id: 'uiux-missing-asset-catalog',
+          title: `${idiom} app icon not compiled`,
+          description: `CFBundleIconName is set but the app bundle has no Assets.car, so the ${idiom} icon cannot be loaded.`,
+          severity: 'error',
+          filePath: bundlePath,
+          category: 'ui-ux',
+          guideline: 'Guideline 4.0 - App Icons',
+          suggestion: 'Make sure the asset catalog containing the app icon is a member of the app target.',
+        });
+        break;
+      }
+    }
+  }
+
+  private supportsIPad(plist: Record<string, unknown>): boolean {
+    const deviceFamily = plist['UIDeviceFamily'];
+    return Array.isArray(deviceFamily) && deviceFamily.includes(2);
+  }
+
   /**
    * Check app icon configuration
    */
-  private async checkAppIcons(basePath: string, issues: Issue[]): Promise<void> {
+  private async checkAppIcons(
+    basePath: string,
+    issues: Issue[],
+    deploymentTarget?: string
+  ): Promise<void> {
     // Find AppIcon asset catalog
     const iconSets = await fg(['**/AppIcon.appiconset/Contents.json'], {
       cwd: basePath,
@@ -263,8 +398,25 @@ export class UIUXAnalyzer implements Analyzer {
         });
       }
 
+      // Single-size icon sets: Xcode generates every size from the 1024x1024 image
+      const singleSize = images.some(
+        (img) => img.idiom === 'universal' && img.platform === 'ios' && img.size === APP_STORE_ICON_SIZE
+      );
+      if (singleSize && deploymentTarget && parseFloat(deploymentTarget) < SINGLE_SIZE_ICON_MIN_IOS) {
+        issues.push({
+          id: 'uiux-single-size-icon-deployment-target',
+          title: 'Single-size app icon requires iOS 12',
+          description: `The app icon set only provides the 1024x1024 "Single Size" image, but the deployment target is iOS ${deploymentTarget}. Xcode can only generate the other icon sizes for iOS ${SINGLE_SIZE_ICON_MIN_IOS} and later.`,
+          severity: 'error',
+          filePath: iconSets[0],
+          category: 'ui-ux',
+          guideline: 'Guideline 4.0 - App Icons',
+          suggestion: `Raise the deployment target to iOS ${SINGLE_SIZE_ICON_MIN_IOS} or switch the icon set to "All Sizes" in the Attributes inspector.`,
+        });
+      }
+
       // Check for missing iPhone icons
-      for (const required of REQUIRED_IPHONE_ICONS) {
+      for (const required of singleSize ? [] : REQUIRED_IPHONE_ICONS) {
         for (const scale of required.scales) {
           const hasIcon = images.some(
             (img) =>
@@ -297,6 +449,164 @@ export class UIUXAnalyzer implements Analyzer {
         suggestion: 'Regenerate the asset catalog through Xcode.',
       });
     }
+
+    await this.checkIconSetImages(basePath, issues);
+  }
+
+  /**
+   * Check the image files of every app icon set against Contents.json
+   */
+  private async checkIconSetImages(basePath: string, issues: Issue[]): Promise<void> {
+    const iconSets = await fg(['**/*.appiconset/Contents.json'], {
+      cwd: basePath,
+      absolute: true,
+      ignore: ['**/Pods/**', '**/build/**', '**/DerivedData/**'],
+    });
+
+    for (const contentsPath of iconSets) {
+      const images = await readContentsImages(contentsPath);
+      const iconSetName = path.basename(path.dirname(contentsPath));
+
+      for (const image of images) {
+        const info = await this.readAssetImage(contentsPath, image, 'error', issues);
+        if (!info || !image.filename) {
+          continue;
+        }
+
+        const [width, height] = (image.size ?? '').split('x').map(Number);
+        const scale = parseFloat(image.scale ?? '1x');
+        const expected = width && height ? [Math.round(width * scale), Math.round(height * scale)] : undefined;
+        if (expected && (info.width !== expected[0] || info.height !== expected[1])) {
+          issues.push({
+            id: 'uiux-icon-size-mismatch',
+            title: `Icon has wrong pixel size: ${image.filename}`,
+            description: `${iconSetName} declares ${image.filename} as ${image.size}${image.scale ? `@${image.scale}` : ''} (${expected[0]}x${expected[1]} pixels), but the image is ${info.width}x${info.height}.`,
+            severity: 'error',
+            filePath: path.join(path.dirname(contentsPath), image.filename),
+            category: 'ui-ux',
+            guideline: 'Guideline 4.0 - App Icons',
+            suggestion: `Export ${image.filename} at ${expected[0]}x${expected[1]} pixels.`,
+          });
+        }
+
+        const isMarketingIcon =
+          image.size === APP_STORE_ICON_SIZE &&
+          (image.idiom === 'ios-marketing' || (image.idiom === 'universal' && image.platform === 'ios')) &&
+          !image.appearances?.length;
+        if (isMarketingIcon && info.hasAlpha) {
+          issues.push({
+            id: 'uiux-icon-has-alpha',
+            title: 'App Store icon has an alpha channel',
+            description: `The 1024x1024 icon ${image.filename} in ${iconSetName} has an alpha channel. App Store Connect rejects transparent App Store icons (ITMS-90717).`,
+            severity: 'error',
+            filePath: path.join(path.dirname(contentsPath), image.filename),
+            category: 'ui-ux',
+            guideline: 'Guideline 4.0 - App Icons',
+            suggestion: 'Export the icon as a PNG without alpha (e.g. uncheck "Alpha" in Preview\'s export dialog) on an opaque background.',
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Check that image set files exist and that their scales are consistent
+   */
+  private async checkImageSets(basePath: string, issues: Issue[]): Promise<void> {
+    const imageSets = await fg(['**/*.imageset/Contents.json'], {
+      cwd: basePath,
+      absolute: true,
+      ignore: ['**/Pods/**', '**/build/**', '**/DerivedData/**'],
+    });
+
+    for (const contentsPath of imageSets) {
+      const images = await readContentsImages(contentsPath);
+      // The same image at different scales: same idiom, subtype and appearance
+      const variants = new Map<string, { image: AppIconContentsImage; info: ImageInfo; scale: number }[]>();
+
+      for (const image of images) {
+        const info = await this.readAssetImage(contentsPath, image, 'warning', issues);
+        const scale = parseFloat(image.scale ?? '');
+        if (!info || !scale) {
+          continue;
+        }
+        const key = JSON.stringify([image.idiom, image.subtype, image.appearances]);
+        variants.set(key, [...(variants.get(key) ?? []), { image, info, scale }]);
+      }
+
+      for (const group of variants.values()) {
+        const [reference, ...others] = group.sort((a, b) => a.scale - b.scale);
+        if (!reference) {
+          continue;
+        }
+        for (const { image, info, scale } of others) {
+          const expectedWidth = (reference.info.width / reference.scale) * scale;
+          const expectedHeight = (reference.info.height / reference.scale) * scale;
+          if (Math.abs(info.width - expectedWidth) > 1 || Math.abs(info.height - expectedHeight) > 1) {
+            issues.push({
+              id: 'uiux-image-scale-mismatch',
+              title: `Image scales do not match: ${image.filename ?? ''}`,
+              description: `In ${path.basename(path.dirname(contentsPath))}, ${reference.image.filename ?? ''} (${reference.image.scale ?? ''}) is ${reference.info.width}x${reference.info.height}, so ${image.filename ?? ''} (${image.scale ?? ''}) should be ${Math.round(expectedWidth)}x${Math.round(expectedHeight)} but is ${info.width}x${info.height}. The image renders at different point sizes on different devices.`,
+              severity: 'warning',
+              filePath: path.join(path.dirname(contentsPath), image.filename ?? ''),
+              category: 'ui-ux',
+              suggestion: 'Export every scale from the same artwork at 1x, 2x and 3x the point size.',
+            });
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Read the PNG/JPEG header of an asset catalog image, reporting missing
+   * and unreadable files. Vector and other formats are skipped.
+   */
+  private async readAssetImage(
+    contentsPath: string,
+    image: AppIconContentsImage,
+    missingSeverity: Issue['severity'],
+    issues: Issue[]
+  ): Promise<ImageInfo | undefined> {
+    if (!image.filename) {
+      return undefined;
+    }
+    const filePath = path.join(path.dirname(contentsPath), image.filename);
+
+    if (!(await fileExists(filePath))) {
+      issues.push({
+        id: 'uiux-asset-missing-file',
+        title: `Asset catalog file missing: ${image.filename}`,
+        description: `${path.basename(path.dirname(contentsPath))}/Contents.json references ${image.filename}, which does not exist.`,
+        severity: missingSeverity,
+        filePath: contentsPath,
+        category: 'ui-ux',
+        suggestion: 'Add the missing file or remove it from the slot in the asset catalog editor.',
+      });
+      return undefined;
+    }
+
+    if (!/\.(?:png|jpe?g)$/i.test(image.filename)) {
+      return undefined;
+    }
+    try {
+      const info = await readImageInfo(filePath);
+      if (info) {
+        return info;
+      }
+    } catch {
+      // Reported below
+    }
+    issues.push({
+      id: 'uiux-unreadable-image',
+      title: `Unreadable image: ${image.filename}`,
+      description: `${filePath} is not a valid PNG or JPEG image.`,
+      severity: 'warning',
+      filePath,
+      category: 'ui-ux',
+      suggestion: 'Re-export the image as PNG.',
+    });
+    return undefined;
   }
 
   /**
@@ -400,38 +710,45 @@ export class UIUXAnalyzer implements Analyzer {
     });
 
     for (const file of storyboardFiles) {
+      let document: IBDocument;
       try {
-        const content = await fs.readFile(file, 'utf-8');
-
-        for (const pattern of PLACEHOLDER_PATTERNS) {
-          pattern.lastIndex = 0;
-
-          let match: RegExpExecArray | null;
-          while ((match = pattern.exec(content)) !== null) {
-            const lineNumber = content.substring(0, match.index).split('\n').length;
+        document = await parseInterfaceBuilderFile(file);
+      } catch {
+        // Skip files that can't be parsed
+        continue;
+      }
 
-            issues.push({
-              id: 'uiux-placeholder-text',
-              title: 'Placeholder text in UI',
-              description: `Placeholder or default text detected in storyboard/xib.\n\nFound: \`${match[0].trim()}\``,
-              severity: 'warning',
-              filePath: file,
-              lineNumber,
-              category: 'ui-ux',
-              guideline: 'Guideline 2.3 - Accurate Metadata',
-              suggestion: 'Replace placeholder text with actual content before submission.',
-            });
+      let count = 0;
+      walkElements(document.root, (element) => {
+        // Text and titles shown to the user, including long text in <string key="text">
+        const texts = [element.attributes['text'], element.attributes['title']];
+        if (element.tag === 'string' && element.attributes['key'] === 'text') {
+          texts.push(element.text);
+        }
 
-            // Limit per pattern per file
-            const count = issues.filter(
-              (i) => i.id === 'uiux-placeholder-text' && i.filePath === file
-            ).length;
-            if (count >= 5) break;
+        for (const text of texts) {
+          if (
+            count >= 5 ||
+            text === undefined ||
+            (!DEFAULT_TEXTS.has(text.trim()) && !PLACEHOLDER_PATTERNS.some((p) => p.test(text)))
+          ) {
+            continue;
           }
+          count++;
+
+          issues.push({
+            id: 'uiux-placeholder-text',
+            title: 'Placeholder text in UI',
+            description: `Placeholder or default text detected in storyboard/xib.\n\nFound: \`${text.trim()}\``,
+            severity: 'warning',
+            filePath: file,
+            lineNumber: element.lineNumber,
+            category: 'ui-ux',
+            guideline: 'Guideline 2.3 - Accurate Metadata',
+            suggestion: 'Replace placeholder text with actual content before submission.',
+          });
         }
-      } catch {
-        // Skip files that can't be read
-      }
+      });
     }
   }
 
@@ -507,3 +824,15 @@ export class UIUXAnalyzer implements Analyzer {
     }
   }
 }
+
+/**
+ * The images of an asset catalog Contents.json, or none when it cannot be read
+ */
+async function readContentsImages(contentsPath: string): Promise<AppIconContentsImage[]> {
+  try {
+    const contents = JSON.parse(await fs.readFile(contentsPath, 'utf-8')) as { images?: AppIconContentsImage[] };
+    return contents.images ?? [];
+  } catch {
+    return [];
+  }
+}
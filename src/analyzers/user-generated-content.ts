@@ -0,0 +1,204 @@
+import { readUserFacingText } from '../parsers/strings.js';
+import { listDependencies } from './dependencies.js';
+import {
+  SOURCE_EXTENSIONS,
+  TEXT_EXTENSIONS,
+  readSourceLines,
+  findAppFiles,
+  findDependency,
+  findInSources,
+  findInFilesWith,
+  findInText,
+  type Evidence,
+} from './shared.js';
+import type {
+  Analyzer,
+  AnalysisResult,
+  AnalyzerOptions,
+  DeclaredDependency,
+  Issue,
+  XcodeProject,
+} from '../types/index.js';
+
+/**
+ * A chat SDK, recognized by the libraries that provide it and the code that
+ * calls it
+ */
+interface ChatSdk {
+  name: string;
+  /** Pod, package, product or framework names (including Flutter and React Native plugins) */
+  dependencies: RegExp;
+  /** A line of source code */
+  code: RegExp;
+}
+
+const CHAT_SDKS: ChatSdk[] = [
+  {
+    name: 'Stream Chat',
+    dependencies: /^(?:StreamChat(?:UI|SwiftUI)?|stream-chat-swift(?:ui)?|stream-chat-react-native|stream_chat_flutter)$/i,
+    code: /\bimport\s+StreamChat\w*\b|\bChatClient\s*\(\s*config:/,
+  },
+  {
+    name: 'Sendbird',
+    dependencies: /^(?:Send[bB]ird(?:ChatSDK|SDK|UIKit)|sendbird-(?:chat-sdk|uikit)-ios)$/i,
+    code: /\bimport\s+Send[bB]ird\w*\b|\bSendbirdChat\.initialize\b|\bSBDMain\b/,
+  },
+  {
+    name: 'CometChat',
+    dependencies: /^CometChat(?:SDK|Pro|ProSDK|UIKitSwift)?$/i,
+    code: /\bimport\s+CometChat\w*\b|\bCometChat\.init\b/,
+  },
+  {
+    name: 'Twilio Conversations',
+    dependencies: /^(?:TwilioConversationsClient|twilio-conversations-ios)$/i,
+    code: /\bimport\s+TwilioConversationsClient\b|\bTwilioConversationsClient\.conversationsClient\b/,
+  },
+  {
+    name: 'Agora Chat',
+    dependencies: /^(?:AgoraChat|HyphenateChat|Agora_Chat_iOS)$/i,
+    code: /\bimport\s+(?:AgoraChat|HyphenateChat)\b/,
+  },
+  {
+    name: 'MessageKit',
+    dependencies: /^MessageKit$/i,
+    code: /\bimport\s+MessageKit\b|\bMessagesViewController\b/,
+  },
+];
+
+/**
+ * Creating posts, comments and replies, through app functions, Firebase
+ * collections or REST endpoints
+ */
+const POSTING_CODE =
+  /\b(?:create|submit|upload|publish|add)(?:Post|Comment|Reply|Review|Story)\s*\(|\bcollection\s*\(\s*"(?:posts|comments|replies|messages|chats)"\s*\)\s*\.addDocument\b|\bchild\s*\(\s*"(?:posts|comments|messages|chats)"\s*\)\s*\.childByAutoId\b/;
+
+const POSTING_ENDPOINT = /"[^"\s]*\/(?:posts|comments|replies|messages|stories)(?:[/?][^"\s]*)?"/;
+
+const HTTP_POST = /\bhttpMethod\s*=\s*"POST"|\bmethod:\s*\.post\b|\bHTTPMethod\s*=\s*@"POST"|\bsetHTTPMethod:\s*@"POST"/;
+
+/** Uploads to storage services and multipart or upload task requests */
+const IMAGE_UPLOAD =
+  /\.put(?:Data|File)\s*\(|\bCLDUploader\b|\.createUploader\s*\(|\bAWSS3TransferUtility\b|\buploadTask\s*\(\s*with:|\bAF\.upload\s*\(|\bmultipartFormData\b/;
+
+const IMAGE_DATA =
+  /\.(?:jpeg|png|heic)Data\s*\(|\bUIImage(?:JPEG|PNG)Representation\s*\(|\bPHPickerViewController\b|\bUIImagePickerController\b|\bPhotosPicker\b|image\/(?:jpeg|png)/;
+
+/** Report functions and endpoints, including chat SDKs' flag and report calls */
+const REPORT_CODE =
+  /\b(?:report|flag)(?:User|Post|Comment|Message|Content|Abuse|Channel)\s*\(|["'/](?:api\/)?(?:v\d+\/)?(?:reports|flags)(?:["'?]|\/)/;
+
+const REPORT_TEXT =
+  /^\s*report\s*$|"report"|\breport\s+(?:this\s+)?(?:user|post|comment|message|content|abuse|spam|profile|photo)\b|\bflag\s+(?:as\s+)?inappropriate\b/i;
+
+/** Block, mute and ban functions and endpoints */
+const BLOCK_CODE =
+  /\b(?:block|mute|ban)(?:User|Member|Account|Contact)s?\s*\(|\bblocked(?:Users|UserIds|UserIDs|Accounts)\b|["'/](?:api\/)?(?:v\d+\/)?blocks?(?:["'?]|\/)/;
+
+const BLOCK_TEXT =
+  /^\s*(?:un)?block\s*$|"(?:un)?block"|\b(?:un)?block\s+(?:this\s+)?(?:user|account|contact|member|person|profile)\b|\bblocked\s+(?:users|accounts|contacts)\b/i;
+
+/**
+ * Moderation APIs (OpenAI, Perspective, Rekognition, Azure Content
+ * Moderator, Hive, Sightengine, Cloud Vision SafeSearch, Sensitive Content
+ * Analysis) and word filters
+ */
+const FILTER_CODE =
+  /\/v1\/moderations\b|\bmoderations\.create\b|commentanalyzer\.googleapis\.com|\bdetectModerationLabels\b|\bDetectModerationLabels\b|\bcontentmoderator\b|thehive\.ai|\bsightengine\b|\bsafeSearch(?:Detection|Annotation)\b|\bSAFE_SEARCH_DETECTION\b|\bSCSensitivityAnalyzer\b|\bprofanity\w*|\bProfanity\w*|\b(?:bad|banned|blocked|offensive)Words\b|\bcontentFilter\b/;
+
+/**
+ * Guideline 1.2: apps with user-generated content must filter objectionable
+ * material, let users report offensive content and block abusive users
+ */
+export class UserGeneratedContentAnalyzer implements Analyzer {
+  name = 'User-Generated Content Analyzer';
+  description = 'Detects user-generated content features without reporting, blocking or filtering';
+
+  async analyze(project: XcodeProject, options: AnalyzerOptions): Promise<AnalysisResult> {
+    const startTime = Date.now();
+    const issues: Issue[] = [];
+
+    const sources = await findAppFiles(project, options, (t) => t.sourceFiles, SOURCE_EXTENSIONS);
+    const textFiles = await findAppFiles(project, options, (t) => t.resourceFiles ?? [], TEXT_EXTENSIONS);
+
+    const dependencies = await listDependencies(project, options.basePath);
+    const lines = await readSourceLines(Array.from(new Set([...sources.values()].flat())));
+    const texts = await readUserFacingText(Array.from(new Set([...textFiles.values()].flat())));
+
+    const features = this.findUserGeneratedContent(dependencies, lines);
+    const first = features[0];
+    const found = `The app appears to have user-generated content (${features.map((e) => e.description).join('; ')})`;
+    const safeguards = [
+      {
+        id: 'ugc-missing-report',
+        title: 'User-generated content without a way to report it',
+        evidence: findInSources(lines, REPORT_CODE) ?? findInSources(lines, REPORT_TEXT) ?? findInText(texts, REPORT_TEXT),
+        missing: 'no report or flag calls, report endpoints or "Report" buttons were found',
+        suggestion:
+          'Let users report offensive posts, messages and profiles from where they are shown, and act on reports in a timely manner.',
+      },
+      {
+        id: 'ugc-missing-block',
+        title: 'User-generated content without a way to block users',
+        evidence: findInSources(lines, BLOCK_CODE) ?? findInSources(lines, BLOCK_TEXT) ?? findInText(texts, BLOCK_TEXT),
+        missing: 'no block, mute or ban calls, block endpoints or "Block user" buttons were found',
+        suggestion: 'Let users block abusive users so that their content and messages are hidden.',
+      },
+      {
+        id: 'ugc-missing-filter',
+        title: 'User-generated content without filtering',
+        evidence: findInSources(lines, FILTER_CODE),
+        missing: 'no moderation API calls or word filters were found',
+        suggestion:
+          'Filter objectionable text and images before they are shown, with a moderation API or word filter in the app or on your server. If filtering only happens server-side, note it for App Review.',
+      },
+    ];
+
+    for (const safeguard of safeguards) {
+      if (!first || safeguard.evidence) {
+        continue;
+      }
+      issues.push({
+        id: safeguard.id,
+        title: safeguard.title,
+        description:
+          `${found}, but ${safeguard.missing}. ` +
+          'Apps with user-generated content must filter objectionable material, offer a mechanism to report offensive content and let users block abusive users.',
+        severity: 'warning',
+        filePath: first.filePath,
+        lineNumber: first.lineNumber,
+        category: 'user-generated-content',
+        guideline: 'Guideline 1.2 - User Generated Content',
+        suggestion: safeguard.suggestion,
+      });
+    }
+
+    return {
+      analyzer: this.name,
+      passed: issues.filter((i) => i.severity === 'error').length === 0,
+      issues,
+      duration: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Chat SDKs, posting content and uploading images
+   */
+  private findUserGeneratedContent(dependencies: DeclaredDependency[], lines: Map<string, string[]>): Evidence[] {
+    const features: Evidence[] = [];
+    for (const sdk of CHAT_SDKS) {
+      const evidence = findDependency(dependencies, sdk.dependencies) ?? findInSources(lines, sdk.code);
+      if (evidence) {
+        features.push({ ...evidence, description: `${sdk.name}: ${evidence.description}` });
+      }
+    }
+    const posting = findInSources(lines, POSTING_CODE) ?? findInFilesWith(lines, POSTING_ENDPOINT, HTTP_POST);
+    if (posting) {
+      features.push({ ...posting, description: `posting content: ${posting.description}` });
+    }
+    const upload = findInFilesWith(lines, IMAGE_UPLOAD, IMAGE_DATA);
+    if (upload) {
+      features.push({ ...upload, description: `image upload: ${upload.description}` });
+    }
+    return features;
+  }
+}
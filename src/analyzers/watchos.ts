@@ -0,0 +1,461 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import fg from 'fast-glob';
+import { readPlistObject, fileExists, isRecord } from '../parsers/plist.js';
+import { expandBuildSettingValue, targetBuildSettings } from '../parsers/build-settings.js';
+import { findHostApp, resolvePlistValue } from './info-plist.js';
+import type {
+  Analyzer,
+  AnalysisResult,
+  AnalyzerOptions,
+  Issue,
+  XcodeProject,
+  XcodeTarget,
+  InfoPlist,
+} from '../types/index.js';
+
+/** Single-target watch apps (WKApplication) run on watchOS 7 and later */
+const SINGLE_TARGET_MIN_WATCHOS = 7;
+
+/** watchOS moved from 11 straight to year-based version 26 */
+const LAST_NUMBERED_WATCHOS = 11;
+const FIRST_YEAR_BASED_WATCHOS = 26;
+
+/** Extension point of WatchKit extensions (pre-watchOS 7 two-target apps) */
+const WATCHKIT_EXTENSION_POINT = 'com.apple.watchkit';
+
+/**
+ * An image entry in an appiconset's Contents.json
+ */
+interface AppIconImage {
+  size?: string;
+  scale?: string;
+  idiom?: string;
+  platform?: string;
+  role?: string;
+  subtype?: string;
+  filename?: string;
+}
+
+/**
+ * Analyzer for companion watchOS apps and their WatchKit extensions
+ */
+export class WatchOSAnalyzer implements Analyzer {
+  name = 'watchOS Analyzer';
+  description = 'Validates watch app Info.plist keys, icons, bundle IDs, versions and deployment targets';
+
+  async analyze(project: XcodeProject, options: AnalyzerOptions): Promise<AnalysisResult> {
+    const startTime = Date.now();
+    const issues: Issue[] = [];
+
+    const targets = project.targets.filter(
+      (t) =>
+        (t.type === 'watchApp' || t.type === 'watchExtension') &&
+        (!options.targetName || t.name === options.targetName)
+    );
+
+    for (const target of targets) {
+      const plist = (await readPlistObject<InfoPlist>(target.infoPlistPath)) ?? {};
+
+      if (target.type === 'watchApp') {
+        issues.push(...(await this.checkWatchApp(project, target, plist)));
+        issues.push(...(await this.checkAppIcon(target, options.basePath)));
+      } else {
+        issues.push(...(await this.checkWatchKitExtension(project, target, plist)));
+      }
+
+      issues.push(...this.checkDeploymentTarget(target, plist));
+    }
+
+    return {
+      analyzer: this.name,
+      passed: issues.filter((i) => i.severity === 'error').length === 0,
+      issues,
+      duration: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Check the app type and companion keys of a watch app, and compare it with
+   * the iOS app that embeds it
+   */
+  private async checkWatchApp(
+    project: XcodeProject,
+    target: XcodeTarget,
+    plist: InfoPlist
+  ): Promise<Issue[]> {
+    const issues: Issue[] = [];
+    const filePath = target.infoPlistPath;
+
+    if (
+      !plistFlag(target, plist, 'WKApplication') &&
+      !plistFlag(target, plist, 'WKWatchKitApp') &&
+      !generatesInfoPlist(target)
+    ) {
+      issues.push({
+        id: 'watch-missing-app-type',
+        title: `Watch app type not declared: ${target.name}`,
+        description: `The Info.plist of "${target.name}" sets neither WKApplication nor WKWatchKitApp, so watchOS does not recognize the bundle as a watch app.`,
+        severity: 'error',
+        filePath,
+        category: 'watchos',
+        suggestion: 'Set WKApplication to YES for a single-target watch app, or WKWatchKitApp for an app with a WatchKit extension.',
+      });
+    }
+
+    const companionId = plistString(target, plist, 'WKCompanionAppBundleIdentifier');
+    if (plistFlag(target, plist, 'WKWatchOnly')) {
+      if (companionId) {
+        issues.push({
+          id: 'watch-only-with-companion',
+          title: `Watch-only app declares a companion: ${target.name}`,
+          description: `WKWatchOnly is set, yet WKCompanionAppBundleIdentifier names "${companionId}". A watch-only app has no iOS companion app.`,
+          severity: 'warning',
+          filePath,
+          category: 'watchos',
+          suggestion: 'To ship with an iOS app and still install without it, remove WKWatchOnly and set WKRunsIndependentlyOfCompanionApp instead.',
+        });
+      }
+      return issues;
+    }
+
+    const iosApp = findHostApp(project, target);
+    const iosPlist = (await readPlistObject<InfoPlist>(iosApp?.infoPlistPath)) ?? {};
+    const iosBundleId = iosApp
+      ? resolvePlistValue(iosApp, iosPlist, 'CFBundleIdentifier', 'PRODUCT_BUNDLE_IDENTIFIER')
+      : undefined;
+
+    if (!companionId) {
+      issues.push({
+        id: 'watch-missing-companion-bundle-id',
+        title: `Missing WKCompanionAppBundleIdentifier: ${target.name}`,
+        description: `"${target.name}" is not watch-only but does not name its iOS companion app in WKCompanionAppBundleIdentifier. The watch app will not install alongside the iOS app.`,
+        severity: 'error',
+        filePath,
+        category: 'watchos',
+        suggestion: iosBundleId
+          ? `Set WKCompanionAppBundleIdentifier to "${iosBundleId}".`
+          : 'Set WKCompanionAppBundleIdentifier to the bundle identifier of the iOS app, or WKWatchOnly for a watch-only app.',
+      });
+    } else if (iosApp && iosBundleId && companionId !== iosBundleId) {
+      issues.push({
+        id: 'watch-companion-bundle-id-mismatch',
+        title: `WKCompanionAppBundleIdentifier does not match the iOS app: ${target.name}`,
+        description: `WKCompanionAppBundleIdentifier is "${companionId}" but the iOS app "${iosApp.name}" has bundle identifier "${iosBundleId}".`,
+        severity: 'error',
+        filePath,
+        category: 'watchos',
+        suggestion: `Set WKCompanionAppBundleIdentifier to "${iosBundleId}" (or $(PRODUCT_BUNDLE_IDENTIFIER) of the iOS target).`,
+      });
+    }
+
+    if (iosApp) {
+      issues.push(...this.checkBundleIdPrefix(target, plist, iosApp, iosPlist));
+      issues.push(...this.checkVersions(target, plist, iosApp, iosPlist));
+    }
+
+    return issues;
+  }
+
+  /**
+   * Check a WatchKit extension against the watch app it belongs to
+   */
+  private async checkWatchKitExtension(
+    project: XcodeProject,
+    target: XcodeTarget,
+    plist: InfoPlist
+  ): Promise<Issue[]> {
+    const issues: Issue[] = [];
+    const extension = isRecord(plist['NSExtension']) ? plist['NSExtension'] : {};
+    const pointIdentifier = extension['NSExtensionPointIdentifier'];
+
+    if (pointIdentifier !== WATCHKIT_EXTENSION_POINT) {
+      issues.push({
+        id: 'watch-extension-point-invalid',
+        title: `WatchKit extension point not declared: ${target.name}`,
+        description: `The NSExtensionPointIdentifier of "${target.name}" is ${typeof pointIdentifier === 'string' ? `"${pointIdentifier}"` : 'missing'} instead of "${WATCHKIT_EXTENSION_POINT}".`,
+        severity: 'error',
+        filePath: target.infoPlistPath,
+        category: 'watchos',
+        suggestion: `Set NSExtension › NSExtensionPointIdentifier to "${WATCHKIT_EXTENSION_POINT}".`,
+      });
+    }
+
+    const watchApp = findHostApp(project, target, 'watchApp');
+    if (watchApp) {
+      const watchPlist = (await readPlistObject<InfoPlist>(watchApp.infoPlistPath)) ?? {};
+      const watchBundleId = resolvePlistValue(
+        watchApp,
+        watchPlist,
+        'CFBundleIdentifier',
+        'PRODUCT_BUNDLE_IDENTIFIER'
+      );
+      const attributes = isRecord(extension['NSExtensionAttributes'])
+        ? extension['NSExtensionAttributes']
+        : {};
+      const rawAppId = attributes['WKAppBundleIdentifier'];
+      const appId =
+        typeof rawAppId === 'string'
+          ? expandBuildSettingValue(rawAppId, targetBuildSettings(target))
+          : undefined;
+
+      if (watchBundleId && !appId?.includes('$') && appId !== watchBundleId) {
+        issues.push({
+          id: 'watch-extension-app-bundle-id-mismatch',
+          title: `WKAppBundleIdentifier does not match the watch app: ${target.name}`,
+          description: appId
+            ? `WKAppBundleIdentifier is "${appId}" but the watch app "${watchApp.name}" has bundle identifier "${watchBundleId}".`
+            : `The WatchKit extension does not name its watch app in NSExtensionAttributes › WKAppBundleIdentifier.`,
+          severity: 'error',
+          filePath: target.infoPlistPath,
+          category: 'watchos',
+          suggestion: `Set WKAppBundleIdentifier to "${watchBundleId}".`,
+        });
+      }
+
+      issues.push(...this.checkBundleIdPrefix(target, plist, watchApp, watchPlist));
+    }
+
+    const iosApp = findHostApp(project, watchApp ?? target);
+    if (iosApp) {
+      const iosPlist = (await readPlistObject<InfoPlist>(iosApp.infoPlistPath)) ?? {};
+      issues.push(...this.checkVersions(target, plist, iosApp, iosPlist));
+    }
+
+    return issues;
+  }
+
+  /**
+   * Watch bundles are namespaced under the bundle that embeds them
+   */
+  private checkBundleIdPrefix(
+    target: XcodeTarget,
+    plist: InfoPlist,
+    host: XcodeTarget,
+    hostPlist: InfoPlist
+  ): Issue[] {
+    const bundleId = resolvePlistValue(target, plist, 'CFBundleIdentifier', 'PRODUCT_BUNDLE_IDENTIFIER');
+    const hostBundleId = resolvePlistValue(host, hostPlist, 'CFBundleIdentifier', 'PRODUCT_BUNDLE_IDENTIFIER');
+    if (!bundleId || !hostBundleId || bundleId.startsWith(`${hostBundleId}.`)) {
+      return [];
+    }
+
+    return [
+      {
+        id: 'watch-bundle-id-prefix',
+        title: `Watch bundle ID not prefixed by its container's: ${target.name}`,
+        description: `The bundle identifier "${bundleId}" of "${target.name}" does not start with "${hostBundleId}.", the bundle identifier of "${host.name}". App Store Connect rejects watch apps and extensions outside their container's namespace.`,
+        severity: 'error',
+        filePath: target.infoPlistPath,
+        category: 'watchos',
+        suggestion: `Set PRODUCT_BUNDLE_IDENTIFIER to "${hostBundleId}.watchkitapp" or a similar suffix.`,
+      },
+    ];
+  }
+
+  /**
+   * The watch app's version and build number must match the iOS app's
+   */
+  private checkVersions(
+    target: XcodeTarget,
+    plist: InfoPlist,
+    iosApp: XcodeTarget,
+    iosPlist: InfoPlist
+  ): Issue[] {
+    const issues: Issue[] = [];
+    const versionKeys = [
+      ['CFBundleShortVersionString', 'MARKETING_VERSION', 'version'],
+      ['CFBundleVersion', 'CURRENT_PROJECT_VERSION', 'build number'],
+    ] as const;
+
+    for (const [key, setting, label] of versionKeys) {
+      const value = resolvePlistValue(target, plist, key, setting);
+      const iosValue = resolvePlistValue(iosApp, iosPlist, key, setting);
+      if (value && iosValue && value !== iosValue) {
+        issues.push({
+          id: `watch-${key.toLowerCase()}-mismatch`,
+          title: `Watch ${label} does not match the iOS app: ${target.name}`,
+          description: `${key} of "${target.name}" is "${value}" but the iOS app "${iosApp.name}" uses "${iosValue}". App Store Connect rejects watch apps whose ${key} differs from the containing iOS app.`,
+          severity: 'error',
+          filePath: target.infoPlistPath,
+          category: 'watchos',
+          suggestion: `Use $(${setting}) for ${key} in every target and set ${setting} once at the project level.`,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Catch watchOS deployment targets that cannot exist (usually an iOS
+   * version copied over) or that predate single-target watch apps
+   */
+  private checkDeploymentTarget(target: XcodeTarget, plist: InfoPlist): Issue[] {
+    const version = target.deploymentTarget;
+    const major = version ? parseInt(version, 10) : NaN;
+    if (!version || Number.isNaN(major)) {
+      return [];
+    }
+
+    if (major > LAST_NUMBERED_WATCHOS && major < FIRST_YEAR_BASED_WATCHOS) {
+      return [
+        {
+          id: 'watch-invalid-deployment-target',
+          title: `Invalid watchOS deployment target: ${target.name}`,
+          description: `"${target.name}" targets watchOS ${version}, which does not exist (watchOS ${LAST_NUMBERED_WATCHOS} was followed by watchOS ${FIRST_YEAR_BASED_WATCHOS}). This is usually an iOS deployment target applied to the watch target.`,
+          severity: 'error',
+          filePath: target.infoPlistPath,
+          category: 'watchos',
+          suggestion: 'Set WATCHOS_DEPLOYMENT_TARGET for the watch targets instead of inheriting the iOS version.',
+        },
+      ];
+    }
+
+    const singleTarget =
+      plistFlag(target, plist, 'WKApplication') ||
+      (generatesInfoPlist(target) && !plistFlag(target, plist, 'WKWatchKitApp'));
+    if (target.type === 'watchApp' && singleTarget && parseFloat(version) < SINGLE_TARGET_MIN_WATCHOS) {
+      return [
+        {
+          id: 'watch-deployment-target-too-low',
+          title: `Deployment target too low for a single-target watch app: ${target.name}`,
+          description: `"${target.name}" is a single-target watch app (WKApplication) but targets watchOS ${version}. Single-target watch apps require watchOS ${SINGLE_TARGET_MIN_WATCHOS} or later.`,
+          severity: 'error',
+          filePath: target.infoPlistPath,
+          category: 'watchos',
+          suggestion: `Raise WATCHOS_DEPLOYMENT_TARGET to ${SINGLE_TARGET_MIN_WATCHOS}.0 or later, or keep the WatchKit extension for older watchOS versions.`,
+        },
+      ];
+    }
+
+    return [];
+  }
+
+  /**
+   * Check that the watch app has an icon with the 1024pt App Store
+   * (marketing) image
+   */
+  private async checkAppIcon(target: XcodeTarget, basePath: string): Promise<Issue[]> {
+    // Built bundles: icons are compiled into Assets.car
+    if (target.bundlePath) {
+      const hasIcons =
+        (await fileExists(path.join(target.bundlePath, 'Assets.car'))) ||
+        (target.resourceFiles ?? []).some((f) => /^AppIcon.*\.png$/.test(path.basename(f)));
+      return hasIcons ? [] : [missingIconIssue(target, target.bundlePath)];
+    }
+
+    const iconName = targetBuildSettings(target)['ASSETCATALOG_COMPILER_APPICON_NAME'] ?? 'AppIcon';
+    let catalogs = (target.resourceFiles ?? []).filter((f) => f.endsWith('.xcassets'));
+    if (catalogs.length === 0) {
+      catalogs = await fg(`${fg.escapePath(target.name)}/**/*.xcassets`, {
+        cwd: basePath,
+        absolute: true,
+        onlyDirectories: true,
+      });
+    }
+
+    let contentsPath: string | undefined;
+    for (const catalog of catalogs) {
+      const candidate = path.join(catalog, `${iconName}.appiconset`, 'Contents.json');
+      if (await fileExists(candidate)) {
+        contentsPath = candidate;
+        break;
+      }
+    }
+    if (!contentsPath) {
+      return [missingIconIssue(target, target.infoPlistPath)];
+    }
+
+    let images: AppIconImage[];
+    try {
+      const contents = JSON.parse(await fs.readFile(contentsPath, 'utf-8')) as { images?: AppIconImage[] };
+      images = contents.images ?? [];
+    } catch {
+      return [
+        {
+          id: 'watch-invalid-icon-contents',
+          title: 'Invalid watch AppIcon Contents.json',
+          description: `Could not parse ${path.basename(path.dirname(contentsPath))}/Contents.json of "${target.name}".`,
+          severity: 'warning',
+          filePath: contentsPath,
+          category: 'watchos',
+          suggestion: 'Regenerate the app icon set through Xcode.',
+        },
+      ];
+    }
+
+    const issues: Issue[] = [];
+    const hasMarketingIcon = images.some(
+      (img) =>
+        img.size === '1024x1024' &&
+        img.filename &&
+        (img.idiom === 'watch-marketing' || (img.idiom === 'universal' && img.platform === 'watchos'))
+    );
+    if (!hasMarketingIcon) {
+      issues.push({
+        id: 'watch-missing-marketing-icon',
+        title: `Missing 1024x1024 watch App Store icon: ${target.name}`,
+        description: `The ${iconName} icon set of "${target.name}" has no 1024x1024 watchOS image. App Store Connect requires it for watch apps.`,
+        severity: 'error',
+        filePath: contentsPath,
+        category: 'watchos',
+        suggestion: 'Add a 1024x1024 PNG (watchOS "Single Size" or the App Store slot) to the watch app icon set.',
+      });
+    }
+
+    // Pre-Xcode 14 icon sets list every size separately
+    const missing = images
+      .filter((img) => img.idiom === 'watch' && !img.filename)
+      .map((img) => `${img.size ?? '?'}@${img.scale ?? '?'}${img.subtype ? ` (${img.subtype})` : ''}`);
+    if (missing.length > 0) {
+      issues.push({
+        id: 'watch-incomplete-icon-set',
+        title: `Watch icon sizes without images: ${target.name}`,
+        description: `The ${iconName} icon set of "${target.name}" has empty slots: ${missing.join(', ')}.`,
+        severity: 'warning',
+        filePath: contentsPath,
+        category: 'watchos',
+        suggestion: 'Fill every slot, or switch the icon set to a single 1024x1024 image (Xcode 14+).',
+      });
+    }
+
+    return issues;
+  }
+}
+
+function missingIconIssue(target: XcodeTarget, filePath: string | undefined): Issue {
+  return {
+    id: 'watch-missing-app-icon',
+    title: `Missing watch app icon: ${target.name}`,
+    description: `No app icon set was found for the watch app "${target.name}". Watch apps need their own icon in an asset catalog.`,
+    severity: 'error',
+    filePath,
+    category: 'watchos',
+    suggestion: 'Add AppIcon.appiconset to the watch app\'s asset catalog and set it as the target\'s App Icon.',
+  };
+}
+
+function generatesInfoPlist(target: XcodeTarget): boolean {
+  return targetBuildSettings(target)['GENERATE_INFOPLIST_FILE'] === 'YES';
+}
+
+/**
+ * A string Info.plist key, or the INFOPLIST_KEY_ build setting that
+ * generates it
+ */
+function plistString(target: XcodeTarget, plist: InfoPlist, key: string): string | undefined {
+  return resolvePlistValue(target, plist, key, `INFOPLIST_KEY_${key}`);
+}
+
+/**
+ * A boolean Info.plist key, or the INFOPLIST_KEY_ build setting that
+ * generates it
+ */
+function plistFlag(target: XcodeTarget, plist: InfoPlist, key: string): boolean {
+  const value = plist[key];
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  return targetBuildSettings(target)[`INFOPLIST_KEY_${key}`] === 'YES';
+}
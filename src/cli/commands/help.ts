@@ -6,7 +6,7 @@ USAGE:
   ios-app-review <command> [options]
 
 COMMANDS:
-  scan <path>     Analyze an iOS project for App Store compliance
+  scan <path>     Analyze an iOS project, .ipa or .xcarchive for App Store compliance
   help            Show this help message
   version         Show version number
 
@@ -17,20 +17,26 @@ SCAN OPTIONS:
   --analyzers <list>     Comma-separated analyzer names (default: all)
   --include-asc          Include App Store Connect validation
   --changed-since <ref>  Only scan files changed since git ref
+  --configuration <name> Build configuration to analyze (default: Release)
+  --scheme <name>        Analyze what the scheme's Archive action builds
   --config <path>        Path to custom rules config file
   --badge                Generate a review status badge SVG
   --save-history         Save scan results for future comparison
 
 AVAILABLE ANALYZERS:
   info-plist, privacy, entitlements, code, deprecated-api,
-  private-api, security, ui-ux, asc-metadata, asc-screenshots,
-  asc-version, asc-iap
+  private-api, security, ui-ux, third-party-sdks, dependencies,
+  provisioning, watchos, app-clip, localization, interface-builder,
+  sign-in-with-apple, account-deletion, payments, dynamic-code,
+  user-generated-content, asc-metadata, asc-screenshots, asc-version,
+  asc-iap
 
 EXAMPLES:
   ios-app-review scan ./MyApp.xcodeproj
   ios-app-review scan ./MyApp.xcodeproj --format json --output report.json
   ios-app-review scan ./MyApp.xcodeproj --analyzers code,security
   ios-app-review scan ./MyApp.xcodeproj --changed-since main --badge
+  ios-app-review scan ./build/MyApp.ipa
 
 EXIT CODES:
   0  All checks passed (no errors)
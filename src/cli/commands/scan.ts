@@ -9,10 +9,12 @@ import type { ScanOptions } from '../types.js';
 export async function runScan(options: ScanOptions): Promise<number> {
   const input = {
     projectPath: options.projectPath,
-    analyzers: options.analyzers as Array<'all' | 'info-plist' | 'privacy' | 'entitlements' | 'code' | 'deprecated-api' | 'private-api' | 'security' | 'ui-ux' | 'asc-metadata' | 'asc-screenshots' | 'asc-version' | 'asc-iap'> | undefined,
+    analyzers: options.analyzers as Array<'all' | 'info-plist' | 'privacy' | 'entitlements' | 'code' | 'deprecated-api' | 'private-api' | 'security' | 'ui-ux' | 'third-party-sdks' | 'dependencies' | 'provisioning' | 'watchos' | 'app-clip' | 'localization' | 'interface-builder' | 'sign-in-with-apple' | 'account-deletion' | 'payments' | 'dynamic-code' | 'user-generated-content' | 'asc-metadata' | 'asc-screenshots' | 'asc-version' | 'asc-iap'> | undefined,
     includeASC: options.includeAsc,
     customRulesPath: options.config,
     changedSince: options.changedSince,
+    configuration: options.configuration,
+    scheme: options.scheme,
     saveToHistory: options.saveHistory,
   };
 
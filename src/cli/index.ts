@@ -36,6 +36,8 @@ export async function runCli(argv: string[]): Promise<void> {
         analyzers: { type: 'string', short: 'a' },
         'include-asc': { type: 'boolean', default: false },
         'changed-since': { type: 'string' },
+        configuration: { type: 'string' },
+        scheme: { type: 'string' },
         config: { type: 'string', short: 'c' },
         badge: { type: 'boolean', default: false },
         'save-history': { type: 'boolean', default: false },
@@ -83,6 +85,8 @@ export async function runCli(argv: string[]): Promise<void> {
     analyzers: analyzersList,
     includeAsc: values['include-asc'] as boolean,
     changedSince: values['changed-since'] as string | undefined,
+    configuration: values['configuration'] as string | undefined,
+    scheme: values['scheme'] as string | undefined,
     config: values['config'] as string | undefined,
     badge: values['badge'] as boolean,
     saveHistory: values['save-history'] as boolean,
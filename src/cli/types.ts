@@ -11,6 +11,8 @@ export interface ScanOptions {
   analyzers?: string[] | undefined;
   includeAsc: boolean;
   changedSince?: string | undefined;
+  configuration?: string | undefined;
+  scheme?: string | undefined;
   config?: string | undefined;
   badge: boolean;
   saveHistory: boolean;
@@ -59,6 +59,15 @@ export const GUIDELINES: Record<string, GuidelineEntry> = {
     category: 'performance',
     severityWeight: 9,
   },
+  '2.5.2': {
+    section: '2.5.2',
+    title: 'Self-Contained Bundles',
+    excerpt:
+      'Apps should be self-contained in their bundles, and may not read or write data outside the designated container area, nor may they download, install, or execute code which introduces or changes features or functionality of the app, including other apps.',
+    url: 'https://developer.apple.com/app-store/review/guidelines/#software-requirements',
+    category: 'performance',
+    severityWeight: 9,
+  },
   '2.5.4': {
     section: '2.5.4',
     title: 'Security',
@@ -140,6 +149,15 @@ export const GUIDELINES: Record<string, GuidelineEntry> = {
     category: 'design',
     severityWeight: 5,
   },
+  '4.8': {
+    section: '4.8',
+    title: 'Login Services',
+    excerpt:
+      "Apps that use a third-party or social login service to set up or authenticate the user's primary account must also offer as an equivalent option another login service that limits data collection to name and email, lets users keep their email private, and does not collect interactions for advertising without consent.",
+    url: 'https://developer.apple.com/app-store/review/guidelines/#login-services',
+    category: 'design',
+    severityWeight: 9,
+  },
   '5.1.1': {
     section: '5.1.1',
     title: 'Data Collection and Storage',
@@ -149,6 +167,15 @@ export const GUIDELINES: Record<string, GuidelineEntry> = {
     category: 'legal',
     severityWeight: 9,
   },
+  '5.1.1(v)': {
+    section: '5.1.1(v)',
+    title: 'Account Sign-In',
+    excerpt:
+      'If your app supports account creation, you must also offer account deletion within the app. Apps may not require users to enter personal information to function, except when directly relevant to the core functionality of the app.',
+    url: 'https://developer.apple.com/app-store/review/guidelines/#data-collection-and-storage',
+    category: 'legal',
+    severityWeight: 8,
+  },
   '5.1.2': {
     section: '5.1.2',
     title: 'Data Use and Sharing',
@@ -252,6 +279,16 @@ export const ISSUE_GUIDELINE_MAP: Record<string, string[]> = {
   'private-statusbar': ['2.5.1'],
   'private-sandbox-escape': ['2.5.1'],
   'private-url-scheme': ['2.5.1'],
+  'private-selector': ['2.5.1'],
+  'private-class-reference': ['2.5.1'],
+  'private-symbol': ['2.5.1'],
+
+  // Downloaded executable code
+  'dynamic-code-hot-patching': ['2.5.2'],
+  'dynamic-code-remote-script': ['2.5.2'],
+  'dynamic-code-dlopen-downloaded': ['2.5.2'],
+  'dynamic-code-downloaded-bundle': ['2.5.2'],
+  'dynamic-code-ota-update': ['2.5.2'],
 
   // Security issues
   'security-md5': ['2.5.4'],
@@ -284,6 +321,7 @@ export const ISSUE_GUIDELINE_MAP: Record<string, string[]> = {
 
   // Deprecated APIs
   'deprecated-uiwebview': ['2.5.1'],
+  'dependency-uiwebview': ['2.5.1'],
   'deprecated-uialertview': ['2.5.1'],
   'deprecated-uiactionsheet': ['2.5.1'],
   'deprecated-uipopovercontroller': ['2.5.1'],
@@ -316,6 +354,10 @@ export const ISSUE_GUIDELINE_MAP: Record<string, string[]> = {
   'asc-iap-screenshot-failed': ['3.1.1'],
   'asc-iaps-not-ready': ['3.1.1'],
   'asc-no-iaps': ['3.1.1'],
+  'payments-third-party-sdk': ['3.1.1'],
+  'payments-external-checkout-link': ['3.1.1', '3.1.2'],
+  'payments-external-purchase-text': ['3.1.1', '3.1.2'],
+  'payments-missing-restore': ['3.1.1', '3.1.2'],
 
   // Launch screen
   'uiux-no-launch-screen': ['4.6'],
@@ -328,13 +370,29 @@ export const ISSUE_GUIDELINE_MAP: Record<string, string[]> = {
   'uiux-missing-ipad-icon': ['4.0'],
   'uiux-invalid-icon-contents': ['4.0'],
 
+  // Login services and accounts
+  'siwa-required': ['4.8'],
+  'account-deletion-missing': ['5.1.1(v)'],
+
+  // User-generated content
+  'ugc-missing-report': ['1.2'],
+  'ugc-missing-block': ['1.2'],
+  'ugc-missing-filter': ['1.2'],
+
   // Privacy and data collection
   'missing-privacy-manifest': ['5.1.1'],
   'privacy-manifest-not-found': ['5.1.1'],
   'privacy-manifest-parse-error': ['5.1.1'],
   'tracking-no-domains': ['5.1.1'],
+  'commonly-used-sdk': ['5.1.1'],
+  'dependency-missing-privacy-manifest': ['5.1.1'],
+  'dependency-unsigned-binary': ['5.1.1'],
+  'healthkit-missing-usage-description': ['5.1.1'],
   'asc-missing-privacy-policy': ['5.1.1'],
 
+  // Background execution
+  'remote-notification-mode-without-push': ['2.5.4'],
+
   // iPad compatibility
   'uiux-ipad-missing-orientations': ['2.4.1'],
 
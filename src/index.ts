@@ -49,7 +49,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           properties: {
             projectPath: {
               type: 'string',
-              description: 'Path to the .xcodeproj or .xcworkspace directory',
+              description:
+                'Path to the .xcodeproj or .xcworkspace directory, or a built .ipa or .xcarchive',
             },
             analyzers: {
               type: 'array',
@@ -65,6 +66,18 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
                   'private-api',
                   'security',
                   'ui-ux',
+                  'third-party-sdks',
+                  'dependencies',
+                  'provisioning',
+                  'watchos',
+                  'app-clip',
+                  'localization',
+                  'interface-builder',
+                  'sign-in-with-apple',
+                  'account-deletion',
+                  'payments',
+                  'dynamic-code',
+                  'user-generated-content',
                   'asc-metadata',
                   'asc-screenshots',
                   'asc-version',
@@ -77,6 +90,16 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'string',
               description: 'Specific target to analyze (default: main app target)',
             },
+            configuration: {
+              type: 'string',
+              description:
+                'Build configuration to analyze (default: the project default, usually Release)',
+            },
+            scheme: {
+              type: 'string',
+              description:
+                'Scheme to analyze: only the targets its Archive action builds, using the Archive build configuration',
+            },
             includeASC: {
               type: 'boolean',
               description:
@@ -148,13 +171,14 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         name: 'check_deprecated_apis',
         description:
           'Scan Swift/Objective-C code for deprecated iOS API usage. ' +
-          'Detects APIs deprecated or removed at your deployment target version.',
+          'Detects APIs deprecated or removed at your deployment target version, ' +
+          'including references inside prebuilt frameworks and static libraries.',
         inputSchema: {
           type: 'object',
           properties: {
             path: {
               type: 'string',
-              description: 'Path to scan (file or directory)',
+              description: 'Path to scan (source file, Mach-O binary or directory)',
             },
             deploymentTarget: {
               type: 'string',
@@ -168,13 +192,14 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         name: 'check_private_apis',
         description:
           'Scan code for private/undocumented iOS API usage that causes App Store rejection. ' +
-          'Detects private selectors, undocumented frameworks, runtime API access, and private URL schemes.',
+          'Detects private selectors, undocumented frameworks, runtime API access, and private URL schemes, ' +
+          'and scans Mach-O binaries for private framework links, undocumented selectors and private symbols.',
         inputSchema: {
           type: 'object',
           properties: {
             path: {
               type: 'string',
-              description: 'Path to scan (file or directory)',
+              description: 'Path to scan (source file, Mach-O binary or directory)',
             },
           },
           required: ['path'],
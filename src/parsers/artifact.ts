@@ -0,0 +1,210 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import fg from 'fast-glob';
+import { parsePlist, fileExists } from './plist.js';
+import { extractZip } from './zip.js';
+import { readMachO } from './macho.js';
+import type { AppArtifact, TargetType, XcodeProject, XcodeTarget } from '../types/index.js';
+
+/**
+ * A parsed .ipa or .xcarchive. Call `cleanup` once analysis is done to
+ * remove extracted files.
+ */
+export interface ParsedArtifact {
+  project: XcodeProject;
+  /** Map a path inside the extraction directory back to the artifact */
+  toArtifactPath(filePath: string): string;
+  cleanup(): Promise<void>;
+}
+
+/**
+ * Whether a path names a built app artifact rather than a project
+ */
+export function isAppArtifactPath(artifactPath: string): boolean {
+  return artifactPath.endsWith('.ipa') || artifactPath.endsWith('.xcarchive');
+}
+
+/**
+ * Parse an .ipa or .xcarchive into a project whose targets describe the
+ * built app bundle and its app extensions
+ */
+export async function parseAppArtifact(artifactPath: string): Promise<ParsedArtifact> {
+  const stats = await fs.stat(artifactPath);
+  const kind = artifactPath.endsWith('.ipa') ? 'ipa' : 'xcarchive';
+  if (kind === 'ipa' ? !stats.isFile() : !stats.isDirectory()) {
+    throw new Error(
+      `Invalid artifact path: ${artifactPath}. Expected an .ipa file or .xcarchive directory.`
+    );
+  }
+
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ios-review-artifact-'));
+  const displayPaths = new Map<string, string>();
+  const cleanup = (): Promise<void> => fs.rm(workDir, { recursive: true, force: true });
+
+  try {
+    const bundleRoot = kind === 'ipa' ? workDir : artifactPath;
+    if (kind === 'ipa') {
+      await extractZip(artifactPath, workDir);
+    }
+
+    const pattern = kind === 'ipa' ? 'Payload/*.app' : 'Products/Applications/*.app';
+    const [appPath] = await fg(pattern, { cwd: bundleRoot, absolute: true, onlyDirectories: true });
+    if (!appPath) {
+      throw new Error(`No .app bundle found in ${artifactPath} (expected ${pattern})`);
+    }
+
+    const targets = [await readBundleTarget(appPath, 'application', workDir, displayPaths)];
+    const extensions = await fg(['PlugIns/*.appex', 'Extensions/*.appex'], {
+      cwd: appPath,
+      absolute: true,
+      onlyDirectories: true,
+    });
+    for (const extension of extensions.sort()) {
+      targets.push(await readBundleTarget(extension, 'appExtension', workDir, displayPaths));
+    }
+
+    const appClips = await fg('AppClips/*.app', { cwd: appPath, absolute: true, onlyDirectories: true });
+    for (const appClip of appClips.sort()) {
+      targets.push(await readBundleTarget(appClip, 'appClip', workDir, displayPaths));
+    }
+
+    // Companion watch apps, with the WatchKit extensions of pre-watchOS 7 apps
+    const watchApps = await fg('Watch/*.app', { cwd: appPath, absolute: true, onlyDirectories: true });
+    for (const watchApp of watchApps.sort()) {
+      targets.push(await readBundleTarget(watchApp, 'watchApp', workDir, displayPaths));
+      const watchExtensions = await fg('PlugIns/*.appex', {
+        cwd: watchApp,
+        absolute: true,
+        onlyDirectories: true,
+      });
+      for (const extension of watchExtensions.sort()) {
+        targets.push(await readBundleTarget(extension, 'watchExtension', workDir, displayPaths));
+      }
+    }
+
+    const artifact: AppArtifact = {
+      kind,
+      path: artifactPath,
+      appPath,
+      frameworks: (
+        await fg('Frameworks/*.framework', { cwd: appPath, absolute: true, onlyDirectories: true })
+      ).sort(),
+    };
+
+    return {
+      project: {
+        path: artifactPath,
+        name: path.basename(artifactPath, path.extname(artifactPath)),
+        targets,
+        configurations: [],
+        artifact,
+      },
+      toArtifactPath: (filePath: string): string => {
+        const display = displayPaths.get(filePath);
+        if (display) {
+          return display;
+        }
+        return kind === 'ipa' && filePath.startsWith(workDir + path.sep)
+          ? path.join(artifactPath, path.relative(workDir, filePath))
+          : filePath;
+      },
+      cleanup,
+    };
+  } catch (error) {
+    await cleanup();
+    throw error;
+  }
+}
+
+/**
+ * Describe a built bundle as a target, taking its settings from the
+ * compiled Info.plist and its entitlements from the code signature
+ */
+async function readBundleTarget(
+  bundlePath: string,
+  type: TargetType,
+  workDir: string,
+  displayPaths: Map<string, string>
+): Promise<XcodeTarget> {
+  const infoPlistPath = path.join(bundlePath, 'Info.plist');
+  let plist: Record<string, unknown> = {};
+  try {
+    plist = await parsePlist(infoPlistPath);
+  } catch {
+    // Reported by the Info.plist analyzer
+  }
+
+  const executable = typeof plist['CFBundleExecutable'] === 'string'
+    ? plist['CFBundleExecutable']
+    : path.basename(bundlePath, path.extname(bundlePath));
+  const executablePath = path.join(bundlePath, executable);
+
+  // Archives keep the signed entitlements next to the binary; exported
+  // apps only have them embedded in the code signature
+  let entitlementsPath: string | undefined = path.join(
+    bundlePath,
+    'archived-expanded-entitlements.xcent'
+  );
+  if (!(await fileExists(entitlementsPath))) {
+    entitlementsPath = await extractSignedEntitlements(
+      executablePath,
+      path.join(workDir, 'entitlements', `${path.basename(bundlePath)}.entitlements`)
+    );
+    if (entitlementsPath) {
+      displayPaths.set(entitlementsPath, executablePath);
+    }
+  }
+
+  const provisioningProfilePath = path.join(bundlePath, 'embedded.mobileprovision');
+
+  const resourceFiles = await fg('**/*', {
+    cwd: bundlePath,
+    absolute: true,
+    onlyFiles: true,
+    ignore: ['Frameworks/**', 'PlugIns/**', 'Extensions/**', 'Watch/**', 'AppClips/**', '_CodeSignature/**', executable],
+  });
+
+  return {
+    name: typeof plist['CFBundleName'] === 'string' ? plist['CFBundleName'] : executable,
+    type,
+    bundleIdentifier: stringValue(plist['CFBundleIdentifier']),
+    infoPlistPath,
+    entitlementsPath,
+    deploymentTarget: stringValue(plist['MinimumOSVersion']),
+    sourceFiles: [],
+    resourceFiles: resourceFiles.sort(),
+    bundlePath,
+    executablePath,
+    provisioningProfilePath: (await fileExists(provisioningProfilePath))
+      ? provisioningProfilePath
+      : undefined,
+  };
+}
+
+/**
+ * Copy the entitlements embedded in a signed binary's code signature to
+ * `outputPath`. Returns undefined for unsigned or unreadable binaries.
+ */
+async function extractSignedEntitlements(
+  binaryPath: string,
+  outputPath: string
+): Promise<string | undefined> {
+  let entitlements: string | undefined;
+  try {
+    entitlements = (await readMachO(binaryPath)).find((image) => image.entitlements)?.entitlements;
+  } catch {
+    return undefined;
+  }
+  if (!entitlements) {
+    return undefined;
+  }
+
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  await fs.writeFile(outputPath, entitlements);
+  return outputPath;
+}
+
+function stringValue(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
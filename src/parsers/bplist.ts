@@ -0,0 +1,270 @@
+/**
+ * Decoder for Apple's binary property list format (bplist00)
+ *
+ * Layout: an 8-byte "bplist00" header, a sequence of marker-prefixed objects,
+ * an offset table locating each object and a 32-byte trailer describing the
+ * integer widths, object count, root object and offset table position.
+ */
+
+const BPLIST_MAGIC = 'bplist00';
+const TRAILER_SIZE = 32;
+
+/**
+ * Seconds between the Unix epoch and the Core Data epoch (2001-01-01T00:00:00Z)
+ */
+const APPLE_EPOCH_OFFSET = 978307200;
+
+/**
+ * A keyed-archiver object reference (marker 0x8n)
+ */
+export interface PlistUID {
+  UID: number;
+}
+
+/**
+ * Check whether a buffer contains a binary property list
+ */
+export function isBinaryPlist(buffer: Buffer): boolean {
+  return (
+    buffer.length >= BPLIST_MAGIC.length &&
+    buffer.toString('ascii', 0, BPLIST_MAGIC.length) === BPLIST_MAGIC
+  );
+}
+
+/**
+ * Parse a binary property list into plain JavaScript values.
+ *
+ * Integers and reals become numbers, dates become `Date`, data becomes
+ * `Buffer`, sets become arrays and UIDs become `{ UID: number }`.
+ */
+export function parseBinaryPlist<T = unknown>(buffer: Buffer): T {
+  if (!isBinaryPlist(buffer)) {
+    throw new Error('Not a binary plist: missing bplist00 header');
+  }
+  if (buffer.length < BPLIST_MAGIC.length + TRAILER_SIZE) {
+    throw new Error('Binary plist is truncated');
+  }
+
+  const trailer = buffer.subarray(buffer.length - TRAILER_SIZE);
+  const offsetIntSize = trailer.readUInt8(6);
+  const objectRefSize = trailer.readUInt8(7);
+  const numObjects = readUInt(trailer, 8, 8);
+  const topObject = readUInt(trailer, 16, 8);
+  const offsetTableOffset = readUInt(trailer, 24, 8);
+
+  if (offsetIntSize < 1 || offsetIntSize > 8 || objectRefSize < 1 || objectRefSize > 8) {
+    throw new Error('Binary plist trailer has invalid integer sizes');
+  }
+  if (offsetTableOffset + numObjects * offsetIntSize > buffer.length - TRAILER_SIZE) {
+    throw new Error('Binary plist offset table is out of bounds');
+  }
+  if (topObject >= numObjects) {
+    throw new Error('Binary plist root object is out of range');
+  }
+
+  const offsets: number[] = [];
+  for (let i = 0; i < numObjects; i++) {
+    offsets.push(readUInt(buffer, offsetTableOffset + i * offsetIntSize, offsetIntSize));
+  }
+
+  const decoder = new BinaryPlistDecoder(buffer, offsets, objectRefSize, offsetTableOffset);
+  return decoder.decodeObject(topObject) as T;
+}
+
+/**
+ * Walks the object graph of a binary plist
+ */
+class BinaryPlistDecoder {
+  /** Object indices currently being decoded, used to detect reference cycles */
+  private readonly inProgress = new Set<number>();
+
+  constructor(
+    private readonly buffer: Buffer,
+    private readonly offsets: number[],
+    private readonly objectRefSize: number,
+    private readonly objectsEnd: number
+  ) {}
+
+  decodeObject(index: number): unknown {
+    const offset = this.offsets[index];
+    if (offset === undefined || offset >= this.objectsEnd) {
+      throw new Error(`Binary plist object ${index} is out of range`);
+    }
+    if (this.inProgress.has(index)) {
+      throw new Error(`Binary plist contains a reference cycle at object ${index}`);
+    }
+
+    this.inProgress.add(index);
+    try {
+      return this.decodeAt(offset);
+    } finally {
+      this.inProgress.delete(index);
+    }
+  }
+
+  private decodeAt(offset: number): unknown {
+    const marker = this.buffer.readUInt8(offset);
+    const type = marker >> 4;
+    const info = marker & 0x0f;
+
+    switch (type) {
+      case 0x0:
+        return this.decodeSimple(info, offset);
+      case 0x1:
+        return this.readInt(offset + 1, 1 << info);
+      case 0x2:
+        return this.readReal(offset + 1, 1 << info);
+      case 0x3:
+        if (info !== 0x3) {
+          throw new Error(`Unsupported binary plist date marker 0x${marker.toString(16)}`);
+        }
+        return new Date((this.buffer.readDoubleBE(offset + 1) + APPLE_EPOCH_OFFSET) * 1000);
+      case 0x4: {
+        const { count, start } = this.readCount(offset, info);
+        this.ensureAvailable(start, count);
+        return Buffer.from(this.buffer.subarray(start, start + count));
+      }
+      case 0x5: {
+        const { count, start } = this.readCount(offset, info);
+        this.ensureAvailable(start, count);
+        return this.buffer.toString('latin1', start, start + count);
+      }
+      case 0x6: {
+        const { count, start } = this.readCount(offset, info);
+        this.ensureAvailable(start, count * 2);
+        return decodeUtf16BE(this.buffer.subarray(start, start + count * 2));
+      }
+      case 0x8:
+        return { UID: this.readUIntAt(offset + 1, info + 1) } satisfies PlistUID;
+      case 0xa:
+      case 0xc: {
+        const { count, start } = this.readCount(offset, info);
+        const refs = this.readRefs(start, count);
+        return refs.map((ref) => this.decodeObject(ref));
+      }
+      case 0xd: {
+        const { count, start } = this.readCount(offset, info);
+        const keyRefs = this.readRefs(start, count);
+        const valueRefs = this.readRefs(start + count * this.objectRefSize, count);
+        const dict: Record<string, unknown> = {};
+        for (let i = 0; i < count; i++) {
+          const key = this.decodeObject(keyRefs[i]!);
+          if (typeof key !== 'string') {
+            throw new Error('Binary plist dictionary key is not a string');
+          }
+          dict[key] = this.decodeObject(valueRefs[i]!);
+        }
+        return dict;
+      }
+      default:
+        throw new Error(`Unsupported binary plist object marker 0x${marker.toString(16)}`);
+    }
+  }
+
+  private decodeSimple(info: number, offset: number): unknown {
+    switch (info) {
+      case 0x0:
+      case 0xf:
+        return null;
+      case 0x8:
+        return false;
+      case 0x9:
+        return true;
+      default:
+        throw new Error(`Unsupported binary plist marker at offset ${offset}`);
+    }
+  }
+
+  /**
+   * Read the element count of a variable-length object. A nibble of 0xF means
+   * the count follows as an integer object.
+   */
+  private readCount(offset: number, info: number): { count: number; start: number } {
+    if (info !== 0xf) {
+      return { count: info, start: offset + 1 };
+    }
+
+    const intMarker = this.buffer.readUInt8(offset + 1);
+    if (intMarker >> 4 !== 0x1) {
+      throw new Error(`Binary plist length at offset ${offset} is not an integer`);
+    }
+    const size = 1 << (intMarker & 0x0f);
+    const count = this.readInt(offset + 2, size);
+    if (count < 0) {
+      throw new Error(`Binary plist length at offset ${offset} is negative`);
+    }
+    return { count, start: offset + 2 + size };
+  }
+
+  private readRefs(start: number, count: number): number[] {
+    this.ensureAvailable(start, count * this.objectRefSize);
+    const refs: number[] = [];
+    for (let i = 0; i < count; i++) {
+      refs.push(this.readUIntAt(start + i * this.objectRefSize, this.objectRefSize));
+    }
+    return refs;
+  }
+
+  private readInt(offset: number, size: number): number {
+    this.ensureAvailable(offset, size);
+    switch (size) {
+      case 1:
+      case 2:
+      case 4:
+        // Integers narrower than 8 bytes are always unsigned
+        return readUInt(this.buffer, offset, size);
+      case 8:
+        return Number(this.buffer.readBigInt64BE(offset));
+      case 16:
+        // 128-bit integers only appear for values above INT64_MAX; keep the low word
+        return Number(this.buffer.readBigUInt64BE(offset + 8));
+      default:
+        throw new Error(`Unsupported binary plist integer size ${size}`);
+    }
+  }
+
+  private readReal(offset: number, size: number): number {
+    this.ensureAvailable(offset, size);
+    if (size === 4) {
+      return this.buffer.readFloatBE(offset);
+    }
+    if (size === 8) {
+      return this.buffer.readDoubleBE(offset);
+    }
+    throw new Error(`Unsupported binary plist real size ${size}`);
+  }
+
+  private readUIntAt(offset: number, size: number): number {
+    this.ensureAvailable(offset, size);
+    return readUInt(this.buffer, offset, size);
+  }
+
+  private ensureAvailable(offset: number, length: number): void {
+    if (offset + length > this.objectsEnd) {
+      throw new Error(`Binary plist object at offset ${offset} overruns the object table`);
+    }
+  }
+}
+
+/**
+ * Read a big-endian unsigned integer of 1-8 bytes
+ */
+function readUInt(buffer: Buffer, offset: number, size: number): number {
+  if (size <= 6) {
+    return buffer.readUIntBE(offset, size);
+  }
+  let value = 0n;
+  for (let i = 0; i < size; i++) {
+    value = (value << 8n) | BigInt(buffer.readUInt8(offset + i));
+  }
+  return Number(value);
+}
+
+/**
+ * Decode a UTF-16 big-endian byte sequence
+ */
+function decodeUtf16BE(bytes: Buffer): string {
+  const swapped = Buffer.from(bytes);
+  swapped.swap16();
+  return swapped.toString('utf16le');
+}
@@ -0,0 +1,318 @@
+import * as path from 'path';
+import type { XcodeTarget } from '../types/index.js';
+
+/**
+ * Matches `$(inherited)` and `${inherited}` references
+ */
+export const INHERITED_PATTERN = /\$[({]inherited[)}]/g;
+
+/**
+ * A target's resolved build settings for its selected configuration, or an
+ * empty object when none were resolved
+ */
+export function targetBuildSettings(target: XcodeTarget): Record<string, string> {
+  return target.configuration
+    ? target.buildConfigurations?.[target.configuration]?.buildSettings ?? {}
+    : {};
+}
+
+/**
+ * Merge build setting levels ordered from lowest to highest precedence.
+ *
+ * Xcode resolves a target's settings in this order:
+ * project xcconfig < project settings < target xcconfig < target settings.
+ * A `$(inherited)` reference at one level expands to the value produced by
+ * the levels below it (or to nothing when no lower level defines the key).
+ */
+export function mergeBuildSettingLevels(
+  levels: Array<Record<string, string> | undefined>
+): Record<string, string> {
+  const merged: Record<string, string> = {};
+
+  for (const level of levels) {
+    if (!level) {
+      continue;
+    }
+
+    for (const [key, value] of Object.entries(level)) {
+      const lower = merged[key] ?? '';
+      merged[key] = hasInheritedReference(value)
+        ? collapseWhitespace(value.replace(INHERITED_PATTERN, () => lower))
+        : value;
+    }
+  }
+
+  return merged;
+}
+
+function hasInheritedReference(value: string): boolean {
+  INHERITED_PATTERN.lastIndex = 0;
+  return INHERITED_PATTERN.test(value);
+}
+
+function collapseWhitespace(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Values that conditional keys such as `KEY[sdk=iphoneos*]` and
+ * `KEY[config=Release]` are matched against
+ */
+export interface BuildSettingConditions {
+  /** SDK name without version (e.g. iphoneos) */
+  sdk: string;
+  /** Build configuration name */
+  config: string;
+}
+
+/**
+ * Apply the conditional settings of one level whose conditions all match,
+ * replacing that level's unconditional value. Conditions on anything else,
+ * such as `arch`, depend on the build being run and never match. The
+ * conditional keys themselves are kept.
+ */
+export function applyConditionalSettings(
+  level: Record<string, string>,
+  conditions: BuildSettingConditions
+): Record<string, string> {
+  const applied = { ...level };
+
+  for (const [key, value] of Object.entries(level)) {
+    const match = key.match(/^([A-Za-z_]\w*)((?:\[[^\]]*\])+)$/);
+    if (!match?.[1] || !match[2]) {
+      continue;
+    }
+
+    const keyConditions = match[2].slice(1, -1).split(/\]\[|,/);
+    if (keyConditions.every((condition) => conditionMatches(condition, conditions))) {
+      applied[match[1]] = value;
+    }
+  }
+
+  return applied;
+}
+
+function conditionMatches(condition: string, conditions: BuildSettingConditions): boolean {
+  const [name = '', pattern = ''] = condition.split('=').map((part) => part.trim());
+  const actual = name === 'sdk' ? conditions.sdk : name === 'config' ? conditions.config : undefined;
+  if (actual === undefined) {
+    return false;
+  }
+
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(actual);
+}
+
+/**
+ * Context used to seed the settings Xcode defines for every target
+ */
+export interface BuildSettingEnvironment {
+  /** Directory containing the .xcodeproj (SRCROOT) */
+  projectDir: string;
+  /** Project name without the .xcodeproj extension */
+  projectName: string;
+  /** Target name */
+  targetName: string;
+  /** Build configuration name (e.g. Debug, Release) */
+  configuration: string;
+  /** SDKROOT of the target (e.g. iphoneos, watchos); defaults to iphoneos */
+  sdkRoot?: string | undefined;
+}
+
+/**
+ * Settings Xcode provides implicitly. Passed as the lowest level to
+ * mergeBuildSettingLevels so project and target levels can override them.
+ */
+export function getBuiltinBuildSettings(env: BuildSettingEnvironment): Record<string, string> {
+  const platform = platformName(env.sdkRoot ?? 'iphoneos');
+  return {
+    SRCROOT: env.projectDir,
+    SOURCE_ROOT: env.projectDir,
+    PROJECT_DIR: env.projectDir,
+    PROJECT_NAME: env.projectName,
+    PROJECT_FILE_PATH: path.join(env.projectDir, `${env.projectName}.xcodeproj`),
+    TARGET_NAME: env.targetName,
+    TARGETNAME: env.targetName,
+    PRODUCT_NAME: '$(TARGET_NAME)',
+    CONFIGURATION: env.configuration,
+    PLATFORM_NAME: platform,
+    EFFECTIVE_PLATFORM_NAME: platform === 'macosx' ? '' : `-${platform}`,
+    SDK_NAME: platform,
+  };
+}
+
+/**
+ * Platform of an SDKROOT given as a name (`iphoneos`), a versioned name
+ * (`watchos10.2`) or a path to the SDK (`.../iPhoneOS17.0.sdk`)
+ */
+function platformName(sdkRoot: string): string {
+  return path
+    .basename(sdkRoot)
+    .toLowerCase()
+    .replace(/\.sdk$/, '')
+    .replace(/[\d.]+$/, '');
+}
+
+/**
+ * Expand every setting's variable references against the full settings map
+ */
+export function resolveBuildSettings(settings: Record<string, string>): Record<string, string> {
+  const resolved: Record<string, string> = {};
+  for (const [key, value] of Object.entries(settings)) {
+    resolved[key] = expandBuildSettingValue(value, settings, new Set([key]));
+  }
+  return resolved;
+}
+
+/**
+ * Expand `$(VAR)`, `${VAR}` and `$VAR` references in a build setting value,
+ * including nested references (`$(VAR_$(CONFIGURATION))`) and Xcode's
+ * modifiers (`$(PRODUCT_NAME:rfc1034identifier)`, `:lower`, `:default=x`, ...).
+ *
+ * References to settings that are not defined (or that form a cycle) are
+ * left verbatim rather than expanded to an empty string, so callers can tell
+ * an unknown value from an intentionally empty one.
+ */
+export function expandBuildSettingValue(
+  value: string,
+  settings: Record<string, string>,
+  expanding: Set<string> = new Set()
+): string {
+  let result = '';
+  let pos = 0;
+
+  while (pos < value.length) {
+    const char = value[pos];
+    const next = value[pos + 1];
+
+    if (char !== '$' || next === undefined) {
+      result += char;
+      pos++;
+      continue;
+    }
+
+    if (next === '$') {
+      result += '$';
+      pos += 2;
+      continue;
+    }
+
+    if (next === '(' || next === '{') {
+      const close = findClosingDelimiter(value, pos + 1);
+      if (close === -1) {
+        result += value.substring(pos);
+        break;
+      }
+      const original = value.substring(pos, close + 1);
+      const inner = expandBuildSettingValue(value.substring(pos + 2, close), settings, expanding);
+      result += expandReference(inner, original, settings, expanding);
+      pos = close + 1;
+      continue;
+    }
+
+    const bareMatch = /^[A-Za-z_]\w*/.exec(value.substring(pos + 1));
+    if (bareMatch) {
+      result += expandReference(bareMatch[0], `$${bareMatch[0]}`, settings, expanding);
+      pos += 1 + bareMatch[0].length;
+      continue;
+    }
+
+    result += char;
+    pos++;
+  }
+
+  return result;
+}
+
+/**
+ * Expand a single `NAME[:modifier...]` reference
+ */
+function expandReference(
+  reference: string,
+  original: string,
+  settings: Record<string, string>,
+  expanding: Set<string>
+): string {
+  const [name = '', ...modifiers] = reference.split(':');
+  const raw = settings[name];
+
+  let value: string | undefined;
+  if (raw !== undefined && !expanding.has(name)) {
+    const nested = new Set(expanding);
+    nested.add(name);
+    value = expandBuildSettingValue(raw, settings, nested);
+  }
+
+  for (const modifier of modifiers) {
+    if (modifier.startsWith('default=')) {
+      if (!value) {
+        value = modifier.substring('default='.length);
+      }
+      continue;
+    }
+    if (value === undefined) {
+      break;
+    }
+    value = applyModifier(value, modifier);
+  }
+
+  return value ?? original;
+}
+
+/**
+ * Apply one of Xcode's build setting modifiers
+ */
+function applyModifier(value: string, modifier: string): string {
+  switch (modifier) {
+    case 'lower':
+      return value.toLowerCase();
+    case 'upper':
+      return value.toUpperCase();
+    case 'rfc1034identifier':
+      return value.replace(/[^A-Za-z0-9.-]/g, '-');
+    case 'c99extidentifier':
+    case 'identifier': {
+      const identifier = value.replace(/[^A-Za-z0-9_]/g, '_');
+      return /^\d/.test(identifier) ? `_${identifier}` : identifier;
+    }
+    case 'base':
+      return path.basename(value, path.extname(value));
+    case 'dir':
+      return path.dirname(value);
+    case 'file':
+      return path.basename(value);
+    case 'suffix':
+      return path.extname(value);
+    case 'standardizepath':
+      return path.normalize(value);
+    case 'quote':
+      return value.replace(/([\s"'\\])/g, '\\$1');
+    default:
+      return value;
+  }
+}
+
+/**
+ * Find the delimiter closing the `(` or `{` at openIndex, honouring nesting
+ */
+function findClosingDelimiter(value: string, openIndex: number): number {
+  const open = value[openIndex];
+  const close = open === '(' ? ')' : '}';
+  let depth = 0;
+
+  for (let i = openIndex; i < value.length; i++) {
+    if (value[i] === open) {
+      depth++;
+    } else if (value[i] === close) {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+
+  return -1;
+}
@@ -0,0 +1,48 @@
+import * as fs from 'fs/promises';
+
+/**
+ * A dependency pinned in Cartfile.resolved
+ */
+export interface CarthageDependency {
+  /** Framework name derived from the source (e.g. `Alamofire`) */
+  name: string;
+  /** Origin type */
+  kind: 'github' | 'git' | 'binary';
+  /** `owner/repo`, git URL or binary spec URL */
+  source: string;
+  /** Resolved version, tag or commit */
+  version: string;
+}
+
+/**
+ * Parse a Cartfile.resolved file
+ */
+export async function parseCartfileResolved(filePath: string): Promise<CarthageDependency[]> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  return parseCartfileResolvedContent(content);
+}
+
+/**
+ * Parse Cartfile.resolved content (`github "owner/repo" "1.2.3"` lines)
+ */
+export function parseCartfileResolvedContent(content: string): CarthageDependency[] {
+  const dependencies: CarthageDependency[] = [];
+  const lineRegex = /^\s*(github|git|binary)\s+"([^"]+)"\s+"([^"]+)"/;
+
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(lineRegex);
+    if (!match?.[1] || !match[2] || !match[3]) {
+      continue;
+    }
+
+    const lastComponent = match[2].replace(/\/+$/, '').split('/').pop() ?? match[2];
+    dependencies.push({
+      name: lastComponent.replace(/\.(git|json)$/, ''),
+      kind: match[1] as CarthageDependency['kind'],
+      source: match[2],
+      version: match[3],
+    });
+  }
+
+  return dependencies;
+}
@@ -0,0 +1,67 @@
+import * as fs from 'fs/promises';
+
+/**
+ * A pod installed according to Podfile.lock
+ */
+export interface InstalledPod {
+  /** Root pod name (subspecs are folded into `subspecs`) */
+  name: string;
+  /** Installed version */
+  version: string;
+  /** Subspecs in use (e.g. `Analytics` for `Firebase/Analytics`) */
+  subspecs: string[];
+  /** True when the Podfile lists the pod itself rather than pulling it in transitively */
+  direct: boolean;
+}
+
+/**
+ * Parse a Podfile.lock file
+ */
+export async function parsePodfileLock(filePath: string): Promise<InstalledPod[]> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  return parsePodfileLockContent(content);
+}
+
+/**
+ * Parse Podfile.lock content. Only the `PODS` and `DEPENDENCIES` sections
+ * are read; the file is YAML but those sections are simple enough to parse
+ * line by line.
+ */
+export function parsePodfileLockContent(content: string): InstalledPod[] {
+  const pods = new Map<string, InstalledPod>();
+  const directNames = new Set<string>();
+  let section = '';
+
+  for (const line of content.split(/\r?\n/)) {
+    const sectionMatch = line.match(/^([A-Z][A-Z ]*):/);
+    if (sectionMatch?.[1]) {
+      section = sectionMatch[1];
+      continue;
+    }
+
+    // Top-level list entries are indented by two spaces; deeper lines are
+    // a pod's own dependencies
+    const entryMatch = line.match(/^ {2}- "?([^\s"(]+)(?: \(([^)]+)\))?"?:?\s*$/);
+    if (!entryMatch?.[1]) {
+      continue;
+    }
+
+    const [rootName = entryMatch[1], subspec] = entryMatch[1].split('/');
+    if (section === 'PODS' && entryMatch[2]) {
+      const pod = pods.get(rootName) ?? {
+        name: rootName,
+        version: entryMatch[2],
+        subspecs: [],
+        direct: false,
+      };
+      if (subspec && !pod.subspecs.includes(subspec)) {
+        pod.subspecs.push(subspec);
+      }
+      pods.set(rootName, pod);
+    } else if (section === 'DEPENDENCIES') {
+      directNames.add(rootName);
+    }
+  }
+
+  return Array.from(pods.values()).map((pod) => ({ ...pod, direct: directNames.has(pod.name) }));
+}
@@ -0,0 +1,96 @@
+import * as fs from 'fs/promises';
+
+/**
+ * Dimensions and transparency of a PNG or JPEG image
+ */
+export interface ImageInfo {
+  format: 'png' | 'jpeg';
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+  /** True for PNGs with an alpha channel or a tRNS transparency chunk */
+  hasAlpha: boolean;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** PNG color types 4 (grayscale + alpha) and 6 (RGBA) */
+const PNG_ALPHA_COLOR_TYPES = new Set([4, 6]);
+
+/**
+ * Read the header of a PNG or JPEG file. Returns undefined for other formats.
+ */
+export async function readImageInfo(filePath: string): Promise<ImageInfo | undefined> {
+  return parseImageInfo(await fs.readFile(filePath));
+}
+
+/**
+ * Parse the header of a PNG or JPEG image
+ */
+export function parseImageInfo(buffer: Buffer): ImageInfo | undefined {
+  if (buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return parsePng(buffer);
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return parseJpeg(buffer);
+  }
+  return undefined;
+}
+
+function parsePng(buffer: Buffer): ImageInfo {
+  if (buffer.length < 33 || buffer.toString('latin1', 12, 16) !== 'IHDR') {
+    throw new Error('PNG is missing its IHDR chunk');
+  }
+
+  let hasAlpha = PNG_ALPHA_COLOR_TYPES.has(buffer[25] ?? 0);
+  // A tRNS chunk before the image data makes other color types transparent
+  for (let offset = 33; !hasAlpha && offset + 8 <= buffer.length; ) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    if (type === 'IDAT' || type === 'IEND') {
+      break;
+    }
+    hasAlpha = type === 'tRNS';
+    offset += length + 12;
+  }
+
+  return {
+    format: 'png',
+    width: buffer.readUInt32BE(16),
+    height: buffer.readUInt32BE(20),
+    hasAlpha,
+  };
+}
+
+function parseJpeg(buffer: Buffer): ImageInfo {
+  let offset = 2;
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      throw new Error(`Invalid JPEG marker at offset ${offset}`);
+    }
+    const marker = buffer[offset + 1] ?? 0;
+    // Fill bytes and markers without a length
+    if (marker === 0xff || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += marker === 0xff ? 1 : 2;
+      continue;
+    }
+
+    const length = buffer.readUInt16BE(offset + 2);
+    // Start of frame markers, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      if (offset + 9 > buffer.length) {
+        break;
+      }
+      return {
+        format: 'jpeg',
+        width: buffer.readUInt16BE(offset + 7),
+        height: buffer.readUInt16BE(offset + 5),
+        hasAlpha: false,
+      };
+    }
+    offset += 2 + length;
+  }
+
+  throw new Error('JPEG has no start of frame marker');
+}
@@ -1,3 +1,65 @@
-export { parsePlist, parsePbxproj, fileExists, readFile } from './plist.js';
+export { parsePlist, parsePlistBuffer, parsePbxproj, fileExists, readFile } from './plist.js';
+export { parseBinaryPlist, isBinaryPlist } from './bplist.js';
 export { parseXcodeProject } from './xcodeproj.js';
+export { parseXcconfig, parseXcconfigContent } from './xcconfig.js';
+export { parsePackageResolved, parsePackageResolvedContent, packageIdentity } from './spm.js';
+export { parsePodfileLock, parsePodfileLockContent } from './cocoapods.js';
+export { parseCartfileResolved, parseCartfileResolvedContent } from './carthage.js';
+export { findSchemes, parseScheme, parseSchemeContent } from './xcscheme.js';
+export {
+  parseStringsFile,
+  parseStringsContent,
+  parseStringsdictFile,
+  parseStringCatalog,
+  parseStringCatalogContent,
+  readUserFacingText,
+} from './strings.js';
+export { readImageInfo, parseImageInfo } from './image.js';
+export {
+  parseInterfaceBuilderFile,
+  parseInterfaceBuilderContent,
+  walkElements,
+  childElements,
+} from './interface-builder.js';
+export { parseAppArtifact, isAppArtifactPath } from './artifact.js';
+export { readZipEntries, extractZip } from './zip.js';
+export {
+  readMachO,
+  parseMachO,
+  isMachOBuffer,
+  isMachOFile,
+  findMachOBinaries,
+  findProjectBinaries,
+} from './macho.js';
+export {
+  parseProvisioningProfile,
+  parseProvisioningProfileBuffer,
+  findInstalledProfile,
+} from './provisioning.js';
+export {
+  mergeBuildSettingLevels,
+  expandBuildSettingValue,
+  resolveBuildSettings,
+  getBuiltinBuildSettings,
+  applyConditionalSettings,
+} from './build-settings.js';
 export type { PbxProject, PbxObject } from './plist.js';
+export type { PlistUID } from './bplist.js';
+export type { BuildSettingEnvironment, BuildSettingConditions } from './build-settings.js';
+export type { ParseProjectOptions } from './xcodeproj.js';
+export type { ParsedArtifact } from './artifact.js';
+export type { ZipEntry } from './zip.js';
+export type { MachOImage } from './macho.js';
+export type { ProvisioningProfile, ProfileDistributionType } from './provisioning.js';
+export type { ResolvedPackagePin } from './spm.js';
+export type { InstalledPod } from './cocoapods.js';
+export type { CarthageDependency } from './carthage.js';
+export type {
+  LocalizedString,
+  StringCatalog,
+  StringCatalogEntry,
+  StringCatalogLocalization,
+  UserFacingText,
+} from './strings.js';
+export type { ImageInfo } from './image.js';
+export type { IBDocument, IBElement, IBConnection, IBScene } from './interface-builder.js';
@@ -0,0 +1,288 @@
+import * as fs from 'fs/promises';
+
+/**
+ * An element of an Interface Builder document
+ */
+export interface IBElement {
+  /** Element name, e.g. `viewController`, `imageView`, `outlet` */
+  tag: string;
+  attributes: Record<string, string>;
+  children: IBElement[];
+  /** Character data directly inside the element */
+  text: string;
+  /** 1-based line of the start tag */
+  lineNumber: number;
+}
+
+/**
+ * An outlet, action or segue, attached to the object it belongs to
+ */
+export interface IBConnection {
+  kind: 'outlet' | 'outletCollection' | 'action' | 'segue';
+  /** Object owning the connection (the element containing `<connections>`) */
+  source: IBElement;
+  /** The connection element itself */
+  element: IBElement;
+  /** Object ID the connection points to */
+  destination: string | undefined;
+}
+
+/**
+ * A storyboard scene, or the top-level objects of a XIB
+ */
+export interface IBScene {
+  /** `sceneID` for storyboards, empty for XIBs */
+  id: string;
+  /** Top-level objects: view controllers, placeholders, views */
+  objects: IBElement[];
+}
+
+/**
+ * A parsed `.storyboard` or `.xib` document
+ */
+export interface IBDocument {
+  kind: 'storyboard' | 'xib';
+  /** Document type, e.g. `com.apple.InterfaceBuilder3.CocoaTouch.Storyboard.XIB` */
+  type: string;
+  /** Set for documents marked "Use as Launch Screen" */
+  launchScreen: boolean;
+  root: IBElement;
+  scenes: IBScene[];
+  connections: IBConnection[];
+  /** Elements keyed by their Interface Builder object ID */
+  objects: Map<string, IBElement>;
+}
+
+const CONNECTION_KINDS = new Set<string>(['outlet', 'outletCollection', 'action', 'segue']);
+
+/**
+ * Parse a `.storyboard` or `.xib` file
+ */
+export async function parseInterfaceBuilderFile(filePath: string): Promise<IBDocument> {
+  return parseInterfaceBuilderContent(await fs.readFile(filePath, 'utf-8'));
+}
+
+/**
+ * Parse the XML of an Interface Builder document
+ */
+export function parseInterfaceBuilderContent(content: string): IBDocument {
+  const root = parseXml(content);
+  if (root.tag !== 'document') {
+    throw new Error(`Not an Interface Builder document: root element is <${root.tag}>`);
+  }
+
+  const type = root.attributes['type'] ?? '';
+  const objects = new Map<string, IBElement>();
+  const connections: IBConnection[] = [];
+
+  walkElements(root, (element, parent) => {
+    const id = element.attributes['id'];
+    if (id !== undefined) {
+      objects.set(id, element);
+    }
+    if (element.tag === 'connections' && parent) {
+      for (const child of element.children) {
+        if (CONNECTION_KINDS.has(child.tag)) {
+          connections.push({
+            kind: child.tag as IBConnection['kind'],
+            source: parent,
+            element: child,
+            destination: child.attributes['destination'],
+          });
+        }
+      }
+    }
+  });
+
+  const scenes = type.includes('Storyboard')
+    ? childElements(root, 'scenes').flatMap((scenes) =>
+        childElements(scenes, 'scene').map((scene) => ({
+          id: scene.attributes['sceneID'] ?? '',
+          objects: childElements(scene, 'objects').flatMap((o) => o.children),
+        }))
+      )
+    : [{ id: '', objects: childElements(root, 'objects').flatMap((o) => o.children) }];
+
+  return {
+    kind: type.includes('Storyboard') ? 'storyboard' : 'xib',
+    type,
+    launchScreen: root.attributes['launchScreen'] === 'YES',
+    root,
+    scenes,
+    connections,
+    objects,
+  };
+}
+
+/**
+ * Visit an element and all of its descendants, parents first
+ */
+export function walkElements(
+  element: IBElement,
+  visit: (element: IBElement, parent: IBElement | undefined) => void,
+  parent?: IBElement
+): void {
+  visit(element, parent);
+  for (const child of element.children) {
+    walkElements(child, visit, element);
+  }
+}
+
+/**
+ * Direct children with the given tag
+ */
+export function childElements(element: IBElement, tag: string): IBElement[] {
+  return element.children.filter((child) => child.tag === tag);
+}
+
+/**
+ * Parse an XML document into an element tree. Supports what Xcode writes:
+ * elements, attributes, character data, comments, CDATA and processing
+ * instructions; DTDs and namespaces are not interpreted.
+ */
+function parseXml(content: string): IBElement {
+  const stack: IBElement[] = [];
+  let root: IBElement | undefined;
+  let line = 1;
+  let pos = 0;
+
+  const advance = (to: number): void => {
+    for (let i = pos; i < to; i++) {
+      if (content[i] === '\n') {
+        line++;
+      }
+    }
+    pos = to;
+  };
+
+  const skipPast = (terminator: string): void => {
+    const end = content.indexOf(terminator, pos);
+    if (end === -1) {
+      throw new Error(`Unterminated markup at line ${line}`);
+    }
+    advance(end + terminator.length);
+  };
+
+  while (pos < content.length) {
+    const next = content.indexOf('<', pos);
+    const textEnd = next === -1 ? content.length : next;
+    if (textEnd > pos) {
+      const current = stack[stack.length - 1];
+      if (current) {
+        current.text += decodeEntities(content.slice(pos, textEnd));
+      }
+      advance(textEnd);
+      continue;
+    }
+
+    if (content.startsWith('<!--', pos)) {
+      skipPast('-->');
+    } else if (content.startsWith('<![CDATA[', pos)) {
+      const end = content.indexOf(']]>', pos);
+      const current = stack[stack.length - 1];
+      if (current && end !== -1) {
+        current.text += content.slice(pos + 9, end);
+      }
+      skipPast(']]>');
+    } else if (content.startsWith('<?', pos)) {
+      skipPast('?>');
+    } else if (content.startsWith('<!', pos)) {
+      skipPast('>');
+    } else if (content.startsWith('</', pos)) {
+      const match = /^<\/([\w:.-]+)\s*>/.exec(content.slice(pos, pos + 256));
+      const current = stack.pop();
+      if (!match || current?.tag !== match[1]) {
+        throw new Error(`Mismatched closing tag at line ${line}`);
+      }
+      advance(pos + match[0].length);
+    } else {
+      const match = /^<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(
+        content.slice(pos, findTagEnd(content, pos))
+      );
+      if (!match) {
+        throw new Error(`Malformed tag at line ${line}`);
+      }
+
+      const element: IBElement = {
+        tag: match[1] ?? '',
+        attributes: parseAttributes(match[2] ?? ''),
+        children: [],
+        text: '',
+        lineNumber: line,
+      };
+      const parent = stack[stack.length - 1];
+      if (parent) {
+        parent.children.push(element);
+      } else if (!root) {
+        root = element;
+      } else {
+        throw new Error(`Multiple root elements at line ${line}`);
+      }
+      if (match[3] !== '/') {
+        stack.push(element);
+      }
+      advance(pos + match[0].length);
+    }
+  }
+
+  if (!root) {
+    throw new Error('Empty XML document');
+  }
+  if (stack.length > 0) {
+    throw new Error(`Unclosed <${stack[stack.length - 1]?.tag ?? ''}> element`);
+  }
+  return root;
+}
+
+/**
+ * Index just past the `>` closing the tag at `start`, skipping quoted
+ * attribute values
+ */
+function findTagEnd(content: string, start: number): number {
+  let quote: string | undefined;
+  for (let i = start; i < content.length; i++) {
+    const char = content[i];
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i + 1;
+    }
+  }
+  return content.length;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1] ?? ''] = decodeEntities(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+}
+
+/**
+ * Decode predefined and numeric character references
+ */
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|quot|apos|lt|gt|amp);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'quot':
+        return '"';
+      case 'apos':
+        return "'";
+      case 'lt':
+        return '<';
+      case 'gt':
+        return '>';
+      case 'amp':
+        return '&';
+      default:
+        return String.fromCodePoint(
+          entity.startsWith('#x') ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+        );
+    }
+  });
+}
@@ -0,0 +1,365 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import fg from 'fast-glob';
+import { parsePlist } from './plist.js';
+import type { XcodeProject } from '../types/index.js';
+
+/**
+ * One 64-bit Mach-O image: a slice of a (fat) binary or an object file
+ * inside a static library
+ */
+export interface MachOImage {
+  /** Architecture (arm64, arm64e, x86_64, ...) */
+  arch: string;
+  /** Object file name, for images inside a static library */
+  member?: string | undefined;
+  /** Mach-O file type (MH_EXECUTE = 2, MH_DYLIB = 6, MH_OBJECT = 1, ...) */
+  fileType: number;
+  /** Install names of linked dylibs and frameworks */
+  linkedLibraries: string[];
+  /** External symbols defined by the image */
+  definedSymbols: string[];
+  /** Symbols imported from other images */
+  undefinedSymbols: string[];
+  /** Objective-C selector names (__TEXT,__objc_methname) */
+  selectors: string[];
+  /** Objective-C class names (__TEXT,__objc_classname) */
+  classNames: string[];
+  /** XML entitlements from the code signature */
+  entitlements?: string | undefined;
+}
+
+const MH_MAGIC_64 = 0xfeedfacf;
+const MH_CIGAM_64 = 0xcffaedfe;
+const MH_MAGIC = 0xfeedface;
+const MH_CIGAM = 0xcefaedfe;
+const FAT_MAGIC = 0xcafebabe;
+const FAT_MAGIC_64 = 0xcafebabf;
+const AR_MAGIC = '!<arch>\n';
+
+const LC_SEGMENT_64 = 0x19;
+const LC_SYMTAB = 0x2;
+const LC_CODE_SIGNATURE = 0x1d;
+const DYLIB_LOAD_COMMANDS = new Set([
+  0xc, // LC_LOAD_DYLIB
+  0x80000018, // LC_LOAD_WEAK_DYLIB
+  0x8000001f, // LC_REEXPORT_DYLIB
+  0x20, // LC_LAZY_LOAD_DYLIB
+  0x80000023, // LC_LOAD_UPWARD_DYLIB
+]);
+
+const N_STAB = 0xe0;
+const N_TYPE = 0x0e;
+const N_EXT = 0x01;
+const N_UNDF = 0x0;
+const N_SECT = 0xe;
+
+const CSMAGIC_EMBEDDED_SIGNATURE = 0xfade0cc0;
+const CSMAGIC_EMBEDDED_ENTITLEMENTS = 0xfade7171;
+
+const CPU_TYPES: Record<number, string> = {
+  0x0100000c: 'arm64',
+  0x01000007: 'x86_64',
+  0x0200000c: 'arm64_32',
+};
+
+/**
+ * Whether a buffer starts like a Mach-O binary, fat binary or static library
+ */
+export function isMachOBuffer(buffer: Buffer): boolean {
+  if (buffer.length >= 8 && buffer.toString('latin1', 0, 8) === AR_MAGIC) {
+    return true;
+  }
+  if (buffer.length < 8) {
+    return false;
+  }
+  const magic = buffer.readUInt32BE(0);
+  if (magic === FAT_MAGIC || magic === FAT_MAGIC_64) {
+    // Java class files share the fat magic; they store a version, not a count
+    return buffer.readUInt32BE(4) < 32;
+  }
+  return [MH_MAGIC_64, MH_CIGAM_64, MH_MAGIC, MH_CIGAM].includes(magic);
+}
+
+/**
+ * Read a Mach-O binary, fat binary or static library
+ */
+export async function readMachO(filePath: string): Promise<MachOImage[]> {
+  return parseMachO(await fs.readFile(filePath));
+}
+
+/**
+ * Parse a Mach-O binary, fat binary or static library into its 64-bit
+ * images. 32-bit slices are skipped.
+ */
+export function parseMachO(buffer: Buffer): MachOImage[] {
+  if (!isMachOBuffer(buffer)) {
+    throw new Error('Not a Mach-O binary or static library');
+  }
+
+  if (buffer.toString('latin1', 0, 8) === AR_MAGIC) {
+    return parseArchive(buffer);
+  }
+
+  const magic = buffer.readUInt32BE(0);
+  if (magic === FAT_MAGIC || magic === FAT_MAGIC_64) {
+    const is64 = magic === FAT_MAGIC_64;
+    const count = buffer.readUInt32BE(4);
+    const images: MachOImage[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const entry = 8 + i * (is64 ? 32 : 20);
+      const offset = is64 ? Number(buffer.readBigUInt64BE(entry + 8)) : buffer.readUInt32BE(entry + 8);
+      const size = is64 ? Number(buffer.readBigUInt64BE(entry + 16)) : buffer.readUInt32BE(entry + 12);
+      images.push(...parseMachO(slice(buffer, offset, size)));
+    }
+    return images;
+  }
+
+  const image = parseImage(buffer);
+  return image ? [image] : [];
+}
+
+/**
+ * Whether a file is a Mach-O binary, fat binary or static library
+ */
+export async function isMachOFile(filePath: string): Promise<boolean> {
+  try {
+    const handle = await fs.open(filePath, 'r');
+    try {
+      const header = Buffer.alloc(8);
+      const { bytesRead } = await handle.read(header, 0, 8, 0);
+      return isMachOBuffer(header.subarray(0, bytesRead));
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find the prebuilt frameworks, dylibs and static libraries vendored in a
+ * source tree. CocoaPods and Carthage are left to the dependency analyzer.
+ */
+export async function findMachOBinaries(basePath: string): Promise<string[]> {
+  const candidates = await fg(['**/*.framework/*', '**/*.a', '**/*.dylib'], {
+    cwd: basePath,
+    absolute: true,
+    onlyFiles: true,
+    ignore: ['**/Pods/**', '**/Carthage/**', '**/build/**', '**/DerivedData/**', '**/.build/**'],
+  });
+  return filterMachOFiles(
+    candidates.filter(
+      (file) =>
+        !file.includes('.framework/') ||
+        path.basename(file) === path.basename(path.dirname(file), '.framework')
+    )
+  );
+}
+
+/**
+ * Binaries to scan for a project: the executables of an artifact's bundles
+ * and embedded frameworks, or the binaries vendored in a source tree
+ */
+export async function findProjectBinaries(project: XcodeProject, basePath: string): Promise<string[]> {
+  if (!project.artifact) {
+    return findMachOBinaries(basePath);
+  }
+
+  const candidates: string[] = [];
+  for (const target of project.targets) {
+    if (target.executablePath) {
+      candidates.push(target.executablePath);
+    }
+  }
+  for (const framework of project.artifact.frameworks) {
+    candidates.push(await frameworkExecutable(framework));
+  }
+  return filterMachOFiles(candidates);
+}
+
+async function filterMachOFiles(candidates: string[]): Promise<string[]> {
+  const binaries: string[] = [];
+  for (const candidate of [...new Set(candidates)].sort()) {
+    if (await isMachOFile(candidate)) {
+      binaries.push(candidate);
+    }
+  }
+  return binaries;
+}
+
+/**
+ * Executable of a framework bundle, from its Info.plist or named after it
+ */
+async function frameworkExecutable(framework: string): Promise<string> {
+  try {
+    const plist = await parsePlist(path.join(framework, 'Info.plist'));
+    if (typeof plist['CFBundleExecutable'] === 'string') {
+      return path.join(framework, plist['CFBundleExecutable']);
+    }
+  } catch {
+    // Fall back to the bundle name
+  }
+  return path.join(framework, path.basename(framework, '.framework'));
+}
+
+/**
+ * Parse the object files of a BSD `ar` static library
+ */
+function parseArchive(buffer: Buffer): MachOImage[] {
+  const images: MachOImage[] = [];
+  let offset = AR_MAGIC.length;
+
+  while (offset + 60 <= buffer.length) {
+    let name = buffer.toString('latin1', offset, offset + 16).trim();
+    const size = parseInt(buffer.toString('latin1', offset + 48, offset + 58).trim(), 10);
+    if (Number.isNaN(size)) {
+      throw new Error('Invalid static library member header');
+    }
+
+    let dataStart = offset + 60;
+    let dataSize = size;
+    // BSD long names: "#1/<length>" with the name at the start of the data
+    const longName = /^#1\/(\d+)$/.exec(name);
+    if (longName?.[1]) {
+      const nameLength = parseInt(longName[1], 10);
+      name = buffer.toString('utf-8', dataStart, dataStart + nameLength).replace(/\0+$/, '');
+      dataStart += nameLength;
+      dataSize -= nameLength;
+    }
+
+    const member = slice(buffer, dataStart, dataSize);
+    if (!name.startsWith('__.SYMDEF') && isMachOBuffer(member)) {
+      for (const image of parseMachO(member)) {
+        images.push({ ...image, member: name });
+      }
+    }
+
+    offset = offset + 60 + size + (size % 2);
+  }
+
+  return images;
+}
+
+/**
+ * Parse a thin Mach-O image; returns null for 32-bit images
+ */
+function parseImage(buffer: Buffer): MachOImage | null {
+  const magic = buffer.readUInt32LE(0);
+  if (magic === MH_MAGIC || magic === MH_CIGAM) {
+    return null;
+  }
+
+  const littleEndian = magic === MH_MAGIC_64;
+  const u32 = (offset: number): number =>
+    littleEndian ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset);
+  const u64 = (offset: number): number =>
+    Number(littleEndian ? buffer.readBigUInt64LE(offset) : buffer.readBigUInt64BE(offset));
+
+  const cpuType = u32(4);
+  const cpuSubtype = u32(8) & 0xffffff;
+  const image: MachOImage = {
+    arch: cpuType === 0x0100000c && cpuSubtype === 2 ? 'arm64e' : CPU_TYPES[cpuType] ?? `cpu-${cpuType}`,
+    fileType: u32(12),
+    linkedLibraries: [],
+    definedSymbols: [],
+    undefinedSymbols: [],
+    selectors: [],
+    classNames: [],
+  };
+
+  const commandCount = u32(16);
+  let offset = 32;
+  for (let i = 0; i < commandCount; i++) {
+    const cmd = u32(offset);
+    const cmdSize = u32(offset + 4);
+    if (cmdSize < 8 || offset + cmdSize > buffer.length) {
+      throw new Error('Truncated Mach-O load commands');
+    }
+
+    if (cmd === LC_SEGMENT_64) {
+      const sectionCount = u32(offset + 64);
+      for (let s = 0; s < sectionCount; s++) {
+        const section = offset + 72 + s * 80;
+        const sectionName = cString(buffer, section, 16);
+        const segmentName = cString(buffer, section + 16, 16);
+        const fileOffset = u32(section + 48);
+        if (segmentName !== '__TEXT' || fileOffset === 0) {
+          continue;
+        }
+        if (sectionName === '__objc_methname') {
+          image.selectors.push(...stringTable(slice(buffer, fileOffset, u64(section + 40))));
+        } else if (sectionName === '__objc_classname') {
+          image.classNames.push(...stringTable(slice(buffer, fileOffset, u64(section + 40))));
+        }
+      }
+    } else if (cmd === LC_SYMTAB) {
+      const symbolOffset = u32(offset + 8);
+      const symbolCount = u32(offset + 12);
+      const strings = slice(buffer, u32(offset + 16), u32(offset + 20));
+      slice(buffer, symbolOffset, symbolCount * 16);
+
+      for (let n = 0; n < symbolCount; n++) {
+        const entry = symbolOffset + n * 16;
+        const type = buffer[entry + 4] ?? 0;
+        if ((type & N_STAB) !== 0 || (type & N_EXT) === 0) {
+          continue;
+        }
+        const name = cString(strings, u32(entry), strings.length);
+        if ((type & N_TYPE) === N_UNDF) {
+          image.undefinedSymbols.push(name);
+        } else if ((type & N_TYPE) === N_SECT) {
+          image.definedSymbols.push(name);
+        }
+      }
+    } else if (DYLIB_LOAD_COMMANDS.has(cmd)) {
+      image.linkedLibraries.push(cString(buffer, offset + u32(offset + 8), cmdSize));
+    } else if (cmd === LC_CODE_SIGNATURE) {
+      image.entitlements = readEntitlements(slice(buffer, u32(offset + 8), u32(offset + 12)));
+    }
+
+    offset += cmdSize;
+  }
+
+  return image;
+}
+
+/**
+ * Find the entitlements blob in an embedded code signature (always big-endian)
+ */
+function readEntitlements(signature: Buffer): string | undefined {
+  if (signature.length < 12 || signature.readUInt32BE(0) !== CSMAGIC_EMBEDDED_SIGNATURE) {
+    return undefined;
+  }
+
+  const count = signature.readUInt32BE(8);
+  for (let i = 0; i < count; i++) {
+    const blobOffset = signature.readUInt32BE(12 + i * 8 + 4);
+    if (blobOffset + 8 <= signature.length && signature.readUInt32BE(blobOffset) === CSMAGIC_EMBEDDED_ENTITLEMENTS) {
+      const length = signature.readUInt32BE(blobOffset + 4);
+      return slice(signature, blobOffset + 8, length - 8).toString('utf-8');
+    }
+  }
+  return undefined;
+}
+
+function slice(buffer: Buffer, offset: number, length: number): Buffer {
+  if (offset < 0 || length < 0 || offset + length > buffer.length) {
+    throw new Error('Truncated Mach-O binary');
+  }
+  return buffer.subarray(offset, offset + length);
+}
+
+function cString(buffer: Buffer, offset: number, maxLength: number): string {
+  const end = Math.min(buffer.length, offset + maxLength);
+  const terminator = buffer.indexOf(0, offset);
+  return buffer.toString('utf-8', offset, terminator >= 0 && terminator < end ? terminator : end);
+}
+
+function stringTable(section: Buffer): string[] {
+  return section
+    .toString('utf-8')
+    .split('\0')
+    .filter((s) => s.length > 0);
+}
@@ -1,23 +1,58 @@
 import * as fs from 'fs/promises';
 import * as plist from 'plist';
+import { isBinaryPlist, parseBinaryPlist } from './bplist.js';
 
 /**
  * Parse a plist file (XML or binary format)
  */
 export async function parsePlist<T = Record<string, unknown>>(filePath: string): Promise<T> {
-  const content = await fs.readFile(filePath, 'utf-8');
+  const buffer = await fs.readFile(filePath);
+  return parsePlistBuffer<T>(buffer);
+}
+
+/**
+ * Parse plist contents already loaded into memory (XML or binary format)
+ */
+export function parsePlistBuffer<T = Record<string, unknown>>(buffer: Buffer): T {
+  if (isBinaryPlist(buffer)) {
+    return parseBinaryPlist<T>(buffer);
+  }
+
+  return plist.parse(buffer.toString('utf-8')) as T;
+}
 
-  // Try XML plist first
+/**
+ * Parse a plist into a dictionary, or undefined when there is no path, the
+ * file can't be parsed or its root isn't a dictionary
+ */
+export async function readPlistObject<T = Record<string, unknown>>(
+  filePath: string | undefined
+): Promise<T | undefined> {
+  if (!filePath) {
+    return undefined;
+  }
   try {
-    return plist.parse(content) as T;
+    const value: unknown = await parsePlist(filePath);
+    return isRecord(value) ? (value as T) : undefined;
   } catch {
-    // If XML parsing fails, it might be binary plist
-    // The plist library handles both, but let's try with buffer
-    const buffer = await fs.readFile(filePath);
-    return plist.parse(buffer.toString('utf-8')) as T;
+    return undefined;
   }
 }
 
+/**
+ * Whether a parsed plist or JSON value is a dictionary
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * The strings in a parsed plist array, or an empty array for other values
+ */
+export function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
 /**
  * Check if a file exists
  */
@@ -157,10 +192,22 @@ function parseObjectContent(content: string): PbxObject {
     obj.buildConfigurationList = buildConfigMatch[1];
   }
 
-  // Extract buildSettings (simplified)
-  const buildSettingsMatch = content.match(/buildSettings\s*=\s*\{([^}]+)\}/);
-  if (buildSettingsMatch?.[1]) {
-    obj.buildSettings = parseBuildSettings(buildSettingsMatch[1]);
+  // Extract baseConfigurationReference (xcconfig file backing a build configuration)
+  const baseConfigMatch = content.match(/baseConfigurationReference\s*=\s*([A-F0-9]{24})/);
+  if (baseConfigMatch?.[1]) {
+    obj.baseConfigurationReference = baseConfigMatch[1];
+  }
+
+  // Extract sourceTree
+  const sourceTreeMatch = content.match(/sourceTree\s*=\s*"?([^";]+)"?/);
+  if (sourceTreeMatch?.[1]) {
+    obj.sourceTree = sourceTreeMatch[1].trim();
+  }
+
+  // Extract buildSettings
+  const buildSettingsBody = extractDictionaryBody(content, 'buildSettings');
+  if (buildSettingsBody !== null) {
+    obj.buildSettings = parseBuildSettings(buildSettingsBody);
   }
 
   // Extract files array
@@ -169,6 +216,18 @@ function parseObjectContent(content: string): PbxObject {
     obj.files = parseArray(filesMatch[1]);
   }
 
+  // Extract fileRef (for PBXBuildFile)
+  const fileRefMatch = content.match(/\bfileRef\s*=\s*([A-F0-9]{24})/);
+  if (fileRefMatch?.[1]) {
+    obj.fileRef = fileRefMatch[1];
+  }
+
+  // Extract children array (for PBXGroup and PBXVariantGroup)
+  const childrenMatch = content.match(/children\s*=\s*\(([^)]*)\)/);
+  if (childrenMatch?.[1]) {
+    obj.children = parseArray(childrenMatch[1]);
+  }
+
   // Extract dependencies array
   const depsMatch = content.match(/dependencies\s*=\s*\(([^)]*)\)/);
   if (depsMatch?.[1]) {
@@ -181,34 +240,205 @@ function parseObjectContent(content: string): PbxObject {
     obj.buildPhases = parseArray(phasesMatch[1]);
   }
 
+  // Extract fileSystemSynchronizedGroups array (Xcode 16 folder references on targets)
+  const syncGroupsMatch = content.match(/fileSystemSynchronizedGroups\s*=\s*\(([^)]*)\)/);
+  if (syncGroupsMatch?.[1]) {
+    obj.fileSystemSynchronizedGroups = parseArray(syncGroupsMatch[1]);
+  }
+
+  // Extract exceptions array (for PBXFileSystemSynchronizedRootGroup)
+  const exceptionsMatch = content.match(/\bexceptions\s*=\s*\(([^)]*)\)/);
+  if (exceptionsMatch?.[1]) {
+    obj.exceptions = parseArray(exceptionsMatch[1]);
+  }
+
+  // Extract membershipExceptions and target (for synchronized group exception sets)
+  const membershipMatch = content.match(
+    /membershipExceptions\s*=\s*\(((?:"(?:[^"\\]|\\.)*"|[^)"])*)\)/
+  );
+  if (membershipMatch?.[1] !== undefined) {
+    obj.membershipExceptions = parseStringArray(membershipMatch[1]);
+  }
+
+  const targetMatch = content.match(/\btarget\s*=\s*([A-F0-9]{24})/);
+  if (targetMatch?.[1]) {
+    obj.target = targetMatch[1];
+  }
+
+  // Extract Swift package references and product dependencies
+  const packageRefsMatch = content.match(/packageReferences\s*=\s*\(([^)]*)\)/);
+  if (packageRefsMatch?.[1]) {
+    obj.packageReferences = parseArray(packageRefsMatch[1]);
+  }
+
+  const packageProductsMatch = content.match(/packageProductDependencies\s*=\s*\(([^)]*)\)/);
+  if (packageProductsMatch?.[1]) {
+    obj.packageProductDependencies = parseArray(packageProductsMatch[1]);
+  }
+
+  const repositoryUrlMatch = content.match(/repositoryURL\s*=\s*"?([^";]+)"?/);
+  if (repositoryUrlMatch?.[1]) {
+    obj.repositoryURL = repositoryUrlMatch[1].trim();
+  }
+
+  const relativePathMatch = content.match(/relativePath\s*=\s*"?([^";]+)"?/);
+  if (relativePathMatch?.[1]) {
+    obj.relativePath = relativePathMatch[1].trim();
+  }
+
+  const requirementBody = extractDictionaryBody(content, 'requirement');
+  if (requirementBody !== null) {
+    obj.requirement = parseBuildSettings(requirementBody);
+  }
+
+  const packageMatch = content.match(/\bpackage\s*=\s*([A-F0-9]{24})/);
+  if (packageMatch?.[1]) {
+    obj.package = packageMatch[1];
+  }
+
+  const productNameMatch = content.match(/productName\s*=\s*"?([^";]+)"?/);
+  if (productNameMatch?.[1]) {
+    obj.productName = productNameMatch[1].trim();
+  }
+
+  // Extract defaultConfigurationName (for XCConfigurationList)
+  const defaultConfigMatch = content.match(/defaultConfigurationName\s*=\s*"?([^";]+)"?/);
+  if (defaultConfigMatch?.[1]) {
+    obj['defaultConfigurationName'] = defaultConfigMatch[1].trim();
+  }
+
   // Extract buildConfigurations array (for XCConfigurationList)
   const configsMatch = content.match(/buildConfigurations\s*=\s*\(([^)]*)\)/);
   if (configsMatch?.[1]) {
     obj['buildConfigurations'] = parseArray(configsMatch[1]);
   }
 
+  // Extract developmentRegion and knownRegions (for PBXProject)
+  const developmentRegionMatch = content.match(/developmentRegion\s*=\s*"?([^";]+)"?/);
+  if (developmentRegionMatch?.[1]) {
+    obj['developmentRegion'] = developmentRegionMatch[1].trim();
+  }
+
+  const knownRegionsMatch = content.match(/knownRegions\s*=\s*\(((?:"(?:[^"\\]|\\.)*"|[^)"])*)\)/);
+  if (knownRegionsMatch?.[1] !== undefined) {
+    obj['knownRegions'] = parseStringArray(knownRegionsMatch[1]);
+  }
+
   return obj;
 }
 
 /**
- * Parse build settings
+ * Extract the body of a `key = { ... }` dictionary, skipping braces inside
+ * quoted strings (e.g. "${PRODUCT_NAME}")
+ */
+function extractDictionaryBody(content: string, key: string): string | null {
+  const startMatch = new RegExp(`\\b${key}\\s*=\\s*\\{`).exec(content);
+  if (!startMatch) {
+    return null;
+  }
+
+  const start = startMatch.index + startMatch[0].length;
+  let depth = 1;
+  let inString = false;
+  let pos = start;
+
+  while (pos < content.length) {
+    const char = content[pos];
+    if (inString) {
+      if (char === '\\') {
+        pos++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        return content.substring(start, pos);
+      }
+    }
+    pos++;
+  }
+
+  return null;
+}
+
+/**
+ * Parse build settings. List values are joined with spaces, matching how
+ * Xcode expands them; conditional keys keep their `[sdk=...]` suffix.
  */
 function parseBuildSettings(content: string): Record<string, string> {
   const settings: Record<string, string> = {};
-  const settingRegex = /(\w+)\s*=\s*"?([^";]+)"?/g;
+  const body = content.replace(/\/\*[\s\S]*?\*\//g, '');
+  const settingRegex =
+    /(?:"((?:[^"\\]|\\.)*)"|([\w.]+))\s*=\s*(?:"((?:[^"\\]|\\.)*)"|\(((?:"(?:[^"\\]|\\.)*"|[^)"])*)\)|([^;\s]+))\s*;/g;
   let match: RegExpExecArray | null;
 
-  while ((match = settingRegex.exec(content)) !== null) {
-    const key = match[1];
-    const value = match[2];
-    if (key && value) {
-      settings[key] = value.trim();
+  while ((match = settingRegex.exec(body)) !== null) {
+    const key = match[1] !== undefined ? unescapeString(match[1]) : match[2];
+    if (!key) {
+      continue;
+    }
+
+    let value: string;
+    if (match[3] !== undefined) {
+      value = unescapeString(match[3]);
+    } else if (match[4] !== undefined) {
+      value = parseListItems(match[4]).join(' ');
+    } else {
+      value = match[5] ?? '';
     }
+
+    settings[key] = value.trim();
   }
 
   return settings;
 }
 
+/**
+ * Parse the items of a `( a, "b c", )` list
+ */
+function parseListItems(content: string): string[] {
+  return parseStringArray(content).map((item) => (item.includes(' ') ? `"${item}"` : item));
+}
+
+/**
+ * Parse the items of a `( ... )` list of quoted or bare strings
+ */
+function parseStringArray(content: string): string[] {
+  const items: string[] = [];
+  const itemRegex = /"((?:[^"\\]|\\.)*)"|([^,\s]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = itemRegex.exec(content)) !== null) {
+    const item = match[1] !== undefined ? unescapeString(match[1]) : match[2];
+    if (item) {
+      items.push(item);
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Unescape an OpenStep quoted string
+ */
+function unescapeString(value: string): string {
+  return value.replace(/\\(.)/g, (_, char: string) => {
+    switch (char) {
+      case 'n':
+        return '\n';
+      case 't':
+        return '\t';
+      default:
+        return char;
+    }
+  });
+}
+
 /**
  * Parse an array from pbxproj format
  */
@@ -245,9 +475,24 @@ export interface PbxObject {
   path?: string;
   productType?: string;
   buildConfigurationList?: string;
+  baseConfigurationReference?: string;
+  sourceTree?: string;
   buildSettings?: Record<string, string>;
   files?: string[];
+  fileRef?: string;
+  children?: string[];
   dependencies?: string[];
   buildPhases?: string[];
+  fileSystemSynchronizedGroups?: string[];
+  exceptions?: string[];
+  membershipExceptions?: string[];
+  target?: string;
+  packageReferences?: string[];
+  packageProductDependencies?: string[];
+  repositoryURL?: string;
+  relativePath?: string;
+  requirement?: Record<string, string>;
+  package?: string;
+  productName?: string;
   [key: string]: unknown;
 }
@@ -0,0 +1,229 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { parsePlistBuffer, isRecord, stringArray } from './plist.js';
+
+/**
+ * How a provisioning profile distributes the app
+ */
+export type ProfileDistributionType = 'development' | 'ad-hoc' | 'app-store' | 'enterprise';
+
+/**
+ * The plist payload of a provisioning profile
+ */
+export interface ProvisioningProfile {
+  /** Profile name */
+  name?: string | undefined;
+  /** Profile UUID */
+  uuid?: string | undefined;
+  /** Team identifier (first TeamIdentifier entry) */
+  teamIdentifier?: string | undefined;
+  /** Team name */
+  teamName?: string | undefined;
+  /** Profile creation date */
+  creationDate?: Date | undefined;
+  /** Profile expiration date */
+  expirationDate?: Date | undefined;
+  /** Entitlements the profile allows */
+  entitlements: Record<string, unknown>;
+  /** UDIDs of devices a development or ad hoc profile runs on */
+  provisionedDevices: string[];
+  /** Whether the profile runs on any device (enterprise) */
+  provisionsAllDevices: boolean;
+  /** Whether the profile allows attaching a debugger */
+  getTaskAllow: boolean;
+  /** Distribution type, derived from devices and get-task-allow */
+  distributionType: ProfileDistributionType;
+  /** Platforms the profile is valid for (iOS, xrOS, ...) */
+  platforms: string[];
+}
+
+/** Directories Xcode installs provisioning profiles into */
+const PROFILE_DIRECTORIES = [
+  ['Library', 'MobileDevice', 'Provisioning Profiles'],
+  ['Library', 'Developer', 'Xcode', 'UserData', 'Provisioning Profiles'],
+];
+
+/** OID 1.2.840.113549.1.7.2 (PKCS#7 signedData) */
+const SIGNED_DATA_OID = Buffer.from([0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x07, 0x02]);
+
+/**
+ * A BER element: tag, and where its contents start and end
+ */
+interface BerElement {
+  tag: number;
+  contentStart: number;
+  contentEnd: number;
+  end: number;
+}
+
+/**
+ * Parse a `.mobileprovision` file
+ */
+export async function parseProvisioningProfile(filePath: string): Promise<ProvisioningProfile> {
+  return parseProvisioningProfileBuffer(await fs.readFile(filePath));
+}
+
+/**
+ * Parse a provisioning profile: a CMS (PKCS#7) signedData envelope around
+ * the profile plist. The signature is not verified.
+ */
+export function parseProvisioningProfileBuffer(buffer: Buffer): ProvisioningProfile {
+  const plist = parsePlistBuffer<Record<string, unknown>>(extractSignedContent(buffer));
+
+  const entitlements = isRecord(plist['Entitlements']) ? plist['Entitlements'] : {};
+  const provisionedDevices = stringArray(plist['ProvisionedDevices']);
+  const provisionsAllDevices = plist['ProvisionsAllDevices'] === true;
+  const getTaskAllow = entitlements['get-task-allow'] === true;
+
+  let distributionType: ProfileDistributionType = 'app-store';
+  if (provisionsAllDevices) {
+    distributionType = 'enterprise';
+  } else if (Array.isArray(plist['ProvisionedDevices'])) {
+    distributionType = getTaskAllow ? 'development' : 'ad-hoc';
+  } else if (getTaskAllow) {
+    distributionType = 'development';
+  }
+
+  return {
+    name: stringValue(plist['Name']),
+    uuid: stringValue(plist['UUID']),
+    teamIdentifier: stringArray(plist['TeamIdentifier'])[0],
+    teamName: stringValue(plist['TeamName']),
+    creationDate: plist['CreationDate'] instanceof Date ? plist['CreationDate'] : undefined,
+    expirationDate: plist['ExpirationDate'] instanceof Date ? plist['ExpirationDate'] : undefined,
+    entitlements,
+    provisionedDevices,
+    provisionsAllDevices,
+    getTaskAllow,
+    distributionType,
+    platforms: stringArray(plist['Platform']),
+  };
+}
+
+/**
+ * Find an installed provisioning profile by UUID or name, as referenced by
+ * the PROVISIONING_PROFILE / PROVISIONING_PROFILE_SPECIFIER build settings
+ */
+export async function findInstalledProfile(specifier: string): Promise<string | undefined> {
+  for (const segments of PROFILE_DIRECTORIES) {
+    const directory = path.join(os.homedir(), ...segments);
+    let files: string[];
+    try {
+      files = (await fs.readdir(directory)).filter((f) => f.endsWith('.mobileprovision')).sort();
+    } catch {
+      continue;
+    }
+
+    const byUuid = files.find((f) => path.basename(f, '.mobileprovision') === specifier);
+    if (byUuid) {
+      return path.join(directory, byUuid);
+    }
+
+    for (const file of files) {
+      try {
+        const profile = await parseProvisioningProfile(path.join(directory, file));
+        if (profile.name === specifier || profile.uuid === specifier) {
+          return path.join(directory, file);
+        }
+      } catch {
+        // Skip unreadable profiles
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Unwrap ContentInfo → SignedData → EncapsulatedContentInfo → eContent
+ */
+function extractSignedContent(buffer: Buffer): Buffer {
+  const contentInfo = readElement(buffer, 0);
+  const [contentType, explicitContent] = children(buffer, contentInfo);
+  if (
+    contentInfo.tag !== 0x30 ||
+    contentType?.tag !== 0x06 ||
+    !buffer.subarray(contentType.contentStart, contentType.contentEnd).equals(SIGNED_DATA_OID) ||
+    explicitContent?.tag !== 0xa0
+  ) {
+    throw new Error('Not a CMS signedData provisioning profile');
+  }
+
+  const [signedData] = children(buffer, explicitContent);
+  const encapsulated = signedData ? children(buffer, signedData)[2] : undefined;
+  const explicitPayload = encapsulated ? children(buffer, encapsulated)[1] : undefined;
+  const payload = explicitPayload ? children(buffer, explicitPayload)[0] : undefined;
+  if (!payload || (payload.tag !== 0x04 && payload.tag !== 0x24)) {
+    throw new Error('Provisioning profile has no signed content');
+  }
+
+  return octetString(buffer, payload);
+}
+
+/**
+ * Read the BER element at `offset`, including indefinite-length encodings
+ */
+function readElement(buffer: Buffer, offset: number): BerElement {
+  const tag = buffer[offset];
+  const first = buffer[offset + 1];
+  if (tag === undefined || first === undefined) {
+    throw new Error('Truncated provisioning profile');
+  }
+  if ((tag & 0x1f) === 0x1f) {
+    throw new Error('Unsupported multi-byte ASN.1 tag in provisioning profile');
+  }
+
+  if (first === 0x80) {
+    // Indefinite length: children run until an end-of-contents marker
+    let position = offset + 2;
+    while (buffer[position] !== 0 || buffer[position + 1] !== 0) {
+      if (position >= buffer.length) {
+        throw new Error('Truncated provisioning profile');
+      }
+      position = readElement(buffer, position).end;
+    }
+    return { tag, contentStart: offset + 2, contentEnd: position, end: position + 2 };
+  }
+
+  let length = first;
+  let headerLength = 2;
+  if (first > 0x80) {
+    const byteCount = first & 0x7f;
+    if (byteCount > 4) {
+      throw new Error('Unsupported ASN.1 length in provisioning profile');
+    }
+    length = buffer.readUIntBE(offset + 2, byteCount);
+    headerLength += byteCount;
+  }
+
+  const contentStart = offset + headerLength;
+  if (contentStart + length > buffer.length) {
+    throw new Error('Truncated provisioning profile');
+  }
+  return { tag, contentStart, contentEnd: contentStart + length, end: contentStart + length };
+}
+
+function children(buffer: Buffer, element: BerElement): BerElement[] {
+  const result: BerElement[] = [];
+  for (let offset = element.contentStart; offset < element.contentEnd; ) {
+    const child = readElement(buffer, offset);
+    result.push(child);
+    offset = child.end;
+  }
+  return result;
+}
+
+/**
+ * Contents of a primitive or constructed (chunked) OCTET STRING
+ */
+function octetString(buffer: Buffer, element: BerElement): Buffer {
+  if (element.tag === 0x04) {
+    return buffer.subarray(element.contentStart, element.contentEnd);
+  }
+  return Buffer.concat(children(buffer, element).map((chunk) => octetString(buffer, chunk)));
+}
+
+function stringValue(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
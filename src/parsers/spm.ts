@@ -0,0 +1,75 @@
+import * as fs from 'fs/promises';
+
+/**
+ * A pinned package from Package.resolved
+ */
+export interface ResolvedPackagePin {
+  /** Package identity (lowercased last path component of the location) */
+  identity: string;
+  /** Repository URL or local path */
+  location: string;
+  version?: string | undefined;
+  revision?: string | undefined;
+  branch?: string | undefined;
+}
+
+interface RawPinState {
+  version?: string | null;
+  revision?: string | null;
+  branch?: string | null;
+}
+
+interface RawPin {
+  identity?: string;
+  package?: string;
+  location?: string;
+  repositoryURL?: string;
+  state?: RawPinState;
+}
+
+/**
+ * Parse a Package.resolved file
+ */
+export async function parsePackageResolved(filePath: string): Promise<ResolvedPackagePin[]> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  return parsePackageResolvedContent(content);
+}
+
+/**
+ * Parse Package.resolved content. Handles version 1 (`object.pins` with
+ * `repositoryURL`) and versions 2 and 3 (top-level `pins` with `location`).
+ */
+export function parsePackageResolvedContent(content: string): ResolvedPackagePin[] {
+  const data = JSON.parse(content) as {
+    version?: number;
+    pins?: RawPin[];
+    object?: { pins?: RawPin[] };
+  };
+  const rawPins = data.pins ?? data.object?.pins ?? [];
+  const pins: ResolvedPackagePin[] = [];
+
+  for (const raw of rawPins) {
+    const location = raw.location ?? raw.repositoryURL;
+    if (!location) {
+      continue;
+    }
+    pins.push({
+      identity: raw.identity ?? packageIdentity(location),
+      location,
+      version: raw.state?.version ?? undefined,
+      revision: raw.state?.revision ?? undefined,
+      branch: raw.state?.branch ?? undefined,
+    });
+  }
+
+  return pins;
+}
+
+/**
+ * Derive SwiftPM's package identity from a repository URL or path:
+ * the last path component without `.git`, lowercased
+ */
+export function packageIdentity(location: string): string {
+  const lastComponent = location.replace(/\/+$/, '').split('/').pop() ?? location;
+  return lastComponent.replace(/\.git$/, '').toLowerCase();
+}
@@ -0,0 +1,331 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { isBinaryPlist } from './bplist.js';
+import { parsePlistBuffer, isRecord } from './plist.js';
+import { parseInterfaceBuilderFile, walkElements } from './interface-builder.js';
+
+/** Interface Builder attributes holding visible text */
+const IB_TEXT_ATTRIBUTES = ['text', 'title', 'placeholder'];
+
+/**
+ * An entry of a `.strings` or `.stringsdict` table
+ */
+export interface LocalizedString {
+  /** Localization key */
+  key: string;
+  /** Translated value (the format key of a `.stringsdict` entry) */
+  value: string;
+  /** 1-based line of the entry, for text `.strings` files */
+  lineNumber?: number | undefined;
+}
+
+/**
+ * One language of a string catalog entry
+ */
+export interface StringCatalogLocalization {
+  /** `translated`, `new`, `needs_review` or `stale`; the least complete state across variations */
+  state: string;
+  /** Top-level value, when the entry is not split into variations */
+  value?: string | undefined;
+}
+
+/**
+ * A key of a string catalog
+ */
+export interface StringCatalogEntry {
+  key: string;
+  /** Set to `stale` when the key no longer appears in code */
+  extractionState?: string | undefined;
+  /** False for keys marked "Don't translate" */
+  shouldTranslate: boolean;
+  /** Localizations keyed by language */
+  localizations: Record<string, StringCatalogLocalization>;
+}
+
+/**
+ * A parsed `.xcstrings` string catalog
+ */
+export interface StringCatalog {
+  sourceLanguage: string;
+  entries: StringCatalogEntry[];
+}
+
+/**
+ * A piece of text shown to users
+ */
+export interface UserFacingText {
+  text: string;
+  filePath: string;
+  lineNumber?: number | undefined;
+}
+
+/**
+ * Parse a `.strings` file: the text format (UTF-8 or UTF-16) found in
+ * sources, or the binary plist Xcode compiles it to
+ */
+export async function parseStringsFile(filePath: string): Promise<LocalizedString[]> {
+  const buffer = await fs.readFile(filePath);
+  if (isBinaryPlist(buffer)) {
+    return Object.entries(parsePlistBuffer<Record<string, unknown>>(buffer))
+      .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+      .map(([key, value]) => ({ key, value }));
+  }
+  return parseStringsContent(decodeText(buffer));
+}
+
+/**
+ * Parse the text `.strings` format: `"key" = "value";` pairs with C-style
+ * comments. Keys and values may be unquoted words; `"key";` maps a key to
+ * itself.
+ */
+export function parseStringsContent(content: string): LocalizedString[] {
+  const tokens = tokenize(content);
+  const entries: LocalizedString[] = [];
+
+  for (let i = 0; i < tokens.length; ) {
+    const key = tokens[i];
+    const next = tokens[i + 1];
+    if (!key || key.kind !== 'string') {
+      throw new Error(`Unexpected "${key?.text ?? ''}" in strings file at line ${key?.line ?? 0}`);
+    }
+
+    if (next?.kind === 'symbol' && next.text === ';') {
+      entries.push({ key: key.text, value: key.text, lineNumber: key.line });
+      i += 2;
+      continue;
+    }
+
+    const value = tokens[i + 2];
+    const terminator = tokens[i + 3];
+    if (
+      next?.kind !== 'symbol' ||
+      next.text !== '=' ||
+      value?.kind !== 'string' ||
+      terminator?.kind !== 'symbol' ||
+      terminator.text !== ';'
+    ) {
+      throw new Error(`Malformed entry "${key.text}" in strings file at line ${key.line}`);
+    }
+
+    entries.push({ key: key.text, value: value.text, lineNumber: key.line });
+    i += 4;
+  }
+
+  return entries;
+}
+
+/**
+ * Parse a `.stringsdict` file. Each key's value is its
+ * NSStringLocalizedFormatKey.
+ */
+export async function parseStringsdictFile(filePath: string): Promise<LocalizedString[]> {
+  const plist = parsePlistBuffer<Record<string, unknown>>(await fs.readFile(filePath));
+  return Object.entries(plist).map(([key, rule]) => {
+    const format = isRecord(rule) ? rule['NSStringLocalizedFormatKey'] : undefined;
+    return { key, value: typeof format === 'string' ? format : '' };
+  });
+}
+
+/**
+ * Parse an Xcode 15 `.xcstrings` string catalog
+ */
+export async function parseStringCatalog(filePath: string): Promise<StringCatalog> {
+  return parseStringCatalogContent(await fs.readFile(filePath, 'utf-8'));
+}
+
+/**
+ * Parse the JSON of a string catalog
+ */
+export function parseStringCatalogContent(content: string): StringCatalog {
+  const json = JSON.parse(content) as unknown;
+  if (!isRecord(json) || !isRecord(json['strings'])) {
+    throw new Error('Not a string catalog: missing "strings"');
+  }
+
+  const entries: StringCatalogEntry[] = [];
+  for (const [key, raw] of Object.entries(json['strings'])) {
+    const entry = isRecord(raw) ? raw : {};
+    const localizations: Record<string, StringCatalogLocalization> = {};
+
+    for (const [language, localization] of Object.entries(
+      isRecord(entry['localizations']) ? entry['localizations'] : {}
+    )) {
+      const units = collectStringUnits(localization);
+      const topLevel = isRecord(localization) && isRecord(localization['stringUnit'])
+        ? localization['stringUnit']
+        : undefined;
+      const incomplete = units.find((unit) => unit['state'] !== 'translated');
+
+      localizations[language] = {
+        state: units.length === 0 ? 'new' : String(incomplete?.['state'] ?? 'translated'),
+        value: typeof topLevel?.['value'] === 'string' ? topLevel['value'] : undefined,
+      };
+    }
+
+    entries.push({
+      key,
+      extractionState: typeof entry['extractionState'] === 'string' ? entry['extractionState'] : undefined,
+      shouldTranslate: entry['shouldTranslate'] !== false,
+      localizations,
+    });
+  }
+
+  return {
+    sourceLanguage: typeof json['sourceLanguage'] === 'string' ? json['sourceLanguage'] : 'en',
+    entries,
+  };
+}
+
+/**
+ * Read the text of `.strings` tables, string catalogs (keys and values),
+ * storyboards and XIBs. Files that can't be parsed are skipped.
+ */
+export async function readUserFacingText(files: string[]): Promise<UserFacingText[]> {
+  const texts: UserFacingText[] = [];
+
+  for (const filePath of files) {
+    const extension = path.extname(filePath);
+    try {
+      if (extension === '.strings') {
+        for (const entry of await parseStringsFile(filePath)) {
+          texts.push({ text: entry.value, filePath, lineNumber: entry.lineNumber });
+        }
+      } else if (extension === '.xcstrings') {
+        for (const entry of (await parseStringCatalog(filePath)).entries) {
+          texts.push({ text: entry.key, filePath });
+          for (const localization of Object.values(entry.localizations)) {
+            if (localization.value) {
+              texts.push({ text: localization.value, filePath });
+            }
+          }
+        }
+      } else if (extension === '.storyboard' || extension === '.xib') {
+        walkElements((await parseInterfaceBuilderFile(filePath)).root, (element) => {
+          for (const attribute of IB_TEXT_ATTRIBUTES) {
+            const value = element.attributes[attribute];
+            if (value) {
+              texts.push({ text: value, filePath, lineNumber: element.lineNumber });
+            }
+          }
+          if (element.tag === 'string' && element.text) {
+            texts.push({ text: element.text, filePath, lineNumber: element.lineNumber });
+          }
+        });
+      }
+    } catch {
+      // Reported by the localization and Interface Builder analyzers
+    }
+  }
+
+  return texts;
+}
+
+interface Token {
+  kind: 'string' | 'symbol';
+  text: string;
+  line: number;
+}
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '"': '"', "'": "'", '\\': '\\', a: '\x07', b: '\b', f: '\f', v: '\v' };
+
+function tokenize(content: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let pos = 0;
+
+  while (pos < content.length) {
+    const char = content[pos]!;
+
+    if (char === '\n') {
+      line++;
+      pos++;
+    } else if (/\s/.test(char)) {
+      pos++;
+    } else if (content.startsWith('/*', pos)) {
+      const end = content.indexOf('*/', pos + 2);
+      const stop = end === -1 ? content.length : end + 2;
+      line += countNewlines(content, pos, stop);
+      pos = stop;
+    } else if (content.startsWith('//', pos)) {
+      const end = content.indexOf('\n', pos);
+      pos = end === -1 ? content.length : end;
+    } else if (char === '=' || char === ';') {
+      tokens.push({ kind: 'symbol', text: char, line });
+      pos++;
+    } else if (char === '"' || char === "'") {
+      const start = line;
+      let text = '';
+      pos++;
+      while (pos < content.length && content[pos] !== char) {
+        if (content[pos] === '\\') {
+          const escaped = content[pos + 1] ?? '';
+          if ((escaped === 'U' || escaped === 'u') && /^[0-9a-fA-F]{4}$/.test(content.slice(pos + 2, pos + 6))) {
+            text += String.fromCharCode(parseInt(content.slice(pos + 2, pos + 6), 16));
+            pos += 6;
+            continue;
+          }
+          text += ESCAPES[escaped] ?? escaped;
+          pos += 2;
+          continue;
+        }
+        if (content[pos] === '\n') {
+          line++;
+        }
+        text += content[pos];
+        pos++;
+      }
+      if (pos >= content.length) {
+        throw new Error(`Unterminated string in strings file at line ${start}`);
+      }
+      tokens.push({ kind: 'string', text, line: start });
+      pos++;
+    } else {
+      const word = /^[\w.$:/-]+/.exec(content.slice(pos));
+      if (!word) {
+        throw new Error(`Unexpected "${char}" in strings file at line ${line}`);
+      }
+      tokens.push({ kind: 'string', text: word[0], line });
+      pos += word[0].length;
+    }
+  }
+
+  return tokens;
+}
+
+function countNewlines(content: string, start: number, end: number): number {
+  let count = 0;
+  for (let i = start; i < end; i++) {
+    if (content[i] === '\n') {
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Decode UTF-16 (with a byte order mark) or UTF-8 text
+ */
+function decodeText(buffer: Buffer): string {
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return buffer.subarray(2).toString('utf16le');
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    const swapped = Buffer.from(buffer.subarray(2));
+    swapped.swap16();
+    return swapped.toString('utf16le');
+  }
+  return buffer.toString('utf-8').replace(/^﻿/, '');
+}
+
+/**
+ * Every `stringUnit` of a catalog localization, including those nested in
+ * plural/device variations and substitutions
+ */
+function collectStringUnits(value: unknown): Record<string, unknown>[] {
+  if (!isRecord(value)) {
+    return [];
+  }
+  return Object.entries(value).flatMap(([key, child]) =>
+    key === 'stringUnit' && isRecord(child) ? [child] : collectStringUnits(child)
+  );
+}
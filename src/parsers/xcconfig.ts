@@ -0,0 +1,98 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileExists } from './plist.js';
+import { INHERITED_PATTERN } from './build-settings.js';
+
+/**
+ * Parse an .xcconfig file into a flat map of build settings.
+ *
+ * Supports `#include "file"` and `#include? "file"` (optional) directives,
+ * `//` comments and conditional keys such as `KEY[sdk=iphoneos*]`, which are
+ * kept verbatim for applyConditionalSettings. Later assignments override earlier ones; an assignment that
+ * references `$(inherited)` picks up the value defined earlier in the same
+ * include chain, and leaves the reference in place otherwise so the next
+ * settings level can resolve it.
+ */
+export async function parseXcconfig(filePath: string): Promise<Record<string, string>> {
+  const settings: Record<string, string> = {};
+  await readXcconfigInto(path.resolve(filePath), settings, new Set());
+  return settings;
+}
+
+/**
+ * Parse xcconfig content that has no #include directives
+ */
+export function parseXcconfigContent(content: string): Record<string, string> {
+  const settings: Record<string, string> = {};
+
+  for (const line of content.split(/\r?\n/)) {
+    const assignment = parseAssignment(line);
+    if (assignment) {
+      applyAssignment(settings, assignment.key, assignment.value);
+    }
+  }
+
+  return settings;
+}
+
+async function readXcconfigInto(
+  filePath: string,
+  settings: Record<string, string>,
+  visited: Set<string>
+): Promise<void> {
+  if (visited.has(filePath)) {
+    throw new Error(`Circular #include detected for ${filePath}`);
+  }
+  visited.add(filePath);
+
+  const content = await fs.readFile(filePath, 'utf-8');
+
+  for (const line of content.split(/\r?\n/)) {
+    const includeMatch = line.match(/^\s*#include(\?)?\s*"([^"]+)"/);
+    if (includeMatch?.[2]) {
+      const optional = includeMatch[1] === '?';
+      const includePath = path.resolve(path.dirname(filePath), includeMatch[2]);
+
+      if (!(await fileExists(includePath))) {
+        if (optional) {
+          continue;
+        }
+        throw new Error(`Included xcconfig not found: ${includePath} (from ${filePath})`);
+      }
+
+      await readXcconfigInto(includePath, settings, visited);
+      continue;
+    }
+
+    const assignment = parseAssignment(line);
+    if (assignment) {
+      applyAssignment(settings, assignment.key, assignment.value);
+    }
+  }
+
+  visited.delete(filePath);
+}
+
+/**
+ * Parse a single `KEY = value` line, stripping `//` comments
+ */
+function parseAssignment(line: string): { key: string; value: string } | null {
+  const commentIndex = line.indexOf('//');
+  const stripped = (commentIndex >= 0 ? line.substring(0, commentIndex) : line).trim();
+  if (!stripped || stripped.startsWith('#')) {
+    return null;
+  }
+
+  const match = stripped.match(/^([A-Za-z_][\w]*(?:\[[^\]]*\])*)\s*=\s*(.*?);?$/);
+  if (!match?.[1]) {
+    return null;
+  }
+
+  return { key: match[1], value: (match[2] ?? '').trim() };
+}
+
+function applyAssignment(settings: Record<string, string>, key: string, value: string): void {
+  const previous = settings[key];
+  settings[key] =
+    previous !== undefined ? value.replace(INHERITED_PATTERN, () => previous) : value;
+}
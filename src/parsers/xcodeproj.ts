@@ -1,20 +1,67 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import fg from 'fast-glob';
 import { parsePbxproj, fileExists, type PbxProject, type PbxObject } from './plist.js';
-import type { XcodeProject, XcodeTarget, TargetType } from '../types/index.js';
+import { parseXcconfig } from './xcconfig.js';
+import { parsePackageResolved, packageIdentity, type ResolvedPackagePin } from './spm.js';
+import { findSchemes, decodeXmlEntities } from './xcscheme.js';
+import {
+  mergeBuildSettingLevels,
+  getBuiltinBuildSettings,
+  resolveBuildSettings,
+  applyConditionalSettings,
+} from './build-settings.js';
+import type {
+  XcodeProject,
+  XcodeTarget,
+  XcodeBuildConfiguration,
+  SwiftPackage,
+  SwiftPackageProduct,
+  TargetType,
+} from '../types/index.js';
+
+/**
+ * Options for parseXcodeProject
+ */
+export interface ParseProjectOptions {
+  /**
+   * Build configuration whose settings populate each target's top-level
+   * fields. Defaults to the configuration list's defaultConfigurationName.
+   */
+  configuration?: string | undefined;
+  /**
+   * Scheme to analyze as `xcodebuild archive -scheme` would build it: only
+   * the targets its Archive action builds (and their dependencies), using the
+   * Archive action's build configuration unless `configuration` is given.
+   */
+  scheme?: string | undefined;
+}
 
 /**
  * Parse an Xcode project or workspace
  */
-export async function parseXcodeProject(projectPath: string): Promise<XcodeProject> {
+export async function parseXcodeProject(
+  projectPath: string,
+  options: ParseProjectOptions = {}
+): Promise<XcodeProject> {
   const stats = await fs.stat(projectPath);
 
+  let project: XcodeProject | undefined;
   if (stats.isDirectory()) {
     if (projectPath.endsWith('.xcworkspace')) {
-      return parseWorkspace(projectPath);
+      project = await parseWorkspace(projectPath, options);
     } else if (projectPath.endsWith('.xcodeproj')) {
-      return parseProject(projectPath);
+      project = await parseProject(projectPath, options);
+    }
+  }
+
+  if (project) {
+    if (options.configuration && !project.configurations.includes(options.configuration)) {
+      throw new Error(
+        `Build configuration "${options.configuration}" not found. Available configurations: ${project.configurations.join(', ')}`
+      );
     }
+    return options.scheme ? applyScheme(project, options.scheme, options.configuration) : project;
   }
 
   throw new Error(
@@ -25,7 +72,10 @@ export async function parseXcodeProject(projectPath: string): Promise<XcodeProje
 /**
  * Parse an .xcodeproj directory
  */
-async function parseProject(projectPath: string): Promise<XcodeProject> {
+async function parseProject(
+  projectPath: string,
+  options: ParseProjectOptions
+): Promise<XcodeProject> {
   const pbxprojPath = path.join(projectPath, 'project.pbxproj');
 
   if (!(await fileExists(pbxprojPath))) {
@@ -39,23 +89,45 @@ async function parseProject(projectPath: string): Promise<XcodeProject> {
   const basePath = path.dirname(projectPath);
 
   // Extract targets
-  const targets = extractTargets(pbxProject, basePath);
+  const targets = await extractTargets(pbxProject, {
+    projectPath,
+    basePath,
+    projectName,
+    configuration: options.configuration,
+  });
 
   // Extract configurations
   const configurations = extractConfigurations(pbxProject);
 
+  // Swift packages, with versions from the project's Package.resolved
+  const packages = applyResolvedPins(
+    extractSwiftPackages(pbxProject.objects, basePath),
+    await loadResolvedPins(projectPath)
+  );
+
+  const rootObject = pbxProject.objects[pbxProject.rootObject];
+  const developmentRegion = rootObject?.['developmentRegion'];
+  const knownRegions = rootObject?.['knownRegions'];
+
   return {
     path: projectPath,
     name: projectName,
     targets,
     configurations,
+    packages,
+    schemes: await findSchemes(projectPath),
+    developmentRegion: typeof developmentRegion === 'string' ? developmentRegion : undefined,
+    knownRegions: Array.isArray(knownRegions) ? (knownRegions as string[]) : undefined,
   };
 }
 
 /**
  * Parse an .xcworkspace directory
  */
-async function parseWorkspace(workspacePath: string): Promise<XcodeProject> {
+async function parseWorkspace(
+  workspacePath: string,
+  options: ParseProjectOptions
+): Promise<XcodeProject> {
   const contentsPath = path.join(workspacePath, 'contents.xcworkspacedata');
 
   if (!(await fileExists(contentsPath))) {
@@ -63,68 +135,350 @@ async function parseWorkspace(workspacePath: string): Promise<XcodeProject> {
   }
 
   const content = await fs.readFile(contentsPath, 'utf-8');
+  const workspaceName = path.basename(workspacePath, '.xcworkspace');
 
-  // Extract project references from workspace
-  const projectRefs = extractWorkspaceProjects(content);
-  const basePath = path.dirname(workspacePath);
+  // Extract project references from workspace, skipping ones not on disk
+  // (e.g. Pods.xcodeproj before `pod install`)
+  const projectPaths: string[] = [];
+  for (const projectPath of extractWorkspaceProjects(content, workspacePath)) {
+    if (await fileExists(path.join(projectPath, 'project.pbxproj'))) {
+      projectPaths.push(projectPath);
+    }
+  }
 
-  // Find the main project (usually the one with the same name as the workspace)
-  const workspaceName = path.basename(workspacePath, '.xcworkspace');
-  let mainProjectPath: string | undefined;
+  if (projectPaths.length === 0) {
+    throw new Error(`No projects found in workspace ${workspacePath}`);
+  }
 
-  for (const ref of projectRefs) {
-    const fullPath = path.resolve(basePath, ref);
-    if (ref.includes(workspaceName) && (await fileExists(fullPath))) {
-      mainProjectPath = fullPath;
-      break;
+  // List the main project (usually the one named after the workspace) first
+  const mainIndex = projectPaths.findIndex(
+    (p) => path.basename(p, '.xcodeproj') === workspaceName
+  );
+  if (mainIndex > 0) {
+    projectPaths.unshift(...projectPaths.splice(mainIndex, 1));
+  }
+
+  // Parse every project and merge their targets, packages and schemes
+  const targets: XcodeTarget[] = [];
+  const configurations = new Set<string>();
+  const packages: SwiftPackage[] = [];
+  const schemes = await findSchemes(workspacePath);
+  const knownRegions = new Set<string>();
+  let developmentRegion: string | undefined;
+  for (const projectPath of projectPaths) {
+    const project = await parseProject(projectPath, options);
+    targets.push(...project.targets);
+    // The main project, listed first, decides the development region
+    developmentRegion ??= project.developmentRegion;
+    project.knownRegions?.forEach((r) => knownRegions.add(r));
+    project.configurations.forEach((c) => configurations.add(c));
+    for (const pkg of project.packages ?? []) {
+      if (!packages.some((p) => p.identity === pkg.identity)) {
+        packages.push(pkg);
+      }
     }
+    for (const scheme of project.schemes ?? []) {
+      if (!schemes.some((s) => s.name === scheme.name)) {
+        schemes.push(scheme);
+      }
+    }
+  }
+
+  return {
+    path: workspacePath,
+    name: workspaceName,
+    targets,
+    configurations: Array.from(configurations),
+    // Xcode resolves packages for the whole workspace
+    packages: applyResolvedPins(packages, await loadResolvedPins(workspacePath)),
+    schemes,
+    developmentRegion,
+    knownRegions: knownRegions.size > 0 ? Array.from(knownRegions) : undefined,
+  };
+}
+
+/**
+ * Narrow a project to what a scheme's Archive action builds: the scheme's
+ * archive targets plus the targets they depend on, with each target's
+ * top-level fields taken from the archive build configuration
+ */
+function applyScheme(
+  project: XcodeProject,
+  schemeName: string,
+  configuration: string | undefined
+): XcodeProject {
+  const schemes = project.schemes ?? [];
+  const scheme = schemes.find((s) => s.name === schemeName);
+  if (!scheme) {
+    throw new Error(
+      `Scheme "${schemeName}" not found. Available schemes: ${schemes.map((s) => s.name).join(', ') || 'none'}`
+    );
   }
 
-  // Fallback to first project if no matching name
-  if (!mainProjectPath && projectRefs.length > 0 && projectRefs[0]) {
-    mainProjectPath = path.resolve(basePath, projectRefs[0]);
+  const selected = new Set<XcodeTarget>();
+  const visit = (target: XcodeTarget): void => {
+    if (selected.has(target)) {
+      return;
+    }
+    selected.add(target);
+    for (const dependency of target.dependencies ?? []) {
+      const match = project.targets.find(
+        (t) => t.name === dependency && t.projectPath === target.projectPath
+      );
+      if (match) {
+        visit(match);
+      }
+    }
+  };
+
+  for (const reference of scheme.archiveTargets) {
+    const target = findSchemeTarget(project.targets, reference.name, reference.projectPath);
+    if (target) {
+      visit(target);
+    }
   }
 
-  if (!mainProjectPath) {
-    throw new Error(`No projects found in workspace ${workspacePath}`);
+  if (selected.size === 0) {
+    throw new Error(`Scheme "${schemeName}" does not build any targets in ${project.path} when archiving`);
   }
 
-  // Parse the main project
-  const project = await parseProject(mainProjectPath);
-  project.path = workspacePath;
-  project.name = workspaceName;
+  const archiveConfiguration = configuration ?? scheme.archiveConfiguration;
+  return {
+    ...project,
+    targets: project.targets
+      .filter((t) => selected.has(t))
+      .map((t) => withConfiguration(t, archiveConfiguration)),
+  };
+}
 
-  return project;
+/**
+ * Find the target a scheme refers to, preferring the one in the referenced project
+ */
+function findSchemeTarget(
+  targets: XcodeTarget[],
+  name: string,
+  projectPath: string | undefined
+): XcodeTarget | undefined {
+  const candidates = targets.filter((t) => t.name === name);
+  return candidates.find((t) => t.projectPath === projectPath) ?? candidates[0];
 }
 
 /**
- * Extract project paths from workspace data
+ * Re-point a target's top-level fields at another of its build configurations
  */
-function extractWorkspaceProjects(content: string): string[] {
+function withConfiguration(target: XcodeTarget, configuration: string | undefined): XcodeTarget {
+  const selected = configuration ? target.buildConfigurations?.[configuration] : undefined;
+  if (!selected) {
+    return target;
+  }
+
+  return {
+    ...target,
+    bundleIdentifier: selected.bundleIdentifier,
+    infoPlistPath: selected.infoPlistPath,
+    entitlementsPath: selected.entitlementsPath,
+    deploymentTarget: selected.deploymentTarget,
+    configuration: selected.name,
+  };
+}
+
+/**
+ * Read the Package.resolved stored inside an .xcodeproj or .xcworkspace
+ */
+async function loadResolvedPins(containerPath: string): Promise<ResolvedPackagePin[]> {
+  const sharedDataPath = containerPath.endsWith('.xcodeproj')
+    ? path.join(containerPath, 'project.xcworkspace', 'xcshareddata')
+    : path.join(containerPath, 'xcshareddata');
+
+  try {
+    return await parsePackageResolved(path.join(sharedDataPath, 'swiftpm', 'Package.resolved'));
+  } catch {
+    // Packages not resolved yet, or an unreadable file
+    return [];
+  }
+}
+
+/**
+ * Extract the Swift packages a project references directly
+ */
+function extractSwiftPackages(
+  objects: Record<string, PbxObject>,
+  basePath: string
+): SwiftPackage[] {
+  const packages: SwiftPackage[] = [];
+
+  for (const obj of Object.values(objects)) {
+    if (obj.isa === 'XCRemoteSwiftPackageReference' && obj.repositoryURL) {
+      const { kind, ...values } = obj.requirement ?? {};
+      packages.push({
+        identity: packageIdentity(obj.repositoryURL),
+        location: obj.repositoryURL,
+        kind: 'remote',
+        requirement: kind ? [kind, ...Object.values(values)].join(' ') : undefined,
+        direct: true,
+      });
+    } else if (obj.isa === 'XCLocalSwiftPackageReference' && obj.relativePath) {
+      packages.push({
+        identity: packageIdentity(obj.relativePath),
+        location: path.resolve(basePath, obj.relativePath),
+        kind: 'local',
+        direct: true,
+      });
+    }
+  }
+
+  return packages;
+}
+
+/**
+ * Fill in resolved versions and add transitive dependencies from Package.resolved
+ */
+function applyResolvedPins(packages: SwiftPackage[], pins: ResolvedPackagePin[]): SwiftPackage[] {
+  const merged = packages.map((pkg) => ({ ...pkg }));
+
+  for (const pin of pins) {
+    const resolved = {
+      version: pin.version,
+      revision: pin.revision,
+      branch: pin.branch,
+    };
+    const existing = merged.find((pkg) => pkg.identity === pin.identity);
+    if (existing) {
+      Object.assign(existing, resolved);
+    } else {
+      merged.push({
+        identity: pin.identity,
+        location: pin.location,
+        kind: 'remote',
+        ...resolved,
+        direct: false,
+      });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Extract absolute .xcodeproj paths from workspace data.
+ *
+ * Handles nested `<Group>` elements and the `group:` (relative to the
+ * enclosing group), `container:` (relative to the workspace's directory)
+ * and `absolute:` location types.
+ */
+function extractWorkspaceProjects(content: string, workspacePath: string): string[] {
+  const containerDir = path.dirname(workspacePath);
+  const groupDirs: string[] = [containerDir];
   const projects: string[] = [];
-  const locationRegex = /location\s*=\s*"group:([^"]+\.xcodeproj)"/g;
+  const elementRegex = /<(\/?)(Group|FileRef)\b([^>]*?)(\/?)>/g;
   let match: RegExpExecArray | null;
 
-  while ((match = locationRegex.exec(content)) !== null) {
-    if (match[1]) {
-      projects.push(match[1]);
+  while ((match = elementRegex.exec(content)) !== null) {
+    const [, closing, element, attributes = '', selfClosing] = match;
+
+    if (element === 'Group') {
+      if (closing) {
+        if (groupDirs.length > 1) {
+          groupDirs.pop();
+        }
+        continue;
+      }
+      const parentDir = groupDirs[groupDirs.length - 1] ?? containerDir;
+      const groupDir = resolveWorkspaceLocation(attributes, parentDir, containerDir) ?? parentDir;
+      if (!selfClosing) {
+        groupDirs.push(groupDir);
+      }
+      continue;
+    }
+
+    if (element === 'FileRef' && !closing) {
+      const parentDir = groupDirs[groupDirs.length - 1] ?? containerDir;
+      const location = resolveWorkspaceLocation(attributes, parentDir, containerDir);
+      if (location?.endsWith('.xcodeproj') && !projects.includes(location)) {
+        projects.push(location);
+      }
     }
   }
 
   return projects;
 }
 
+/**
+ * Resolve an element's `location` attribute to an absolute path
+ */
+function resolveWorkspaceLocation(
+  attributes: string,
+  groupDir: string,
+  containerDir: string
+): string | undefined {
+  const locationMatch = attributes.match(/location\s*=\s*"([^"]*)"/);
+  if (!locationMatch?.[1]) {
+    return undefined;
+  }
+
+  const separator = locationMatch[1].indexOf(':');
+  const type = locationMatch[1].substring(0, separator);
+  const location = decodeXmlEntities(locationMatch[1].substring(separator + 1));
+
+  switch (type) {
+    case 'group':
+      return path.resolve(groupDir, location);
+    case 'container':
+      return path.resolve(containerDir, location);
+    case 'absolute':
+      return path.resolve(location);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Cache of parsed xcconfig files, keyed by absolute path
+ */
+type XcconfigCache = Map<string, Promise<Record<string, string> | undefined>>;
+
+/**
+ * State shared while extracting the targets of one project
+ */
+interface ProjectContext {
+  objects: Record<string, PbxObject>;
+  /** Path to the .xcodeproj */
+  projectPath: string;
+  /** Directory containing the .xcodeproj (SRCROOT) */
+  basePath: string;
+  projectName: string;
+  /** Project-level build configurations */
+  projectConfigs: PbxObject[];
+  /** Requested build configuration, if any */
+  configuration: string | undefined;
+  xcconfigCache: XcconfigCache;
+  resolvePath: PathResolver;
+}
+
 /**
  * Extract targets from a pbxproj
  */
-function extractTargets(pbxProject: PbxProject, basePath: string): XcodeTarget[] {
+async function extractTargets(
+  pbxProject: PbxProject,
+  options: Pick<ProjectContext, 'projectPath' | 'basePath' | 'projectName' | 'configuration'>
+): Promise<XcodeTarget[]> {
   const targets: XcodeTarget[] = [];
   const objects = pbxProject.objects;
+  const context: ProjectContext = {
+    ...options,
+    objects,
+    projectConfigs: getConfigurationObjects(
+      objects[pbxProject.rootObject]?.buildConfigurationList,
+      objects
+    ),
+    xcconfigCache: new Map(),
+    resolvePath: createPathResolver(objects, options.basePath),
+  };
 
   // Find native targets
-  for (const obj of Object.values(objects)) {
+  for (const [id, obj] of Object.entries(objects)) {
     if (obj.isa === 'PBXNativeTarget') {
-      const target = extractTarget(obj, objects, basePath);
+      const target = await extractTarget(id, obj, context);
       if (target) {
         targets.push(target);
       }
@@ -137,58 +491,286 @@ function extractTargets(pbxProject: PbxProject, basePath: string): XcodeTarget[]
 /**
  * Extract a single target's information
  */
-function extractTarget(
+async function extractTarget(
+  targetId: string,
   targetObj: PbxObject,
-  objects: Record<string, PbxObject>,
-  basePath: string
-): XcodeTarget | null {
+  context: ProjectContext
+): Promise<XcodeTarget | null> {
+  const { objects } = context;
   const name = targetObj.name ?? 'Unknown';
-  const type = mapProductType(targetObj.productType);
-
-  // Get build settings from build configuration list
-  let bundleIdentifier: string | undefined;
-  let infoPlistPath: string | undefined;
-  let entitlementsPath: string | undefined;
-  let deploymentTarget: string | undefined;
-
-  if (targetObj.buildConfigurationList) {
-    const configList = objects[targetObj.buildConfigurationList];
-    if (configList && configList.isa === 'XCConfigurationList') {
-      // Get build configurations
-      const buildConfigs = (configList['buildConfigurations'] as string[] | undefined) ?? [];
-      for (const configId of buildConfigs) {
-        const config = objects[configId];
-        if (config?.buildSettings) {
-          const settings = config.buildSettings;
-          bundleIdentifier = bundleIdentifier ?? settings['PRODUCT_BUNDLE_IDENTIFIER'];
-          infoPlistPath = infoPlistPath ?? settings['INFOPLIST_FILE'];
-          entitlementsPath = entitlementsPath ?? settings['CODE_SIGN_ENTITLEMENTS'];
-          deploymentTarget = deploymentTarget ?? settings['IPHONEOS_DEPLOYMENT_TARGET'];
-        }
-      }
-    }
+  let type = mapProductType(targetObj.productType);
+
+  // Resolve build settings for every configuration
+  const buildConfigurations: Record<string, XcodeBuildConfiguration> = {};
+  for (const config of getConfigurationObjects(targetObj.buildConfigurationList, objects)) {
+    const configName = config.name ?? 'Unknown';
+    buildConfigurations[configName] = await resolveTargetConfiguration(
+      name,
+      configName,
+      config,
+      context
+    );
   }
 
-  // Resolve paths relative to project
-  if (infoPlistPath) {
-    infoPlistPath = path.resolve(basePath, infoPlistPath);
-  }
-  if (entitlementsPath) {
-    entitlementsPath = path.resolve(basePath, entitlementsPath);
+  // Top-level fields reflect the requested (or default) configuration
+  const configListObj = targetObj.buildConfigurationList
+    ? objects[targetObj.buildConfigurationList]
+    : undefined;
+  const selected = selectConfiguration(
+    buildConfigurations,
+    context.configuration,
+    configListObj?.['defaultConfigurationName'] as string | undefined
+  );
+
+  // Single-target watch apps (Xcode 14+) use the plain application product type
+  if (type === 'application' && selected?.buildSettings['SDKROOT'] === 'watchos') {
+    type = 'watchApp';
   }
 
-  // Extract source files
-  const sourceFiles = extractSourceFiles(targetObj, objects, basePath);
+  // Extract source and resource files from build phases and synchronized folders
+  const sourceFiles = extractBuildPhaseFiles(targetObj, 'PBXSourcesBuildPhase', context);
+  const resourceFiles = extractBuildPhaseFiles(targetObj, 'PBXResourcesBuildPhase', context);
+  const synchronized = await extractSynchronizedFiles(targetId, targetObj, context);
+  appendUnique(sourceFiles, synchronized.sourceFiles);
+  appendUnique(resourceFiles, synchronized.resourceFiles);
+
+  const packageProducts = extractPackageProducts(targetObj, objects);
+  const dependencies = extractTargetDependencies(targetObj, objects);
 
   return {
     name,
     type,
-    bundleIdentifier,
-    infoPlistPath,
-    entitlementsPath,
-    deploymentTarget,
+    bundleIdentifier: selected?.bundleIdentifier,
+    infoPlistPath: selected?.infoPlistPath,
+    entitlementsPath: selected?.entitlementsPath,
+    deploymentTarget: selected?.deploymentTarget,
     sourceFiles,
+    resourceFiles,
+    packageProducts,
+    dependencies,
+    projectPath: context.projectPath,
+    configuration: selected?.name,
+    buildConfigurations,
+  };
+}
+
+/**
+ * Names of the targets in the same project that a target depends on
+ */
+function extractTargetDependencies(
+  targetObj: PbxObject,
+  objects: Record<string, PbxObject>
+): string[] {
+  const names: string[] = [];
+
+  for (const dependencyId of targetObj.dependencies ?? []) {
+    const dependency = objects[dependencyId];
+    // Dependencies on other projects' targets only carry a targetProxy
+    const target = dependency?.target ? objects[dependency.target] : undefined;
+    if (dependency?.isa === 'PBXTargetDependency' && target?.name) {
+      names.push(target.name);
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Extract the Swift package products linked into a target
+ */
+function extractPackageProducts(
+  targetObj: PbxObject,
+  objects: Record<string, PbxObject>
+): SwiftPackageProduct[] {
+  const products: SwiftPackageProduct[] = [];
+
+  for (const dependencyId of targetObj.packageProductDependencies ?? []) {
+    const dependency = objects[dependencyId];
+    if (dependency?.isa !== 'XCSwiftPackageProductDependency' || !dependency.productName) {
+      continue;
+    }
+
+    const packageRef = dependency.package ? objects[dependency.package] : undefined;
+    const packageLocation = packageRef?.repositoryURL ?? packageRef?.relativePath;
+    products.push({
+      name: dependency.productName,
+      package: packageLocation ? packageIdentity(packageLocation) : undefined,
+    });
+  }
+
+  return products;
+}
+
+/**
+ * Merge and expand a target's settings for one build configuration
+ */
+async function resolveTargetConfiguration(
+  targetName: string,
+  configName: string,
+  config: PbxObject,
+  context: ProjectContext
+): Promise<XcodeBuildConfiguration> {
+  const { basePath } = context;
+  const projectConfig = context.projectConfigs.find((c) => c.name === configName);
+
+  const levels = [
+    await loadBaseConfiguration(projectConfig, context),
+    projectConfig?.buildSettings,
+    await loadBaseConfiguration(config, context),
+    config.buildSettings,
+  ];
+  const builtins = getBuiltinBuildSettings({
+    projectDir: basePath,
+    projectName: context.projectName,
+    targetName,
+    configuration: configName,
+    // The platform settings depend on the SDK the levels select
+    sdkRoot: mergeBuildSettingLevels(levels)['SDKROOT'],
+  });
+  const conditions = { sdk: builtins['SDK_NAME'] ?? '', config: configName };
+  const merged = mergeBuildSettingLevels([
+    builtins,
+    ...levels.map((level) => level && applyConditionalSettings(level, conditions)),
+  ]);
+  const settings = resolveBuildSettings(merged);
+
+  // Resolve paths relative to project
+  const infoPlistFile = settings['INFOPLIST_FILE'];
+  const entitlementsFile = settings['CODE_SIGN_ENTITLEMENTS'];
+
+  return {
+    name: configName,
+    bundleIdentifier: settings['PRODUCT_BUNDLE_IDENTIFIER'],
+    infoPlistPath: infoPlistFile ? path.resolve(basePath, infoPlistFile) : undefined,
+    entitlementsPath: entitlementsFile ? path.resolve(basePath, entitlementsFile) : undefined,
+    deploymentTarget:
+      settings['SDKROOT'] === 'watchos'
+        ? settings['WATCHOS_DEPLOYMENT_TARGET']
+        : settings['IPHONEOS_DEPLOYMENT_TARGET'],
+    buildSettings: settings,
+  };
+}
+
+/**
+ * Pick the configuration whose settings describe the target: the requested
+ * one, then the list's default (what `xcodebuild` uses), then Release, then
+ * whichever comes first.
+ */
+function selectConfiguration(
+  configurations: Record<string, XcodeBuildConfiguration>,
+  requested: string | undefined,
+  defaultName: string | undefined
+): XcodeBuildConfiguration | undefined {
+  for (const candidate of [requested, defaultName, 'Release']) {
+    if (candidate && configurations[candidate]) {
+      return configurations[candidate];
+    }
+  }
+  return Object.values(configurations)[0];
+}
+
+/**
+ * Get the XCBuildConfiguration objects of an XCConfigurationList
+ */
+function getConfigurationObjects(
+  configListId: string | undefined,
+  objects: Record<string, PbxObject>
+): PbxObject[] {
+  const configList = configListId ? objects[configListId] : undefined;
+  if (configList?.isa !== 'XCConfigurationList') {
+    return [];
+  }
+
+  const configIds = (configList['buildConfigurations'] as string[] | undefined) ?? [];
+  return configIds
+    .map((id) => objects[id])
+    .filter((config): config is PbxObject => config?.isa === 'XCBuildConfiguration');
+}
+
+/**
+ * Load the xcconfig file referenced by a build configuration's
+ * baseConfigurationReference, if any
+ */
+async function loadBaseConfiguration(
+  config: PbxObject | undefined,
+  context: ProjectContext
+): Promise<Record<string, string> | undefined> {
+  const xcconfigPath = config?.baseConfigurationReference
+    ? context.resolvePath(config.baseConfigurationReference)
+    : undefined;
+  if (!xcconfigPath) {
+    return undefined;
+  }
+
+  let cached = context.xcconfigCache.get(xcconfigPath);
+  if (!cached) {
+    // A missing or unreadable xcconfig leaves only the inline settings
+    cached = parseXcconfig(xcconfigPath).catch(() => undefined);
+    context.xcconfigCache.set(xcconfigPath, cached);
+  }
+  return cached;
+}
+
+/**
+ * Resolves a file reference or group ID to an absolute path
+ */
+type PathResolver = (objectId: string) => string | undefined;
+
+/**
+ * Build a resolver that walks the PBXGroup hierarchy.
+ *
+ * `<group>` paths are relative to the parent group's resolved path,
+ * `SOURCE_ROOT` paths to the project directory and `<absolute>` paths are
+ * used as-is. Objects in other source trees (`BUILT_PRODUCTS_DIR`,
+ * `SDKROOT`, `DEVELOPER_DIR`) live outside the project and resolve to
+ * undefined, as does anything below them.
+ */
+function createPathResolver(objects: Record<string, PbxObject>, basePath: string): PathResolver {
+  const parents = new Map<string, string>();
+  for (const [id, obj] of Object.entries(objects)) {
+    for (const childId of obj.children ?? []) {
+      parents.set(childId, id);
+    }
+  }
+
+  const cache = new Map<string, string | undefined>();
+
+  const resolve = (objectId: string, visiting: Set<string>): string | undefined => {
+    if (cache.has(objectId)) {
+      return cache.get(objectId);
+    }
+    const obj = objects[objectId];
+    if (!obj || visiting.has(objectId)) {
+      return undefined;
+    }
+    visiting.add(objectId);
+
+    // Groups may omit a path (pure organisation); file references may not
+    const ownPath = obj.path ?? (obj.isa === 'PBXFileReference' ? undefined : '');
+
+    let resolved: string | undefined;
+    if (ownPath !== undefined) {
+      switch (obj.sourceTree ?? '<group>') {
+        case '<absolute>':
+          resolved = ownPath || undefined;
+          break;
+        case 'SOURCE_ROOT':
+          resolved = path.resolve(basePath, ownPath);
+          break;
+        case '<group>': {
+          const parentId = parents.get(objectId);
+          const parentPath = parentId ? resolve(parentId, visiting) : basePath;
+          resolved = parentPath !== undefined ? path.resolve(parentPath, ownPath) : undefined;
+          break;
+        }
+      }
+    }
+
+    cache.set(objectId, resolved);
+    return resolved;
   };
+
+  return (objectId) => resolve(objectId, new Set());
 }
 
 /**
@@ -201,11 +783,14 @@ function mapProductType(productType: string | undefined): TargetType {
 
   const typeMap: Record<string, TargetType> = {
     'com.apple.product-type.application': 'application',
+    'com.apple.product-type.application.on-demand-install-capable': 'appClip',
     'com.apple.product-type.framework': 'framework',
     'com.apple.product-type.library.static': 'staticLibrary',
     'com.apple.product-type.library.dynamic': 'dynamicLibrary',
     'com.apple.product-type.app-extension': 'appExtension',
+    'com.apple.product-type.application.watchapp': 'watchApp',
     'com.apple.product-type.application.watchapp2': 'watchApp',
+    'com.apple.product-type.watchkit-extension': 'watchExtension',
     'com.apple.product-type.watchkit2-extension': 'watchExtension',
     'com.apple.product-type.tv-app-extension': 'tvExtension',
     'com.apple.product-type.bundle.unit-test': 'unitTest',
@@ -216,37 +801,131 @@ function mapProductType(productType: string | undefined): TargetType {
 }
 
 /**
- * Extract source files from a target
+ * Extract the files of a target's build phase (e.g. PBXSourcesBuildPhase).
+ * Variant groups (localized resources) expand to every localization.
  */
-function extractSourceFiles(
+function extractBuildPhaseFiles(
   targetObj: PbxObject,
-  objects: Record<string, PbxObject>,
-  basePath: string
+  phaseType: string,
+  context: ProjectContext
 ): string[] {
-  const sourceFiles: string[] = [];
+  const { objects, resolvePath } = context;
+  const files: string[] = [];
 
-  // Find Sources build phase
-  const buildPhases = targetObj.buildPhases ?? [];
-  for (const phaseId of buildPhases) {
+  for (const phaseId of targetObj.buildPhases ?? []) {
     const phase = objects[phaseId];
-    if (phase?.isa === 'PBXSourcesBuildPhase') {
-      const files = phase.files ?? [];
-      for (const fileId of files) {
-        const buildFile = objects[fileId];
-        if (buildFile) {
-          const fileRef = buildFile['fileRef'] as string | undefined;
-          if (fileRef) {
-            const fileRefObj = objects[fileRef];
-            if (fileRefObj?.path) {
-              sourceFiles.push(path.resolve(basePath, fileRefObj.path));
-            }
-          }
+    if (phase?.isa !== phaseType) {
+      continue;
+    }
+
+    for (const buildFileId of phase.files ?? []) {
+      const fileRef = objects[buildFileId]?.fileRef;
+      const fileRefObj = fileRef ? objects[fileRef] : undefined;
+      if (!fileRef || !fileRefObj) {
+        continue;
+      }
+
+      const fileRefIds =
+        fileRefObj.isa === 'PBXVariantGroup' ? (fileRefObj.children ?? []) : [fileRef];
+      for (const id of fileRefIds) {
+        const filePath = resolvePath(id);
+        if (filePath && !files.includes(filePath)) {
+          files.push(filePath);
         }
       }
     }
   }
 
-  return sourceFiles;
+  return files;
+}
+
+function appendUnique(target: string[], items: string[]): void {
+  for (const item of items) {
+    if (!target.includes(item)) {
+      target.push(item);
+    }
+  }
+}
+
+/**
+ * Extensions of files Xcode compiles from a synchronized folder
+ */
+const COMPILED_SOURCE_EXTENSIONS = new Set(['.swift', '.m', '.mm', '.c', '.cc', '.cpp', '.cxx']);
+
+/**
+ * Extensions of files Xcode never copies into the bundle as resources
+ */
+const NON_RESOURCE_EXTENSIONS = new Set(['.h', '.hpp', '.modulemap', '.xcconfig', '.entitlements']);
+
+/**
+ * Folders Xcode treats as a single resource rather than walking into
+ */
+const OPAQUE_FOLDER_PATTERN = /^(.*?\.(?:xcassets|bundle|xcdatamodeld|scnassets|docc|xcstickers))(?:\/|$)/;
+
+/**
+ * Extract source and resource files from Xcode 16 synchronized folders
+ * (PBXFileSystemSynchronizedRootGroup).
+ *
+ * Every file under a folder listed in the target's
+ * fileSystemSynchronizedGroups belongs to the target, minus the
+ * membershipExceptions of that folder's exception set for the target.
+ * For folders the target does not list, an exception set naming the target
+ * works the other way round and adds the listed files to it.
+ */
+async function extractSynchronizedFiles(
+  targetId: string,
+  targetObj: PbxObject,
+  context: ProjectContext
+): Promise<{ sourceFiles: string[]; resourceFiles: string[] }> {
+  const { objects } = context;
+  const sourceFiles: string[] = [];
+  const resourceFiles: string[] = [];
+  const memberGroups = new Set(targetObj.fileSystemSynchronizedGroups ?? []);
+
+  for (const [groupId, group] of Object.entries(objects)) {
+    if (group.isa !== 'PBXFileSystemSynchronizedRootGroup') {
+      continue;
+    }
+
+    const exceptions = (group.exceptions ?? [])
+      .map((id) => objects[id])
+      .filter(
+        (set) =>
+          set?.isa === 'PBXFileSystemSynchronizedBuildFileExceptionSet' && set.target === targetId
+      )
+      .flatMap((set) => set?.membershipExceptions ?? []);
+    const isMember = memberGroups.has(groupId);
+    if (!isMember && exceptions.length === 0) {
+      continue;
+    }
+
+    const groupPath = context.resolvePath(groupId);
+    if (!groupPath) {
+      continue;
+    }
+
+    const files = await fg(['**/*'], { cwd: groupPath, onlyFiles: true });
+
+    for (const file of files.sort()) {
+      const excepted = exceptions.some(
+        (exception) => file === exception || file.startsWith(`${exception}/`)
+      );
+      // Exceptions remove files from member targets and add them to others
+      if (excepted === isMember) {
+        continue;
+      }
+
+      const extension = path.extname(file);
+      if (COMPILED_SOURCE_EXTENSIONS.has(extension)) {
+        sourceFiles.push(path.join(groupPath, file));
+      } else if (!NON_RESOURCE_EXTENSIONS.has(extension)) {
+        const resource = OPAQUE_FOLDER_PATTERN.exec(file)?.[1] ?? file;
+        appendUnique(resourceFiles, [path.join(groupPath, resource)]);
+      }
+    }
+  }
+
+  return { sourceFiles, resourceFiles };
 }
 
 /**
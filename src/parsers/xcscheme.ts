@@ -0,0 +1,115 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import fg from 'fast-glob';
+import type { XcodeScheme, XcodeSchemeTarget } from '../types/index.js';
+
+/**
+ * Find and parse the schemes stored in an .xcodeproj or .xcworkspace.
+ *
+ * Shared schemes come from `xcshareddata/xcschemes`, user schemes from
+ * `xcuserdata/<user>.xcuserdatad/xcschemes`. When both define a scheme with
+ * the same name the shared one wins.
+ */
+export async function findSchemes(containerPath: string): Promise<XcodeScheme[]> {
+  const files = await fg(
+    ['xcshareddata/xcschemes/*.xcscheme', 'xcuserdata/*.xcuserdatad/xcschemes/*.xcscheme'],
+    { cwd: containerPath, absolute: true, onlyFiles: true }
+  );
+
+  const schemes: XcodeScheme[] = [];
+  // Shared schemes sort first so they take precedence
+  const sorted = files.sort((a, b) => Number(isUserScheme(a)) - Number(isUserScheme(b)) || a.localeCompare(b));
+  for (const file of sorted) {
+    const name = path.basename(file, '.xcscheme');
+    if (schemes.some((s) => s.name === name)) {
+      continue;
+    }
+    try {
+      schemes.push(await parseScheme(file, path.dirname(containerPath)));
+    } catch {
+      // Skip unreadable schemes
+    }
+  }
+
+  return schemes;
+}
+
+/**
+ * Parse an .xcscheme file. `containerDir` is the directory containing the
+ * project or workspace the scheme belongs to, against which
+ * `container:` references are resolved.
+ */
+export async function parseScheme(filePath: string, containerDir: string): Promise<XcodeScheme> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  return {
+    name: path.basename(filePath, '.xcscheme'),
+    path: filePath,
+    shared: !isUserScheme(filePath),
+    ...parseSchemeContent(content, containerDir),
+  };
+}
+
+/**
+ * Parse the actions of an .xcscheme document
+ */
+export function parseSchemeContent(
+  content: string,
+  containerDir: string
+): Pick<XcodeScheme, 'archiveConfiguration' | 'launchConfiguration' | 'archiveTargets'> {
+  const archiveTargets: XcodeSchemeTarget[] = [];
+  const entryRegex = /<BuildActionEntry\b([^>]*)>([\s\S]*?)<\/BuildActionEntry>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = entryRegex.exec(content)) !== null) {
+    const entryAttributes = match[1] ?? '';
+    if (getAttribute(entryAttributes, 'buildForArchiving') === 'NO') {
+      continue;
+    }
+
+    const reference = /<BuildableReference\b([^>]*)>/.exec(match[2] ?? '')?.[1];
+    const name = reference ? getAttribute(reference, 'BlueprintName') : undefined;
+    if (!reference || !name) {
+      continue;
+    }
+
+    const container = getAttribute(reference, 'ReferencedContainer');
+    archiveTargets.push({
+      name,
+      projectPath: container?.startsWith('container:')
+        ? path.resolve(containerDir, container.substring('container:'.length))
+        : undefined,
+    });
+  }
+
+  return {
+    archiveConfiguration: getActionConfiguration(content, 'ArchiveAction'),
+    launchConfiguration: getActionConfiguration(content, 'LaunchAction'),
+    archiveTargets,
+  };
+}
+
+function isUserScheme(filePath: string): boolean {
+  return filePath.split(path.sep).some((segment) => segment.endsWith('.xcuserdatad'));
+}
+
+function getActionConfiguration(content: string, action: string): string | undefined {
+  const attributes = new RegExp(`<${action}\\b([^>]*)>`).exec(content)?.[1];
+  return attributes ? getAttribute(attributes, 'buildConfiguration') : undefined;
+}
+
+function getAttribute(attributes: string, name: string): string | undefined {
+  const value = new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`).exec(attributes)?.[1];
+  return value === undefined ? undefined : decodeXmlEntities(value);
+}
+
+/**
+ * Decode the predefined XML entities Xcode uses in scheme and workspace files
+ */
+export function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,227 @@
+import * as fs from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import * as path from 'path';
+import { createInflateRaw } from 'zlib';
+import { pipeline } from 'stream/promises';
+
+/**
+ * An entry from a ZIP archive's central directory
+ */
+export interface ZipEntry {
+  /** Path inside the archive */
+  name: string;
+  /** Compression method (0 = stored, 8 = deflate) */
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  /** Offset of the entry's local file header */
+  localHeaderOffset: number;
+  isDirectory: boolean;
+  isSymlink: boolean;
+  encrypted: boolean;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+
+/** End of central directory record plus the longest possible comment */
+const MAX_EOCD_SIZE = 22 + 0xffff;
+
+/**
+ * List the entries of a ZIP archive (including ZIP64 archives such as
+ * large .ipa files)
+ */
+export async function readZipEntries(filePath: string): Promise<ZipEntry[]> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const directory = await readCentralDirectoryLocation(handle, size);
+    const buffer = await readAt(handle, directory.offset, directory.size);
+    return parseCentralDirectory(buffer, directory.entries);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Extract every file of a ZIP archive into `destination`. Symlinks are
+ * skipped, and entries that would land outside `destination` are rejected.
+ * Returns the absolute paths of the extracted files.
+ */
+export async function extractZip(filePath: string, destination: string): Promise<string[]> {
+  const root = path.resolve(destination);
+  const entries = await readZipEntries(filePath);
+  const extracted: string[] = [];
+
+  const handle = await fs.open(filePath, 'r');
+  try {
+    for (const entry of entries) {
+      const target = path.resolve(root, entry.name);
+      if (target !== root && !target.startsWith(root + path.sep)) {
+        throw new Error(`ZIP entry "${entry.name}" escapes the extraction directory`);
+      }
+
+      if (entry.isDirectory) {
+        await fs.mkdir(target, { recursive: true });
+        continue;
+      }
+      if (entry.isSymlink) {
+        continue;
+      }
+      if (entry.encrypted) {
+        throw new Error(`ZIP entry "${entry.name}" is encrypted`);
+      }
+      if (entry.method !== 0 && entry.method !== 8) {
+        throw new Error(`ZIP entry "${entry.name}" uses unsupported compression method ${entry.method}`);
+      }
+
+      const header = await readAt(handle, entry.localHeaderOffset, 30);
+      if (header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+        throw new Error(`Invalid local header for ZIP entry "${entry.name}"`);
+      }
+      const dataOffset =
+        entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      if (entry.compressedSize === 0) {
+        await fs.writeFile(target, '');
+      } else {
+        const source = createReadStream(filePath, {
+          start: dataOffset,
+          end: dataOffset + entry.compressedSize - 1,
+        });
+        if (entry.method === 8) {
+          await pipeline(source, createInflateRaw(), createWriteStream(target));
+        } else {
+          await pipeline(source, createWriteStream(target));
+        }
+      }
+      extracted.push(target);
+    }
+  } finally {
+    await handle.close();
+  }
+
+  return extracted;
+}
+
+/**
+ * Locate the central directory from the end of central directory record,
+ * following the ZIP64 locator when the classic fields overflow
+ */
+async function readCentralDirectoryLocation(
+  handle: fs.FileHandle,
+  size: number
+): Promise<{ entries: number; size: number; offset: number }> {
+  const tailStart = Math.max(0, size - MAX_EOCD_SIZE);
+  const tail = await readAt(handle, tailStart, size - tailStart);
+
+  let eocd = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Not a ZIP archive: end of central directory not found');
+  }
+
+  const location = {
+    entries: tail.readUInt16LE(eocd + 10),
+    size: tail.readUInt32LE(eocd + 12),
+    offset: tail.readUInt32LE(eocd + 16),
+  };
+
+  const locator = eocd - 20;
+  if (locator >= 0 && tail.readUInt32LE(locator) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+    const record = await readAt(handle, Number(tail.readBigUInt64LE(locator + 8)), 56);
+    if (record.readUInt32LE(0) !== ZIP64_EOCD_SIGNATURE) {
+      throw new Error('Invalid ZIP64 end of central directory record');
+    }
+    location.entries = Number(record.readBigUInt64LE(32));
+    location.size = Number(record.readBigUInt64LE(40));
+    location.offset = Number(record.readBigUInt64LE(48));
+  }
+
+  return location;
+}
+
+function parseCentralDirectory(buffer: Buffer, count: number): ZipEntry[] {
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Invalid ZIP central directory');
+    }
+
+    const madeBy = buffer.readUInt16LE(offset + 4);
+    const flags = buffer.readUInt16LE(offset + 8);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const externalAttributes = buffer.readUInt32LE(offset + 38);
+    const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    const sizes = {
+      uncompressedSize: buffer.readUInt32LE(offset + 24),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+    };
+    applyZip64Extra(
+      sizes,
+      buffer.subarray(offset + 46 + nameLength, offset + 46 + nameLength + extraLength)
+    );
+
+    // Unix hosts store the file mode in the high 16 bits
+    const mode = madeBy >> 8 === 3 ? externalAttributes >>> 16 : 0;
+    entries.push({
+      name,
+      method: buffer.readUInt16LE(offset + 10),
+      ...sizes,
+      isDirectory: name.endsWith('/'),
+      isSymlink: (mode & 0o170000) === 0o120000,
+      encrypted: (flags & 0x1) !== 0,
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Replace overflowed (0xFFFFFFFF) sizes and offsets with their ZIP64 values
+ */
+function applyZip64Extra(
+  sizes: { uncompressedSize: number; compressedSize: number; localHeaderOffset: number },
+  extra: Buffer
+): void {
+  let offset = 0;
+  while (offset + 4 <= extra.length) {
+    const id = extra.readUInt16LE(offset);
+    const length = extra.readUInt16LE(offset + 2);
+    if (id === ZIP64_EXTRA_FIELD) {
+      let field = offset + 4;
+      for (const key of ['uncompressedSize', 'compressedSize', 'localHeaderOffset'] as const) {
+        if (sizes[key] === 0xffffffff && field + 8 <= offset + 4 + length) {
+          sizes[key] = Number(extra.readBigUInt64LE(field));
+          field += 8;
+        }
+      }
+      return;
+    }
+    offset += 4 + length;
+  }
+}
+
+async function readAt(handle: fs.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
@@ -16,6 +16,12 @@ const CATEGORY_LABELS: Record<IssueCategory | 'custom', string> = {
   'deprecated-api': 'Deprecated APIs',
   'private-api': 'Private APIs',
   'ui-ux': 'UI/UX Compliance',
+  dependencies: 'Third-Party Dependencies',
+  watchos: 'watchOS',
+  'app-clip': 'App Clips',
+  localization: 'Localization',
+  authentication: 'Authentication',
+  'user-generated-content': 'User-Generated Content',
   custom: 'Custom Rules',
 };
 
@@ -52,6 +52,12 @@ export type IssueCategory =
   | 'deprecated-api'
   | 'private-api'
   | 'ui-ux'
+  | 'dependencies'
+  | 'watchos'
+  | 'app-clip'
+  | 'localization'
+  | 'authentication'
+  | 'user-generated-content'
   | 'custom';
 
 /**
@@ -112,6 +118,101 @@ export interface XcodeProject {
   targets: XcodeTarget[];
   /** Build configurations */
   configurations: string[];
+  /** Swift packages referenced by the project, with versions from Package.resolved */
+  packages?: SwiftPackage[] | undefined;
+  /** Shared and user schemes (.xcscheme) */
+  schemes?: XcodeScheme[] | undefined;
+  /** Development region (the language of the project's source strings) */
+  developmentRegion?: string | undefined;
+  /** Localizations the project declares, including "Base" */
+  knownRegions?: string[] | undefined;
+  /** Set when analyzing a built .ipa or .xcarchive instead of sources */
+  artifact?: AppArtifact | undefined;
+}
+
+/**
+ * A built app from an .ipa or .xcarchive
+ */
+export interface AppArtifact {
+  /** Artifact type */
+  kind: 'ipa' | 'xcarchive';
+  /** Path to the .ipa file or .xcarchive directory */
+  path: string;
+  /** Path to the .app bundle (extracted to a temporary directory for .ipa files) */
+  appPath: string;
+  /** Embedded frameworks (Frameworks/*.framework) */
+  frameworks: string[];
+}
+
+/**
+ * An Xcode scheme
+ */
+export interface XcodeScheme {
+  /** Scheme name */
+  name: string;
+  /** Path to the .xcscheme file */
+  path: string;
+  /** True for schemes in xcshareddata, false for user schemes in xcuserdata */
+  shared: boolean;
+  /** Build configuration used by the Archive action */
+  archiveConfiguration?: string | undefined;
+  /** Build configuration used by the Run action */
+  launchConfiguration?: string | undefined;
+  /** Targets the Build action builds when archiving */
+  archiveTargets: XcodeSchemeTarget[];
+}
+
+/**
+ * A target referenced by a scheme's Build action
+ */
+export interface XcodeSchemeTarget {
+  /** Target name */
+  name: string;
+  /** Path to the .xcodeproj containing the target */
+  projectPath?: string | undefined;
+}
+
+/**
+ * A Swift Package Manager dependency
+ */
+export interface SwiftPackage {
+  /** Package identity (lowercased last path component of the location) */
+  identity: string;
+  /** Repository URL for remote packages, absolute path for local ones */
+  location: string;
+  /** Remote (XCRemoteSwiftPackageReference) or local (XCLocalSwiftPackageReference) */
+  kind: 'remote' | 'local';
+  /** Version requirement declared in the project (e.g. "upToNextMajorVersion 5.8.0") */
+  requirement?: string | undefined;
+  /** Resolved version from Package.resolved */
+  version?: string | undefined;
+  /** Resolved commit from Package.resolved */
+  revision?: string | undefined;
+  /** Resolved branch from Package.resolved */
+  branch?: string | undefined;
+  /** False for transitive dependencies that only appear in Package.resolved */
+  direct: boolean;
+}
+
+/**
+ * A Swift package product linked into a target
+ */
+export interface SwiftPackageProduct {
+  /** Product name (e.g. FirebaseAnalytics) */
+  name: string;
+  /** Identity of the package providing the product */
+  package?: string | undefined;
+}
+
+/**
+ * A library the project depends on, from any package manager
+ */
+export interface DeclaredDependency {
+  /** Package identity, linked product, pod (`Firebase/Auth` for subspecs) or framework name */
+  name: string;
+  manager: 'Swift Package Manager' | 'CocoaPods' | 'Carthage' | 'Embedded';
+  /** Project, lockfile or framework bundle declaring the dependency */
+  filePath: string;
 }
 
 /**
@@ -132,6 +233,42 @@ export interface XcodeTarget {
   deploymentTarget?: string | undefined;
   /** Source files */
   sourceFiles: string[];
+  /** Swift package products linked into the target */
+  packageProducts?: SwiftPackageProduct[] | undefined;
+  /** Resource files copied into the bundle (PBXResourcesBuildPhase and synchronized folders) */
+  resourceFiles?: string[] | undefined;
+  /** Path to the .xcodeproj defining this target (differs per project in a workspace) */
+  projectPath?: string | undefined;
+  /** Built .app or .appex bundle, when analyzing an artifact */
+  bundlePath?: string | undefined;
+  /** Main executable inside the built bundle */
+  executablePath?: string | undefined;
+  /** Embedded provisioning profile inside the built bundle */
+  provisioningProfilePath?: string | undefined;
+  /** Names of targets this target depends on (PBXTargetDependency) */
+  dependencies?: string[] | undefined;
+  /** Build configuration the settings above were taken from */
+  configuration?: string | undefined;
+  /** Resolved settings for every build configuration, keyed by configuration name */
+  buildConfigurations?: Record<string, XcodeBuildConfiguration> | undefined;
+}
+
+/**
+ * A target's resolved settings for one build configuration
+ */
+export interface XcodeBuildConfiguration {
+  /** Configuration name (e.g. Debug, Release) */
+  name: string;
+  /** Bundle identifier */
+  bundleIdentifier?: string | undefined;
+  /** Path to Info.plist */
+  infoPlistPath?: string | undefined;
+  /** Path to entitlements file */
+  entitlementsPath?: string | undefined;
+  /** Minimum deployment target */
+  deploymentTarget?: string | undefined;
+  /** Fully merged and expanded build settings */
+  buildSettings: Record<string, string>;
 }
 
 export type TargetType =
@@ -142,6 +279,7 @@ export type TargetType =
   | 'appExtension'
   | 'watchApp'
   | 'watchExtension'
+  | 'appClip'
   | 'tvExtension'
   | 'unitTest'
   | 'uiTest'
@@ -204,12 +342,22 @@ export interface PrivacyAccessedAPIType {
  * Input schema for the analyze tool
  */
 export const AnalyzeInputSchema = z.object({
-  projectPath: z.string().describe('Path to the .xcodeproj or .xcworkspace directory'),
+  projectPath: z
+    .string()
+    .describe('Path to the .xcodeproj or .xcworkspace directory, or a built .ipa or .xcarchive'),
   analyzers: z
-    .array(z.enum(['all', 'info-plist', 'privacy', 'entitlements', 'code', 'deprecated-api', 'private-api', 'security', 'ui-ux', 'asc-metadata', 'asc-screenshots', 'asc-version', 'asc-iap']))
+    .array(z.enum(['all', 'info-plist', 'privacy', 'entitlements', 'code', 'deprecated-api', 'private-api', 'security', 'ui-ux', 'third-party-sdks', 'dependencies', 'provisioning', 'watchos', 'app-clip', 'localization', 'interface-builder', 'sign-in-with-apple', 'account-deletion', 'payments', 'dynamic-code', 'user-generated-content', 'asc-metadata', 'asc-screenshots', 'asc-version', 'asc-iap']))
     .optional()
     .describe('Specific analyzers to run (default: all)'),
   targetName: z.string().optional().describe('Specific target to analyze'),
+  configuration: z
+    .string()
+    .optional()
+    .describe('Build configuration to analyze (default: the project default, usually Release)'),
+  scheme: z
+    .string()
+    .optional()
+    .describe('Scheme whose Archive action determines the targets and build configuration to analyze'),
   includeASC: z.boolean().optional().describe('Include App Store Connect validation (requires ASC credentials)'),
   bundleId: z.string().optional().describe('Bundle ID for ASC validation (auto-detected if not provided)'),
   format: z
@@ -238,6 +386,8 @@ export interface Analyzer {
 export interface AnalyzerOptions {
   /** Specific target to analyze */
   targetName?: string | undefined;
+  /** Build configuration the project was resolved for */
+  configuration?: string | undefined;
   /** Base path for resolving relative paths */
   basePath: string;
   /** Bundle ID for ASC validation (auto-detected from project if not provided) */
@@ -18,6 +18,37 @@ jest.mock('../src/parsers/xcodeproj.js', () => ({
   }),
 }));
 
+// Mock the artifact parser
+const mockArtifactCleanup = jest.fn().mockResolvedValue(undefined);
+jest.mock('../src/parsers/artifact.js', () => ({
+  isAppArtifactPath: (p: string) => p.endsWith('.ipa') || p.endsWith('.xcarchive'),
+  parseAppArtifact: jest.fn().mockImplementation(async (artifactPath: string) => ({
+    project: {
+      path: artifactPath,
+      name: 'TestApp',
+      targets: [
+        {
+          name: 'TestApp',
+          type: 'application',
+          infoPlistPath: '/tmp/extracted/Payload/TestApp.app/Info.plist',
+          sourceFiles: [],
+          bundlePath: '/tmp/extracted/Payload/TestApp.app',
+        },
+      ],
+      configurations: [],
+      artifact: {
+        kind: 'ipa',
+        path: artifactPath,
+        appPath: '/tmp/extracted/Payload/TestApp.app',
+        frameworks: [],
+      },
+    },
+    toArtifactPath: (filePath: string) =>
+      filePath.replace('/tmp/extracted', artifactPath),
+    cleanup: mockArtifactCleanup,
+  })),
+}));
+
 // Mock the git module
 jest.mock('../src/git/diff.js', () => ({
   getChangedFiles: jest.fn().mockReturnValue([]),
@@ -56,8 +87,8 @@ describe('runAnalysis', () => {
       projectPath: '/test/TestApp.xcodeproj',
     });
 
-    // Should have results from all 8 core analyzers
-    expect(report.results.length).toBe(8);
+    // Should have a result from each of the 20 core analyzers
+    expect(report.results.length).toBe(20);
   });
 
   it('should run specific analyzers when specified', async () => {
@@ -72,6 +103,47 @@ describe('runAnalysis', () => {
     expect(analyzerNames).toContain('Security Analyzer');
   });
 
+  it('should pass the scheme and configuration to the project parser', async () => {
+    const { parseXcodeProject } = require('../src/parsers/xcodeproj.js') as typeof import('../src/parsers/xcodeproj.js');
+
+    await runAnalysis({
+      projectPath: '/test/TestApp.xcodeproj',
+      analyzers: ['code'],
+      scheme: 'TestApp',
+      configuration: 'Release',
+    });
+
+    expect(parseXcodeProject).toHaveBeenCalledWith('/test/TestApp.xcodeproj', {
+      configuration: 'Release',
+      scheme: 'TestApp',
+    });
+  });
+
+  it('should analyze built artifacts with the bundle analyzers and clean up', async () => {
+    const report = await runAnalysis({ projectPath: '/builds/TestApp.ipa' });
+
+    expect(report.results.map((r) => r.analyzer)).toEqual([
+      'Info.plist Analyzer',
+      'Privacy Manifest Analyzer',
+      'Entitlements Analyzer',
+      'Provisioning Profile Analyzer',
+      'UI/UX Compliance',
+      'Private API Scanner',
+      'Deprecated API Scanner',
+      'watchOS Analyzer',
+      'App Clip Analyzer',
+      'Localization Analyzer',
+      'Sign in with Apple Analyzer',
+      'Payments Analyzer',
+      'Dynamic Code Analyzer',
+    ]);
+    const plistIssue = report.results
+      .flatMap((r) => r.issues)
+      .find((i) => i.id === 'info-plist-not-found');
+    expect(plistIssue?.filePath).toBe('/builds/TestApp.ipa/Payload/TestApp.app/Info.plist');
+    expect(mockArtifactCleanup).toHaveBeenCalledTimes(1);
+  });
+
   it('should calculate summary correctly', async () => {
     const report = await runAnalysis({
       projectPath: '/test/TestApp.xcodeproj',
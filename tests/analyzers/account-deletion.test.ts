@@ -0,0 +1,147 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { AccountDeletionAnalyzer } from '../../src/analyzers/account-deletion.js';
+import { makeProject } from '../helpers/project.js';
+
+const SIGN_UP = `import FirebaseAuth
+
+final class AuthService {
+    // Accounts are created with email and password
+    func register(email: String, password: String) async throws {
+        try await Auth.auth().createUser(withEmail: email, password: password)
+    }
+}
+`;
+
+function storyboard(subviews: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<document type="com.apple.InterfaceBuilder3.CocoaTouch.Storyboard.XIB" version="3.0">
+    <scenes>
+        <scene sceneID="a">
+            <objects>
+                <viewController id="vc-1" sceneMemberID="viewController">
+                    <view key="view" id="view-1">
+                        <subviews>
+${subviews}
+                        </subviews>
+                    </view>
+                </viewController>
+            </objects>
+        </scene>
+    </scenes>
+</document>`;
+}
+
+describe('AccountDeletionAnalyzer', () => {
+  let analyzer: AccountDeletionAnalyzer;
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'account-deletion-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    analyzer = new AccountDeletionAnalyzer();
+  });
+
+  it('should warn when accounts can be created but not deleted', async () => {
+    const { project, dir } = await makeProject(
+      tempDir,
+      'missing',
+      { 'AuthService.swift': SIGN_UP },
+      { resources: { 'Base.lproj/Main.storyboard': storyboard('<button title="Create Account" id="btn-1"/>') } }
+    );
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.passed).toBe(true);
+    expect(result.issues.map((i) => [i.id, i.severity, path.basename(i.filePath ?? ''), i.lineNumber])).toEqual([
+      ['account-deletion-missing', 'warning', 'AuthService.swift', 6],
+    ]);
+    expect(result.issues[0]?.description).toContain('"Create Account" in Main.storyboard:9');
+    expect(result.issues[0]?.guideline).toBe('Guideline 5.1.1(v) - Account Sign-In');
+  });
+
+  it('should accept account deletion API calls', async () => {
+    const { project, dir } = await makeProject(tempDir, 'api', {
+      'AuthService.swift': SIGN_UP,
+      'SettingsViewModel.swift': 'func deleteAccount() async throws {\n    try await Auth.auth().currentUser?.delete()\n}\n',
+    });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should accept "Delete account" text in string catalogs', async () => {
+    const { project, dir } = await makeProject(
+      tempDir,
+      'catalog',
+      { 'SignUpView.swift': 'import SwiftUI\n\nstruct SignUpView: View {\n    var body: some View { Text("Welcome") }\n}\n' },
+      {
+        resources: {
+          'Localizable.xcstrings': JSON.stringify({
+            sourceLanguage: 'en',
+            strings: { settings_delete: { localizations: { en: { stringUnit: { state: 'translated', value: 'Delete My Account' } } } } },
+            version: '1.0',
+          }),
+        },
+      }
+    );
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should accept Sign in with Apple token revocation', async () => {
+    const { project, dir } = await makeProject(tempDir, 'revoke', {
+      'AuthService.swift': SIGN_UP,
+      'Revoke.swift': 'try await Auth.auth().revokeToken(withAuthorizationCode: code)\n',
+    });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should not count account deactivation or commented-out deletion', async () => {
+    const { project, dir } = await makeProject(
+      tempDir,
+      'deactivate',
+      { 'AuthService.swift': SIGN_UP, 'Settings.swift': '// TODO: deleteAccount()\nfunc deactivateAccount() {}\n' },
+      { resources: { 'en.lproj/Localizable.strings': '"settings.deactivate" = "Deactivate account";\n"signup.title" = "Sign up";\n' } }
+    );
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues.map((i) => i.id)).toEqual(['account-deletion-missing']);
+    expect(result.issues[0]?.description).toContain('"Sign up" in Localizable.strings:2');
+  });
+
+  it('should not count identifiers that only contain a deletion phrase', async () => {
+    const { project, dir } = await makeProject(tempDir, 'identifiers', {
+      'AuthService.swift': SIGN_UP,
+      'Session.swift': 'func removeAccountObserver() {}\nfunc deleteAccountCache() {}\n',
+    });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues.map((i) => i.id)).toEqual(['account-deletion-missing']);
+  });
+
+  it('should pass apps without account creation', async () => {
+    const { project, dir } = await makeProject(tempDir, 'none', {
+      'ContentView.swift': 'import SwiftUI\n\nstruct ContentView: View {\n    var body: some View { Text("Hello") }\n}\n',
+    });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues).toEqual([]);
+  });
+});
@@ -0,0 +1,179 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { AppClipAnalyzer } from '../../src/analyzers/app-clip.js';
+import { makeProject, writeFile, writeFiles } from '../helpers/project.js';
+import type { XcodeProject } from '../../src/types/index.js';
+
+function plist(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+${body}
+</dict>
+</plist>`;
+}
+
+function stringArray(key: string, values: string[]): string {
+  return `  <key>${key}</key>\n  <array>${values.map((v) => `<string>${v}</string>`).join('')}</array>`;
+}
+
+const CLIP_INFO = `  <key>CFBundleIdentifier</key>
+  <string>$(PRODUCT_BUNDLE_IDENTIFIER)</string>
+  <key>NSAppClip</key>
+  <dict>
+    <key>NSAppClipRequestEphemeralUserNotification</key>
+    <false/>
+    <key>NSAppClipRequestLocationConfirmation</key>
+    <false/>
+  </dict>`;
+
+const CLIP_ENTITLEMENTS = [
+  '  <key>com.apple.developer.on-demand-install-capable</key>\n  <true/>',
+  stringArray('com.apple.developer.parent-application-identifiers', ['$(AppIdentifierPrefix)com.acme.shop']),
+  stringArray('com.apple.developer.associated-domains', ['appclips:shop.acme.com']),
+].join('\n');
+
+const APP_ENTITLEMENTS = [
+  stringArray('com.apple.developer.associated-appclip-app-identifiers', [
+    '$(AppIdentifierPrefix)com.acme.shop.Clip',
+  ]),
+  stringArray('com.apple.developer.associated-domains', ['applinks:shop.acme.com', 'appclips:shop.acme.com']),
+].join('\n');
+
+describe('AppClipAnalyzer', () => {
+  let analyzer: AppClipAnalyzer;
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'app-clip-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    analyzer = new AppClipAnalyzer();
+  });
+
+  /**
+   * An app with an App Clip whose Info.plist, entitlements, bundle ID and
+   * sources can be replaced
+   */
+  async function makeClipProject(
+    name: string,
+    files: {
+      clipInfo?: string;
+      clipEntitlements?: string;
+      appEntitlements?: string;
+      clipBundleId?: string;
+      sources?: Record<string, string>;
+    } = {}
+  ): Promise<XcodeProject> {
+    const { project, dir } = await makeProject(tempDir, name, {}, {
+      infoPlist: plist(CLIP_INFO.split('\n').slice(0, 2).join('\n')),
+      entitlements: plist(files.appEntitlements ?? APP_ENTITLEMENTS),
+      buildSettings: { PRODUCT_BUNDLE_IDENTIFIER: 'com.acme.shop' },
+    });
+    const clipBundleId = files.clipBundleId ?? 'com.acme.shop.Clip';
+    project.targets[0]!.dependencies = ['ShopClip'];
+    project.targets.push({
+      name: 'ShopClip',
+      type: 'appClip',
+      sourceFiles: await writeFiles(dir, files.sources ?? {}),
+      infoPlistPath: await writeFile(dir, 'Clip-Info.plist', plist(files.clipInfo ?? CLIP_INFO)),
+      entitlementsPath: await writeFile(dir, 'Clip.entitlements', plist(files.clipEntitlements ?? CLIP_ENTITLEMENTS)),
+      configuration: 'Release',
+      buildConfigurations: { Release: { name: 'Release', buildSettings: { PRODUCT_BUNDLE_IDENTIFIER: clipBundleId } } },
+    });
+    return project;
+  }
+
+  it('should pass a correctly configured App Clip', async () => {
+    const project = await makeClipProject('valid', {
+      sources: { 'ClipApp.swift': 'import SwiftUI\nimport StoreKit\n' },
+    });
+
+    const result = await analyzer.analyze(project, { basePath: tempDir });
+
+    expect(result.passed).toBe(true);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should ignore projects without App Clips', async () => {
+    const project = await makeClipProject('no-clip');
+    project.targets = project.targets.slice(0, 1);
+
+    const result = await analyzer.analyze(project, { basePath: tempDir });
+
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should require NSAppClip and the App Clip entitlements', async () => {
+    const project = await makeClipProject('missing', {
+      clipInfo: '  <key>CFBundleIdentifier</key>\n  <string>com.acme.shop.Clip</string>',
+      clipEntitlements: '',
+    });
+
+    const result = await analyzer.analyze(project, { basePath: tempDir });
+
+    expect(result.passed).toBe(false);
+    expect(result.issues.map((i) => i.id)).toEqual([
+      'app-clip-missing-nsappclip',
+      'app-clip-missing-on-demand-entitlement',
+      'app-clip-missing-parent-identifiers',
+      'app-clip-missing-appclips-domain',
+    ]);
+    expect(result.issues[2]?.suggestion).toContain('$(AppIdentifierPrefix)com.acme.shop');
+  });
+
+  it('should cross-check the parent app identifiers and domains', async () => {
+    const project = await makeClipProject('parent', {
+      clipEntitlements: CLIP_ENTITLEMENTS.replace(
+        '$(AppIdentifierPrefix)com.acme.shop',
+        'ABCDE12345.com.acme.store'
+      ),
+      appEntitlements: stringArray('com.apple.developer.associated-domains', ['applinks:shop.acme.com']),
+    });
+
+    const result = await analyzer.analyze(project, { basePath: tempDir });
+
+    expect(result.issues.map((i) => [i.id, path.basename(i.filePath ?? '')])).toEqual([
+      ['app-clip-parent-identifier-mismatch', 'Clip.entitlements'],
+      ['app-clip-parent-missing-association', 'App.entitlements'],
+      ['app-clip-parent-missing-appclips-domain', 'App.entitlements'],
+    ]);
+  });
+
+  it('should require the bundle ID to extend the parent app', async () => {
+    const project = await makeClipProject('bundle-id', { clipBundleId: 'com.acme.clip' });
+
+    const result = await analyzer.analyze(project, { basePath: tempDir });
+
+    expect(result.issues.map((i) => i.id)).toEqual([
+      'app-clip-parent-missing-association',
+      'app-clip-bundle-id-prefix',
+    ]);
+  });
+
+  it('should report frameworks unavailable to App Clips', async () => {
+    const project = await makeClipProject('frameworks', {
+      sources: {
+        'Order.swift': 'import SwiftUI\nimport Contacts\nimport class HealthKit.HKHealthStore\n',
+        'Legacy.m': '#import <CoreMotion/CoreMotion.h>\n@import Contacts;\n',
+      },
+    });
+
+    const result = await analyzer.analyze(project, { basePath: tempDir });
+
+    expect(result.passed).toBe(true);
+    expect(
+      result.issues.map((i) => [i.id, i.title, path.basename(i.filePath ?? ''), i.lineNumber])
+    ).toEqual([
+      ['app-clip-unavailable-framework', 'Framework unavailable to App Clips: Contacts', 'Order.swift', 2],
+      ['app-clip-unavailable-framework', 'Framework unavailable to App Clips: HealthKit', 'Order.swift', 3],
+      ['app-clip-unavailable-framework', 'Framework unavailable to App Clips: CoreMotion', 'Legacy.m', 1],
+    ]);
+  });
+});
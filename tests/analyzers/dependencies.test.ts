@@ -0,0 +1,154 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { DependencyAnalyzer, listDependencies } from '../../src/analyzers/dependencies.js';
+import type { XcodeProject } from '../../src/types/index.js';
+
+describe('DependencyAnalyzer', () => {
+  let analyzer: DependencyAnalyzer;
+  let tempDir: string;
+
+  const project: XcodeProject = {
+    path: '/test/TestApp.xcodeproj',
+    name: 'TestApp',
+    targets: [{ name: 'TestApp', type: 'application', sourceFiles: [] }],
+    configurations: ['Debug', 'Release'],
+  };
+
+  beforeEach(async () => {
+    analyzer = new DependencyAnalyzer();
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dependencies-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function writeFile(relativePath: string, content: string | Buffer = ''): Promise<void> {
+    const fullPath = path.join(tempDir, relativePath);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, content);
+  }
+
+  it('should pass when the project has no CocoaPods or Carthage lockfiles', async () => {
+    const result = await analyzer.analyze(project, { basePath: tempDir });
+
+    expect(result.passed).toBe(true);
+    expect(result.issues).toHaveLength(0);
+  });
+
+  describe('CocoaPods', () => {
+    it('should report pods that are not installed', async () => {
+      await writeFile('Podfile.lock', 'PODS:\n  - Alamofire (5.8.1)\n');
+
+      const result = await analyzer.analyze(project, { basePath: tempDir });
+
+      expect(result.issues.map((i) => i.id)).toEqual(['dependency-pods-not-installed']);
+      expect(result.issues[0]!.category).toBe('dependencies');
+    });
+
+    it('should detect UIWebView in pod sources', async () => {
+      await writeFile('Podfile.lock', 'PODS:\n  - LegacyWeb (1.0.0)\n');
+      await writeFile(
+        'Pods/LegacyWeb/Sources/WebController.m',
+        '// UIWebView was replaced\n@implementation WebController\n- (void)load { UIWebView *web = [UIWebView new]; }\n@end\n'
+      );
+
+      const result = await analyzer.analyze(project, { basePath: tempDir });
+      const issue = result.issues.find((i) => i.id === 'dependency-uiwebview');
+
+      expect(result.passed).toBe(false);
+      expect(issue).toBeDefined();
+      expect(issue!.title).toContain('LegacyWeb');
+      expect(issue!.description).toContain('LegacyWeb (1.0.0)');
+      expect(issue!.lineNumber).toBe(3);
+    });
+
+    it('should require privacy manifests for commonly used SDKs only', async () => {
+      await writeFile('Podfile.lock', 'PODS:\n  - Alamofire (5.8.1)\n  - Kingfisher (7.11.0)\n  - InHouseKit (1.0.0)\n');
+      await writeFile('Pods/Alamofire/Source/Session.swift', 'import Foundation\n');
+      await writeFile('Pods/Kingfisher/Sources/Image.swift', 'import UIKit\n');
+      await writeFile('Pods/Kingfisher/Sources/PrivacyInfo.xcprivacy', '<plist/>');
+      await writeFile('Pods/InHouseKit/Sources/Kit.swift', 'import UIKit\n');
+
+      const result = await analyzer.analyze(project, { basePath: tempDir });
+      const missing = result.issues.filter((i) => i.id === 'dependency-missing-privacy-manifest');
+
+      expect(missing).toHaveLength(1);
+      expect(missing[0]!.title).toContain('Alamofire');
+    });
+
+    it('should flag unsigned XCFrameworks of commonly used SDKs', async () => {
+      await writeFile('Podfile.lock', 'PODS:\n  - GoogleUtilities (7.12.0)\n  - FirebaseCore (10.20.0)\n');
+      await writeFile('Pods/GoogleUtilities/Frameworks/GoogleUtilities.xcframework/Info.plist', '<plist/>');
+      await writeFile('Pods/GoogleUtilities/Frameworks/GoogleUtilities.xcframework/PrivacyInfo.xcprivacy', '<plist/>');
+      await writeFile('Pods/FirebaseCore/Frameworks/FirebaseCore.xcframework/Info.plist', '<plist/>');
+      await writeFile('Pods/FirebaseCore/Frameworks/FirebaseCore.xcframework/_CodeSignature/CodeResources', '');
+      await writeFile('Pods/FirebaseCore/Frameworks/FirebaseCore.xcframework/PrivacyInfo.xcprivacy', '<plist/>');
+
+      const result = await analyzer.analyze(project, { basePath: tempDir });
+      const unsigned = result.issues.filter((i) => i.id === 'dependency-unsigned-binary');
+
+      expect(unsigned).toHaveLength(1);
+      expect(unsigned[0]!.title).toContain('GoogleUtilities.xcframework');
+    });
+  });
+
+  describe('Carthage', () => {
+    it('should report dependencies that have not been built', async () => {
+      await writeFile('Cartfile.resolved', 'github "Alamofire/Alamofire" "5.8.1"\n');
+
+      const result = await analyzer.analyze(project, { basePath: tempDir });
+
+      expect(result.issues.map((i) => i.id)).toEqual(['dependency-carthage-not-built']);
+    });
+
+    it('should inspect built frameworks and detect UIWebView in binaries', async () => {
+      await writeFile('Cartfile.resolved', 'github "acme/LegacyKit" "2.0.0"\n');
+      await writeFile(
+        'Carthage/Build/LegacyKit.xcframework/ios-arm64/LegacyKit.framework/LegacyKit',
+        Buffer.concat([Buffer.from([0xcf, 0xfa, 0xed, 0xfe]), Buffer.from('_OBJC_CLASS_$_UIWebView')])
+      );
+
+      const result = await analyzer.analyze(project, { basePath: tempDir });
+      const issue = result.issues.find((i) => i.id === 'dependency-uiwebview');
+
+      expect(issue).toBeDefined();
+      expect(issue!.description).toContain('LegacyKit (2.0.0)');
+      expect(issue!.filePath).toContain(path.join('LegacyKit.framework', 'LegacyKit'));
+    });
+  });
+
+  describe('listDependencies', () => {
+    it('should list packages, linked products, pods with subspecs and Carthage dependencies', async () => {
+      await writeFile('Podfile.lock', 'PODS:\n  - Firebase/Auth (10.20.0)\n  - GoogleSignIn (7.0.0)\n');
+      await writeFile('Cartfile.resolved', 'github "Alamofire/Alamofire" "5.8.1"\n');
+
+      const dependencies = await listDependencies(
+        {
+          ...project,
+          packages: [{ identity: 'facebook-ios-sdk', location: 'https://github.com/facebook/facebook-ios-sdk', kind: 'remote', direct: true }],
+          targets: [
+            {
+              name: 'TestApp',
+              type: 'application',
+              sourceFiles: [],
+              packageProducts: [{ name: 'FacebookLogin', package: 'facebook-ios-sdk' }],
+            },
+          ],
+        },
+        tempDir
+      );
+
+      expect(dependencies.map((d) => [d.name, d.manager])).toEqual([
+        ['facebook-ios-sdk', 'Swift Package Manager'],
+        ['FacebookLogin', 'Swift Package Manager'],
+        ['Firebase', 'CocoaPods'],
+        ['Firebase/Auth', 'CocoaPods'],
+        ['GoogleSignIn', 'CocoaPods'],
+        ['Alamofire', 'Carthage'],
+      ]);
+      expect(dependencies[2]?.filePath).toBe(path.join(tempDir, 'Podfile.lock'));
+    });
+  });
+});
@@ -4,6 +4,61 @@ import * as path from 'path';
 import { DeprecatedAPIAnalyzer } from '../../src/analyzers/deprecated-api.js';
 import type { XcodeProject } from '../../src/types/index.js';
 
+/**
+ * Minimal 64-bit Mach-O with linked dylibs, imported symbols and selectors
+ */
+function buildBinary(image: { libraries?: string[]; imports?: string[]; selectors?: string[] }): Buffer {
+  const libraries = (image.libraries ?? []).map((name) => {
+    const command = Buffer.alloc(Math.ceil((24 + name.length + 1) / 8) * 8);
+    command.writeUInt32LE(0xc, 0);
+    command.writeUInt32LE(command.length, 4);
+    command.writeUInt32LE(24, 8);
+    command.write(name, 24);
+    return command;
+  });
+  const selectors = Buffer.from((image.selectors ?? []).map((s) => `${s}\0`).join(''));
+  const imports = image.imports ?? [];
+  const strings = Buffer.from(`\0${imports.map((s) => `${s}\0`).join('')}`);
+
+  const segment = Buffer.alloc(72 + 80);
+  const symtab = Buffer.alloc(24);
+  const commandsSize = segment.length + symtab.length + libraries.reduce((n, c) => n + c.length, 0);
+  const selectorsOffset = 32 + commandsSize;
+  const symbolsOffset = selectorsOffset + selectors.length;
+  const stringsOffset = symbolsOffset + imports.length * 16;
+
+  segment.writeUInt32LE(0x19, 0);
+  segment.writeUInt32LE(segment.length, 4);
+  segment.writeUInt32LE(1, 64);
+  segment.write('__objc_methname', 72);
+  segment.write('__TEXT', 88);
+  segment.writeBigUInt64LE(BigInt(selectors.length), 112);
+  segment.writeUInt32LE(selectorsOffset, 120);
+
+  const symbols = Buffer.alloc(imports.length * 16);
+  let nameOffset = 1;
+  imports.forEach((name, i) => {
+    symbols.writeUInt32LE(nameOffset, i * 16);
+    symbols.writeUInt8(0x01, i * 16 + 4);
+    nameOffset += name.length + 1;
+  });
+  symtab.writeUInt32LE(0x2, 0);
+  symtab.writeUInt32LE(24, 4);
+  symtab.writeUInt32LE(symbolsOffset, 8);
+  symtab.writeUInt32LE(imports.length, 12);
+  symtab.writeUInt32LE(stringsOffset, 16);
+  symtab.writeUInt32LE(strings.length, 20);
+
+  const header = Buffer.alloc(32);
+  header.writeUInt32LE(0xfeedfacf, 0);
+  header.writeUInt32LE(0x0100000c, 4);
+  header.writeUInt32LE(6, 12);
+  header.writeUInt32LE(2 + libraries.length, 16);
+  header.writeUInt32LE(commandsSize, 20);
+
+  return Buffer.concat([header, segment, symtab, ...libraries, selectors, symbols, strings]);
+}
+
 describe('DeprecatedAPIAnalyzer', () => {
   let analyzer: DeprecatedAPIAnalyzer;
   let tempDir: string;
@@ -282,5 +337,103 @@ class ViewController: UIViewController {
       const issue = result.issues.find((i) => i.id === 'deprecated-uiwebview');
       expect(issue?.severity).toBe('error');
     });
+
+    it('should scan app extension sources', async () => {
+      const subDir = path.join(tempDir, 'ExtensionDir');
+      await fs.mkdir(subDir, { recursive: true });
+      const appFile = path.join(subDir, 'App.swift');
+      const extensionFile = path.join(subDir, 'ShareViewController.swift');
+      await fs.writeFile(appFile, `import UIKit\nclass VC: UIViewController {}\n`);
+      await fs.writeFile(extensionFile, `import UIKit\nvar webView: UIWebView!\n`);
+
+      const project: XcodeProject = {
+        ...mockProject,
+        targets: [
+          {
+            name: 'TestApp',
+            type: 'application',
+            bundleIdentifier: 'com.test.app',
+            deploymentTarget: '16.0',
+            sourceFiles: [appFile],
+          },
+          {
+            name: 'ShareExtension',
+            type: 'appExtension',
+            bundleIdentifier: 'com.test.app.share',
+            deploymentTarget: '16.0',
+            sourceFiles: [extensionFile],
+          },
+        ],
+      };
+
+      const result = await analyzer.analyze(project, {
+        basePath: subDir,
+      });
+
+      const issue = result.issues.find((i) => i.id === 'deprecated-uiwebview');
+      expect(issue?.filePath).toBe(extensionFile);
+    });
+  });
+
+  describe('binary mode', () => {
+    it('should report UIWebView references in a binary', async () => {
+      const binary = path.join(tempDir, 'LegacyAds');
+      await fs.writeFile(
+        binary,
+        buildBinary({
+          imports: ['_OBJC_CLASS_$_UIWebView', '_OBJC_CLASS_$_WKWebView', '_ABAddressBookCreateWithOptions'],
+          selectors: ['webViewDidFinishLoad:', 'sizeWithFont:'],
+        })
+      );
+
+      const result = await analyzer.scanPath(binary, '16.0');
+
+      expect(result.issues.map((i) => i.id).sort()).toEqual([
+        'deprecated-abaddressbook',
+        'deprecated-nsstring-drawing',
+        'deprecated-uiwebview',
+      ]);
+      const webView = result.issues.find((i) => i.id === 'deprecated-uiwebview');
+      expect(webView?.severity).toBe('error');
+      expect(webView?.guideline).toBe('ITMS-90809 - Deprecated API Usage');
+      expect(webView?.filePath).toBe(binary);
+      expect(webView?.description).toContain('Found: `UIWebView`');
+    });
+
+    it('should scan embedded frameworks of built artifacts', async () => {
+      const appPath = path.join(tempDir, 'Archive', 'Shop.app');
+      const framework = path.join(appPath, 'Frameworks', 'Ads.framework');
+      await fs.mkdir(framework, { recursive: true });
+      await fs.writeFile(path.join(appPath, 'Shop'), buildBinary({ imports: ['_OBJC_CLASS_$_UIView'] }));
+      await fs.writeFile(path.join(framework, 'Ads'), buildBinary({ imports: ['_OBJC_CLASS_$_UIWebView'] }));
+
+      const project: XcodeProject = {
+        path: path.join(tempDir, 'Shop.xcarchive'),
+        name: 'Shop',
+        targets: [
+          {
+            name: 'Shop',
+            type: 'application',
+            deploymentTarget: '15.0',
+            sourceFiles: [],
+            bundlePath: appPath,
+            executablePath: path.join(appPath, 'Shop'),
+          },
+        ],
+        configurations: [],
+        artifact: {
+          kind: 'xcarchive',
+          path: path.join(tempDir, 'Shop.xcarchive'),
+          appPath,
+          frameworks: [framework],
+        },
+      };
+
+      const result = await analyzer.analyze(project, { basePath: appPath });
+
+      expect(result.issues.map((i) => [i.id, i.filePath, i.severity])).toEqual([
+        ['deprecated-uiwebview', path.join(framework, 'Ads'), 'warning'],
+      ]);
+    });
   });
 });
@@ -0,0 +1,239 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { DynamicCodeAnalyzer } from '../../src/analyzers/dynamic-code.js';
+import { makeProject } from '../helpers/project.js';
+
+const REMOTE_SCRIPT = `import JavaScriptCore
+
+final class RuleEngine {
+    let context = JSContext()!
+
+    func update() {
+        URLSession.shared.dataTask(with: URL(string: "https://example.com/rules.js")!) { data, _, _ in
+            guard let data, let script = String(data: data, encoding: .utf8) else { return }
+            self.context.evaluateScript(script)
+        }.resume()
+    }
+}
+`;
+
+const WEB_VIEW_SCRIPT = `import WebKit
+
+final class ArticleViewController: UIViewController {
+    let webView = WKWebView()
+
+    func load() {
+        URLSession.shared.dataTask(with: URL(string: "https://example.com/reader.js")!) { data, _, _ in
+            guard let data, let script = String(data: data, encoding: .utf8) else { return }
+            self.webView.evaluateJavaScript(script)
+        }.resume()
+    }
+}
+`;
+
+function plist(keys: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+${keys}
+</dict>
+</plist>`;
+}
+
+describe('DynamicCodeAnalyzer', () => {
+  let analyzer: DynamicCodeAnalyzer;
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dynamic-code-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    analyzer = new DynamicCodeAnalyzer();
+  });
+
+  it('should report hot-patching SDKs as errors', async () => {
+    const { project, dir } = await makeProject(tempDir, 'hot-patching', {
+      'AppDelegate.m': '#import "AppDelegate.h"\n#import <JSPatch/JPEngine.h>\n\n@implementation AppDelegate\n@end\n',
+    });
+    await fs.writeFile(path.join(dir, 'Podfile.lock'), 'PODS:\n  - Rollout.io (2.10.0)\n');
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.passed).toBe(false);
+    expect(result.issues.map((i) => [i.id, i.severity, i.title, path.basename(i.filePath ?? ''), i.lineNumber])).toEqual([
+      ['dynamic-code-hot-patching', 'error', 'Hot-patching framework: JSPatch', 'AppDelegate.m', 2],
+      ['dynamic-code-hot-patching', 'error', 'Hot-patching framework: Rollout', 'Podfile.lock', undefined],
+    ]);
+    expect(result.issues[1]?.description).toContain('CocoaPods dependency Rollout.io');
+    expect(result.issues[0]?.guideline).toBe('Guideline 2.5.2 - Self-Contained Bundles');
+  });
+
+  it('should warn about JSContext scripts fetched from the network but not WKWebView scripts', async () => {
+    const remote = await makeProject(tempDir, 'remote-script', { 'RuleEngine.swift': REMOTE_SCRIPT });
+    const webView = await makeProject(tempDir, 'web-view', { 'ArticleViewController.swift': WEB_VIEW_SCRIPT });
+    const local = await makeProject(tempDir, 'local-script', {
+      'Formatter.swift': 'import JavaScriptCore\n\nlet script = try! String(contentsOf: Bundle.main.url(forResource: "format", withExtension: "js")!)\nJSContext()!.evaluateScript(script)\n',
+    });
+
+    const result = await analyzer.analyze(remote.project, { basePath: remote.dir });
+
+    expect(result.issues.map((i) => [i.id, i.severity, i.lineNumber])).toEqual([['dynamic-code-remote-script', 'warning', 9]]);
+    expect((await analyzer.analyze(webView.project, { basePath: webView.dir })).issues).toEqual([]);
+    expect((await analyzer.analyze(local.project, { basePath: local.dir })).issues).toEqual([]);
+  });
+
+  it('should report dlopen of downloaded libraries', async () => {
+    const { project, dir } = await makeProject(tempDir, 'dlopen', {
+      'PluginLoader.swift': `import Foundation
+
+func loadPlugin(named name: String) {
+    let caches = FileManager.default.urls(for: .cachesDirectory, in: .userDomainMask)[0]
+    let handle = dlopen(caches.appendingPathComponent(name).path, RTLD_NOW)
+}
+`,
+      'Symbols.swift': 'let handle = dlopen(nil, RTLD_NOW)\nlet documents = FileManager.default.urls(for: .documentDirectory, in: .userDomainMask)\n',
+    });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues.map((i) => [i.id, i.severity, path.basename(i.filePath ?? ''), i.lineNumber])).toEqual([
+      ['dynamic-code-dlopen-downloaded', 'error', 'PluginLoader.swift', 5],
+    ]);
+  });
+
+  it('should tell bundles loading code apart from resource bundles', async () => {
+    const code = await makeProject(tempDir, 'bundle-code', {
+      'Modules.swift': `let documents = FileManager.default.urls(for: .documentDirectory, in: .userDomainMask)[0]
+let bundle = Bundle(path: documents.appendingPathComponent("Module.bundle").path)
+let module = bundle?.principalClass as? NSObject.Type
+`,
+    });
+    const resources = await makeProject(tempDir, 'bundle-resources', {
+      'Themes.swift': `let caches = FileManager.default.urls(for: .cachesDirectory, in: .userDomainMask)[0]
+let theme = Bundle(url: caches.appendingPathComponent("Theme.bundle"))
+let image = UIImage(named: "background", in: theme, compatibleWith: nil)
+`,
+    });
+    const main = await makeProject(tempDir, 'bundle-main', {
+      'Resources.swift': 'let bundle = Bundle(path: Bundle.main.path(forResource: "Resources", ofType: "bundle")!)\n',
+    });
+
+    const codeResult = await analyzer.analyze(code.project, { basePath: code.dir });
+    const resourceResult = await analyzer.analyze(resources.project, { basePath: resources.dir });
+
+    expect(codeResult.issues.map((i) => [i.id, i.severity, i.title, i.lineNumber])).toEqual([
+      ['dynamic-code-downloaded-bundle', 'error', 'Executable code loaded from a downloaded bundle', 2],
+    ]);
+    expect(codeResult.issues[0]?.description).toContain('principalClass in Modules.swift:3');
+    expect(resourceResult.issues.map((i) => [i.id, i.severity])).toEqual([['dynamic-code-downloaded-bundle', 'info']]);
+    expect((await analyzer.analyze(main.project, { basePath: main.dir })).issues).toEqual([]);
+  });
+
+  it('should only count code loaded from the bundle created from a path', async () => {
+    const objc = await makeProject(tempDir, 'bundle-objc', {
+      'PluginManager.m': `#import "PluginManager.h"
+
+@implementation PluginManager
+- (void)loadPlugin:(NSString *)name {
+    NSString *documents = NSSearchPathForDirectoriesInDomains(NSDocumentDirectory, NSUserDomainMask, YES).firstObject;
+    NSBundle *plugin = [NSBundle bundleWithPath:[documents stringByAppendingPathComponent:name]];
+    [self.cache load];
+    [plugin load];
+}
+@end
+`,
+    });
+    const pdf = await makeProject(tempDir, 'pdf-downloader', {
+      'PDFDownloader.m': `#import "PDFDownloader.h"
+
+@implementation PDFDownloader
+- (void)download:(NSURL *)url {
+    NSString *documents = NSSearchPathForDirectoriesInDomains(NSDocumentDirectory, NSUserDomainMask, YES).firstObject;
+    NSURL *fileURL = [NSURL fileURLWithPath:[documents stringByAppendingPathComponent:url.lastPathComponent]];
+    [[NSData dataWithContentsOfURL:url] writeToURL:fileURL atomically:YES];
+    PDFDocument *document = [[PDFDocument alloc] initWithURL:fileURL];
+    [self.cache load];
+}
+@end
+`,
+    });
+    const resources = await makeProject(tempDir, 'bundle-other-load', {
+      'Themes.swift': `let caches = FileManager.default.urls(for: .cachesDirectory, in: .userDomainMask)[0]
+let theme = Bundle(url: caches.appendingPathComponent("Theme.bundle"))
+imageCache.load()
+`,
+    });
+    const chained = await makeProject(tempDir, 'bundle-chained-load', {
+      'Modules.swift': `let documents = FileManager.default.urls(for: .documentDirectory, in: .userDomainMask)[0]
+let module = Bundle(path: documents.appendingPathComponent("Module.bundle").path)?.principalClass
+`,
+    });
+    const plugin = await makeProject(tempDir, 'bundle-other-principal-class', {
+      'Themes.swift': `let caches = FileManager.default.urls(for: .cachesDirectory, in: .userDomainMask)[0]
+let theme = Bundle(url: caches.appendingPathComponent("Theme.bundle"))
+let principal = Bundle(for: ThemeManager.self).principalClass
+`,
+    });
+
+    const objcResult = await analyzer.analyze(objc.project, { basePath: objc.dir });
+
+    expect(objcResult.issues.map((i) => [i.id, i.severity, i.lineNumber])).toEqual([['dynamic-code-downloaded-bundle', 'error', 6]]);
+    expect(objcResult.issues[0]?.description).toContain('[plugin load in PluginManager.m:8');
+    expect((await analyzer.analyze(pdf.project, { basePath: pdf.dir })).issues).toEqual([]);
+    expect((await analyzer.analyze(resources.project, { basePath: resources.dir })).issues.map((i) => i.severity)).toEqual(['info']);
+    expect((await analyzer.analyze(chained.project, { basePath: chained.dir })).issues.map((i) => [i.severity, i.lineNumber]))
+      .toEqual([['error', 2]]);
+    expect((await analyzer.analyze(plugin.project, { basePath: plugin.dir })).issues.map((i) => i.severity)).toEqual(['info']);
+  });
+
+  it('should note over-the-air updates as info', async () => {
+    const { project, dir } = await makeProject(
+      tempDir,
+      'ota',
+      {},
+      {
+        resources: { 'Supporting/Expo.plist': plist('<key>EXUpdatesURL</key><string>https://u.expo.dev/abc</string>') },
+        infoPlist: plist('<key>CodePushDeploymentKey</key><string>deployment-key</string>'),
+      }
+    );
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.passed).toBe(true);
+    expect(result.issues.map((i) => [i.id, i.severity, i.title, path.basename(i.filePath ?? '')])).toEqual([
+      ['dynamic-code-ota-update', 'info', 'Over-the-air JavaScript updates: CodePush', 'Info.plist'],
+      ['dynamic-code-ota-update', 'info', 'Over-the-air JavaScript updates: Expo Updates', 'Expo.plist'],
+    ]);
+    expect(result.issues[1]?.description).toContain('EXUpdatesURL https://u.expo.dev/abc in Expo.plist');
+  });
+
+  it('should skip Expo Updates when disabled', async () => {
+    const { project, dir } = await makeProject(tempDir, 'expo-disabled', {}, {
+      resources: {
+        'Expo.plist': plist('<key>EXUpdatesEnabled</key><false/><key>EXUpdatesURL</key><string>https://u.expo.dev/abc</string>'),
+      },
+    });
+    await fs.writeFile(path.join(dir, 'Podfile.lock'), 'PODS:\n  - EXUpdates (0.25.0)\n');
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should pass apps without downloaded code', async () => {
+    const { project, dir } = await makeProject(tempDir, 'none', {
+      'ContentView.swift': 'import SwiftUI\n\nstruct ContentView: View {\n    var body: some View { Text("Hello") }\n}\n',
+    });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.passed).toBe(true);
+    expect(result.issues).toEqual([]);
+  });
+});
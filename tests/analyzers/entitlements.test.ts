@@ -1,10 +1,26 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
 import { EntitlementsAnalyzer } from '../../src/analyzers/entitlements.js';
 import type { XcodeProject, AnalyzerOptions } from '../../src/types/index.js';
 
-jest.mock('../../src/parsers/plist.js', () => ({
-  parsePlist: jest.fn(),
-  fileExists: jest.fn(),
-}));
+jest.mock('../../src/parsers/plist.js', () => {
+  const actual = jest.requireActual<typeof import('../../src/parsers/plist.js')>('../../src/parsers/plist.js');
+  const parsePlist = jest.fn();
+  return {
+    ...actual,
+    parsePlist,
+    fileExists: jest.fn(),
+    // The real readPlistObject would call the unmocked parsePlist
+    readPlistObject: async (filePath: string | undefined): Promise<unknown> =>
+      filePath
+        ? (parsePlist(filePath) as Promise<unknown>).then(
+            (value) => (actual.isRecord(value) ? value : undefined),
+            () => undefined
+          )
+        : undefined,
+  };
+});
 
 import { parsePlist, fileExists } from '../../src/parsers/plist.js';
 
@@ -407,5 +423,221 @@ describe('EntitlementsAnalyzer', () => {
       const summaries = result.issues.filter((i) => i.id === 'entitlements-summary');
       expect(summaries).toHaveLength(2);
     });
+
+    it('should check app extension entitlements', async () => {
+      mockFileExists.mockResolvedValue(true);
+      mockParsePlist.mockResolvedValue({
+        'aps-environment': 'staging',
+      });
+
+      const extensionProject: XcodeProject = {
+        ...mockProject,
+        targets: [
+          {
+            name: 'NotificationService',
+            type: 'appExtension',
+            bundleIdentifier: 'com.test.app.notifications',
+            entitlementsPath: '/test/NotificationService.entitlements',
+            sourceFiles: [],
+          },
+        ],
+      };
+
+      const result = await analyzer.analyze(extensionProject, defaultOptions);
+
+      expect(mockParsePlist).toHaveBeenCalledWith('/test/NotificationService.entitlements');
+      const issue = result.issues.find((i) => i.id === 'invalid-aps-environment');
+      expect(issue?.filePath).toBe('/test/NotificationService.entitlements');
+    });
+  });
+
+  describe('cross-checks', () => {
+    let tempDir: string;
+
+    beforeAll(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'entitlements-test-'));
+    });
+
+    afterAll(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    /**
+     * Serve plist contents by path
+     */
+    const mockPlists = (plists: Record<string, Record<string, unknown>>): void => {
+      mockFileExists.mockResolvedValue(true);
+      mockParsePlist.mockImplementation(async (filePath: string) => {
+        const plist = plists[filePath];
+        if (!plist) {
+          throw new Error(`ENOENT: ${filePath}`);
+        }
+        return plist;
+      });
+    };
+
+    const appProject = (sourceFiles: string[] = []): XcodeProject => ({
+      ...mockProject,
+      targets: [
+        {
+          name: 'TestApp',
+          type: 'application',
+          entitlementsPath: '/test/TestApp.entitlements',
+          infoPlistPath: '/test/Info.plist',
+          sourceFiles,
+        },
+      ],
+    });
+
+    const writeSource = async (name: string, content: string): Promise<string> => {
+      const filePath = path.join(tempDir, name);
+      await fs.writeFile(filePath, content);
+      return filePath;
+    };
+
+    it('should report push entitlement and remote-notification mode mismatches', async () => {
+      mockPlists({
+        '/test/TestApp.entitlements': { 'aps-environment': 'production' },
+        '/test/Info.plist': { UIBackgroundModes: ['audio'] },
+      });
+      const withoutMode = await analyzer.analyze(appProject(), defaultOptions);
+
+      mockPlists({
+        '/test/TestApp.entitlements': {},
+        '/test/Info.plist': { UIBackgroundModes: ['remote-notification'] },
+      });
+      const withoutPush = await analyzer.analyze(appProject(), defaultOptions);
+
+      const info = withoutMode.issues.find((i) => i.id === 'push-without-remote-notification-mode');
+      expect(info?.severity).toBe('info');
+      const warning = withoutPush.issues.find((i) => i.id === 'remote-notification-mode-without-push');
+      expect(warning?.severity).toBe('warning');
+      expect(warning?.filePath).toBe('/test/Info.plist');
+    });
+
+    it('should not report push when both sides are configured', async () => {
+      mockPlists({
+        '/test/TestApp.entitlements': { 'aps-environment': 'production' },
+        '/test/Info.plist': { UIBackgroundModes: ['remote-notification'] },
+      });
+
+      const result = await analyzer.analyze(appProject(), defaultOptions);
+
+      expect(result.issues.some((i) => i.id.includes('remote-notification'))).toBe(false);
+    });
+
+    it('should report HealthKit without NSHealthShareUsageDescription', async () => {
+      mockPlists({
+        '/test/TestApp.entitlements': { 'com.apple.developer.healthkit': true },
+        '/test/Info.plist': { NSHealthUpdateUsageDescription: 'Log workouts' },
+      });
+
+      const result = await analyzer.analyze(appProject(), defaultOptions);
+
+      const issue = result.issues.find((i) => i.id === 'healthkit-missing-usage-description');
+      expect(issue?.severity).toBe('error');
+      expect(result.passed).toBe(false);
+    });
+
+    it('should report universal links and Apple Pay without matching code', async () => {
+      const source = await writeSource('AppDelegate.swift', 'import UIKit\nclass AppDelegate: UIResponder {}\n');
+      mockPlists({
+        '/test/TestApp.entitlements': {
+          'com.apple.developer.associated-domains': ['applinks:acme.com', 'webcredentials:acme.com'],
+          'com.apple.developer.in-app-payments': ['merchant.com.acme'],
+        },
+        '/test/Info.plist': {},
+      });
+
+      const result = await analyzer.analyze(appProject([source]), defaultOptions);
+
+      expect(result.issues.map((i) => i.id)).toEqual(
+        expect.arrayContaining(['associated-domains-without-handler', 'apple-pay-without-passkit'])
+      );
+    });
+
+    it('should accept universal link handlers and PassKit usage', async () => {
+      const scene = await writeSource(
+        'SceneDelegate.swift',
+        'func scene(_ scene: UIScene, continue userActivity: NSUserActivity) {}\n'
+      );
+      const checkout = await writeSource('Checkout.m', '@import PassKit;\nPKPaymentRequest *request;\n');
+      mockPlists({
+        '/test/TestApp.entitlements': {
+          'com.apple.developer.associated-domains': ['applinks:acme.com'],
+          'com.apple.developer.in-app-payments': ['merchant.com.acme'],
+        },
+        '/test/Info.plist': {},
+      });
+
+      const result = await analyzer.analyze(appProject([scene, checkout]), defaultOptions);
+
+      expect(result.issues.some((i) => i.id === 'associated-domains-without-handler')).toBe(false);
+      expect(result.issues.some((i) => i.id === 'apple-pay-without-passkit')).toBe(false);
+    });
+
+    it('should check the executable of a built artifact', async () => {
+      // Mach-O linking PassKit but without any continueUserActivity selector
+      const library = '/System/Library/Frameworks/PassKit.framework/PassKit';
+      const command = Buffer.alloc(Math.ceil((24 + library.length + 1) / 8) * 8);
+      command.writeUInt32LE(0xc, 0);
+      command.writeUInt32LE(command.length, 4);
+      command.writeUInt32LE(24, 8);
+      command.write(library, 24);
+      const header = Buffer.alloc(32);
+      header.writeUInt32LE(0xfeedfacf, 0);
+      header.writeUInt32LE(0x0100000c, 4);
+      header.writeUInt32LE(2, 12);
+      header.writeUInt32LE(1, 16);
+      header.writeUInt32LE(command.length, 20);
+      const executablePath = path.join(tempDir, 'Shop');
+      await fs.writeFile(executablePath, Buffer.concat([header, command]));
+
+      mockPlists({
+        '/test/TestApp.entitlements': {
+          'com.apple.developer.associated-domains': ['applinks:acme.com'],
+          'com.apple.developer.in-app-payments': ['merchant.com.acme'],
+        },
+        '/test/Info.plist': {},
+      });
+      const project = appProject();
+      project.targets[0]!.executablePath = executablePath;
+      project.artifact = { kind: 'ipa', path: '/builds/Shop.ipa', appPath: tempDir, frameworks: [] };
+
+      const result = await analyzer.analyze(project, defaultOptions);
+
+      expect(result.issues.some((i) => i.id === 'associated-domains-without-handler')).toBe(true);
+      expect(result.issues.some((i) => i.id === 'apple-pay-without-passkit')).toBe(false);
+    });
+
+    it('should report extension App Groups the app does not declare', async () => {
+      mockPlists({
+        '/test/TestApp.entitlements': { 'com.apple.security.application-groups': ['group.com.acme.shop'] },
+        '/test/Widget.entitlements': { 'com.apple.security.application-groups': ['group.com.acme.widget'] },
+        '/test/Share.entitlements': { 'com.apple.security.application-groups': ['group.com.acme.shop'] },
+      });
+      const project: XcodeProject = {
+        ...mockProject,
+        targets: [
+          {
+            name: 'TestApp',
+            type: 'application',
+            entitlementsPath: '/test/TestApp.entitlements',
+            sourceFiles: [],
+            dependencies: ['Widget', 'Share'],
+          },
+          { name: 'Widget', type: 'appExtension', entitlementsPath: '/test/Widget.entitlements', sourceFiles: [] },
+          { name: 'Share', type: 'appExtension', entitlementsPath: '/test/Share.entitlements', sourceFiles: [] },
+          { name: 'Other', type: 'appExtension', entitlementsPath: '/test/Widget.entitlements', sourceFiles: [] },
+        ],
+      };
+
+      const result = await analyzer.analyze(project, defaultOptions);
+
+      const mismatches = result.issues.filter((i) => i.id === 'app-group-mismatch');
+      expect(mismatches).toHaveLength(1);
+      expect(mismatches[0]?.filePath).toBe('/test/Widget.entitlements');
+      expect(mismatches[0]?.description).toContain('group.com.acme.widget');
+    });
   });
 });
@@ -2,6 +2,8 @@ import * as path from 'path';
 import * as fs from 'fs/promises';
 import * as os from 'os';
 import { InfoPlistAnalyzer } from '../../src/analyzers/info-plist';
+import { makeProject, writeFile } from '../helpers/project';
+import type { XcodeProject } from '../../src/types/index';
 
 describe('InfoPlistAnalyzer', () => {
   let analyzer: InfoPlistAnalyzer;
@@ -145,4 +147,146 @@ describe('InfoPlistAnalyzer', () => {
       expect(result.issues[0]?.id).toBe('info-plist-not-found');
     });
   });
+
+  describe('app extension targets', () => {
+    function plistXml(entries: Record<string, string>, extra = ''): string {
+      const keys = Object.entries(entries)
+        .map(([key, value]) => `  <key>${key}</key>\n  <string>${value}</string>`)
+        .join('\n');
+      return `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+${keys}
+${extra}
+</dict>
+</plist>`;
+    }
+
+    function bundleKeys(name: string, packageType: string): Record<string, string> {
+      return {
+        CFBundleName: name,
+        CFBundleExecutable: name,
+        CFBundlePackageType: packageType,
+        CFBundleShortVersionString: '$(MARKETING_VERSION)',
+        CFBundleVersion: '$(CURRENT_PROJECT_VERSION)',
+      };
+    }
+
+    const widgetExtension = `  <key>NSExtension</key>
+  <dict>
+    <key>NSExtensionPointIdentifier</key>
+    <string>com.apple.widgetkit-extension</string>
+  </dict>`;
+
+    /**
+     * An app embedding a widget extension with the given Info.plist
+     */
+    async function makeExtensionProject(
+      name: string,
+      extensionPlist: string,
+      settings: { app: Record<string, string>; extension: Record<string, string> }
+    ): Promise<XcodeProject> {
+      const { project, dir } = await makeProject(tempDir, name, {}, {
+        infoPlist: plistXml(
+          { ...bundleKeys('App', 'APPL'), CFBundleIdentifier: '$(PRODUCT_BUNDLE_IDENTIFIER)' },
+          '  <key>UILaunchScreen</key>\n  <dict/>'
+        ),
+        buildSettings: settings.app,
+      });
+
+      project.targets[0]!.dependencies = ['Widget'];
+      project.targets.push({
+        name: 'Widget',
+        type: 'appExtension',
+        infoPlistPath: await writeFile(dir, 'Widget-Info.plist', extensionPlist),
+        sourceFiles: [],
+        configuration: 'Release',
+        buildConfigurations: { Release: { name: 'Release', buildSettings: settings.extension } },
+      });
+      return project;
+    }
+
+    const appSettings = {
+      PRODUCT_BUNDLE_IDENTIFIER: 'com.example.app',
+      MARKETING_VERSION: '2.1.0',
+      CURRENT_PROJECT_VERSION: '42',
+    };
+
+    it('should pass a well-formed widget extension', async () => {
+      const project = await makeExtensionProject(
+        'ext-valid',
+        plistXml(
+          { ...bundleKeys('Widget', 'XPC!'), CFBundleIdentifier: '$(PRODUCT_BUNDLE_IDENTIFIER)' },
+          widgetExtension
+        ),
+        { app: appSettings, extension: { ...appSettings, PRODUCT_BUNDLE_IDENTIFIER: 'com.example.app.Widget' } }
+      );
+
+      const result = await analyzer.analyze(project, { basePath: tempDir });
+
+      expect(result.issues).toEqual([]);
+    });
+
+    it('should report a bundle ID outside the app namespace and mismatched versions', async () => {
+      const project = await makeExtensionProject(
+        'ext-mismatch',
+        plistXml(
+          { ...bundleKeys('Widget', 'XPC!'), CFBundleIdentifier: 'com.example.widget' },
+          widgetExtension
+        ),
+        { app: appSettings, extension: { MARKETING_VERSION: '2.0.0', CURRENT_PROJECT_VERSION: '41' } }
+      );
+
+      const result = await analyzer.analyze(project, { basePath: tempDir });
+
+      expect(result.passed).toBe(false);
+      expect(result.issues.map((i) => i.id)).toEqual([
+        'extension-bundle-id-prefix',
+        'extension-cfbundleshortversionstring-mismatch',
+        'extension-cfbundleversion-mismatch',
+      ]);
+      expect(result.issues[1]?.description).toContain('"2.0.0" but "App" uses "2.1.0"');
+    });
+
+    it('should validate the NSExtension dictionary', async () => {
+      const keys = { ...bundleKeys('Share', 'XPC!'), CFBundleIdentifier: 'com.example.app.Share' };
+      const missing = await makeExtensionProject('ext-missing', plistXml(keys), {
+        app: appSettings,
+        extension: appSettings,
+      });
+      const share = await makeExtensionProject(
+        'ext-share',
+        plistXml(
+          keys,
+          `  <key>NSExtension</key>
+  <dict>
+    <key>NSExtensionPointIdentifier</key>
+    <string>com.apple.share-service</string>
+    <key>NSExtensionAttributes</key>
+    <dict>
+      <key>NSExtensionActivationRule</key>
+      <string>TRUEPREDICATE</string>
+    </dict>
+  </dict>`
+        ),
+        { app: appSettings, extension: appSettings }
+      );
+      const misspelled = (await analyzer.analyze(share, { basePath: tempDir })).issues;
+
+      expect((await analyzer.analyze(missing, { basePath: tempDir })).issues.map((i) => i.id)).toEqual([
+        'missing-nsextension',
+      ]);
+      expect(misspelled.map((i) => i.id)).toEqual(['unknown-extension-point-identifier']);
+
+      await fs.writeFile(
+        share.targets[1]!.infoPlistPath!,
+        (await fs.readFile(share.targets[1]!.infoPlistPath!, 'utf-8')).replace(
+          'com.apple.share-service<',
+          'com.apple.share-services<'
+        )
+      );
+      const result = await analyzer.analyze(share, { basePath: tempDir });
+      expect(result.issues.map((i) => i.id)).toEqual(['extension-activation-rule-truepredicate']);
+    });
+  });
 });
@@ -0,0 +1,338 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { InterfaceBuilderAnalyzer } from '../../src/analyzers/interface-builder.js';
+import { makeProject } from '../helpers/project.js';
+
+function storyboard(scenes: string, attributes = ''): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<document type="com.apple.InterfaceBuilder3.CocoaTouch.Storyboard.XIB" version="3.0"${attributes}>
+    <scenes>
+${scenes}
+    </scenes>
+</document>`;
+}
+
+function scene(id: string, controller: string): string {
+  return `        <scene sceneID="${id}">
+            <objects>
+${controller}
+            </objects>
+        </scene>`;
+}
+
+const HOME_SOURCE = `import UIKit
+
+final class HomeViewController: BaseViewController {
+    @IBOutlet private weak var titleLabel: UILabel!
+}
+`;
+
+const BASE_SOURCE = `import UIKit
+
+class BaseViewController: UIViewController {
+    @IBOutlet weak var spinner: UIActivityIndicatorView?
+}
+`;
+
+const SOURCES = { 'HomeViewController.swift': HOME_SOURCE, 'BaseViewController.swift': BASE_SOURCE };
+
+function plist(keys: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+${keys}
+</dict>
+</plist>`;
+}
+
+describe('InterfaceBuilderAnalyzer', () => {
+  let analyzer: InterfaceBuilderAnalyzer;
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'interface-builder-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    analyzer = new InterfaceBuilderAnalyzer();
+  });
+
+  it('should pass an accessible, well-connected storyboard', async () => {
+    const { project, dir } = await makeProject(tempDir, 'valid', SOURCES, {
+      resources: {
+        'Main.storyboard': storyboard(
+          scene(
+            'tne-QT-ifu',
+            `                <viewController id="vc-1" customClass="HomeViewController" customModule="Shop" customModuleProvider="target" sceneMemberID="viewController">
+                    <view key="view" id="view-1">
+                        <subviews>
+                            <label text="Welcome" adjustsFontForContentSizeCategory="YES" id="lbl-1">
+                                <fontDescription key="fontDescription" style="UICTFontTextStyleTitle1"/>
+                            </label>
+                            <imageView image="hero" id="img-1"/>
+                            <button id="btn-1"><state key="normal" image="cart"/>
+                                <accessibility key="accessibilityConfiguration" label="Cart"/>
+                            </button>
+                        </subviews>
+                    </view>
+                    <connections>
+                        <outlet property="titleLabel" destination="lbl-1" id="o-1"/>
+                        <outlet property="spinner" destination="lbl-1" id="o-2"/>
+                        <outlet property="view" destination="view-1" id="o-3"/>
+                    </connections>
+                </viewController>`
+          )
+        ),
+      },
+    });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.passed).toBe(true);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should report images and buttons without accessibility labels', async () => {
+    const { project, dir } = await makeProject(tempDir, 'accessibility', SOURCES, {
+      resources: {
+        'Main.storyboard': storyboard(
+          scene(
+            'a',
+            `                <viewController id="vc-1" sceneMemberID="viewController">
+                    <view key="view" id="view-1">
+                        <subviews>
+                            <imageView userInteractionEnabled="YES" image="banner" id="img-1"/>
+                            <imageView image="logo" id="img-2">
+                                <accessibility key="accessibilityConfiguration"><bool key="isElement" value="YES"/></accessibility>
+                            </imageView>
+                            <imageView image="divider" id="img-3"/>
+                            <button id="btn-1"><state key="normal" image="close"/></button>
+                            <button id="btn-2"><buttonConfiguration key="configuration" style="filled" title="Checkout"/></button>
+                            <button id="btn-3"><state key="normal" image="gear"/></button>
+                        </subviews>
+                    </view>
+                    <connections>
+                        <outlet property="view" destination="view-1" id="o-1"/>
+                        <outlet property="settingsButton" destination="btn-3" id="o-2"/>
+                    </connections>
+                </viewController>`
+          )
+        ),
+      },
+    });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues.map((i) => [i.id, i.lineNumber])).toEqual([
+      ['ib-image-missing-accessibility-label', 9],
+      ['ib-image-missing-accessibility-label', 10],
+      ['ib-button-missing-accessibility-label', 14],
+    ]);
+    expect(result.issues[0]?.title).toBe('Image without accessibility label: banner');
+  });
+
+  it('should report labels with fixed font sizes once per document', async () => {
+    const { project, dir } = await makeProject(tempDir, 'fonts', SOURCES, {
+      resources: {
+        'Main.storyboard': storyboard(
+          scene(
+            'a',
+            `                <viewController id="vc-1" sceneMemberID="viewController">
+                    <view key="view" id="view-1">
+                        <subviews>
+                            <label text="Price" id="l-1"><fontDescription key="fontDescription" type="system" pointSize="17"/></label>
+                            <label text="Name" adjustsFontForContentSizeCategory="YES" id="l-2"><fontDescription key="fontDescription" name="Avenir-Book" family="Avenir" pointSize="15"/></label>
+                            <label text="Total" id="l-3"><fontDescription key="fontDescription" type="boldSystem" pointSize="20"/></label>
+                        </subviews>
+                    </view>
+                </viewController>`
+          )
+        ),
+      },
+    });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues.map((i) => [i.id, i.severity, i.lineNumber])).toEqual([['ib-fixed-font-size', 'info', 9]]);
+    expect(result.issues[0]?.title).toBe('2 label(s) with fixed font sizes: Main.storyboard');
+  });
+
+  it('should report broken connections and missing storyboard references', async () => {
+    const { project, dir } = await makeProject(tempDir, 'connections', SOURCES, {
+      resources: {
+        'Main.storyboard': storyboard(
+          scene(
+            'a',
+            `                <viewController id="vc-1" sceneMemberID="viewController">
+                    <view key="view" id="view-1"/>
+                    <connections>
+                        <outlet property="view" destination="view-1" id="o-1"/>
+                        <segue destination="gone-1" kind="show" identifier="showDetail" id="s-1"/>
+                        <segue destination="ref-1" kind="show" id="s-2"/>
+                        <segue destination="ref-2" kind="show" id="s-3"/>
+                    </connections>
+                </viewController>`
+          ) +
+            '\n' +
+            scene('b', '                <viewControllerPlaceholder storyboardName="Settings" id="ref-1" sceneMemberID="viewController"/>') +
+            '\n' +
+            scene('c', '                <viewControllerPlaceholder storyboardName="Profile" id="ref-2" sceneMemberID="viewController"/>')
+        ),
+        'Settings.storyboard': storyboard(''),
+      },
+    });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues.map((i) => [i.id, i.title, path.basename(i.filePath ?? '')])).toEqual([
+      ['ib-broken-connection', 'Broken segue: showDetail', 'Main.storyboard'],
+      ['ib-missing-storyboard-reference', 'Storyboard reference to missing storyboard: Profile', 'Main.storyboard'],
+    ]);
+    expect(result.passed).toBe(false);
+  });
+
+  it('should report unknown custom classes and undeclared outlets', async () => {
+    const { project, dir } = await makeProject(tempDir, 'classes', SOURCES, {
+      resources: {
+        'Cells.xib': `<?xml version="1.0" encoding="UTF-8"?>
+<document type="com.apple.InterfaceBuilder3.CocoaTouch.XIB" version="3.0">
+    <objects>
+        <placeholder placeholderIdentifier="IBFilesOwner" id="-1" customClass="HomeViewController" customModule="Shop" customModuleProvider="target">
+            <connections>
+                <outlet property="view" destination="v-1" id="o-1"/>
+                <outlet property="subtitleLabel" destination="v-1" id="o-2"/>
+            </connections>
+        </placeholder>
+        <view id="v-1" customClass="ProductCardView">
+            <connections>
+                <outlet property="priceLabel" destination="v-1" id="o-3"/>
+            </connections>
+        </view>
+        <view id="v-2" customClass="ShimmerView" customModule="Shimmer"/>
+        <view id="v-3" customClass="BadgeView" customModule="Shop" customModuleProvider="target"/>
+    </objects>
+</document>`,
+      },
+    });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues.map((i) => [i.id, i.severity, i.lineNumber])).toEqual([
+      ['ib-missing-outlet-property', 'error', 7],
+      ['ib-unknown-custom-class', 'error', 10],
+      ['ib-unknown-custom-class', 'warning', 16],
+    ]);
+    expect(result.issues[0]?.title).toBe('Outlet subtitleLabel not declared on HomeViewController');
+  });
+
+  it('should find Objective-C classes and outlets in headers', async () => {
+    const { project, dir } = await makeProject(
+      tempDir,
+      'objc',
+      {
+        'LoginViewController.m': '#import "LoginViewController.h"\n@implementation LoginViewController\n@end\n',
+      },
+      {
+        resources: {
+          'Login.xib': `<?xml version="1.0" encoding="UTF-8"?>
+<document type="com.apple.InterfaceBuilder3.CocoaTouch.XIB" version="3.0">
+    <objects>
+        <placeholder placeholderIdentifier="IBFilesOwner" id="-1" customClass="LoginViewController">
+            <connections>
+                <outlet property="view" destination="v-1" id="o-1"/>
+                <outlet property="emailField" destination="v-1" id="o-2"/>
+            </connections>
+        </placeholder>
+        <view id="v-1"/>
+    </objects>
+</document>`,
+        },
+      }
+    );
+    await fs.writeFile(
+      path.join(dir, 'LoginViewController.h'),
+      '@interface LoginViewController : UIViewController\n@property (weak, nonatomic) IBOutlet UITextField *emailField;\n@end\n'
+    );
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should reject custom classes in launch screens', async () => {
+    const { project, dir } = await makeProject(
+      tempDir,
+      'launch',
+      {},
+      {
+        resources: {
+          'Splash.storyboard': storyboard(
+            scene(
+              'a',
+              `                <viewController id="vc-1" sceneMemberID="viewController">
+                    <view key="view" id="view-1">
+                        <subviews>
+                            <view id="grad-1" customClass="GradientView" customModule="Shop" customModuleProvider="target"/>
+                            <imageView image="logo" userInteractionEnabled="YES" id="img-1"/>
+                        </subviews>
+                    </view>
+                </viewController>`
+            )
+          ),
+        },
+        infoPlist: plist('<key>UILaunchStoryboardName</key><string>Splash</string>'),
+      }
+    );
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues.map((i) => [i.id, i.lineNumber])).toEqual([['ib-launch-screen-custom-class', 9]]);
+    expect(result.issues[0]?.guideline).toBe('Guideline 4.6 - Launch Screen');
+  });
+
+  it('should ignore the placeholders of a stock XIB', async () => {
+    const xib = `<?xml version="1.0" encoding="UTF-8"?>
+<document type="com.apple.InterfaceBuilder3.CocoaTouch.XIB" version="3.0" toolsVersion="22505" targetRuntime="iOS.CocoaTouch">
+    <objects>
+        <placeholder placeholderIdentifier="IBFilesOwner" id="-1" userLabel="File's Owner"/>
+        <placeholder placeholderIdentifier="IBFirstResponder" id="-2" customClass="UIResponder"/>
+        <view contentMode="scaleToFill" id="iN0-l3-epB">
+            <subviews>
+                <imageView image="logo" id="img-1"/>
+            </subviews>
+        </view>
+    </objects>
+</document>`;
+    const { project, dir } = await makeProject(
+      tempDir,
+      'stock',
+      {},
+      {
+        resources: { 'LaunchScreen.xib': xib, 'Empty.xib': xib },
+        infoPlist: plist('<key>UILaunchStoryboardName</key><string>LaunchScreen</string>'),
+      }
+    );
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should report documents that cannot be parsed', async () => {
+    const { project, dir } = await makeProject(tempDir, 'invalid', SOURCES, {
+      resources: {
+        'Main.storyboard': '<document type="com.apple.InterfaceBuilder3.CocoaTouch.Storyboard.XIB">\n<<<<<<< HEAD\n</document>',
+      },
+    });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues.map((i) => i.id)).toEqual(['ib-invalid-document']);
+    expect(result.issues[0]?.description).toContain('line 2');
+  });
+});
@@ -0,0 +1,191 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalizationAnalyzer } from '../../src/analyzers/localization.js';
+import { makeProject } from '../helpers/project.js';
+
+function strings(entries: Record<string, string>): string {
+  return Object.entries(entries)
+    .map(([key, value]) => `"${key}" = "${value}";`)
+    .join('\n');
+}
+
+function plist(keys: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+${keys}
+</dict>
+</plist>`;
+}
+
+describe('LocalizationAnalyzer', () => {
+  let analyzer: LocalizationAnalyzer;
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'localization-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    analyzer = new LocalizationAnalyzer();
+  });
+
+  it('should pass consistent translations', async () => {
+    const { project, dir } = await makeProject(tempDir, 'valid', {}, {
+      resources: {
+        'en.lproj/Localizable.strings': strings({ greeting: 'Hello, %@!', count: '%1$@ has %2$d items' }),
+        'fr.lproj/Localizable.strings': strings({ greeting: 'Bonjour, %@ !', count: '%2$d articles pour %1$@' }),
+      },
+    });
+    project.knownRegions = ['en', 'fr', 'Base'];
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.passed).toBe(true);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should report missing tables, missing keys, empty and stale translations', async () => {
+    const { project, dir } = await makeProject(tempDir, 'missing', {}, {
+      resources: {
+        'en.lproj/Localizable.strings': strings({ title: 'Shop', cart: 'Cart', checkout: 'Checkout' }),
+        'fr.lproj/Localizable.strings': strings({ title: 'Boutique', cart: '', legacy: 'Ancien' }),
+      },
+    });
+    project.knownRegions = ['en', 'fr', 'de', 'Base'];
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.passed).toBe(true);
+    expect(result.issues.map((i) => [i.id, i.severity])).toEqual([
+      ['localization-missing-table', 'warning'],
+      ['localization-missing-keys', 'warning'],
+      ['localization-untranslated', 'warning'],
+      ['localization-stale', 'info'],
+    ]);
+    expect(result.issues[0]?.title).toBe('Missing de localization: Localizable');
+    expect(result.issues[1]?.description).toContain('"checkout"');
+    expect(result.issues[2]?.lineNumber).toBe(2);
+    expect(result.issues.every((i) => i.category === 'localization')).toBe(true);
+  });
+
+  it('should use Base.lproj for the development language', async () => {
+    const { project, dir } = await makeProject(tempDir, 'base', {}, {
+      resources: {
+        'Base.lproj/Main.strings': strings({ 'abc-12-xyz.text': 'Sign In' }),
+        'es.lproj/Main.strings': strings({}),
+      },
+    });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues.map((i) => [i.id, path.basename(path.dirname(i.filePath ?? ''))])).toEqual([
+      ['localization-missing-keys', 'es.lproj'],
+    ]);
+  });
+
+  it('should compare format specifiers with the development language', async () => {
+    const { project, dir } = await makeProject(tempDir, 'formats', {}, {
+      resources: {
+        'en.lproj/Localizable.strings': strings({
+          welcome: 'Welcome, %@',
+          total: 'Total: %.2f',
+          progress: '%d of %d',
+          discount: '100%% off',
+        }),
+        'de.lproj/Localizable.strings': strings({
+          welcome: 'Willkommen, %d',
+          total: 'Summe: %f',
+          progress: '%d',
+          discount: '100%% Rabatt',
+        }),
+      },
+    });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.passed).toBe(false);
+    expect(result.issues.map((i) => [i.id, i.severity, i.lineNumber])).toEqual([
+      ['localization-format-mismatch', 'error', 1],
+      ['localization-format-mismatch', 'warning', 3],
+    ]);
+    expect(result.issues[0]?.title).toBe('Format specifiers differ in de: welcome');
+  });
+
+  it('should check string catalogs', async () => {
+    const { project, dir } = await makeProject(tempDir, 'catalog', {}, {
+      resources: {
+        'Localizable.xcstrings': JSON.stringify({
+          sourceLanguage: 'en',
+          version: '1.0',
+          strings: {
+            'Hello %@': {
+              localizations: {
+                ja: { stringUnit: { state: 'translated', value: 'こんにちは %lld' } },
+              },
+            },
+            Cart: {
+              localizations: { ja: { stringUnit: { state: 'needs_review', value: 'カート' } } },
+            },
+            Checkout: {},
+            Removed: { extractionState: 'stale' },
+            Acme: { shouldTranslate: false },
+          },
+        }),
+      },
+    });
+    project.knownRegions = ['en', 'ja', 'Base'];
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues.map((i) => i.id)).toEqual([
+      'localization-missing-keys',
+      'localization-untranslated',
+      'localization-format-mismatch',
+      'localization-stale',
+    ]);
+    expect(result.issues[0]?.description).toContain('"Checkout"');
+    expect(result.issues[0]?.description).not.toContain('Acme');
+  });
+
+  it('should require usage descriptions to be localized for every project language', async () => {
+    const { project, dir } = await makeProject(tempDir, 'usage', {}, {
+      resources: {
+        'en.lproj/InfoPlist.strings': strings({ NSCameraUsageDescription: 'Scan receipts' }),
+        'fr.lproj/InfoPlist.strings': strings({ NSCameraUsageDescription: 'Numériser les reçus' }),
+      },
+      infoPlist: plist('  <key>NSCameraUsageDescription</key>\n  <string>Scan receipts</string>'),
+      buildSettings: { INFOPLIST_KEY_NSMicrophoneUsageDescription: 'Record notes' },
+    });
+    project.knownRegions = ['en', 'fr', 'de', 'Base'];
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues.map((i) => [i.id, i.guideline])).toEqual([
+      ['localization-usage-description-not-localized', 'Guideline 5.1.1 - Data Collection and Storage'],
+      ['localization-usage-description-not-localized', 'Guideline 5.1.1 - Data Collection and Storage'],
+    ]);
+    expect(result.issues[0]?.title).toBe('Usage descriptions not localized in de: App');
+    expect(result.issues[0]?.description).toContain('NSCameraUsageDescription, NSMicrophoneUsageDescription have');
+    expect(result.issues[1]?.description).toMatch(/^NSMicrophoneUsageDescription has no fr translation/);
+  });
+
+  it('should search the project directory when targets list no resources', async () => {
+    const { project, dir } = await makeProject(tempDir, 'search', {});
+    const resources = path.join(dir, 'App', 'Resources');
+    await fs.mkdir(path.join(resources, 'en.lproj'), { recursive: true });
+    await fs.mkdir(path.join(resources, 'it.lproj'), { recursive: true });
+    await fs.writeFile(path.join(resources, 'en.lproj', 'Localizable.strings'), strings({ a: 'A' }));
+    await fs.writeFile(path.join(resources, 'it.lproj', 'Localizable.strings'), '"a" = "A"');
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues.map((i) => i.id)).toEqual(['localization-invalid-file']);
+    expect(result.passed).toBe(false);
+  });
+});
@@ -0,0 +1,188 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PaymentsAnalyzer } from '../../src/analyzers/payments.js';
+import { makeProject } from '../helpers/project.js';
+
+const STRIPE_CHECKOUT = `import UIKit
+import StripePaymentSheet
+
+final class CheckoutViewController: UIViewController {
+    var paymentSheet: PaymentSheet?
+}
+`;
+
+const STOREKIT_STORE = `import StoreKit
+
+@MainActor
+final class Store: ObservableObject {
+    func load() async throws {
+        products = try await Product.products(for: ["com.example.pro"])
+    }
+}
+`;
+
+function entitlements(keys: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+${keys}
+</dict>
+</plist>`;
+}
+
+describe('PaymentsAnalyzer', () => {
+  let analyzer: PaymentsAnalyzer;
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'payments-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    analyzer = new PaymentsAnalyzer();
+  });
+
+  it('should report payment SDKs in code and dependencies', async () => {
+    const { project, dir } = await makeProject(tempDir, 'sdk', { 'CheckoutViewController.swift': STRIPE_CHECKOUT });
+    await fs.writeFile(path.join(dir, 'Podfile.lock'), 'PODS:\n  - Braintree/Core (6.0.0)\n');
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues.map((i) => [i.id, i.severity, i.title, path.basename(i.filePath ?? ''), i.lineNumber])).toEqual([
+      ['payments-third-party-sdk', 'warning', 'Third-party payment SDK: Stripe', 'CheckoutViewController.swift', 2],
+      ['payments-third-party-sdk', 'warning', 'Third-party payment SDK: Braintree', 'Podfile.lock', undefined],
+    ]);
+    expect(result.issues[0]?.description).toContain('import StripePaymentSheet in CheckoutViewController.swift:2');
+    expect(result.issues[0]?.description).toContain('com.apple.developer.storekit.external-purchase-link');
+    expect(result.issues[0]?.guideline).toBe('Guideline 3.1.1 - In-App Purchase');
+  });
+
+  it('should report external checkout links and calls to action', async () => {
+    const { project, dir } = await makeProject(
+      tempDir,
+      'links',
+      {
+        'Paywall.swift': `import SwiftUI
+
+struct Paywall: View {
+    // Apple's own pages are fine: https://apps.apple.com/account/subscriptions
+    var body: some View {
+        Link("Go Pro", destination: URL(string: "https://example.com/pricing?plan=pro")!)
+    }
+}
+`,
+      },
+      { resources: { 'en.lproj/Localizable.strings': '"paywall.web" = "Subscribe on our website and save 30%";\n' } }
+    );
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues.map((i) => [i.id, i.guideline, path.basename(i.filePath ?? ''), i.lineNumber])).toEqual([
+      ['payments-external-checkout-link', 'Guideline 3.1.1 - In-App Purchase', 'Paywall.swift', 6],
+      ['payments-external-purchase-text', 'Guideline 3.1.2 - Subscriptions', 'Localizable.strings', 1],
+    ]);
+    expect(result.issues[0]?.title).toBe('Link to an external checkout page: https://example.com/pricing?plan=pro');
+  });
+
+  it('should report checkout pages opened in Safari but not API endpoints', async () => {
+    const safari = await makeProject(tempDir, 'safari', {
+      'Upgrade.m': '- (IBAction)upgrade:(id)sender {\n    [[UIApplication sharedApplication] openURL:[NSURL URLWithString:@"https://shop.example.com/upgrade"] options:@{} completionHandler:nil];\n}\n',
+    });
+    const api = await makeProject(tempDir, 'api', {
+      'PurchaseClient.swift': `import Foundation
+
+final class PurchaseClient {
+    let verifyURL = URL(string: "https://api.example.com/v1/purchase")!
+    let plansURL = URL(string: "https://api.example.com/subscribe")!
+
+    func verify(_ receipt: Data) async throws {
+        var request = URLRequest(url: verifyURL)
+        request.httpMethod = "POST"
+        request.httpBody = receipt
+        _ = try await URLSession.shared.data(for: request)
+    }
+}
+`,
+    });
+
+    const result = await analyzer.analyze(safari.project, { basePath: safari.dir });
+
+    expect(result.issues.map((i) => [i.id, i.title, i.lineNumber])).toEqual([
+      ['payments-external-checkout-link', 'Link to an external checkout page: https://shop.example.com/upgrade', 2],
+    ]);
+    expect((await analyzer.analyze(api.project, { basePath: api.dir })).issues).toEqual([]);
+  });
+
+  it('should downgrade findings when the app has an external purchase entitlement', async () => {
+    const { project, dir } = await makeProject(
+      tempDir,
+      'entitled',
+      { 'Checkout.swift': 'let url = URL(string: "https://buy.stripe.com/test_123")!\n' },
+      { entitlements: entitlements('<key>com.apple.developer.storekit.external-purchase-link</key><true/>') }
+    );
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues.map((i) => [i.id, i.severity])).toEqual([['payments-external-checkout-link', 'info']]);
+    expect(result.issues[0]?.description).toContain('The target has com.apple.developer.storekit.external-purchase-link');
+  });
+
+  it('should require a way to restore StoreKit purchases', async () => {
+    const { project, dir } = await makeProject(tempDir, 'restore', { 'Store.swift': STOREKIT_STORE });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues.map((i) => [i.id, i.guideline, i.lineNumber])).toEqual([
+      ['payments-missing-restore', 'Guideline 3.1.1 - In-App Purchase', 6],
+    ]);
+    expect(result.issues[0]?.description).toMatch(/^Target "App" makes StoreKit purchases/);
+  });
+
+  it('should map missing restore to 3.1.2 for subscription stores', async () => {
+    const { project, dir } = await makeProject(tempDir, 'subscriptions', {
+      'PaywallView.swift': 'import StoreKit\nimport SwiftUI\n\nstruct PaywallView: View {\n    var body: some View { SubscriptionStoreView(groupID: "123") }\n}\n',
+    });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues.map((i) => i.guideline)).toEqual(['Guideline 3.1.2 - Subscriptions']);
+  });
+
+  it('should accept restore calls and "Restore Purchases" buttons', async () => {
+    const sync = await makeProject(tempDir, 'sync', {
+      'Store.swift': STOREKIT_STORE,
+      'Settings.swift': 'func restore() async throws {\n    try await AppStore.sync()\n}\n',
+    });
+    const button = await makeProject(
+      tempDir,
+      'button',
+      { 'Store.swift': STOREKIT_STORE },
+      {
+        resources: {
+          'Base.lproj/Main.storyboard': `<document type="com.apple.InterfaceBuilder3.CocoaTouch.Storyboard.XIB">
+    <scenes><scene sceneID="a"><objects><button title="Restore Purchases" id="b"/></objects></scene></scenes>
+</document>`,
+        },
+      }
+    );
+
+    expect((await analyzer.analyze(sync.project, { basePath: sync.dir })).issues).toEqual([]);
+    expect((await analyzer.analyze(button.project, { basePath: button.dir })).issues).toEqual([]);
+  });
+
+  it('should pass apps without payments', async () => {
+    const { project, dir } = await makeProject(tempDir, 'none', {
+      'ContentView.swift': 'import SwiftUI\n\nstruct ContentView: View {\n    var body: some View { Text("Hello") }\n}\n',
+    });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.passed).toBe(true);
+    expect(result.issues).toEqual([]);
+  });
+});
@@ -448,6 +448,128 @@ let defaults = UserDefaults(suiteName: "group.com.test.shared")
     });
   });
 
+  describe('app extension targets', () => {
+    async function makeExtensionProject(name: string): Promise<XcodeProject> {
+      const dir = path.join(tempDir, name);
+      await fs.mkdir(path.join(dir, 'App'), { recursive: true });
+      await fs.mkdir(path.join(dir, 'Widget'), { recursive: true });
+      await writeManifest(path.join(dir, 'App'), {});
+      const widgetSource = await writeSwiftFile(
+        path.join(dir, 'Widget'),
+        'Provider.swift',
+        'let defaults = UserDefaults(suiteName: "group.com.test.app")\n'
+      );
+
+      return {
+        path: path.join(dir, 'App.xcodeproj'),
+        name: 'App',
+        targets: [
+          { name: 'App', type: 'application', sourceFiles: [] },
+          { name: 'Widget', type: 'appExtension', sourceFiles: [widgetSource], resourceFiles: [] },
+        ],
+        configurations: ['Release'],
+      };
+    }
+
+    it('should require a privacy manifest in the extension itself', async () => {
+      const project = await makeExtensionProject('extension-no-manifest');
+
+      const result = await analyzer.analyze(
+        project,
+        makeOptions({ basePath: path.dirname(project.path) })
+      );
+
+      const missing = result.issues.filter((i) => i.id === 'missing-privacy-manifest');
+      expect(missing).toHaveLength(1);
+      expect(missing[0]?.title).toBe('Missing Privacy Manifest: Widget');
+    });
+
+    it('should validate the manifest bundled with the extension', async () => {
+      const project = await makeExtensionProject('extension-manifest');
+      const manifest = await writeManifest(path.join(path.dirname(project.path), 'Widget'), {
+        apiTypes: [{ type: 'NSPrivacyAccessedAPICategoryUserDefaults', reasons: ['1C8F.1'] }],
+      });
+      project.targets[1]!.resourceFiles = [manifest];
+
+      const result = await analyzer.analyze(
+        project,
+        makeOptions({ basePath: path.dirname(project.path) })
+      );
+
+      expect(result.issues.some((i) => i.id === 'missing-privacy-manifest')).toBe(false);
+    });
+  });
+
+  describe('built app bundles', () => {
+    async function makeBundle(name: string, binary: string): Promise<XcodeProject> {
+      const appPath = path.join(tempDir, name, 'Shop.app');
+      await fs.mkdir(path.join(appPath, 'Frameworks'), { recursive: true });
+      await fs.writeFile(path.join(appPath, 'Shop'), binary);
+
+      return {
+        path: path.join(tempDir, name, 'Shop.ipa'),
+        name: 'Shop',
+        targets: [
+          {
+            name: 'Shop',
+            type: 'application',
+            sourceFiles: [],
+            bundlePath: appPath,
+            executablePath: path.join(appPath, 'Shop'),
+          },
+        ],
+        configurations: [],
+        artifact: { kind: 'ipa', path: path.join(tempDir, name, 'Shop.ipa'), appPath, frameworks: [] },
+      };
+    }
+
+    it('should detect Required Reason APIs in the executable', async () => {
+      const project = await makeBundle('bundle-no-manifest', '\u0000_mach_absolute_time\u0000');
+      const appPath = project.artifact!.appPath;
+      // A manifest elsewhere in the bundle does not count
+      await fs.mkdir(path.join(appPath, 'Frameworks', 'Other.framework'), { recursive: true });
+      await writeManifest(path.join(appPath, 'Frameworks', 'Other.framework'), {});
+
+      const result = await analyzer.analyze(project, makeOptions({ basePath: appPath }));
+
+      const missing = result.issues.find((i) => i.id === 'missing-privacy-manifest');
+      expect(missing?.filePath).toBe(path.join(appPath, 'Shop'));
+      expect(missing?.suggestion).toContain('NSPrivacyAccessedAPICategorySystemBootTime');
+    });
+
+    it('should validate the app manifest against the executable', async () => {
+      const project = await makeBundle('bundle-manifest', 'volumeAvailableCapacity');
+      const appPath = project.artifact!.appPath;
+      await writeManifest(appPath, {});
+
+      const result = await analyzer.analyze(project, makeOptions({ basePath: appPath }));
+
+      expect(result.issues.map((i) => i.id)).toEqual([
+        'undeclared-api-NSPrivacyAccessedAPICategoryDiskSpace',
+      ]);
+    });
+
+    it('should check embedded framework manifests', async () => {
+      const project = await makeBundle('bundle-frameworks', 'binary');
+      const appPath = project.artifact!.appPath;
+      const lottie = path.join(appPath, 'Frameworks', 'Lottie.framework');
+      const analytics = path.join(appPath, 'Frameworks', 'Analytics.framework');
+      const inHouse = path.join(appPath, 'Frameworks', 'InHouse.framework');
+      await fs.mkdir(lottie, { recursive: true });
+      await fs.mkdir(analytics, { recursive: true });
+      await fs.mkdir(inHouse, { recursive: true });
+      await writeManifest(analytics, { tracking: true });
+      project.artifact!.frameworks = [analytics, inHouse, lottie];
+
+      const result = await analyzer.analyze(project, makeOptions({ basePath: appPath }));
+
+      expect(result.issues.map((i) => [i.id, i.filePath])).toEqual([
+        ['tracking-no-domains', path.join(analytics, 'PrivacyInfo.xcprivacy')],
+        ['dependency-missing-privacy-manifest', lottie],
+      ]);
+    });
+  });
+
   describe('analyzeManifest', () => {
     it('should return error when manifest file does not exist', async () => {
       const fakePath = path.join(tempDir, 'nonexistent', 'PrivacyInfo.xcprivacy');
@@ -4,6 +4,61 @@ import * as path from 'path';
 import { PrivateAPIAnalyzer } from '../../src/analyzers/private-api.js';
 import type { XcodeProject } from '../../src/types/index.js';
 
+/**
+ * Minimal 64-bit Mach-O with linked dylibs, imported symbols and selectors
+ */
+function buildBinary(image: { libraries?: string[]; imports?: string[]; selectors?: string[] }): Buffer {
+  const libraries = (image.libraries ?? []).map((name) => {
+    const command = Buffer.alloc(Math.ceil((24 + name.length + 1) / 8) * 8);
+    command.writeUInt32LE(0xc, 0);
+    command.writeUInt32LE(command.length, 4);
+    command.writeUInt32LE(24, 8);
+    command.write(name, 24);
+    return command;
+  });
+  const selectors = Buffer.from((image.selectors ?? []).map((s) => `${s}\0`).join(''));
+  const imports = image.imports ?? [];
+  const strings = Buffer.from(`\0${imports.map((s) => `${s}\0`).join('')}`);
+
+  const segment = Buffer.alloc(72 + 80);
+  const symtab = Buffer.alloc(24);
+  const commandsSize = segment.length + symtab.length + libraries.reduce((n, c) => n + c.length, 0);
+  const selectorsOffset = 32 + commandsSize;
+  const symbolsOffset = selectorsOffset + selectors.length;
+  const stringsOffset = symbolsOffset + imports.length * 16;
+
+  segment.writeUInt32LE(0x19, 0);
+  segment.writeUInt32LE(segment.length, 4);
+  segment.writeUInt32LE(1, 64);
+  segment.write('__objc_methname', 72);
+  segment.write('__TEXT', 88);
+  segment.writeBigUInt64LE(BigInt(selectors.length), 112);
+  segment.writeUInt32LE(selectorsOffset, 120);
+
+  const symbols = Buffer.alloc(imports.length * 16);
+  let nameOffset = 1;
+  imports.forEach((name, i) => {
+    symbols.writeUInt32LE(nameOffset, i * 16);
+    symbols.writeUInt8(0x01, i * 16 + 4);
+    nameOffset += name.length + 1;
+  });
+  symtab.writeUInt32LE(0x2, 0);
+  symtab.writeUInt32LE(24, 4);
+  symtab.writeUInt32LE(symbolsOffset, 8);
+  symtab.writeUInt32LE(imports.length, 12);
+  symtab.writeUInt32LE(stringsOffset, 16);
+  symtab.writeUInt32LE(strings.length, 20);
+
+  const header = Buffer.alloc(32);
+  header.writeUInt32LE(0xfeedfacf, 0);
+  header.writeUInt32LE(0x0100000c, 4);
+  header.writeUInt32LE(6, 12);
+  header.writeUInt32LE(2 + libraries.length, 16);
+  header.writeUInt32LE(commandsSize, 20);
+
+  return Buffer.concat([header, segment, symtab, ...libraries, selectors, symbols, strings]);
+}
+
 describe('PrivateAPIAnalyzer', () => {
   let analyzer: PrivateAPIAnalyzer;
   let tempDir: string;
@@ -251,5 +306,126 @@ class ViewController: UIViewController {
       expect(result.analyzer).toBe('Private API Scanner');
       expect(result.passed).toBe(true);
     });
+
+    it('should scan app extension sources', async () => {
+      const subDir = path.join(tempDir, 'AnalyzeExtensionDir');
+      await fs.mkdir(subDir, { recursive: true });
+      const appFile = path.join(subDir, 'App.swift');
+      const extensionFile = path.join(subDir, 'WidgetProvider.swift');
+      await fs.writeFile(appFile, `import UIKit\nclass VC: UIViewController {}\n`);
+      await fs.writeFile(extensionFile, `let selector = NSSelectorFromString("_setBackgroundStyle:")\n`);
+
+      const result = await analyzer.analyze(
+        {
+          ...mockProject,
+          targets: [
+            { name: 'TestApp', type: 'application', bundleIdentifier: 'com.test.app', sourceFiles: [appFile] },
+            {
+              name: 'Widget',
+              type: 'appExtension',
+              bundleIdentifier: 'com.test.app.widget',
+              sourceFiles: [extensionFile],
+            },
+          ],
+        },
+        { basePath: subDir }
+      );
+
+      expect(result.issues.map((i) => [i.id, i.filePath])).toEqual([['private-underscore-selector', extensionFile]]);
+    });
+  });
+
+  describe('binary mode', () => {
+    it('should report private frameworks, selectors, classes and functions in a binary', async () => {
+      const binary = path.join(tempDir, 'libTweaks.dylib');
+      await fs.writeFile(
+        binary,
+        buildBinary({
+          libraries: [
+            '/System/Library/Frameworks/UIKit.framework/UIKit',
+            '/System/Library/PrivateFrameworks/SpringBoardServices.framework/SpringBoardServices',
+          ],
+          imports: ['_OBJC_CLASS_$_LSApplicationWorkspace', '_OBJC_CLASS_$_UIView', '_MGCopyAnswer', '_IOServiceMatching'],
+          selectors: ['viewDidLoad', 'defaultWorkspace', '_setStatusBarHidden:'],
+        })
+      );
+
+      const result = await analyzer.scanPath(binary);
+
+      expect(result.passed).toBe(false);
+      expect(result.issues.map((i) => i.id).sort()).toEqual([
+        'private-class-reference',
+        'private-framework-springboardservices',
+        'private-iokit',
+        'private-selector',
+        'private-symbol',
+      ]);
+      expect(result.issues.every((i) => i.filePath === binary && i.lineNumber === undefined)).toBe(true);
+      const selectors = result.issues.find((i) => i.id === 'private-selector');
+      expect(selectors?.description).toContain('`_setStatusBarHidden:`, `defaultWorkspace`');
+      const classes = result.issues.find((i) => i.id === 'private-class-reference');
+      expect(classes?.description).toContain('`LSApplicationWorkspace`');
+      expect(classes?.description).not.toContain('UIView');
+    });
+
+    it('should pass binaries that only use public APIs', async () => {
+      const binary = path.join(tempDir, 'libClean.dylib');
+      await fs.writeFile(
+        binary,
+        buildBinary({
+          libraries: ['/System/Library/Frameworks/UIKit.framework/UIKit'],
+          imports: ['_OBJC_CLASS_$_UIViewController'],
+          selectors: ['viewDidLoad', '_privateHelper'],
+        })
+      );
+
+      const result = await analyzer.scanPath(binary);
+
+      expect(result.issues).toHaveLength(0);
+    });
+
+    it('should scan vendored frameworks when analyzing a project', async () => {
+      const subDir = path.join(tempDir, 'VendoredDir');
+      const framework = path.join(subDir, 'Vendor', 'Spy.framework');
+      await fs.mkdir(framework, { recursive: true });
+      await fs.writeFile(
+        path.join(framework, 'Spy'),
+        buildBinary({ libraries: ['@rpath/XCTest.framework/XCTest'] })
+      );
+
+      const result = await analyzer.analyze(mockProject, { basePath: subDir });
+
+      const issue = result.issues.find((i) => i.id === 'private-framework-xctest');
+      expect(issue?.filePath).toBe(path.join(framework, 'Spy'));
+    });
+
+    it('should scan executables instead of sources for built artifacts', async () => {
+      const appPath = path.join(tempDir, 'Payload', 'Shop.app');
+      await fs.mkdir(appPath, { recursive: true });
+      await fs.writeFile(path.join(appPath, 'Shop'), buildBinary({ selectors: ['terminateWithSuccess'] }));
+      await fs.writeFile(path.join(appPath, 'Leftover.swift'), 'let s = NSSelectorFromString("_hidden")\n');
+
+      const project: XcodeProject = {
+        path: path.join(tempDir, 'Shop.ipa'),
+        name: 'Shop',
+        targets: [
+          {
+            name: 'Shop',
+            type: 'application',
+            sourceFiles: [],
+            bundlePath: appPath,
+            executablePath: path.join(appPath, 'Shop'),
+          },
+        ],
+        configurations: [],
+        artifact: { kind: 'ipa', path: path.join(tempDir, 'Shop.ipa'), appPath, frameworks: [] },
+      };
+
+      const result = await analyzer.analyze(project, { basePath: appPath });
+
+      expect(result.issues.map((i) => [i.id, i.filePath])).toEqual([
+        ['private-selector', path.join(appPath, 'Shop')],
+      ]);
+    });
   });
 });
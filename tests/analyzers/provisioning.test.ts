@@ -0,0 +1,283 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ProvisioningAnalyzer } from '../../src/analyzers/provisioning.js';
+import type { XcodeProject, XcodeTarget } from '../../src/types/index.js';
+
+function der(tag: number, ...contents: Buffer[]): Buffer {
+  const body = Buffer.concat(contents);
+  const header =
+    body.length < 0x80
+      ? Buffer.from([tag, body.length])
+      : Buffer.from([tag, 0x82, body.length >> 8, body.length & 0xff]);
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * CMS signedData envelope around a profile plist
+ */
+function buildProfile(plist: string): Buffer {
+  const oid = (last: number): Buffer => der(0x06, Buffer.from([0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x07, last]));
+  const encapsulated = der(0x30, oid(1), der(0xa0, der(0x04, Buffer.from(plist))));
+  const signedData = der(0x30, der(0x02, Buffer.from([1])), der(0x31), encapsulated, der(0x31));
+  return der(0x30, oid(2), der(0xa0, signedData));
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function profilePlist(options: {
+  entitlements: string;
+  devices?: boolean;
+  expires?: Date;
+}): string {
+  const expires = (options.expires ?? new Date(Date.now() + 300 * DAY_MS)).toISOString().replace(/\.\d+Z$/, 'Z');
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+  <key>Name</key>
+  <string>Shop Distribution</string>
+  <key>TeamIdentifier</key>
+  <array><string>ABCDE12345</string></array>
+  <key>ExpirationDate</key>
+  <date>${expires}</date>
+  <key>Entitlements</key>
+  <dict>
+${options.entitlements}
+  </dict>
+${options.devices ? '  <key>ProvisionedDevices</key>\n  <array><string>00008030-001A2B3C4D5E6F70</string></array>' : ''}
+</dict>
+</plist>
+`;
+}
+
+const APP_STORE_ENTITLEMENTS = `    <key>application-identifier</key>
+    <string>ABCDE12345.com.acme.shop</string>
+    <key>keychain-access-groups</key>
+    <array><string>ABCDE12345.*</string></array>
+    <key>get-task-allow</key>
+    <false/>
+    <key>aps-environment</key>
+    <string>production</string>
+    <key>com.apple.developer.associated-domains</key>
+    <string>*</string>
+    <key>com.apple.security.application-groups</key>
+    <array><string>group.com.acme.shop</string></array>`;
+
+const entitlementsPlist = (entries: string): string => `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+${entries}
+</dict>
+</plist>
+`;
+
+describe('ProvisioningAnalyzer', () => {
+  let analyzer: ProvisioningAnalyzer;
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'provisioning-analyzer-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    analyzer = new ProvisioningAnalyzer();
+  });
+
+  /**
+   * Write a bundle with an embedded profile and entitlements, and return
+   * the artifact project describing it
+   */
+  async function artifactProject(
+    name: string,
+    files: { profile?: string | Buffer; entitlements?: string }
+  ): Promise<XcodeProject> {
+    const bundlePath = path.join(tempDir, name, 'Shop.app');
+    await fs.mkdir(bundlePath, { recursive: true });
+
+    const target: XcodeTarget = {
+      name: 'Shop',
+      type: 'application',
+      bundleIdentifier: 'com.acme.shop',
+      sourceFiles: [],
+      bundlePath,
+    };
+    if (files.profile !== undefined) {
+      target.provisioningProfilePath = path.join(bundlePath, 'embedded.mobileprovision');
+      await fs.writeFile(
+        target.provisioningProfilePath,
+        typeof files.profile === 'string' ? buildProfile(files.profile) : files.profile
+      );
+    }
+    if (files.entitlements !== undefined) {
+      target.entitlementsPath = path.join(bundlePath, 'archived-expanded-entitlements.xcent');
+      await fs.writeFile(target.entitlementsPath, entitlementsPlist(files.entitlements));
+    }
+
+    return {
+      path: path.join(tempDir, name, 'Shop.ipa'),
+      name: 'Shop',
+      targets: [target],
+      configurations: [],
+      artifact: { kind: 'ipa', path: path.join(tempDir, name, 'Shop.ipa'), appPath: bundlePath, frameworks: [] },
+    };
+  }
+
+  it('should pass an App Store profile that grants every entitlement', async () => {
+    const project = await artifactProject('valid', {
+      profile: profilePlist({ entitlements: APP_STORE_ENTITLEMENTS }),
+      entitlements: `  <key>application-identifier</key>
+  <string>ABCDE12345.com.acme.shop</string>
+  <key>keychain-access-groups</key>
+  <array><string>$(AppIdentifierPrefix)com.acme.shop</string></array>
+  <key>aps-environment</key>
+  <string>production</string>
+  <key>com.apple.developer.associated-domains</key>
+  <array><string>applinks:acme.com</string></array>
+  <key>get-task-allow</key>
+  <false/>`,
+    });
+
+    const result = await analyzer.analyze(project, { basePath: tempDir });
+
+    expect(result.issues).toEqual([]);
+    expect(result.passed).toBe(true);
+    expect(result.analyzer).toBe('Provisioning Profile Analyzer');
+  });
+
+  it('should flag development profiles', async () => {
+    const project = await artifactProject('development', {
+      profile: profilePlist({
+        entitlements: '    <key>get-task-allow</key>\n    <true/>',
+        devices: true,
+      }),
+    });
+
+    const result = await analyzer.analyze(project, { basePath: tempDir });
+
+    const issue = result.issues.find((i) => i.id === 'provisioning-development-profile');
+    expect(issue?.severity).toBe('error');
+    expect(issue?.description).toContain('1 provisioned device');
+    expect(result.passed).toBe(false);
+  });
+
+  it('should flag ad hoc profiles', async () => {
+    const project = await artifactProject('adhoc', {
+      profile: profilePlist({ entitlements: '    <key>get-task-allow</key>\n    <false/>', devices: true }),
+    });
+
+    const result = await analyzer.analyze(project, { basePath: tempDir });
+
+    expect(result.issues.map((i) => [i.id, i.title])).toEqual([
+      ['provisioning-non-app-store-profile', 'Ad hoc provisioning profile'],
+    ]);
+  });
+
+  it('should flag expired and expiring profiles', async () => {
+    const project = await artifactProject('expired', {
+      profile: profilePlist({ entitlements: '', expires: new Date('2024-03-01T00:00:00Z') }),
+    });
+
+    const result = await analyzer.analyze(project, { basePath: tempDir });
+    const expired = result.issues.find((i) => i.id === 'provisioning-profile-expired');
+    expect(expired?.description).toContain('expired on 2024-03-01');
+
+    const expiring = analyzer.checkProfile(
+      {
+        entitlements: {},
+        provisionedDevices: [],
+        provisionsAllDevices: false,
+        getTaskAllow: false,
+        distributionType: 'app-store',
+        platforms: [],
+        expirationDate: new Date('2026-11-01T00:00:00Z'),
+      },
+      '/profile.mobileprovision',
+      new Date('2026-10-20T00:00:00Z')
+    );
+    expect(expiring.map((i) => [i.id, i.severity])).toEqual([['provisioning-profile-expiring', 'warning']]);
+    expect(expiring[0]?.description).toContain('in 12 day(s)');
+  });
+
+  it('should flag entitlements missing from or not allowed by the profile', async () => {
+    const project = await artifactProject('missing', {
+      profile: profilePlist({ entitlements: APP_STORE_ENTITLEMENTS }),
+      entitlements: `  <key>com.apple.developer.healthkit</key>
+  <true/>
+  <key>com.apple.security.application-groups</key>
+  <array><string>group.com.acme.shop</string><string>group.com.acme.other</string></array>
+  <key>get-task-allow</key>
+  <true/>`,
+    });
+
+    const result = await analyzer.analyze(project, { basePath: tempDir });
+
+    expect(result.issues.map((i) => [i.id, i.title])).toEqual([
+      ['provisioning-entitlement-missing', 'Entitlement not in provisioning profile: com.apple.developer.healthkit'],
+      [
+        'provisioning-entitlement-mismatch',
+        'Entitlement value not allowed by provisioning profile: com.apple.security.application-groups',
+      ],
+      ['provisioning-entitlement-mismatch', 'Entitlement value not allowed by provisioning profile: get-task-allow'],
+    ]);
+    expect(result.issues[0]?.filePath).toBe(project.targets[0]!.entitlementsPath);
+  });
+
+  it('should flag aps-environment mismatches', async () => {
+    const project = await artifactProject('aps', {
+      profile: profilePlist({ entitlements: APP_STORE_ENTITLEMENTS }),
+      entitlements: '  <key>aps-environment</key>\n  <string>development</string>',
+    });
+
+    const result = await analyzer.analyze(project, { basePath: tempDir });
+
+    expect(result.issues.map((i) => i.id)).toEqual(['provisioning-aps-environment-mismatch']);
+    expect(result.issues[0]?.description).toContain('grants "production"');
+  });
+
+  it('should flag artifacts without an embedded profile and unreadable profiles', async () => {
+    const missing = await artifactProject('no-profile', {});
+    const broken = await artifactProject('broken', { profile: Buffer.from('garbage') });
+
+    const missingResult = await analyzer.analyze(missing, { basePath: tempDir });
+    const brokenResult = await analyzer.analyze(broken, { basePath: tempDir });
+
+    expect(missingResult.issues.map((i) => i.id)).toEqual(['provisioning-profile-missing']);
+    expect(brokenResult.issues.map((i) => i.id)).toEqual(['provisioning-profile-parse-error']);
+  });
+
+  it('should expand build settings and skip automatically signed source targets', async () => {
+    const entitlementsPath = path.join(tempDir, 'Shop.entitlements');
+    await fs.writeFile(
+      entitlementsPath,
+      entitlementsPlist(
+        '  <key>keychain-access-groups</key>\n  <array><string>$(AppIdentifierPrefix)com.acme.shop</string></array>'
+      )
+    );
+
+    const project: XcodeProject = {
+      path: path.join(tempDir, 'Shop.xcodeproj'),
+      name: 'Shop',
+      targets: [
+        {
+          name: 'Shop',
+          type: 'application',
+          sourceFiles: [],
+          entitlementsPath,
+          configuration: 'Release',
+          buildConfigurations: {
+            Release: { name: 'Release', buildSettings: { CODE_SIGN_STYLE: 'Automatic' } },
+          },
+        },
+      ],
+      configurations: ['Debug', 'Release'],
+    };
+
+    const result = await analyzer.analyze(project, { basePath: tempDir });
+
+    expect(result.issues).toEqual([]);
+  });
+});
@@ -296,5 +296,32 @@ class SecureManager {
       expect(result.analyzer).toBe('Security Analyzer');
       expect(result.passed).toBe(true);
     });
+
+    it('should scan app extension sources', async () => {
+      const subDir = path.join(tempDir, 'AnalyzeExtensionDir');
+      await fs.mkdir(subDir, { recursive: true });
+      const appFile = path.join(subDir, 'App.swift');
+      const extensionFile = path.join(subDir, 'NotificationService.swift');
+      await fs.writeFile(appFile, `import UIKit\nclass VC: UIViewController {}\n`);
+      await fs.writeFile(extensionFile, `import CommonCrypto\nCC_MD5(data, length, &digest)\n`);
+
+      const result = await analyzer.analyze(
+        {
+          ...mockProject,
+          targets: [
+            { name: 'TestApp', type: 'application', bundleIdentifier: 'com.test.app', sourceFiles: [appFile] },
+            {
+              name: 'NotificationService',
+              type: 'appExtension',
+              bundleIdentifier: 'com.test.app.notifications',
+              sourceFiles: [extensionFile],
+            },
+          ],
+        },
+        { basePath: subDir }
+      );
+
+      expect(result.issues.map((i) => [i.id, i.filePath])).toEqual([['security-md5', extensionFile]]);
+    });
   });
 });
@@ -0,0 +1,110 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  SOURCE_EXTENSIONS,
+  readSourceLines,
+  findSourceLine,
+  linkedTargets,
+  filesOf,
+  findAppFiles,
+  findDependency,
+  findInFilesWith,
+  findInText,
+} from '../../src/analyzers/shared.js';
+import type { XcodeProject } from '../../src/types/index.js';
+
+describe('shared analyzer helpers', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'shared-helpers-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('findSourceLine', () => {
+    it('should return the first matching line outside comments', async () => {
+      const filePath = path.join(tempDir, 'Login.swift');
+      await fs.writeFile(filePath, '// GIDSignIn is configured below\n/*\n * GIDSignIn\n */\nGIDSignIn.sharedInstance.signIn()\n');
+
+      const lines = await readSourceLines([filePath, path.join(tempDir, 'Missing.swift')]);
+
+      expect(lines.size).toBe(1);
+      expect(findSourceLine(lines, /\bGIDSignIn\b/)).toEqual({ filePath, lineNumber: 5, match: 'GIDSignIn' });
+      expect(findSourceLine(lines, /FBSDKLoginManager/)).toBeUndefined();
+    });
+  });
+
+  describe('evidence helpers', () => {
+    const project: XcodeProject = {
+      path: '/project/App.xcodeproj',
+      name: 'App',
+      targets: [
+        { name: 'App', type: 'application', sourceFiles: ['/project/App.swift', '/project/Shared.swift'], dependencies: ['Core', 'Widget'] },
+        { name: 'Core', type: 'framework', sourceFiles: ['/project/Core.swift', '/project/Shared.swift', '/project/Core.metal'] },
+        { name: 'Widget', type: 'appExtension', sourceFiles: ['/project/Widget.swift'] },
+        { name: 'AppTests', type: 'unitTest', sourceFiles: ['/project/AppTests.swift'] },
+      ],
+      configurations: ['Release'],
+    };
+
+    it('should list the source files of an app and the libraries it links once', () => {
+      const app = project.targets[0]!;
+
+      expect(filesOf(linkedTargets(project, app), (t) => t.sourceFiles, SOURCE_EXTENSIONS)).toEqual([
+        '/project/App.swift',
+        '/project/Shared.swift',
+        '/project/Core.swift',
+      ]);
+    });
+
+    it('should list the files of each app, or of the base path when no app lists any', async () => {
+      const files = await findAppFiles(project, { basePath: '/project' }, (t) => t.sourceFiles, SOURCE_EXTENSIONS);
+      expect(Array.from(files, ([app, f]) => [app.name, f])).toEqual([
+        ['App', ['/project/App.swift', '/project/Shared.swift', '/project/Core.swift']],
+      ]);
+
+      const dir = path.join(tempDir, 'folder');
+      await fs.mkdir(path.join(dir, 'AppTests'), { recursive: true });
+      await fs.writeFile(path.join(dir, 'App.swift'), 'import SwiftUI\n');
+      await fs.writeFile(path.join(dir, 'AppTests', 'AppTests.swift'), 'import XCTest\n');
+      const empty: XcodeProject = {
+        ...project,
+        targets: [{ name: 'App', type: 'application', sourceFiles: [] }],
+      };
+
+      const fallback = await findAppFiles(empty, { basePath: dir }, (t) => t.sourceFiles, SOURCE_EXTENSIONS);
+      expect(Array.from(fallback.values())).toEqual([[path.join(dir, 'App.swift')]]);
+      expect(await findAppFiles(empty, { basePath: dir, targetName: 'Missing' }, (t) => t.sourceFiles, SOURCE_EXTENSIONS))
+        .toEqual(new Map());
+    });
+
+    it('should describe where a pattern was found', async () => {
+      const upload = path.join(tempDir, 'Upload.swift');
+      const other = path.join(tempDir, 'Other.swift');
+      await fs.writeFile(other, 'ref.putData(data)\n');
+      await fs.writeFile(upload, 'let data = image.jpegData(compressionQuality: 1)\nref.putData(data)\n');
+      const lines = await readSourceLines([other, upload]);
+
+      expect(findInFilesWith(lines, /\.putData\(/, /jpegData/)).toEqual({
+        description: '.putData( in Upload.swift:2',
+        filePath: upload,
+        lineNumber: 2,
+        match: '.putData(',
+      });
+      expect(findInText([{ text: 'Tap here to create your account today', filePath: '/project/Localizable.strings', lineNumber: 3 }], /create your account/i))
+        .toEqual({
+          description: '"create your account" in Localizable.strings:3',
+          filePath: '/project/Localizable.strings',
+          lineNumber: 3,
+          match: 'create your account',
+        });
+      expect(findDependency([{ name: 'GoogleSignIn', manager: 'CocoaPods', filePath: '/project/Podfile.lock' }], /^GoogleSignIn$/))
+        .toEqual({ description: 'CocoaPods dependency GoogleSignIn', filePath: '/project/Podfile.lock', match: 'GoogleSignIn' });
+      expect(findDependency([], undefined)).toBeUndefined();
+    });
+  });
+});
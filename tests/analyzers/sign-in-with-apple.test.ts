@@ -0,0 +1,148 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { SignInWithAppleAnalyzer } from '../../src/analyzers/sign-in-with-apple.js';
+import { makeProject } from '../helpers/project.js';
+
+const GOOGLE_LOGIN = `import UIKit
+import GoogleSignIn
+
+final class LoginViewController: UIViewController {
+    @IBAction func signIn() {
+        GIDSignIn.sharedInstance.signIn(withPresenting: self) { _, _ in }
+    }
+}
+`;
+
+const APPLE_LOGIN = `import AuthenticationServices
+
+final class AppleLogin {
+    func start() {
+        let request = ASAuthorizationAppleIDProvider().createRequest()
+        ASAuthorizationController(authorizationRequests: [request]).performRequests()
+    }
+}
+`;
+
+const SIWA_ENTITLEMENTS = `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+    <key>com.apple.developer.applesignin</key>
+    <array><string>Default</string></array>
+</dict>
+</plist>`;
+
+describe('SignInWithAppleAnalyzer', () => {
+  let analyzer: SignInWithAppleAnalyzer;
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sign-in-with-apple-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    analyzer = new SignInWithAppleAnalyzer();
+  });
+
+  it('should require Sign in with Apple alongside Google Sign-In', async () => {
+    const { project, dir } = await makeProject(tempDir, 'google', { 'LoginViewController.swift': GOOGLE_LOGIN });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.passed).toBe(false);
+    expect(result.issues.map((i) => [i.id, i.severity, path.basename(i.filePath ?? ''), i.lineNumber])).toEqual([
+      ['siwa-required', 'error', 'LoginViewController.swift', 2],
+    ]);
+    expect(result.issues[0]?.title).toBe('Third-party login without Sign in with Apple: Google Sign-In');
+    expect(result.issues[0]?.guideline).toBe('Guideline 4.8 - Login Services');
+  });
+
+  it('should pass when the Sign in with Apple entitlement is present', async () => {
+    const { project, dir } = await makeProject(
+      tempDir,
+      'entitlement',
+      { 'LoginViewController.swift': GOOGLE_LOGIN },
+      { entitlements: SIWA_ENTITLEMENTS }
+    );
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should pass when Sign in with Apple is implemented in code', async () => {
+    const { project, dir } = await makeProject(tempDir, 'code', {
+      'LoginViewController.swift': GOOGLE_LOGIN,
+      'AppleLogin.swift': APPLE_LOGIN,
+    });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.passed).toBe(true);
+  });
+
+  it('should detect login SDKs from pods', async () => {
+    const { project, dir } = await makeProject(tempDir, 'pods', {});
+    await fs.writeFile(path.join(dir, 'Podfile.lock'), 'PODS:\n  - FBSDKCoreKit (17.0.0)\n  - FBSDKLoginKit (17.0.0)\n');
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues.map((i) => i.title)).toEqual(['Third-party login without Sign in with Apple: Facebook Login']);
+    expect(result.issues[0]?.description).toContain('CocoaPods dependency FBSDKLoginKit');
+    expect(result.issues[0]?.filePath).toBe(path.join(dir, 'Podfile.lock'));
+  });
+
+  it('should tell Firebase social providers from the apple.com provider', async () => {
+    const { project, dir } = await makeProject(tempDir, 'firebase', {
+      'Auth.swift': `import FirebaseAuth
+
+// let provider = OAuthProvider(providerID: "github.com")
+let apple = OAuthProvider(providerID: "apple.com")
+`,
+    });
+
+    expect((await analyzer.analyze(project, { basePath: dir })).issues).toEqual([]);
+
+    await fs.writeFile(
+      path.join(dir, 'Auth.swift'),
+      'import FirebaseAuth\n\nlet provider = OAuthProvider(providerID: "github.com")\n'
+    );
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues.map((i) => [i.title, i.lineNumber])).toEqual([
+      ['Third-party login without Sign in with Apple: Firebase Authentication social providers', 3],
+    ]);
+  });
+
+  it('should detect custom OAuth flows to social providers', async () => {
+    const { project, dir } = await makeProject(tempDir, 'oauth', {
+      'WebLogin.swift': `import AuthenticationServices
+
+let url = URL(string: "https://www.facebook.com/v19.0/dialog/oauth?client_id=123")!
+let session = ASWebAuthenticationSession(url: url, callbackURLScheme: "app") { _, _ in }
+`,
+    });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues.map((i) => i.title)).toEqual([
+      'Third-party login without Sign in with Apple: OAuth with a social provider',
+    ]);
+    expect(result.issues[0]?.description).toContain('https://www.facebook.com/v19.0/dialog/oauth in WebLogin.swift:3');
+  });
+
+  it('should pass apps without third-party login', async () => {
+    const { project, dir } = await makeProject(tempDir, 'none', {
+      'AppDelegate.swift': 'import UIKit\n\n@main\nclass AppDelegate: UIResponder, UIApplicationDelegate {}\n',
+    });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.passed).toBe(true);
+    expect(result.issues).toEqual([]);
+  });
+});
@@ -0,0 +1,121 @@
+import { ThirdPartySDKAnalyzer, isCommonlyUsedSdk } from '../../src/analyzers/third-party-sdks.js';
+import type { XcodeProject, SwiftPackage } from '../../src/types/index.js';
+
+describe('ThirdPartySDKAnalyzer', () => {
+  let analyzer: ThirdPartySDKAnalyzer;
+
+  beforeEach(() => {
+    analyzer = new ThirdPartySDKAnalyzer();
+  });
+
+  function makeProject(packages: SwiftPackage[]): XcodeProject {
+    return {
+      path: '/test/TestApp.xcodeproj',
+      name: 'TestApp',
+      targets: [
+        {
+          name: 'TestApp',
+          type: 'application',
+          sourceFiles: [],
+          packageProducts: [
+            { name: 'FirebaseAnalytics', package: 'firebase-ios-sdk' },
+            { name: 'MyKit', package: 'mykit' },
+          ],
+        },
+      ],
+      configurations: ['Debug', 'Release'],
+      packages,
+    };
+  }
+
+  it('should flag packages on the commonly used SDK list', async () => {
+    const result = await analyzer.analyze(
+      makeProject([
+        {
+          identity: 'firebase-ios-sdk',
+          location: 'https://github.com/firebase/firebase-ios-sdk',
+          kind: 'remote',
+          version: '10.24.0',
+          direct: true,
+        },
+        {
+          identity: 'googleutilities',
+          location: 'https://github.com/google/GoogleUtilities.git',
+          kind: 'remote',
+          version: '7.13.0',
+          direct: false,
+        },
+      ]),
+      { basePath: '/test' }
+    );
+
+    expect(result.passed).toBe(true);
+    expect(result.issues).toHaveLength(2);
+
+    const firebase = result.issues[0]!;
+    expect(firebase.id).toBe('commonly-used-sdk');
+    expect(firebase.severity).toBe('warning');
+    expect(firebase.title).toContain('FirebaseCore');
+    expect(firebase.description).toContain('(10.24.0)');
+    expect(firebase.description).toContain('Linked into: TestApp');
+
+    const utilities = result.issues[1]!;
+    expect(utilities.title).toContain('GoogleUtilities');
+    expect(utilities.description).toContain('transitive dependency');
+  });
+
+  it('should match by linked product name when the package identity is unknown', async () => {
+    const project = makeProject([
+      { identity: 'mykit', location: 'https://example.com/mykit.git', kind: 'remote', direct: true },
+    ]);
+    project.targets[0]!.packageProducts = [{ name: 'Kingfisher', package: 'mykit' }];
+
+    const result = await analyzer.analyze(project, { basePath: '/test' });
+
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0]!.title).toContain('Kingfisher');
+  });
+
+  it('should match OneSignal and Promises modules by linked product name', async () => {
+    const project = makeProject([
+      { identity: 'mykit', location: 'https://example.com/mykit.git', kind: 'remote', direct: true },
+    ]);
+    project.targets[0]!.packageProducts = [
+      { name: 'OneSignalOutcomes', package: 'mykit' },
+      { name: 'PromisesSwift', package: 'mykit' },
+    ];
+
+    const result = await analyzer.analyze(project, { basePath: '/test' });
+
+    expect(result.issues.map((i) => i.title)).toEqual(['Commonly used third-party SDK: OneSignalOutcomes, PromisesSwift']);
+  });
+
+  it('should list Flutter plugins for pod and framework name matching', () => {
+    expect(isCommonlyUsedSdk('path_provider')).toBe(true);
+    expect(isCommonlyUsedSdk('webview_flutter_wkwebview')).toBe(true);
+    expect(isCommonlyUsedSdk('Fluttertoast')).toBe(true);
+    expect(isCommonlyUsedSdk('OneSignalExtension')).toBe(true);
+    expect(isCommonlyUsedSdk('flutter_local_notifications')).toBe(false);
+  });
+
+  it('should ignore packages that are not on the list', async () => {
+    const result = await analyzer.analyze(
+      makeProject([
+        { identity: 'swift-log', location: 'https://github.com/apple/swift-log.git', kind: 'remote', direct: true },
+      ]),
+      { basePath: '/test' }
+    );
+
+    expect(result.issues).toHaveLength(0);
+  });
+
+  it('should pass when the project has no packages', async () => {
+    const project = makeProject([]);
+    delete project.packages;
+
+    const result = await analyzer.analyze(project, { basePath: '/test' });
+
+    expect(result.passed).toBe(true);
+    expect(result.issues).toHaveLength(0);
+  });
+});
@@ -5,11 +5,26 @@ import { UIUXAnalyzer } from '../../src/analyzers/ui-ux.js';
 import type { XcodeProject, XcodeTarget } from '../../src/types/index.js';
 
 jest.mock('../../src/parsers/plist', () => ({
+  ...jest.requireActual('../../src/parsers/plist'),
   parsePlist: jest.fn(),
 }));
 
 const mockParsePlist = jest.requireMock('../../src/parsers/plist').parsePlist as jest.Mock;
 
+/**
+ * A minimal PNG: signature, IHDR and IEND (CRCs are not checked)
+ */
+function png(width: number, height: number, alpha = false): Buffer {
+  const header = Buffer.alloc(25);
+  header.writeUInt32BE(13, 0);
+  header.write('IHDR', 4, 'latin1');
+  header.writeUInt32BE(width, 8);
+  header.writeUInt32BE(height, 12);
+  header[16] = 8;
+  header[17] = alpha ? 6 : 2;
+  return Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), header, Buffer.alloc(12)]);
+}
+
 describe('UIUXAnalyzer', () => {
   let analyzer: UIUXAnalyzer;
   let tempDir: string;
@@ -152,6 +167,110 @@ describe('UIUXAnalyzer', () => {
     });
   });
 
+  describe('asset catalog images', () => {
+    async function writeAssetSet(dir: string, images: object[], files: Record<string, Buffer>): Promise<void> {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(path.join(dir, 'Contents.json'), JSON.stringify({ images }));
+      for (const [file, content] of Object.entries(files)) {
+        await fs.writeFile(path.join(dir, file), content);
+      }
+    }
+
+    beforeEach(() => {
+      mockParsePlist.mockResolvedValue({ UILaunchStoryboardName: 'LaunchScreen' });
+    });
+
+    it('should check icon pixel sizes, alpha and missing files', async () => {
+      const basePath = path.join(tempDir, 'IconPixels');
+      await writeAssetSet(
+        path.join(basePath, 'Assets.xcassets', 'AppIcon.appiconset'),
+        [
+          { size: '1024x1024', scale: '1x', filename: 'marketing.png', idiom: 'ios-marketing' },
+          { size: '60x60', scale: '3x', filename: 'icon-180.png', idiom: 'iphone' },
+          { size: '60x60', scale: '2x', filename: 'icon-120.png', idiom: 'iphone' },
+          { size: '40x40', scale: '2x', filename: 'icon-80.png', idiom: 'iphone' },
+        ],
+        {
+          'marketing.png': png(1024, 1024, true),
+          'icon-180.png': png(120, 120),
+          'icon-120.png': png(120, 120),
+        }
+      );
+
+      const result = await analyzer.analyze(makeProject(), { basePath });
+
+      const issues = result.issues.filter((i) => !i.id.startsWith('uiux-missing-iphone-icon'));
+      expect(issues.map((i) => [i.id, path.basename(i.filePath ?? '')])).toEqual([
+        ['uiux-icon-has-alpha', 'marketing.png'],
+        ['uiux-icon-size-mismatch', 'icon-180.png'],
+        ['uiux-asset-missing-file', 'Contents.json'],
+      ]);
+      expect(issues[1]?.description).toContain('(180x180 pixels), but the image is 120x120');
+      expect(result.passed).toBe(false);
+
+      await fs.rm(basePath, { recursive: true, force: true });
+    });
+
+    it('should accept single-size icon sets for iOS 12 and later', async () => {
+      const basePath = path.join(tempDir, 'SingleSize');
+      await writeAssetSet(
+        path.join(basePath, 'Assets.xcassets', 'AppIcon.appiconset'),
+        [
+          { idiom: 'universal', platform: 'ios', size: '1024x1024', filename: 'icon.png' },
+          {
+            idiom: 'universal',
+            platform: 'ios',
+            size: '1024x1024',
+            filename: 'icon-dark.png',
+            appearances: [{ appearance: 'luminosity', value: 'dark' }],
+          },
+        ],
+        { 'icon.png': png(1024, 1024), 'icon-dark.png': png(1024, 1024, true) }
+      );
+
+      const modern = await analyzer.analyze(makeProject({ deploymentTarget: '15.0' }), { basePath });
+      expect(modern.issues).toEqual([]);
+
+      const legacy = await analyzer.analyze(makeProject({ deploymentTarget: '11.0' }), { basePath });
+      expect(legacy.issues.map((i) => i.id)).toEqual(['uiux-single-size-icon-deployment-target']);
+
+      await fs.rm(basePath, { recursive: true, force: true });
+    });
+
+    it('should check image set scales and missing files', async () => {
+      const basePath = path.join(tempDir, 'ImageSets');
+      await writeAssetSet(
+        path.join(basePath, 'Assets.xcassets', 'AppIcon.appiconset'),
+        [{ idiom: 'universal', platform: 'ios', size: '1024x1024', filename: 'icon.png' }],
+        { 'icon.png': png(1024, 1024) }
+      );
+      await writeAssetSet(
+        path.join(basePath, 'Assets.xcassets', 'logo.imageset'),
+        [
+          { idiom: 'universal', scale: '1x', filename: 'logo.png' },
+          { idiom: 'universal', scale: '2x', filename: 'logo@2x.png' },
+          { idiom: 'universal', scale: '3x', filename: 'logo@3x.png' },
+        ],
+        { 'logo.png': png(100, 40), 'logo@2x.png': png(200, 80), 'logo@3x.png': png(200, 80) }
+      );
+      await writeAssetSet(
+        path.join(basePath, 'Assets.xcassets', 'badge.imageset'),
+        [{ idiom: 'universal', filename: 'badge.pdf' }, { idiom: 'universal', scale: '2x', filename: 'gone.png' }],
+        { 'badge.pdf': Buffer.from('%PDF-1.7') }
+      );
+
+      const result = await analyzer.analyze(makeProject(), { basePath });
+
+      expect(result.issues.map((i) => [i.id, i.severity])).toEqual([
+        ['uiux-asset-missing-file', 'warning'],
+        ['uiux-image-scale-mismatch', 'warning'],
+      ]);
+      expect(result.issues[1]?.description).toContain('should be 300x120 but is 200x80');
+
+      await fs.rm(basePath, { recursive: true, force: true });
+    });
+  });
+
   describe('iPad support checks', () => {
     it('should detect missing iPad orientations', async () => {
       mockParsePlist.mockResolvedValue({
@@ -253,6 +372,63 @@ describe('UIUXAnalyzer', () => {
 
       await fs.rm(storyDir, { recursive: true, force: true });
     });
+
+    it('should check text and titles rather than element names', async () => {
+      const storyDir = path.join(tempDir, 'ElementNamesDir');
+      await fs.mkdir(storyDir, { recursive: true });
+      await fs.writeFile(
+        path.join(storyDir, 'Main.storyboard'),
+        `<?xml version="1.0" encoding="UTF-8"?>
+<document type="com.apple.InterfaceBuilder3.CocoaTouch.Storyboard.XIB">
+    <scenes>
+        <scene sceneID="a">
+            <objects>
+                <placeholder placeholderIdentifier="IBFirstResponder" id="b" sceneMemberID="firstResponder"/>
+                <textField placeholder="Email address" id="c"/>
+                <button id="d">
+                    <state key="normal" title="Button"/>
+                </button>
+            </objects>
+        </scene>
+    </scenes>
+</document>`
+      );
+
+      mockParsePlist.mockResolvedValue({
+        UILaunchStoryboardName: 'LaunchScreen',
+      });
+
+      const result = await analyzer.analyze(makeProject(), {
+        basePath: storyDir,
+      });
+
+      const placeholders = result.issues.filter((i) => i.id === 'uiux-placeholder-text');
+      expect(placeholders.map((i) => [i.description.split('`')[1], i.lineNumber])).toEqual([['Button', 9]]);
+
+      await fs.rm(storyDir, { recursive: true, force: true });
+    });
+
+    it('should check app extensions without app-level requirements', async () => {
+      const storyDir = path.join(tempDir, 'ExtensionDir');
+      await fs.mkdir(storyDir, { recursive: true });
+      await fs.writeFile(
+        path.join(storyDir, 'MainInterface.storyboard'),
+        `<?xml version="1.0" encoding="UTF-8"?>
+<document type="com.apple.InterfaceBuilder3.CocoaTouch.Storyboard.XIB">
+    <label text="Lorem ipsum dolor sit amet" id="abc-123"/>
+</document>`
+      );
+
+      mockParsePlist.mockResolvedValue({});
+
+      const result = await analyzer.analyze(makeProject({ name: 'ShareExtension', type: 'appExtension' }), {
+        basePath: storyDir,
+      });
+
+      expect(result.issues.map((i) => i.id)).toEqual(['uiux-placeholder-text']);
+
+      await fs.rm(storyDir, { recursive: true, force: true });
+    });
   });
 
   describe('accessibility checks', () => {
@@ -344,6 +520,76 @@ class ViewController: UIViewController {
     });
   });
 
+  describe('built app bundles', () => {
+    async function makeBundleProject(name: string, files: string[]): Promise<XcodeProject> {
+      const bundlePath = path.join(tempDir, name, 'Shop.app');
+      await fs.mkdir(bundlePath, { recursive: true });
+      for (const file of files) {
+        if (file.endsWith('.storyboardc')) {
+          await fs.mkdir(path.join(bundlePath, file), { recursive: true });
+        } else {
+          await fs.writeFile(path.join(bundlePath, file), '');
+        }
+      }
+      return makeProject({ infoPlistPath: path.join(bundlePath, 'Info.plist'), bundlePath });
+    }
+
+    const bundleOptions = (project: XcodeProject): { basePath: string } => ({
+      basePath: project.targets[0]!.bundlePath!,
+    });
+
+    it('should accept a compiled launch screen and asset catalog icon', async () => {
+      mockParsePlist.mockResolvedValue({
+        UILaunchStoryboardName: 'LaunchScreen',
+        CFBundleIcons: { CFBundlePrimaryIcon: { CFBundleIconName: 'AppIcon' } },
+      });
+      const project = await makeBundleProject('bundle-ok', ['Base.lproj/LaunchScreen.storyboardc', 'Assets.car']);
+
+      const result = await analyzer.analyze(project, bundleOptions(project));
+
+      expect(result.issues).toEqual([]);
+    });
+
+    it('should report a launch storyboard missing from the bundle', async () => {
+      mockParsePlist.mockResolvedValue({
+        UILaunchStoryboardName: 'LaunchScreen',
+        CFBundleIcons: { CFBundlePrimaryIcon: { CFBundleIconFiles: ['AppIcon60x60'] } },
+      });
+      const project = await makeBundleProject('bundle-no-launch', []);
+
+      const result = await analyzer.analyze(project, bundleOptions(project));
+
+      expect(result.issues.map((i) => i.id)).toEqual(['uiux-no-launch-screen']);
+      expect(result.issues[0]!.description).toContain('LaunchScreen.storyboardc');
+    });
+
+    it('should report missing icons and an uncompiled asset catalog', async () => {
+      mockParsePlist.mockResolvedValue({
+        UILaunchScreen: {},
+        UIDeviceFamily: [1, 2],
+        UISupportedInterfaceOrientations: [
+          'UIInterfaceOrientationPortrait',
+          'UIInterfaceOrientationPortraitUpsideDown',
+          'UIInterfaceOrientationLandscapeLeft',
+          'UIInterfaceOrientationLandscapeRight',
+        ],
+        CFBundleIcons: { CFBundlePrimaryIcon: { CFBundleIconName: 'AppIcon' } },
+      });
+      const project = await makeBundleProject('bundle-no-car', []);
+
+      const result = await analyzer.analyze(project, bundleOptions(project));
+
+      expect(result.issues.map((i) => i.id)).toEqual(['uiux-missing-asset-catalog']);
+
+      mockParsePlist.mockResolvedValue({ UILaunchScreen: {}, UIDeviceFamily: [1, 2] });
+      const noIcons = await analyzer.analyze(project, bundleOptions(project));
+
+      expect(noIcons.issues.map((i) => i.id)).toEqual(
+        expect.arrayContaining(['uiux-no-app-icon', 'uiux-missing-ipad-icon'])
+      );
+    });
+  });
+
   describe('validateProject', () => {
     it('should work with direct project path', async () => {
       mockParsePlist.mockResolvedValue({
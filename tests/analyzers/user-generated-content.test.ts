@@ -0,0 +1,155 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { UserGeneratedContentAnalyzer } from '../../src/analyzers/user-generated-content.js';
+import { makeProject } from '../helpers/project.js';
+
+const COMMENTS = `import Foundation
+
+final class CommentService {
+    func addComment(_ text: String, to postID: String) async throws {
+        var request = URLRequest(url: URL(string: "https://api.example.com/v1/comments")!)
+        request.httpMethod = "POST"
+        request.httpBody = try JSONEncoder().encode(["post": postID, "text": text])
+        _ = try await URLSession.shared.data(for: request)
+    }
+}
+`;
+
+const SAFEGUARDS = `import Foundation
+
+final class ModerationService {
+    func reportPost(_ id: String) async throws {}
+    func blockUser(_ id: String) async throws {}
+    func isAllowed(_ text: String) -> Bool { !ProfanityFilter.shared.contains(text) }
+}
+`;
+
+describe('UserGeneratedContentAnalyzer', () => {
+  let analyzer: UserGeneratedContentAnalyzer;
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ugc-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    analyzer = new UserGeneratedContentAnalyzer();
+  });
+
+  it('should warn about each missing safeguard', async () => {
+    const { project, dir } = await makeProject(tempDir, 'missing', { 'CommentService.swift': COMMENTS });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.passed).toBe(true);
+    expect(result.issues.map((i) => [i.id, i.severity, path.basename(i.filePath ?? ''), i.lineNumber])).toEqual([
+      ['ugc-missing-report', 'warning', 'CommentService.swift', 4],
+      ['ugc-missing-block', 'warning', 'CommentService.swift', 4],
+      ['ugc-missing-filter', 'warning', 'CommentService.swift', 4],
+    ]);
+    expect(result.issues[0]?.description).toContain('posting content: addComment( in CommentService.swift:4');
+    expect(result.issues[0]?.guideline).toBe('Guideline 1.2 - User Generated Content');
+    expect(result.issues[0]?.category).toBe('user-generated-content');
+  });
+
+  it('should detect chat SDKs and posting endpoints', async () => {
+    const { project, dir } = await makeProject(tempDir, 'chat', {
+      'Feed.swift': `import Alamofire
+
+func publish(_ body: [String: String]) {
+    AF.request("https://api.example.com/posts", method: .post, parameters: body)
+}
+`,
+    });
+    await fs.writeFile(path.join(dir, 'Podfile.lock'), 'PODS:\n  - StreamChat (4.50.0)\n');
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues).toHaveLength(3);
+    expect(result.issues[0]?.description).toContain(
+      'Stream Chat: CocoaPods dependency StreamChat; posting content: "https://api.example.com/posts" in Feed.swift:4'
+    );
+    expect(path.basename(result.issues[0]?.filePath ?? '')).toBe('Podfile.lock');
+  });
+
+  it('should detect image uploads only alongside image data', async () => {
+    const upload = await makeProject(tempDir, 'upload', {
+      'AvatarUploader.swift': `import FirebaseStorage
+
+func upload(_ image: UIImage, to ref: StorageReference) async throws {
+    guard let data = image.jpegData(compressionQuality: 0.8) else { return }
+    _ = try await ref.putDataAsync(data)
+    _ = ref.putData(data)
+}
+`,
+    });
+    const backup = await makeProject(tempDir, 'backup', {
+      'Backup.swift': 'func backup(_ data: Data, to ref: StorageReference) {\n    ref.putData(data)\n}\n',
+    });
+
+    const result = await analyzer.analyze(upload.project, { basePath: upload.dir });
+
+    expect(result.issues[0]?.description).toContain('image upload: .putData( in AvatarUploader.swift:6');
+    expect((await analyzer.analyze(backup.project, { basePath: backup.dir })).issues).toEqual([]);
+  });
+
+  it('should accept report, block and filter mechanisms in code', async () => {
+    const { project, dir } = await makeProject(tempDir, 'safeguards', {
+      'CommentService.swift': COMMENTS,
+      'ModerationService.swift': SAFEGUARDS,
+    });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should accept "Report" and "Block user" text in storyboards and strings tables', async () => {
+    const { project, dir } = await makeProject(
+      tempDir,
+      'text',
+      {
+        'CommentService.swift': COMMENTS,
+        'Moderation.swift': 'let request = ["model": "omni-moderation-latest", "url": "https://api.openai.com/v1/moderations"]\n',
+      },
+      {
+        resources: {
+          'Base.lproj/Comment.storyboard': `<document type="com.apple.InterfaceBuilder3.CocoaTouch.Storyboard.XIB">
+    <scenes><scene sceneID="a"><objects><button title="Report" id="b"/></objects></scene></scenes>
+</document>`,
+          'en.lproj/Localizable.strings': '"profile.block" = "Block this user";\n',
+        },
+      }
+    );
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should not count commented-out safeguards', async () => {
+    const { project, dir } = await makeProject(tempDir, 'commented', {
+      'CommentService.swift': `${COMMENTS}// TODO: reportPost(id) and blockUser(id)\n`,
+      'ModerationService.swift': 'func isAllowed(_ text: String) -> Bool { !bannedWords.contains(text) }\n',
+    });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues.map((i) => i.id)).toEqual(['ugc-missing-report', 'ugc-missing-block']);
+  });
+
+  it('should pass apps without user-generated content', async () => {
+    const { project, dir } = await makeProject(tempDir, 'none', {
+      'ContentView.swift': 'import SwiftUI\n\nstruct ContentView: View {\n    var body: some View { Text("Hello") }\n}\n',
+    });
+
+    const result = await analyzer.analyze(project, { basePath: dir });
+
+    expect(result.issues).toEqual([]);
+  });
+});
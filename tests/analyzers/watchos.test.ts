@@ -0,0 +1,266 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { WatchOSAnalyzer } from '../../src/analyzers/watchos.js';
+import { makeProject, writeFile } from '../helpers/project.js';
+import type { XcodeProject, XcodeTarget } from '../../src/types/index.js';
+
+function plistXml(entries: Record<string, string | boolean>, extra = ''): string {
+  const keys = Object.entries(entries)
+    .map(([key, value]) =>
+      typeof value === 'boolean'
+        ? `  <key>${key}</key>\n  <${value}/>`
+        : `  <key>${key}</key>\n  <string>${value}</string>`
+    )
+    .join('\n');
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+${keys}
+${extra}
+</dict>
+</plist>`;
+}
+
+const VERSION_KEYS = {
+  CFBundleIdentifier: '$(PRODUCT_BUNDLE_IDENTIFIER)',
+  CFBundleShortVersionString: '$(MARKETING_VERSION)',
+  CFBundleVersion: '$(CURRENT_PROJECT_VERSION)',
+};
+
+const IOS_SETTINGS = {
+  PRODUCT_BUNDLE_IDENTIFIER: 'com.acme.shop',
+  MARKETING_VERSION: '3.0',
+  CURRENT_PROJECT_VERSION: '7',
+};
+
+const WATCH_SETTINGS = {
+  ...IOS_SETTINGS,
+  PRODUCT_BUNDLE_IDENTIFIER: 'com.acme.shop.watchkitapp',
+};
+
+function target(
+  name: string,
+  type: XcodeTarget['type'],
+  infoPlistPath: string | undefined,
+  buildSettings: Record<string, string>,
+  extra: Partial<XcodeTarget> = {}
+): XcodeTarget {
+  return {
+    name,
+    type,
+    infoPlistPath,
+    sourceFiles: [],
+    configuration: 'Release',
+    buildConfigurations: { Release: { name: 'Release', buildSettings } },
+    ...extra,
+  };
+}
+
+describe('WatchOSAnalyzer', () => {
+  let analyzer: WatchOSAnalyzer;
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'watchos-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    analyzer = new WatchOSAnalyzer();
+  });
+
+  async function writeIconSet(dir: string, images: object[]): Promise<string> {
+    await writeFile(dir, 'Assets.xcassets/AppIcon.appiconset/Contents.json', JSON.stringify({ images }));
+    return path.join(dir, 'Assets.xcassets');
+  }
+
+  /**
+   * An iOS app embedding a single-target watch app, with the watch
+   * Info.plist given
+   */
+  async function makeWatchProject(
+    name: string,
+    watchPlist: Record<string, string | boolean>,
+    watchSettings: Record<string, string> = WATCH_SETTINGS,
+    watchExtra: Partial<XcodeTarget> = {}
+  ): Promise<XcodeProject> {
+    const { project, dir } = await makeProject(tempDir, name, {}, {
+      infoPlist: plistXml(VERSION_KEYS),
+      buildSettings: IOS_SETTINGS,
+    });
+    const watchInfoPlist = await writeFile(dir, 'Watch-Info.plist', plistXml({ ...VERSION_KEYS, ...watchPlist }));
+    const catalog = await writeIconSet(dir, [
+      { idiom: 'universal', platform: 'watchos', size: '1024x1024', filename: 'icon.png' },
+    ]);
+
+    project.targets[0]!.dependencies = ['ShopWatch'];
+    project.targets.push(
+      target('ShopWatch', 'watchApp', watchInfoPlist, watchSettings, {
+        deploymentTarget: '10.0',
+        resourceFiles: [catalog],
+        ...watchExtra,
+      })
+    );
+    return project;
+  }
+
+  it('should pass a consistent companion watch app', async () => {
+    const project = await makeWatchProject('valid', {
+      WKApplication: true,
+      WKCompanionAppBundleIdentifier: 'com.acme.shop',
+    });
+
+    const result = await analyzer.analyze(project, { basePath: tempDir });
+
+    expect(result.passed).toBe(true);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should ignore projects without watch targets', async () => {
+    const project = await makeWatchProject('no-watch', {});
+    project.targets = project.targets.slice(0, 1);
+
+    const result = await analyzer.analyze(project, { basePath: tempDir });
+
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should check the companion bundle ID, bundle ID prefix and versions', async () => {
+    const project = await makeWatchProject(
+      'mismatch',
+      { WKApplication: true, WKCompanionAppBundleIdentifier: 'com.acme.shopapp' },
+      { PRODUCT_BUNDLE_IDENTIFIER: 'com.acme.watch', MARKETING_VERSION: '3.0', CURRENT_PROJECT_VERSION: '6' }
+    );
+
+    const result = await analyzer.analyze(project, { basePath: tempDir });
+
+    expect(result.passed).toBe(false);
+    expect(result.issues.map((i) => i.id)).toEqual([
+      'watch-companion-bundle-id-mismatch',
+      'watch-bundle-id-prefix',
+      'watch-cfbundleversion-mismatch',
+    ]);
+    expect(result.issues.every((i) => i.category === 'watchos')).toBe(true);
+  });
+
+  it('should require the app type and companion keys', async () => {
+    const project = await makeWatchProject('missing-keys', {});
+
+    const result = await analyzer.analyze(project, { basePath: tempDir });
+
+    expect(result.issues.map((i) => i.id)).toEqual([
+      'watch-missing-app-type',
+      'watch-missing-companion-bundle-id',
+    ]);
+    expect(result.issues[1]?.suggestion).toContain('"com.acme.shop"');
+  });
+
+  it('should read keys from generated Info.plist build settings', async () => {
+    const project = await makeWatchProject(
+      'generated',
+      {},
+      {
+        ...WATCH_SETTINGS,
+        GENERATE_INFOPLIST_FILE: 'YES',
+        INFOPLIST_KEY_WKCompanionAppBundleIdentifier: 'com.acme.shop',
+      },
+      { deploymentTarget: '6.2' }
+    );
+
+    const result = await analyzer.analyze(project, { basePath: tempDir });
+
+    expect(result.issues.map((i) => i.id)).toEqual(['watch-deployment-target-too-low']);
+  });
+
+  it('should flag watch-only apps that name a companion', async () => {
+    const project = await makeWatchProject('watch-only', {
+      WKApplication: true,
+      WKWatchOnly: true,
+      WKCompanionAppBundleIdentifier: 'com.acme.shop',
+    });
+
+    const result = await analyzer.analyze(project, { basePath: tempDir });
+
+    expect(result.issues.map((i) => [i.id, i.severity])).toEqual([['watch-only-with-companion', 'warning']]);
+  });
+
+  it('should catch iOS deployment targets on watch targets', async () => {
+    const project = await makeWatchProject(
+      'ios-version',
+      { WKApplication: true, WKCompanionAppBundleIdentifier: 'com.acme.shop' },
+      WATCH_SETTINGS,
+      { deploymentTarget: '17.0' }
+    );
+
+    const result = await analyzer.analyze(project, { basePath: tempDir });
+
+    expect(result.issues.map((i) => i.id)).toEqual(['watch-invalid-deployment-target']);
+    expect(result.issues[0]?.description).toContain('watchOS 17.0');
+  });
+
+  it('should check the watch app icon set', async () => {
+    const project = await makeWatchProject('icons', {
+      WKApplication: true,
+      WKCompanionAppBundleIdentifier: 'com.acme.shop',
+    });
+    await writeIconSet(path.join(tempDir, 'icons'), [
+      { idiom: 'watch', role: 'notificationCenter', size: '24x24', scale: '2x', subtype: '38mm' },
+      { idiom: 'watch', role: 'appLauncher', size: '40x40', scale: '2x', filename: 'launcher.png' },
+    ]);
+
+    const result = await analyzer.analyze(project, { basePath: tempDir });
+
+    expect(result.issues.map((i) => i.id)).toEqual([
+      'watch-missing-marketing-icon',
+      'watch-incomplete-icon-set',
+    ]);
+    expect(result.issues[1]?.description).toContain('24x24@2x (38mm)');
+
+    project.targets[1]!.resourceFiles = [];
+    const missing = await analyzer.analyze(project, { basePath: tempDir });
+    expect(missing.issues.map((i) => i.id)).toEqual(['watch-missing-app-icon']);
+  });
+
+  it('should check WatchKit extensions against their watch app', async () => {
+    const project = await makeWatchProject('extension', {
+      WKWatchKitApp: true,
+      WKCompanionAppBundleIdentifier: 'com.acme.shop',
+    });
+    const plistPath = path.join(tempDir, 'extension', 'Extension-Info.plist');
+    await fs.writeFile(
+      plistPath,
+      plistXml(
+        VERSION_KEYS,
+        `  <key>NSExtension</key>
+  <dict>
+    <key>NSExtensionPointIdentifier</key>
+    <string>com.apple.watchkit</string>
+    <key>NSExtensionAttributes</key>
+    <dict>
+      <key>WKAppBundleIdentifier</key>
+      <string>com.acme.shop.watch</string>
+    </dict>
+  </dict>`
+      )
+    );
+    project.targets[1]!.dependencies = ['ShopWatchExtension'];
+    project.targets.push(
+      target('ShopWatchExtension', 'watchExtension', plistPath, {
+        ...WATCH_SETTINGS,
+        PRODUCT_BUNDLE_IDENTIFIER: 'com.acme.shop.watchkitapp.extension',
+        MARKETING_VERSION: '2.9',
+      })
+    );
+
+    const result = await analyzer.analyze(project, { basePath: tempDir, targetName: 'ShopWatchExtension' });
+
+    expect(result.issues.map((i) => i.id)).toEqual([
+      'watch-extension-app-bundle-id-mismatch',
+      'watch-cfbundleshortversionstring-mismatch',
+    ]);
+  });
+});
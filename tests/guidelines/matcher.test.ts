@@ -56,6 +56,65 @@ describe('GuidelineMatcher', () => {
       expect(matches[0].title).toBe('Security');
     });
 
+    it('should map siwa-required to guideline 4.8', () => {
+      const issue: Issue = {
+        id: 'siwa-required',
+        title: 'Third-party login without Sign in with Apple',
+        description: 'Description',
+        severity: 'error',
+        category: 'authentication',
+      };
+
+      const matches = matcher.matchIssue(issue);
+
+      expect(matches.map((m) => [m.section, m.title])).toEqual([['4.8', 'Login Services']]);
+    });
+
+    it('should map dynamic-code-hot-patching to guideline 2.5.2', () => {
+      const issue: Issue = {
+        id: 'dynamic-code-hot-patching',
+        title: 'Hot-patching framework: JSPatch',
+        description: 'Description',
+        severity: 'error',
+        category: 'code',
+      };
+
+      const matches = matcher.matchIssue(issue);
+
+      expect(matches.map((m) => [m.section, m.title])).toEqual([['2.5.2', 'Self-Contained Bundles']]);
+    });
+
+    it('should map payments-missing-restore to guidelines 3.1.1 and 3.1.2', () => {
+      const issue: Issue = {
+        id: 'payments-missing-restore',
+        title: 'In-app purchases without restore support',
+        description: 'Description',
+        severity: 'warning',
+        category: 'iap',
+      };
+
+      const matches = matcher.matchIssue(issue);
+
+      expect(matches.map((m) => [m.section, m.title])).toEqual([
+        ['3.1.1', 'In-App Purchase'],
+        ['3.1.2', 'Subscriptions'],
+      ]);
+    });
+
+    it('should map ugc-missing-report to guideline 1.2', () => {
+      const issue: Issue = {
+        id: 'ugc-missing-report',
+        title: 'User-generated content without a way to report it',
+        description: 'Description',
+        severity: 'warning',
+        category: 'user-generated-content',
+      };
+
+      const matches = matcher.matchIssue(issue);
+
+      expect(matches.map((m) => [m.section, m.title])).toEqual([['1.2', 'User Generated Content']]);
+    });
+
     it('should parse section from guideline string as fallback', () => {
       const issue: Issue = {
         id: 'some-unmapped-issue',
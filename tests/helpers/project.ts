@@ -0,0 +1,79 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { XcodeProject, XcodeTarget } from '../../src/types/index.js';
+
+/**
+ * Write a file relative to a directory, creating its folders, and return its
+ * absolute path
+ */
+export async function writeFile(dir: string, file: string, content: string): Promise<string> {
+  const filePath = path.join(dir, file);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content);
+  return filePath;
+}
+
+/**
+ * Write files relative to a directory and return their absolute paths
+ */
+export async function writeFiles(dir: string, files: Record<string, string>): Promise<string[]> {
+  const paths: string[] = [];
+  for (const [file, content] of Object.entries(files)) {
+    paths.push(await writeFile(dir, file, content));
+  }
+  return paths;
+}
+
+/**
+ * Files of the "App" target of a project made with makeAppProject
+ */
+export interface AppProjectFiles {
+  sources?: Record<string, string>;
+  resources?: Record<string, string>;
+  infoPlist?: string | undefined;
+  entitlements?: string | undefined;
+  /** Release build settings of the target */
+  buildSettings?: Record<string, string>;
+}
+
+/**
+ * A project with a single "App" application target whose sources,
+ * resources, Info.plist and entitlements are written to a directory
+ */
+export async function makeAppProject(dir: string, files: AppProjectFiles = {}): Promise<XcodeProject> {
+  await fs.mkdir(dir, { recursive: true });
+  const target: XcodeTarget = {
+    name: 'App',
+    type: 'application',
+    sourceFiles: await writeFiles(dir, files.sources ?? {}),
+    resourceFiles: await writeFiles(dir, files.resources ?? {}),
+    infoPlistPath: files.infoPlist === undefined ? undefined : await writeFile(dir, 'Info.plist', files.infoPlist),
+    entitlementsPath:
+      files.entitlements === undefined ? undefined : await writeFile(dir, 'App.entitlements', files.entitlements),
+  };
+  if (files.buildSettings) {
+    target.configuration = 'Release';
+    target.buildConfigurations = { Release: { name: 'Release', buildSettings: files.buildSettings } };
+  }
+
+  return {
+    path: path.join(dir, 'App.xcodeproj'),
+    name: 'App',
+    targets: [target],
+    configurations: ['Release'],
+  };
+}
+
+/**
+ * An app project with the given sources written to its own directory under a
+ * temporary directory, with that directory to use as the analysis base path
+ */
+export async function makeProject(
+  tempDir: string,
+  name: string,
+  sources: Record<string, string>,
+  files: Omit<AppProjectFiles, 'sources'> = {}
+): Promise<{ project: XcodeProject; dir: string }> {
+  const dir = path.join(tempDir, name);
+  return { dir, project: await makeAppProject(dir, { ...files, sources }) };
+}
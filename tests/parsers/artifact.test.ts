@@ -0,0 +1,258 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { parseAppArtifact, isAppArtifactPath } from '../../src/parsers/artifact.js';
+
+const infoPlist = (entries: Record<string, string>): string => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+${Object.entries(entries)
+  .map(([key, value]) => `  <key>${key}</key>\n  <string>${value}</string>`)
+  .join('\n')}
+</dict>
+</plist>
+`;
+
+const ENTITLEMENTS = `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+  <key>get-task-allow</key>
+  <true/>
+</dict>
+</plist>
+`;
+
+/**
+ * A minimal arm64 executable whose code signature carries an entitlements blob
+ */
+function signedBinary(entitlements: string): Buffer {
+  const xml = Buffer.from(entitlements);
+  const header = Buffer.alloc(32 + 16);
+  header.writeUInt32LE(0xfeedfacf, 0);
+  header.writeUInt32LE(0x0100000c, 4);
+  header.writeUInt32LE(2, 12);
+  header.writeUInt32LE(1, 16);
+  header.writeUInt32LE(16, 20);
+  // LC_CODE_SIGNATURE
+  header.writeUInt32LE(0x1d, 32);
+  header.writeUInt32LE(16, 36);
+  header.writeUInt32LE(header.length, 40);
+  header.writeUInt32LE(20 + 8 + xml.length, 44);
+
+  const superBlob = Buffer.alloc(20 + 8);
+  superBlob.writeUInt32BE(0xfade0cc0, 0);
+  superBlob.writeUInt32BE(superBlob.length + xml.length, 4);
+  superBlob.writeUInt32BE(1, 8);
+  superBlob.writeUInt32BE(5, 12);
+  superBlob.writeUInt32BE(20, 16);
+  superBlob.writeUInt32BE(0xfade7171, 20);
+  superBlob.writeUInt32BE(xml.length + 8, 24);
+  return Buffer.concat([header, superBlob, xml]);
+}
+
+/**
+ * Minimal stored-only ZIP writer used to build .ipa fixtures
+ */
+function buildZip(files: Record<string, Buffer | string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [entryName, content] of Object.entries(files)) {
+    const name = Buffer.from(entryName);
+    const data = Buffer.from(content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 8);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, eocd]);
+}
+
+describe('parseAppArtifact', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'artifact-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should recognize artifact paths', () => {
+    expect(isAppArtifactPath('/builds/App.ipa')).toBe(true);
+    expect(isAppArtifactPath('/builds/App.xcarchive')).toBe(true);
+    expect(isAppArtifactPath('/src/App.xcodeproj')).toBe(false);
+  });
+
+  describe('.xcarchive', () => {
+    let archive: string;
+    let appPath: string;
+
+    beforeAll(async () => {
+      archive = path.join(tempDir, 'Shop 2024-10-01.xcarchive');
+      appPath = path.join(archive, 'Products', 'Applications', 'Shop.app');
+      const widget = path.join(appPath, 'PlugIns', 'ShopWidget.appex');
+
+      await fs.mkdir(path.join(appPath, 'Frameworks', 'Lottie.framework'), { recursive: true });
+      await fs.mkdir(path.join(appPath, 'Base.lproj', 'LaunchScreen.storyboardc'), { recursive: true });
+      await fs.mkdir(widget, { recursive: true });
+      await fs.writeFile(
+        path.join(appPath, 'Info.plist'),
+        infoPlist({
+          CFBundleName: 'Shop',
+          CFBundleExecutable: 'Shop',
+          CFBundleIdentifier: 'com.acme.shop',
+          MinimumOSVersion: '16.0',
+        })
+      );
+      await fs.writeFile(path.join(appPath, 'Shop'), 'binary');
+      await fs.writeFile(path.join(appPath, 'Assets.car'), 'car');
+      await fs.writeFile(path.join(appPath, 'embedded.mobileprovision'), 'profile');
+      await fs.writeFile(path.join(appPath, 'archived-expanded-entitlements.xcent'), ENTITLEMENTS);
+      await fs.writeFile(
+        path.join(widget, 'Info.plist'),
+        infoPlist({ CFBundleExecutable: 'ShopWidget', CFBundleIdentifier: 'com.acme.shop.widget' })
+      );
+      await fs.writeFile(path.join(widget, 'ShopWidget'), signedBinary(ENTITLEMENTS));
+
+      const appClip = path.join(appPath, 'AppClips', 'ShopClip.app');
+      await fs.mkdir(appClip, { recursive: true });
+      await fs.writeFile(
+        path.join(appClip, 'Info.plist'),
+        infoPlist({ CFBundleExecutable: 'ShopClip', CFBundleIdentifier: 'com.acme.shop.Clip' })
+      );
+
+      const watchApp = path.join(appPath, 'Watch', 'ShopWatch.app');
+      await fs.mkdir(path.join(watchApp, 'PlugIns', 'ShopWatchExtension.appex'), { recursive: true });
+      await fs.writeFile(
+        path.join(watchApp, 'Info.plist'),
+        infoPlist({ CFBundleExecutable: 'ShopWatch', CFBundleIdentifier: 'com.acme.shop.watchkitapp' })
+      );
+      await fs.writeFile(
+        path.join(watchApp, 'PlugIns', 'ShopWatchExtension.appex', 'Info.plist'),
+        infoPlist({
+          CFBundleExecutable: 'ShopWatchExtension',
+          CFBundleIdentifier: 'com.acme.shop.watchkitapp.watchkitextension',
+        })
+      );
+    });
+
+    it('should describe the app and its extensions as targets', async () => {
+      const artifact = await parseAppArtifact(archive);
+      try {
+        const { project } = artifact;
+
+        expect(project.name).toBe('Shop 2024-10-01');
+        expect(project.artifact).toEqual({
+          kind: 'xcarchive',
+          path: archive,
+          appPath,
+          frameworks: [path.join(appPath, 'Frameworks', 'Lottie.framework')],
+        });
+        expect(project.targets.map((t) => [t.name, t.type, t.bundleIdentifier])).toEqual([
+          ['Shop', 'application', 'com.acme.shop'],
+          ['ShopWidget', 'appExtension', 'com.acme.shop.widget'],
+          ['ShopClip', 'appClip', 'com.acme.shop.Clip'],
+          ['ShopWatch', 'watchApp', 'com.acme.shop.watchkitapp'],
+          ['ShopWatchExtension', 'watchExtension', 'com.acme.shop.watchkitapp.watchkitextension'],
+        ]);
+
+        const app = project.targets[0]!;
+        expect(app.infoPlistPath).toBe(path.join(appPath, 'Info.plist'));
+        expect(app.executablePath).toBe(path.join(appPath, 'Shop'));
+        expect(app.deploymentTarget).toBe('16.0');
+        expect(app.entitlementsPath).toBe(path.join(appPath, 'archived-expanded-entitlements.xcent'));
+        expect(app.resourceFiles).toContain(path.join(appPath, 'Assets.car'));
+        expect(app.provisioningProfilePath).toBe(path.join(appPath, 'embedded.mobileprovision'));
+        expect(project.targets[1]!.provisioningProfilePath).toBeUndefined();
+        expect(app.resourceFiles).not.toContain(path.join(appPath, 'Shop'));
+      } finally {
+        await artifact.cleanup();
+      }
+    });
+
+    it('should extract entitlements from the code signature', async () => {
+      const artifact = await parseAppArtifact(archive);
+      try {
+        const widget = artifact.project.targets[1]!;
+
+        expect(await fs.readFile(widget.entitlementsPath!, 'utf-8')).toBe(ENTITLEMENTS);
+        // Issues in the extracted file point at the signed binary
+        expect(artifact.toArtifactPath(widget.entitlementsPath!)).toBe(widget.executablePath);
+      } finally {
+        await artifact.cleanup();
+      }
+    });
+
+    it('should throw when the archive has no app', async () => {
+      const empty = path.join(tempDir, 'Empty.xcarchive');
+      await fs.mkdir(path.join(empty, 'Products'), { recursive: true });
+
+      await expect(parseAppArtifact(empty)).rejects.toThrow('No .app bundle found');
+    });
+  });
+
+  describe('.ipa', () => {
+    it('should extract the payload and clean up afterwards', async () => {
+      const ipa = path.join(tempDir, 'Shop.ipa');
+      await fs.writeFile(
+        ipa,
+        buildZip({
+          'Payload/Shop.app/Info.plist': infoPlist({
+            CFBundleExecutable: 'Shop',
+            CFBundleIdentifier: 'com.acme.shop',
+          }),
+          'Payload/Shop.app/Shop': signedBinary(ENTITLEMENTS),
+          'Payload/Shop.app/PrivacyInfo.xcprivacy': '<plist/>',
+        })
+      );
+
+      const artifact = await parseAppArtifact(ipa);
+      const { appPath } = artifact.project.artifact!;
+      const app = artifact.project.targets[0]!;
+
+      expect(artifact.project.artifact!.kind).toBe('ipa');
+      expect(path.basename(appPath)).toBe('Shop.app');
+      expect(app.name).toBe('Shop');
+      expect(await fs.readFile(app.entitlementsPath!, 'utf-8')).toBe(ENTITLEMENTS);
+      expect(artifact.toArtifactPath(path.join(appPath, 'PrivacyInfo.xcprivacy'))).toBe(
+        path.join(ipa, 'Payload', 'Shop.app', 'PrivacyInfo.xcprivacy')
+      );
+
+      await artifact.cleanup();
+      await expect(fs.stat(appPath)).rejects.toThrow();
+    });
+
+    it('should throw for a directory named .ipa', async () => {
+      const dir = path.join(tempDir, 'Folder.ipa');
+      await fs.mkdir(dir, { recursive: true });
+
+      await expect(parseAppArtifact(dir)).rejects.toThrow('Invalid artifact path');
+    });
+  });
+});
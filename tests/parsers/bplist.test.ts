@@ -0,0 +1,313 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { parseBinaryPlist, isBinaryPlist } from '../../src/parsers/bplist.js';
+import { parsePlist } from '../../src/parsers/plist.js';
+
+/**
+ * Marker wrappers for values that have no unambiguous JS representation
+ */
+class Real {
+  constructor(readonly value: number, readonly size: 4 | 8 = 8) {}
+}
+class UID {
+  constructor(readonly value: number) {}
+}
+class PlistSet {
+  constructor(readonly items: FixtureValue[]) {}
+}
+
+type FixtureValue =
+  | null
+  | boolean
+  | number
+  | bigint
+  | string
+  | Date
+  | Buffer
+  | Real
+  | UID
+  | PlistSet
+  | FixtureValue[]
+  | { [key: string]: FixtureValue };
+
+/**
+ * Minimal binary plist writer used to build test fixtures.
+ * Every value (including dictionary keys) becomes its own object.
+ */
+function encodeBplist(root: FixtureValue, options: { refSize?: number } = {}): Buffer {
+  const refSize = options.refSize ?? 1;
+  const objects: Buffer[] = [];
+
+  const intBytes = (value: bigint): Buffer => {
+    if (value >= 0n && value <= 0xffn) return Buffer.from([0x10, Number(value)]);
+    if (value >= 0n && value <= 0xffffn) {
+      const b = Buffer.alloc(3);
+      b[0] = 0x11;
+      b.writeUInt16BE(Number(value), 1);
+      return b;
+    }
+    if (value >= 0n && value <= 0xffffffffn) {
+      const b = Buffer.alloc(5);
+      b[0] = 0x12;
+      b.writeUInt32BE(Number(value), 1);
+      return b;
+    }
+    const b = Buffer.alloc(9);
+    b[0] = 0x13;
+    b.writeBigInt64BE(value, 1);
+    return b;
+  };
+
+  const header = (type: number, count: number): Buffer =>
+    count < 15
+      ? Buffer.from([(type << 4) | count])
+      : Buffer.concat([Buffer.from([(type << 4) | 0x0f]), intBytes(BigInt(count))]);
+
+  const ref = (index: number): Buffer => {
+    const b = Buffer.alloc(refSize);
+    b.writeUIntBE(index, 0, refSize);
+    return b;
+  };
+
+  const add = (value: FixtureValue): number => {
+    const index = objects.length;
+    objects.push(Buffer.alloc(0));
+
+    let encoded: Buffer;
+    if (value === null) {
+      encoded = Buffer.from([0x00]);
+    } else if (typeof value === 'boolean') {
+      encoded = Buffer.from([value ? 0x09 : 0x08]);
+    } else if (typeof value === 'number' || typeof value === 'bigint') {
+      encoded = intBytes(BigInt(value));
+    } else if (typeof value === 'string') {
+      // eslint-disable-next-line no-control-regex
+      if (/^[\x00-\x7f]*$/.test(value)) {
+        encoded = Buffer.concat([header(0x5, value.length), Buffer.from(value, 'ascii')]);
+      } else {
+        const utf16 = Buffer.from(value, 'utf16le').swap16();
+        encoded = Buffer.concat([header(0x6, utf16.length / 2), utf16]);
+      }
+    } else if (value instanceof Date) {
+      const b = Buffer.alloc(9);
+      b[0] = 0x33;
+      b.writeDoubleBE(value.getTime() / 1000 - 978307200, 1);
+      encoded = b;
+    } else if (Buffer.isBuffer(value)) {
+      encoded = Buffer.concat([header(0x4, value.length), value]);
+    } else if (value instanceof Real) {
+      const b = Buffer.alloc(1 + value.size);
+      if (value.size === 4) {
+        b[0] = 0x22;
+        b.writeFloatBE(value.value, 1);
+      } else {
+        b[0] = 0x23;
+        b.writeDoubleBE(value.value, 1);
+      }
+      encoded = b;
+    } else if (value instanceof UID) {
+      encoded = Buffer.from([0x80, value.value]);
+    } else if (value instanceof PlistSet || Array.isArray(value)) {
+      const items = value instanceof PlistSet ? value.items : value;
+      const refs = items.map((item) => add(item));
+      encoded = Buffer.concat([header(value instanceof PlistSet ? 0xc : 0xa, items.length), ...refs.map(ref)]);
+    } else {
+      const entries = Object.entries(value);
+      const keyRefs = entries.map(([key]) => add(key));
+      const valueRefs = entries.map(([, v]) => add(v));
+      encoded = Buffer.concat([header(0xd, entries.length), ...keyRefs.map(ref), ...valueRefs.map(ref)]);
+    }
+
+    objects[index] = encoded;
+    return index;
+  };
+
+  add(root);
+
+  const parts: Buffer[] = [Buffer.from('bplist00', 'ascii')];
+  const offsets: number[] = [];
+  let position = 8;
+  for (const obj of objects) {
+    offsets.push(position);
+    parts.push(obj);
+    position += obj.length;
+  }
+
+  const offsetIntSize = position > 0xffff ? 4 : 2;
+  const offsetTableOffset = position;
+  for (const offset of offsets) {
+    const b = Buffer.alloc(offsetIntSize);
+    b.writeUIntBE(offset, 0, offsetIntSize);
+    parts.push(b);
+  }
+
+  const trailer = Buffer.alloc(32);
+  trailer.writeUInt8(offsetIntSize, 6);
+  trailer.writeUInt8(refSize, 7);
+  trailer.writeBigUInt64BE(BigInt(objects.length), 8);
+  trailer.writeBigUInt64BE(0n, 16);
+  trailer.writeBigUInt64BE(BigInt(offsetTableOffset), 24);
+  parts.push(trailer);
+
+  return Buffer.concat(parts);
+}
+
+describe('binary plist parser', () => {
+  describe('isBinaryPlist', () => {
+    it('should detect the bplist00 header', () => {
+      expect(isBinaryPlist(encodeBplist({}))).toBe(true);
+      expect(isBinaryPlist(Buffer.from('<?xml version="1.0"?>'))).toBe(false);
+      expect(isBinaryPlist(Buffer.from('bpl'))).toBe(false);
+    });
+  });
+
+  describe('scalar objects', () => {
+    it('should decode booleans and null', () => {
+      expect(parseBinaryPlist(encodeBplist([true, false, null]))).toEqual([true, false, null]);
+    });
+
+    it('should decode integers of every width', () => {
+      const values = [7, 300, 70000, 5000000000, -1];
+      expect(parseBinaryPlist(encodeBplist(values))).toEqual(values);
+    });
+
+    it('should decode 32-bit and 64-bit reals', () => {
+      const result = parseBinaryPlist<number[]>(encodeBplist([new Real(1.5, 4), new Real(3.14159)]));
+      expect(result[0]).toBe(1.5);
+      expect(result[1]).toBeCloseTo(3.14159, 5);
+    });
+
+    it('should decode dates relative to the 2001 epoch', () => {
+      const date = new Date('2024-03-15T12:30:00Z');
+      const result = parseBinaryPlist<Date>(encodeBplist(date));
+      expect(result).toBeInstanceOf(Date);
+      expect(result.toISOString()).toBe(date.toISOString());
+    });
+
+    it('should decode data blobs as buffers', () => {
+      const data = Buffer.from([0xde, 0xad, 0xbe, 0xef]);
+      const result = parseBinaryPlist<Buffer>(encodeBplist(data));
+      expect(Buffer.isBuffer(result)).toBe(true);
+      expect(result.equals(data)).toBe(true);
+    });
+
+    it('should decode ASCII and UTF-16 strings', () => {
+      const result = parseBinaryPlist<string[]>(encodeBplist(['com.test.app', 'Café ☕']));
+      expect(result).toEqual(['com.test.app', 'Café ☕']);
+    });
+
+    it('should decode strings longer than 14 characters using an extended length', () => {
+      const long = 'NSCameraUsageDescription';
+      expect(parseBinaryPlist(encodeBplist(long))).toBe(long);
+    });
+
+    it('should decode UIDs', () => {
+      expect(parseBinaryPlist(encodeBplist(new UID(12)))).toEqual({ UID: 12 });
+    });
+  });
+
+  describe('collections', () => {
+    it('should decode arrays, sets and nested dictionaries', () => {
+      const result = parseBinaryPlist(
+        encodeBplist({
+          UIBackgroundModes: ['audio', 'remote-notification'],
+          Tags: new PlistSet(['a', 'b']),
+          NSAppTransportSecurity: { NSAllowsArbitraryLoads: true },
+        })
+      );
+
+      expect(result).toEqual({
+        UIBackgroundModes: ['audio', 'remote-notification'],
+        Tags: ['a', 'b'],
+        NSAppTransportSecurity: { NSAllowsArbitraryLoads: true },
+      });
+    });
+
+    it('should decode collections with more than 14 entries', () => {
+      const items = Array.from({ length: 20 }, (_, i) => `item${i}`);
+      expect(parseBinaryPlist(encodeBplist(items))).toEqual(items);
+    });
+
+    it('should support two-byte object references', () => {
+      const dict = { CFBundleIdentifier: 'com.test.app', CFBundleVersion: '42' };
+      expect(parseBinaryPlist(encodeBplist(dict, { refSize: 2 }))).toEqual(dict);
+    });
+  });
+
+  describe('malformed input', () => {
+    it('should reject buffers without the bplist00 header', () => {
+      expect(() => parseBinaryPlist(Buffer.from('not a plist'))).toThrow('missing bplist00 header');
+    });
+
+    it('should reject truncated files', () => {
+      expect(() => parseBinaryPlist(Buffer.from('bplist00abc'))).toThrow('truncated');
+    });
+
+    it('should reject an out-of-range root object', () => {
+      const buffer = encodeBplist('x');
+      buffer.writeBigUInt64BE(5n, buffer.length - 16);
+      expect(() => parseBinaryPlist(buffer)).toThrow('root object');
+    });
+
+    it('should reject reference cycles', () => {
+      // Array object 0 containing a reference to itself
+      const buffer = Buffer.concat([
+        Buffer.from('bplist00', 'ascii'),
+        Buffer.from([0xa1, 0x00]),
+        Buffer.from([0x08]),
+        Buffer.alloc(32),
+      ]);
+      const trailer = buffer.subarray(buffer.length - 32);
+      trailer.writeUInt8(1, 6);
+      trailer.writeUInt8(1, 7);
+      trailer.writeBigUInt64BE(1n, 8);
+      trailer.writeBigUInt64BE(0n, 16);
+      trailer.writeBigUInt64BE(10n, 24);
+
+      expect(() => parseBinaryPlist(buffer)).toThrow('reference cycle');
+    });
+  });
+
+  describe('parsePlist integration', () => {
+    let tempDir: string;
+
+    beforeAll(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bplist-test-'));
+    });
+
+    afterAll(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should parse a binary Info.plist from disk', async () => {
+      const plistPath = path.join(tempDir, 'Info.plist');
+      await fs.writeFile(
+        plistPath,
+        encodeBplist({
+          CFBundleIdentifier: 'com.test.app',
+          CFBundleShortVersionString: '1.2.3',
+          UIDeviceFamily: [1, 2],
+        })
+      );
+
+      const result = await parsePlist<Record<string, unknown>>(plistPath);
+
+      expect(result['CFBundleIdentifier']).toBe('com.test.app');
+      expect(result['CFBundleShortVersionString']).toBe('1.2.3');
+      expect(result['UIDeviceFamily']).toEqual([1, 2]);
+    });
+
+    it('should parse a binary entitlements file from disk', async () => {
+      const entitlementsPath = path.join(tempDir, 'App.entitlements');
+      await fs.writeFile(
+        entitlementsPath,
+        encodeBplist({ 'aps-environment': 'production', 'get-task-allow': false })
+      );
+
+      const result = await parsePlist<Record<string, unknown>>(entitlementsPath);
+
+      expect(result).toEqual({ 'aps-environment': 'production', 'get-task-allow': false });
+    });
+  });
+});
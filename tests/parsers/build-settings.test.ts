@@ -0,0 +1,165 @@
+import {
+  mergeBuildSettingLevels,
+  expandBuildSettingValue,
+  resolveBuildSettings,
+  getBuiltinBuildSettings,
+  applyConditionalSettings,
+} from '../../src/parsers/build-settings.js';
+
+describe('build settings', () => {
+  describe('mergeBuildSettingLevels', () => {
+    it('should let higher levels override lower levels', () => {
+      const merged = mergeBuildSettingLevels([
+        { PRODUCT_BUNDLE_IDENTIFIER: 'com.acme.project', SWIFT_VERSION: '5.0' },
+        undefined,
+        { PRODUCT_BUNDLE_IDENTIFIER: 'com.acme.target' },
+      ]);
+
+      expect(merged).toEqual({ PRODUCT_BUNDLE_IDENTIFIER: 'com.acme.target', SWIFT_VERSION: '5.0' });
+    });
+
+    it('should expand $(inherited) and ${inherited} from lower levels', () => {
+      const merged = mergeBuildSettingLevels([
+        { OTHER_LDFLAGS: '-ObjC' },
+        { OTHER_LDFLAGS: '$(inherited) -lz' },
+        { OTHER_LDFLAGS: '${inherited} -lsqlite3' },
+      ]);
+
+      expect(merged['OTHER_LDFLAGS']).toBe('-ObjC -lz -lsqlite3');
+    });
+
+    it('should drop $(inherited) when no lower level defines the key', () => {
+      const merged = mergeBuildSettingLevels([{ OTHER_LDFLAGS: '$(inherited) -ObjC' }]);
+
+      expect(merged['OTHER_LDFLAGS']).toBe('-ObjC');
+    });
+  });
+  describe('expandBuildSettingValue', () => {
+    const settings = {
+      SRCROOT: '/work/App',
+      TARGET_NAME: 'My App',
+      PRODUCT_NAME: '$(TARGET_NAME)',
+      CONFIGURATION: 'Release',
+      API_HOST_Release: 'api.acme.com',
+      INFOPLIST_FILE: 'Sources/Info.plist',
+    };
+
+    it('should expand $(VAR), ${VAR} and $VAR references', () => {
+      expect(expandBuildSettingValue('$(SRCROOT)/${TARGET_NAME}/$CONFIGURATION', settings)).toBe(
+        '/work/App/My App/Release'
+      );
+    });
+
+    it('should expand references recursively', () => {
+      expect(expandBuildSettingValue('$(PRODUCT_NAME).app', settings)).toBe('My App.app');
+    });
+
+    it('should expand nested references in variable names', () => {
+      expect(expandBuildSettingValue('$(API_HOST_$(CONFIGURATION))', settings)).toBe('api.acme.com');
+    });
+
+    it('should apply rfc1034identifier, c99extidentifier, lower and upper modifiers', () => {
+      expect(expandBuildSettingValue('com.acme.$(PRODUCT_NAME:rfc1034identifier)', settings)).toBe(
+        'com.acme.My-App'
+      );
+      expect(expandBuildSettingValue('${PRODUCT_NAME:c99extidentifier}', settings)).toBe('My_App');
+      expect(expandBuildSettingValue('$(PRODUCT_NAME:lower)', settings)).toBe('my app');
+      expect(expandBuildSettingValue('$(CONFIGURATION:upper)', settings)).toBe('RELEASE');
+    });
+
+    it('should chain modifiers left to right', () => {
+      expect(expandBuildSettingValue('$(PRODUCT_NAME:rfc1034identifier:lower)', settings)).toBe('my-app');
+    });
+
+    it('should apply path modifiers', () => {
+      expect(expandBuildSettingValue('$(INFOPLIST_FILE:file)', settings)).toBe('Info.plist');
+      expect(expandBuildSettingValue('$(INFOPLIST_FILE:dir)', settings)).toBe('Sources');
+      expect(expandBuildSettingValue('$(INFOPLIST_FILE:base)', settings)).toBe('Info');
+      expect(expandBuildSettingValue('$(INFOPLIST_FILE:suffix)', settings)).toBe('.plist');
+    });
+
+    it('should use the default modifier for undefined or empty settings', () => {
+      expect(expandBuildSettingValue('$(MISSING:default=fallback)', settings)).toBe('fallback');
+    });
+
+    it('should prefix identifiers that start with a digit', () => {
+      expect(expandBuildSettingValue('$(NAME:c99extidentifier)', { NAME: '1Password' })).toBe('_1Password');
+    });
+
+    it('should leave undefined references verbatim', () => {
+      expect(expandBuildSettingValue('$(BUILT_PRODUCTS_DIR)/App.app', settings)).toBe(
+        '$(BUILT_PRODUCTS_DIR)/App.app'
+      );
+    });
+
+    it('should treat $$ as a literal dollar sign', () => {
+      expect(expandBuildSettingValue('cost$$', settings)).toBe('cost$');
+    });
+  });
+
+  describe('resolveBuildSettings', () => {
+    it('should expand every setting and stop at reference cycles', () => {
+      const resolved = resolveBuildSettings({
+        A: '$(B)',
+        B: '$(A)',
+        BUNDLE: 'com.acme.$(NAME)',
+        NAME: 'app',
+      });
+
+      expect(resolved['BUNDLE']).toBe('com.acme.app');
+      expect(resolved['A']).toBe('$(A)');
+    });
+  });
+
+  describe('applyConditionalSettings', () => {
+    it('should apply settings whose sdk and config conditions match', () => {
+      const level = {
+        CODE_SIGN_IDENTITY: 'Apple Development',
+        'CODE_SIGN_IDENTITY[sdk=iphoneos*]': 'iPhone Developer',
+        'CODE_SIGN_IDENTITY[sdk=iphoneos*][config=Release]': 'iPhone Distribution',
+        'OTHER_LDFLAGS[sdk=iphonesimulator*]': '-ObjC',
+        'EXCLUDED_ARCHS[arch=x86_64]': 'x86_64',
+      };
+
+      const debug = applyConditionalSettings(level, { sdk: 'iphoneos', config: 'Debug' });
+      const release = applyConditionalSettings(level, { sdk: 'iphoneos', config: 'Release' });
+
+      expect(debug['CODE_SIGN_IDENTITY']).toBe('iPhone Developer');
+      expect(release['CODE_SIGN_IDENTITY']).toBe('iPhone Distribution');
+      expect(release['OTHER_LDFLAGS']).toBeUndefined();
+      expect(release['EXCLUDED_ARCHS']).toBeUndefined();
+      expect(release['CODE_SIGN_IDENTITY[sdk=iphoneos*]']).toBe('iPhone Developer');
+    });
+  });
+
+  describe('getBuiltinBuildSettings', () => {
+    it('should provide SRCROOT, TARGET_NAME, CONFIGURATION and a PRODUCT_NAME default', () => {
+      const builtins = getBuiltinBuildSettings({
+        projectDir: '/work/App',
+        projectName: 'App',
+        targetName: 'Widget',
+        configuration: 'Debug',
+      });
+
+      expect(builtins['SRCROOT']).toBe('/work/App');
+      expect(builtins['TARGET_NAME']).toBe('Widget');
+      expect(builtins['CONFIGURATION']).toBe('Debug');
+      expect(resolveBuildSettings(builtins)['PRODUCT_NAME']).toBe('Widget');
+    });
+
+    it('should derive the platform settings from SDKROOT', () => {
+      const env = { projectDir: '/work/App', projectName: 'App', targetName: 'App', configuration: 'Debug' };
+
+      expect(getBuiltinBuildSettings(env)['PLATFORM_NAME']).toBe('iphoneos');
+      expect(getBuiltinBuildSettings({ ...env, sdkRoot: 'watchos' })).toMatchObject({
+        PLATFORM_NAME: 'watchos',
+        EFFECTIVE_PLATFORM_NAME: '-watchos',
+        SDK_NAME: 'watchos',
+      });
+      expect(getBuiltinBuildSettings({ ...env, sdkRoot: '/Xcode/SDKs/iPhoneOS17.0.sdk' })['PLATFORM_NAME']).toBe(
+        'iphoneos'
+      );
+      expect(getBuiltinBuildSettings({ ...env, sdkRoot: 'macosx' })['EFFECTIVE_PLATFORM_NAME']).toBe('');
+    });
+  });
+});
@@ -0,0 +1,25 @@
+import { parseCartfileResolvedContent } from '../../src/parsers/carthage.js';
+
+describe('Cartfile.resolved parser', () => {
+  it('should parse github, git and binary dependencies', () => {
+    const dependencies = parseCartfileResolvedContent(`binary "https://dl.google.com/dl/firebase/ios/carthage/FirebaseAnalyticsBinary.json" "10.20.0"
+git "https://gitlab.com/acme/NetworkKit.git" "2f6c1a9"
+github "Alamofire/Alamofire" "5.8.1"
+`);
+
+    expect(dependencies).toEqual([
+      {
+        name: 'FirebaseAnalyticsBinary',
+        kind: 'binary',
+        source: 'https://dl.google.com/dl/firebase/ios/carthage/FirebaseAnalyticsBinary.json',
+        version: '10.20.0',
+      },
+      { name: 'NetworkKit', kind: 'git', source: 'https://gitlab.com/acme/NetworkKit.git', version: '2f6c1a9' },
+      { name: 'Alamofire', kind: 'github', source: 'Alamofire/Alamofire', version: '5.8.1' },
+    ]);
+  });
+
+  it('should ignore blank and malformed lines', () => {
+    expect(parseCartfileResolvedContent('\n# comment\ngithub "only-source"\n')).toEqual([]);
+  });
+});
@@ -0,0 +1,62 @@
+import { parsePodfileLockContent } from '../../src/parsers/cocoapods.js';
+
+describe('Podfile.lock parser', () => {
+  const PODFILE_LOCK = `PODS:
+  - Alamofire (5.8.1)
+  - Firebase/Analytics (10.20.0):
+    - Firebase/Core
+  - Firebase/Core (10.20.0):
+    - FirebaseCore (= 10.20.0)
+  - FirebaseCore (10.20.0):
+    - GoogleUtilities/Environment (~> 7.12)
+  - "GoogleUtilities/Environment (7.12.0)":
+    - PromisesObjC (< 3.0, >= 1.2)
+  - LocalKit (0.1.0)
+
+DEPENDENCIES:
+  - Alamofire (~> 5.8)
+  - Firebase/Analytics
+  - LocalKit (from \`../LocalKit\`)
+
+SPEC REPOS:
+  trunk:
+    - Alamofire
+    - Firebase
+
+EXTERNAL SOURCES:
+  LocalKit:
+    :path: "../LocalKit"
+
+SPEC CHECKSUMS:
+  Alamofire: 3ca42e259043ee0dc5c0cdd76c4bc568b8e42af7
+
+PODFILE CHECKSUM: 1234abcd
+
+COCOAPODS: 1.15.2
+`;
+
+  it('should list root pods with versions and subspecs', () => {
+    const pods = parsePodfileLockContent(PODFILE_LOCK);
+
+    expect(pods.map((p) => `${p.name}@${p.version}`)).toEqual([
+      'Alamofire@5.8.1',
+      'Firebase@10.20.0',
+      'FirebaseCore@10.20.0',
+      'GoogleUtilities@7.12.0',
+      'LocalKit@0.1.0',
+    ]);
+    expect(pods.find((p) => p.name === 'Firebase')!.subspecs).toEqual(['Analytics', 'Core']);
+    expect(pods.find((p) => p.name === 'GoogleUtilities')!.subspecs).toEqual(['Environment']);
+  });
+
+  it('should mark pods listed in DEPENDENCIES as direct', () => {
+    const pods = parsePodfileLockContent(PODFILE_LOCK);
+    const direct = pods.filter((p) => p.direct).map((p) => p.name);
+
+    expect(direct).toEqual(['Alamofire', 'Firebase', 'LocalKit']);
+  });
+
+  it('should return an empty list for content without pods', () => {
+    expect(parsePodfileLockContent('COCOAPODS: 1.15.2\n')).toEqual([]);
+  });
+});
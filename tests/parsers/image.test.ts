@@ -0,0 +1,69 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { parseImageInfo, readImageInfo } from '../../src/parsers/image.js';
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  return Buffer.concat([length, Buffer.from(type, 'latin1'), data, Buffer.alloc(4)]);
+}
+
+function png(width: number, height: number, colorType: number, extraChunks: Buffer[] = []): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = colorType;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    ...extraChunks,
+    chunk('IDAT', Buffer.alloc(2)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+function jpeg(width: number, height: number): Buffer {
+  const app0 = Buffer.from([0xff, 0xe0, 0x00, 0x04, 0x4a, 0x46]);
+  const sof = Buffer.from([0xff, 0xc2, 0x00, 0x0b, 0x08, 0, 0, 0, 0, 0x01, 0x01, 0x11, 0x00]);
+  sof.writeUInt16BE(height, 5);
+  sof.writeUInt16BE(width, 7);
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), app0, sof, Buffer.from([0xff, 0xd9])]);
+}
+
+describe('image parser', () => {
+  it('should read PNG dimensions and alpha from the color type', () => {
+    expect(parseImageInfo(png(1024, 512, 6))).toEqual({ format: 'png', width: 1024, height: 512, hasAlpha: true });
+    expect(parseImageInfo(png(180, 180, 2))).toEqual({ format: 'png', width: 180, height: 180, hasAlpha: false });
+  });
+
+  it('should treat a tRNS chunk as transparency', () => {
+    expect(parseImageInfo(png(60, 60, 3, [chunk('PLTE', Buffer.alloc(3)), chunk('tRNS', Buffer.alloc(1))]))?.hasAlpha).toBe(
+      true
+    );
+  });
+
+  it('should read progressive JPEG dimensions', () => {
+    expect(parseImageInfo(jpeg(640, 480))).toEqual({ format: 'jpeg', width: 640, height: 480, hasAlpha: false });
+  });
+
+  it('should return undefined for other formats', () => {
+    expect(parseImageInfo(Buffer.from('%PDF-1.7'))).toBeUndefined();
+  });
+
+  it('should throw for truncated images', () => {
+    expect(() => parseImageInfo(png(1, 1, 2).subarray(0, 20))).toThrow(/IHDR/);
+    expect(() => parseImageInfo(Buffer.from([0xff, 0xd8, 0xff, 0xd9]))).toThrow(/start of frame/);
+  });
+
+  it('should read an image from disk', async () => {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'image-test-'));
+    const filePath = path.join(tempDir, 'icon.png');
+    await fs.writeFile(filePath, png(120, 120, 2));
+
+    expect((await readImageInfo(filePath))?.width).toBe(120);
+
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,131 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  parseInterfaceBuilderFile,
+  parseInterfaceBuilderContent,
+  walkElements,
+} from '../../src/parsers/interface-builder.js';
+
+const STORYBOARD = `<?xml version="1.0" encoding="UTF-8"?>
+<document type="com.apple.InterfaceBuilder3.CocoaTouch.Storyboard.XIB" version="3.0" initialViewController="BYZ-38-t0r">
+    <!-- Main scene -->
+    <scenes>
+        <scene sceneID="tne-QT-ifu">
+            <objects>
+                <viewController id="BYZ-38-t0r" customClass="HomeViewController" customModule="Shop" customModuleProvider="target" sceneMemberID="viewController">
+                    <view key="view" contentMode="scaleToFill" id="8bC-Xf-vdC">
+                        <subviews>
+                            <label text="Tom &amp; Jerry &#8212; &quot;hi&quot;" id="lbl-1"/>
+                            <button id="btn-1">
+                                <state key="normal" title="Buy"/>
+                                <connections>
+                                    <segue destination="abc-de-fgh" kind="show" id="seg-1"/>
+                                </connections>
+                            </button>
+                        </subviews>
+                    </view>
+                    <connections>
+                        <outlet property="titleLabel" destination="lbl-1" id="out-1"/>
+                    </connections>
+                </viewController>
+                <placeholder placeholderIdentifier="IBFirstResponder" id="dkx-z0-nzr" sceneMemberID="firstResponder"/>
+            </objects>
+        </scene>
+        <scene sceneID="xyz-12-abc">
+            <objects>
+                <viewController id="abc-de-fgh" sceneMemberID="viewController"/>
+            </objects>
+        </scene>
+    </scenes>
+</document>`;
+
+describe('Interface Builder parser', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'interface-builder-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('parseInterfaceBuilderContent', () => {
+    it('should parse scenes, objects and connections', () => {
+      const document = parseInterfaceBuilderContent(STORYBOARD);
+
+      expect(document.kind).toBe('storyboard');
+      expect(document.launchScreen).toBe(false);
+      expect(document.scenes.map((s) => [s.id, s.objects.map((o) => o.tag)])).toEqual([
+        ['tne-QT-ifu', ['viewController', 'placeholder']],
+        ['xyz-12-abc', ['viewController']],
+      ]);
+      expect(
+        document.connections.map((c) => [c.kind, c.source.attributes['id'], c.destination, c.element.lineNumber])
+      ).toEqual([
+        ['segue', 'btn-1', 'abc-de-fgh', 14],
+        ['outlet', 'BYZ-38-t0r', 'lbl-1', 20],
+      ]);
+      expect(document.objects.get('lbl-1')?.attributes['text']).toBe('Tom & Jerry — "hi"');
+      expect(document.objects.get('BYZ-38-t0r')?.lineNumber).toBe(7);
+    });
+
+    it('should expose the top-level objects of a XIB as one scene', () => {
+      const document = parseInterfaceBuilderContent(`<?xml version="1.0" encoding="UTF-8"?>
+<document type="com.apple.InterfaceBuilder3.CocoaTouch.XIB" launchScreen="YES">
+  <objects>
+    <placeholder placeholderIdentifier="IBFilesOwner" id="-1" userLabel="File's Owner"/>
+    <view contentMode="scaleToFill" id="iN0-l3-epB"><subviews/></view>
+  </objects>
+</document>`);
+
+      expect(document.kind).toBe('xib');
+      expect(document.launchScreen).toBe(true);
+      expect(document.scenes).toHaveLength(1);
+      expect(document.scenes[0]?.objects.map((o) => o.attributes['id'])).toEqual(['-1', 'iN0-l3-epB']);
+    });
+
+    it('should keep character data and attribute values containing >', () => {
+      const document = parseInterfaceBuilderContent(`<document type="x">
+  <textView id="t"><string key="text">Line 1 &lt;b&gt;<![CDATA[ & more]]></string></textView>
+  <label text="a > b" id="l"/>
+</document>`);
+
+      const texts: string[] = [];
+      walkElements(document.root, (element) => {
+        if (element.tag === 'string') {
+          texts.push(element.text);
+        }
+      });
+      expect(texts).toEqual(['Line 1 <b> & more']);
+      expect(document.objects.get('l')?.attributes['text']).toBe('a > b');
+    });
+
+    it('should throw on merge conflict markers and mismatched tags', () => {
+      expect(() =>
+        parseInterfaceBuilderContent('<document type="x">\n<<<<<<< HEAD\n<view id="a"/>\n</document>')
+      ).toThrow(/Malformed tag at line 2/);
+      expect(() => parseInterfaceBuilderContent('<document type="x"><view></document>')).toThrow(
+        /Mismatched closing tag/
+      );
+    });
+
+    it('should throw for other XML documents', () => {
+      expect(() => parseInterfaceBuilderContent('<plist version="1.0"><dict/></plist>')).toThrow(
+        /root element is <plist>/
+      );
+    });
+  });
+
+  describe('parseInterfaceBuilderFile', () => {
+    it('should read a document from disk', async () => {
+      const filePath = path.join(tempDir, 'Main.storyboard');
+      await fs.writeFile(filePath, STORYBOARD);
+
+      const document = await parseInterfaceBuilderFile(filePath);
+
+      expect(document.objects.size).toBeGreaterThan(5);
+    });
+  });
+});
@@ -0,0 +1,317 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  findMachOBinaries,
+  findProjectBinaries,
+  isMachOBuffer,
+  parseMachO,
+  readMachO,
+} from '../../src/parsers/macho.js';
+import type { XcodeProject } from '../../src/types/index.js';
+
+interface TestImage {
+  cpuType?: number;
+  fileType?: number;
+  libraries?: string[];
+  imports?: string[];
+  exports?: string[];
+  locals?: string[];
+  selectors?: string[];
+  classNames?: string[];
+  entitlements?: string;
+}
+
+/**
+ * Minimal little-endian 64-bit Mach-O writer used to build test binaries
+ */
+function buildMachO(image: TestImage): Buffer {
+  const sections = [
+    { name: '__objc_methname', strings: image.selectors ?? [] },
+    { name: '__objc_classname', strings: image.classNames ?? [] },
+  ].filter((s) => s.strings.length > 0);
+
+  const libraries = image.libraries ?? [];
+  const dylibSize = (name: string): number => Math.ceil((24 + name.length + 1) / 8) * 8;
+  const commandsSize =
+    72 + sections.length * 80 + 24 + libraries.reduce((n, l) => n + dylibSize(l), 0) + (image.entitlements ? 16 : 0);
+
+  const data: Buffer[] = [];
+  let dataOffset = 32 + commandsSize;
+  const place = (buffer: Buffer): number => {
+    const offset = dataOffset;
+    data.push(buffer);
+    dataOffset += buffer.length;
+    return offset;
+  };
+
+  const commands: Buffer[] = [];
+
+  const segment = Buffer.alloc(72 + sections.length * 80);
+  segment.writeUInt32LE(0x19, 0);
+  segment.writeUInt32LE(segment.length, 4);
+  segment.write('__TEXT', 8);
+  segment.writeUInt32LE(sections.length, 64);
+  sections.forEach((section, i) => {
+    const content = Buffer.from(section.strings.map((s) => `${s}\0`).join(''));
+    const base = 72 + i * 80;
+    segment.write(section.name, base);
+    segment.write('__TEXT', base + 16);
+    segment.writeBigUInt64LE(BigInt(content.length), base + 40);
+    segment.writeUInt32LE(place(content), base + 48);
+  });
+  commands.push(segment);
+
+  const symbols: [string, number][] = [
+    ...(image.imports ?? []).map((name): [string, number] => [name, 0x01]),
+    ...(image.exports ?? []).map((name): [string, number] => [name, 0x0f]),
+    ...(image.locals ?? []).map((name): [string, number] => [name, 0x0e]),
+    ['debug.swift', 0x64],
+  ];
+  let strings = '\0';
+  const table = Buffer.alloc(symbols.length * 16);
+  symbols.forEach(([name, type], i) => {
+    table.writeUInt32LE(strings.length, i * 16);
+    table.writeUInt8(type, i * 16 + 4);
+    strings += `${name}\0`;
+  });
+  const symtab = Buffer.alloc(24);
+  symtab.writeUInt32LE(0x2, 0);
+  symtab.writeUInt32LE(24, 4);
+  symtab.writeUInt32LE(place(table), 8);
+  symtab.writeUInt32LE(symbols.length, 12);
+  symtab.writeUInt32LE(place(Buffer.from(strings)), 16);
+  symtab.writeUInt32LE(strings.length, 20);
+  commands.push(symtab);
+
+  for (const library of libraries) {
+    const command = Buffer.alloc(dylibSize(library));
+    command.writeUInt32LE(0xc, 0);
+    command.writeUInt32LE(command.length, 4);
+    command.writeUInt32LE(24, 8);
+    command.write(library, 24);
+    commands.push(command);
+  }
+
+  if (image.entitlements) {
+    const xml = Buffer.from(image.entitlements);
+    const signature = Buffer.alloc(28);
+    signature.writeUInt32BE(0xfade0cc0, 0);
+    signature.writeUInt32BE(28 + xml.length, 4);
+    signature.writeUInt32BE(1, 8);
+    signature.writeUInt32BE(5, 12);
+    signature.writeUInt32BE(20, 16);
+    signature.writeUInt32BE(0xfade7171, 20);
+    signature.writeUInt32BE(8 + xml.length, 24);
+    const codeSignature = Buffer.alloc(16);
+    codeSignature.writeUInt32LE(0x1d, 0);
+    codeSignature.writeUInt32LE(16, 4);
+    codeSignature.writeUInt32LE(place(Buffer.concat([signature, xml])), 8);
+    codeSignature.writeUInt32LE(28 + xml.length, 12);
+    commands.push(codeSignature);
+  }
+
+  const header = Buffer.alloc(32);
+  header.writeUInt32LE(0xfeedfacf, 0);
+  header.writeUInt32LE(image.cpuType ?? 0x0100000c, 4);
+  header.writeUInt32LE(image.fileType ?? 2, 12);
+  header.writeUInt32LE(commands.length, 16);
+  header.writeUInt32LE(commandsSize, 20);
+
+  return Buffer.concat([header, ...commands, ...data]);
+}
+
+/**
+ * Fat (universal) binary holding the given slices
+ */
+function buildFat(slices: { cpuType: number; data: Buffer }[]): Buffer {
+  const header = Buffer.alloc(8 + slices.length * 20);
+  header.writeUInt32BE(0xcafebabe, 0);
+  header.writeUInt32BE(slices.length, 4);
+  let offset = header.length;
+  slices.forEach((slice, i) => {
+    header.writeUInt32BE(slice.cpuType, 8 + i * 20);
+    header.writeUInt32BE(offset, 8 + i * 20 + 8);
+    header.writeUInt32BE(slice.data.length, 8 + i * 20 + 12);
+    offset += slice.data.length;
+  });
+  return Buffer.concat([header, ...slices.map((s) => s.data)]);
+}
+
+/**
+ * BSD `ar` static library; names longer than 16 characters use `#1/<length>`
+ */
+function buildArchive(members: { name: string; data: Buffer }[]): Buffer {
+  const parts: Buffer[] = [Buffer.from('!<arch>\n')];
+  for (const member of members) {
+    const longName = member.name.length > 16;
+    const name = longName ? Buffer.from(member.name.padEnd(Math.ceil(member.name.length / 4) * 4, '\0')) : Buffer.alloc(0);
+    const size = name.length + member.data.length;
+    const header = Buffer.from(
+      (longName ? `#1/${name.length}` : member.name).padEnd(16) +
+        '0'.padEnd(12) +
+        '0'.padEnd(6) +
+        '0'.padEnd(6) +
+        '644'.padEnd(8) +
+        String(size).padEnd(10) +
+        '`\n'
+    );
+    parts.push(header, name, member.data);
+    if (size % 2 === 1) {
+      parts.push(Buffer.from('\n'));
+    }
+  }
+  return Buffer.concat(parts);
+}
+
+describe('Mach-O reader', () => {
+  describe('parseMachO', () => {
+    it('should read load commands, symbols and Objective-C sections', () => {
+      const [image, ...rest] = parseMachO(
+        buildMachO({
+          libraries: ['/System/Library/Frameworks/UIKit.framework/UIKit', '/usr/lib/libobjc.A.dylib'],
+          imports: ['_OBJC_CLASS_$_UIWebView', '_objc_msgSend'],
+          exports: ['_main'],
+          locals: ['_helper'],
+          selectors: ['viewDidLoad', 'loadRequest:'],
+          classNames: ['AppDelegate'],
+        })
+      );
+
+      expect(rest).toHaveLength(0);
+      expect(image).toEqual({
+        arch: 'arm64',
+        fileType: 2,
+        linkedLibraries: ['/System/Library/Frameworks/UIKit.framework/UIKit', '/usr/lib/libobjc.A.dylib'],
+        definedSymbols: ['_main'],
+        undefinedSymbols: ['_OBJC_CLASS_$_UIWebView', '_objc_msgSend'],
+        selectors: ['viewDidLoad', 'loadRequest:'],
+        classNames: ['AppDelegate'],
+      });
+    });
+
+    it('should read every 64-bit slice of a fat binary', () => {
+      const images = parseMachO(
+        buildFat([
+          { cpuType: 0x0100000c, data: buildMachO({ selectors: ['arm'] }) },
+          { cpuType: 0x01000007, data: buildMachO({ cpuType: 0x01000007, selectors: ['intel'] }) },
+          { cpuType: 12, data: Buffer.from([0xce, 0xfa, 0xed, 0xfe, 12, 0, 0, 0]) },
+        ])
+      );
+
+      expect(images.map((i) => [i.arch, i.selectors])).toEqual([
+        ['arm64', ['arm']],
+        ['x86_64', ['intel']],
+      ]);
+    });
+
+    it('should read the object files of a static library', () => {
+      const images = parseMachO(
+        buildArchive([
+          { name: '__.SYMDEF SORTED', data: Buffer.from('symbols!') },
+          { name: 'Tracker.o', data: buildMachO({ fileType: 1, imports: ['_MGCopyAnswer'] }) },
+          { name: 'AnalyticsNetworkClient.o', data: buildMachO({ fileType: 1, selectors: ['send'] }) },
+        ])
+      );
+
+      expect(images.map((i) => [i.member, i.fileType])).toEqual([
+        ['Tracker.o', 1],
+        ['AnalyticsNetworkClient.o', 1],
+      ]);
+      expect(images[0]!.undefinedSymbols).toEqual(['_MGCopyAnswer']);
+      expect(images[1]!.selectors).toEqual(['send']);
+    });
+
+    it('should read entitlements from the code signature', () => {
+      const entitlements = '<plist version="1.0"><dict/></plist>';
+      const [image] = parseMachO(buildMachO({ entitlements }));
+
+      expect(image!.entitlements).toBe(entitlements);
+    });
+
+    it('should reject other files', () => {
+      expect(isMachOBuffer(Buffer.from('#!/bin/sh\n'))).toBe(false);
+      // Java class files share the fat magic
+      expect(isMachOBuffer(Buffer.from([0xca, 0xfe, 0xba, 0xbe, 0, 0, 0, 52]))).toBe(false);
+      expect(() => parseMachO(Buffer.from('plain text'))).toThrow('Not a Mach-O binary');
+    });
+
+    it('should throw for truncated binaries', () => {
+      const binary = buildMachO({ libraries: ['/usr/lib/libz.1.dylib'] });
+
+      expect(() => parseMachO(binary.subarray(0, 64))).toThrow('Truncated Mach-O');
+    });
+  });
+
+  describe('finding binaries', () => {
+    let tempDir: string;
+
+    beforeAll(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'macho-test-'));
+    });
+
+    afterAll(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should find vendored frameworks and static libraries', async () => {
+      const root = path.join(tempDir, 'Source');
+      const framework = path.join(root, 'Vendor', 'Ads.xcframework', 'ios-arm64', 'Ads.framework');
+      await fs.mkdir(framework, { recursive: true });
+      await fs.mkdir(path.join(root, 'Pods', 'Maps.framework'), { recursive: true });
+      await fs.mkdir(path.join(root, 'Libs'), { recursive: true });
+      await fs.writeFile(path.join(framework, 'Ads'), buildMachO({ fileType: 6 }));
+      await fs.writeFile(path.join(framework, 'Info.plist'), '<plist/>');
+      await fs.writeFile(path.join(root, 'Pods', 'Maps.framework', 'Maps'), buildMachO({ fileType: 6 }));
+      await fs.writeFile(path.join(root, 'Libs', 'libTracker.a'), buildArchive([]));
+      await fs.writeFile(path.join(root, 'Libs', 'libNotes.a'), 'not a library');
+
+      expect(await findMachOBinaries(root)).toEqual([
+        path.join(root, 'Libs', 'libTracker.a'),
+        path.join(framework, 'Ads'),
+      ]);
+    });
+
+    it('should list the executables of an artifact', async () => {
+      const appPath = path.join(tempDir, 'Payload', 'Shop.app');
+      const framework = path.join(appPath, 'Frameworks', 'Core.framework');
+      await fs.mkdir(framework, { recursive: true });
+      await fs.writeFile(path.join(appPath, 'Shop'), buildMachO({}));
+      await fs.writeFile(
+        path.join(framework, 'Info.plist'),
+        '<?xml version="1.0" encoding="UTF-8"?><plist version="1.0"><dict><key>CFBundleExecutable</key><string>CoreKit</string></dict></plist>'
+      );
+      await fs.writeFile(path.join(framework, 'CoreKit'), buildMachO({ fileType: 6 }));
+
+      const project: XcodeProject = {
+        path: path.join(tempDir, 'Shop.ipa'),
+        name: 'Shop',
+        targets: [
+          {
+            name: 'Shop',
+            type: 'application',
+            sourceFiles: [],
+            bundlePath: appPath,
+            executablePath: path.join(appPath, 'Shop'),
+          },
+        ],
+        configurations: [],
+        artifact: { kind: 'ipa', path: path.join(tempDir, 'Shop.ipa'), appPath, frameworks: [framework] },
+      };
+
+      expect(await findProjectBinaries(project, appPath)).toEqual([
+        path.join(framework, 'CoreKit'),
+        path.join(appPath, 'Shop'),
+      ]);
+    });
+
+    it('should read binaries from disk', async () => {
+      const filePath = path.join(tempDir, 'libz.dylib');
+      await fs.writeFile(filePath, buildMachO({ fileType: 6, exports: ['_inflate'] }));
+
+      const [image] = await readMachO(filePath);
+
+      expect(image!.definedSymbols).toEqual(['_inflate']);
+    });
+  });
+});
@@ -1,7 +1,15 @@
 import * as fs from 'fs/promises';
 import * as os from 'os';
 import * as path from 'path';
-import { parsePlist, fileExists, readFile, parsePbxproj } from '../../src/parsers/plist.js';
+import {
+  parsePlist,
+  readPlistObject,
+  isRecord,
+  stringArray,
+  fileExists,
+  readFile,
+  parsePbxproj,
+} from '../../src/parsers/plist.js';
 
 describe('plist parser', () => {
   let tempDir: string;
@@ -48,6 +56,34 @@ describe('plist parser', () => {
     });
   });
 
+  describe('readPlistObject', () => {
+    it('should return dictionaries and undefined for anything else', async () => {
+      const dictPath = path.join(tempDir, 'dict.plist');
+      const arrayPath = path.join(tempDir, 'array.plist');
+      const brokenPath = path.join(tempDir, 'broken.plist');
+      await fs.writeFile(dictPath, '<plist version="1.0"><dict><key>A</key><string>b</string></dict></plist>');
+      await fs.writeFile(arrayPath, '<plist version="1.0"><array><string>a</string></array></plist>');
+      await fs.writeFile(brokenPath, 'not a plist <><>');
+
+      expect(await readPlistObject(dictPath)).toEqual({ A: 'b' });
+      expect(await readPlistObject(arrayPath)).toBeUndefined();
+      expect(await readPlistObject(brokenPath)).toBeUndefined();
+      expect(await readPlistObject(path.join(tempDir, 'missing.plist'))).toBeUndefined();
+      expect(await readPlistObject(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('isRecord and stringArray', () => {
+    it('should narrow parsed plist values', () => {
+      expect(isRecord({ a: 1 })).toBe(true);
+      expect(isRecord(['a'])).toBe(false);
+      expect(isRecord(new Date())).toBe(false);
+      expect(isRecord(null)).toBe(false);
+      expect(stringArray(['a', 1, 'b'])).toEqual(['a', 'b']);
+      expect(stringArray('a')).toEqual([]);
+    });
+  });
+
   describe('fileExists', () => {
     it('should return true for an existing file', async () => {
       const filePath = path.join(tempDir, 'exists.txt');
@@ -152,6 +188,40 @@ describe('plist parser', () => {
       expect(config!.buildSettings!['SWIFT_VERSION']).toBe('5.0');
     });
 
+    it('should parse list values, quoted keys and braces inside buildSettings', () => {
+      const content = `// !$*UTF8*$!
+{
+  archiveVersion = 1;
+  objectVersion = 56;
+  objects = {
+    AAAAAAAAAAAAAAAAAAAAAAAA = {
+      isa = XCBuildConfiguration;
+      buildSettings = {
+        "CODE_SIGN_IDENTITY[sdk=iphoneos*]" = "iPhone Developer";
+        LD_RUNPATH_SEARCH_PATHS = (
+          "$(inherited)",
+          "@executable_path/Frameworks",
+        );
+        PRODUCT_BUNDLE_IDENTIFIER = "com.acme.\${PRODUCT_NAME:rfc1034identifier}";
+        SWIFT_VERSION = 5.0;
+      };
+      name = Debug;
+    };
+  };
+  rootObject = AAAAAAAAAAAAAAAAAAAAAAAA;
+}
+`;
+
+      const result = parsePbxproj(content);
+      const settings = result.objects['AAAAAAAAAAAAAAAAAAAAAAAA']?.buildSettings;
+
+      expect(settings?.['CODE_SIGN_IDENTITY[sdk=iphoneos*]']).toBe('iPhone Developer');
+      expect(settings?.['LD_RUNPATH_SEARCH_PATHS']).toBe('$(inherited) @executable_path/Frameworks');
+      expect(settings?.['PRODUCT_BUNDLE_IDENTIFIER']).toBe('com.acme.\${PRODUCT_NAME:rfc1034identifier}');
+      expect(settings?.['SWIFT_VERSION']).toBe('5.0');
+      expect(result.objects['AAAAAAAAAAAAAAAAAAAAAAAA']?.name).toBe('Debug');
+    });
+
     it('should parse arrays (files, buildPhases, buildConfigurations)', () => {
       const content = `// !$*UTF8*$!
 {
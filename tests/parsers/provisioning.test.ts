@@ -0,0 +1,194 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  findInstalledProfile,
+  parseProvisioningProfile,
+  parseProvisioningProfileBuffer,
+} from '../../src/parsers/provisioning.js';
+
+let mockHome = '';
+jest.mock('os', () => ({
+  ...jest.requireActual<typeof import('os')>('os'),
+  homedir: () => mockHome,
+}));
+
+/**
+ * DER element with a definite length
+ */
+function der(tag: number, ...contents: Buffer[]): Buffer {
+  const body = Buffer.concat(contents);
+  let header: Buffer;
+  if (body.length < 0x80) {
+    header = Buffer.from([tag, body.length]);
+  } else {
+    header = Buffer.from([tag, 0x82, body.length >> 8, body.length & 0xff]);
+  }
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * BER element with an indefinite length, as Apple encodes profiles
+ */
+function ber(tag: number, ...contents: Buffer[]): Buffer {
+  return Buffer.concat([Buffer.from([tag, 0x80]), ...contents, Buffer.from([0, 0])]);
+}
+
+const SIGNED_DATA = Buffer.from([0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x07, 0x02]);
+const DATA = Buffer.from([0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x07, 0x01]);
+
+/**
+ * CMS signedData envelope around `content` (no certificates or signers)
+ */
+function buildProfile(content: string, options: { indefinite?: boolean } = {}): Buffer {
+  const wrap = options.indefinite ? ber : der;
+  const payload = Buffer.from(content);
+  const octets = options.indefinite
+    ? ber(0x24, der(0x04, payload.subarray(0, 100)), der(0x04, payload.subarray(100)))
+    : der(0x04, payload);
+
+  return wrap(
+    0x30,
+    der(0x06, SIGNED_DATA),
+    wrap(
+      0xa0,
+      wrap(
+        0x30,
+        der(0x02, Buffer.from([1])),
+        der(0x31),
+        wrap(0x30, der(0x06, DATA), wrap(0xa0, octets)),
+        der(0x31)
+      )
+    )
+  );
+}
+
+const profilePlist = (entries: string): string => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+  <key>Name</key>
+  <string>Shop Development</string>
+  <key>UUID</key>
+  <string>0D2C4A6E-1111-2222-3333-444455556666</string>
+  <key>TeamIdentifier</key>
+  <array><string>ABCDE12345</string></array>
+  <key>TeamName</key>
+  <string>Acme Inc.</string>
+  <key>Platform</key>
+  <array><string>iOS</string></array>
+  <key>CreationDate</key>
+  <date>2026-01-01T00:00:00Z</date>
+  <key>ExpirationDate</key>
+  <date>2027-01-01T00:00:00Z</date>
+${entries}
+</dict>
+</plist>
+`;
+
+const DEVELOPMENT = profilePlist(`  <key>Entitlements</key>
+  <dict>
+    <key>application-identifier</key>
+    <string>ABCDE12345.com.acme.shop</string>
+    <key>get-task-allow</key>
+    <true/>
+    <key>aps-environment</key>
+    <string>development</string>
+  </dict>
+  <key>ProvisionedDevices</key>
+  <array>
+    <string>00008030-001A2B3C4D5E6F70</string>
+  </array>`);
+
+describe('parseProvisioningProfileBuffer', () => {
+  it('should decode a development profile', () => {
+    const profile = parseProvisioningProfileBuffer(buildProfile(DEVELOPMENT));
+
+    expect(profile).toEqual({
+      name: 'Shop Development',
+      uuid: '0D2C4A6E-1111-2222-3333-444455556666',
+      teamIdentifier: 'ABCDE12345',
+      teamName: 'Acme Inc.',
+      creationDate: new Date('2026-01-01T00:00:00Z'),
+      expirationDate: new Date('2027-01-01T00:00:00Z'),
+      entitlements: {
+        'application-identifier': 'ABCDE12345.com.acme.shop',
+        'get-task-allow': true,
+        'aps-environment': 'development',
+      },
+      provisionedDevices: ['00008030-001A2B3C4D5E6F70'],
+      provisionsAllDevices: false,
+      getTaskAllow: true,
+      distributionType: 'development',
+      platforms: ['iOS'],
+    });
+  });
+
+  it('should decode indefinite-length envelopes with chunked content', () => {
+    const profile = parseProvisioningProfileBuffer(buildProfile(DEVELOPMENT, { indefinite: true }));
+
+    expect(profile.name).toBe('Shop Development');
+    expect(profile.provisionedDevices).toHaveLength(1);
+  });
+
+  it('should derive the distribution type', () => {
+    const type = (entries: string): string =>
+      parseProvisioningProfileBuffer(buildProfile(profilePlist(entries))).distributionType;
+
+    expect(type('<key>Entitlements</key><dict><key>get-task-allow</key><false/></dict>')).toBe('app-store');
+    expect(
+      type('<key>ProvisionedDevices</key><array><string>udid</string></array>')
+    ).toBe('ad-hoc');
+    expect(type('<key>ProvisionsAllDevices</key><true/>')).toBe('enterprise');
+  });
+
+  it('should reject files that are not CMS envelopes', () => {
+    expect(() => parseProvisioningProfileBuffer(der(0x30, der(0x06, DATA)))).toThrow(
+      'Not a CMS signedData provisioning profile'
+    );
+    expect(() => parseProvisioningProfileBuffer(buildProfile(DEVELOPMENT).subarray(0, 40))).toThrow(
+      'Truncated provisioning profile'
+    );
+  });
+});
+
+describe('installed profiles', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'provisioning-test-'));
+    mockHome = tempDir;
+
+    const directory = path.join(tempDir, 'Library', 'MobileDevice', 'Provisioning Profiles');
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(path.join(directory, 'profile-a.mobileprovision'), buildProfile(DEVELOPMENT));
+    await fs.writeFile(path.join(directory, 'broken.mobileprovision'), 'not a profile');
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should find a profile by name or UUID', async () => {
+    const expected = path.join(
+      tempDir,
+      'Library',
+      'MobileDevice',
+      'Provisioning Profiles',
+      'profile-a.mobileprovision'
+    );
+
+    expect(await findInstalledProfile('Shop Development')).toBe(expected);
+    expect(await findInstalledProfile('0D2C4A6E-1111-2222-3333-444455556666')).toBe(expected);
+    expect(await findInstalledProfile('profile-a')).toBe(expected);
+    expect(await findInstalledProfile('Other')).toBeUndefined();
+  });
+
+  it('should read profiles from disk', async () => {
+    const profile = await parseProvisioningProfile(
+      path.join(tempDir, 'Library', 'MobileDevice', 'Provisioning Profiles', 'profile-a.mobileprovision')
+    );
+
+    expect(profile.teamIdentifier).toBe('ABCDE12345');
+  });
+});
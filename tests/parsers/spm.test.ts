@@ -0,0 +1,83 @@
+import { parsePackageResolvedContent, packageIdentity } from '../../src/parsers/spm.js';
+
+describe('Package.resolved parser', () => {
+  describe('parsePackageResolvedContent', () => {
+    it('should parse version 2 files', () => {
+      const pins = parsePackageResolvedContent(
+        JSON.stringify({
+          pins: [
+            {
+              identity: 'alamofire',
+              kind: 'remoteSourceControl',
+              location: 'https://github.com/Alamofire/Alamofire.git',
+              state: { revision: 'f455c2975872ccd2d9c81594c658af65716e9b9a', version: '5.9.1' },
+            },
+            {
+              identity: 'swift-collections',
+              kind: 'remoteSourceControl',
+              location: 'https://github.com/apple/swift-collections',
+              state: { branch: 'main', revision: 'abc123' },
+            },
+          ],
+          version: 2,
+        })
+      );
+
+      expect(pins).toEqual([
+        {
+          identity: 'alamofire',
+          location: 'https://github.com/Alamofire/Alamofire.git',
+          version: '5.9.1',
+          revision: 'f455c2975872ccd2d9c81594c658af65716e9b9a',
+          branch: undefined,
+        },
+        {
+          identity: 'swift-collections',
+          location: 'https://github.com/apple/swift-collections',
+          version: undefined,
+          revision: 'abc123',
+          branch: 'main',
+        },
+      ]);
+    });
+
+    it('should parse version 1 files and derive identities from the URL', () => {
+      const pins = parsePackageResolvedContent(
+        JSON.stringify({
+          object: {
+            pins: [
+              {
+                package: 'Kingfisher',
+                repositoryURL: 'https://github.com/onevcat/Kingfisher.git',
+                state: { branch: null, revision: 'def456', version: '7.10.0' },
+              },
+            ],
+          },
+          version: 1,
+        })
+      );
+
+      expect(pins).toEqual([
+        {
+          identity: 'kingfisher',
+          location: 'https://github.com/onevcat/Kingfisher.git',
+          version: '7.10.0',
+          revision: 'def456',
+          branch: undefined,
+        },
+      ]);
+    });
+
+    it('should throw for invalid JSON', () => {
+      expect(() => parsePackageResolvedContent('not json')).toThrow();
+    });
+  });
+
+  describe('packageIdentity', () => {
+    it('should lowercase the last path component without .git', () => {
+      expect(packageIdentity('https://github.com/firebase/firebase-ios-sdk.git')).toBe('firebase-ios-sdk');
+      expect(packageIdentity('git@github.com:SnapKit/SnapKit.git')).toBe('snapkit');
+      expect(packageIdentity('../Packages/FeatureKit/')).toBe('featurekit');
+    });
+  });
+});
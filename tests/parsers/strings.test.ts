@@ -0,0 +1,184 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  parseStringsFile,
+  parseStringsContent,
+  parseStringsdictFile,
+  parseStringCatalogContent,
+  readUserFacingText,
+} from '../../src/parsers/strings.js';
+
+describe('strings parser', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'strings-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('parseStringsContent', () => {
+    it('should parse entries, comments and escapes with line numbers', () => {
+      const entries = parseStringsContent(`/* Greeting
+   shown on launch */
+"greeting" = "Hello, \\"%@\\"!";
+// Single line comment
+"multiline" = "One\\nTwo";
+title = Welcome;
+"same";
+`);
+
+      expect(entries).toEqual([
+        { key: 'greeting', value: 'Hello, "%@"!', lineNumber: 3 },
+        { key: 'multiline', value: 'One\nTwo', lineNumber: 5 },
+        { key: 'title', value: 'Welcome', lineNumber: 6 },
+        { key: 'same', value: 'same', lineNumber: 7 },
+      ]);
+    });
+
+    it('should decode \\U escapes', () => {
+      expect(parseStringsContent('"dash" = "a\\U2014b";')[0]?.value).toBe('a—b');
+    });
+
+    it('should throw on a missing semicolon', () => {
+      expect(() => parseStringsContent('"a" = "b"\n"c" = "d";')).toThrow(/Malformed entry "a".*line 1/);
+    });
+
+    it('should throw on an unterminated string', () => {
+      expect(() => parseStringsContent('"a" = "b;')).toThrow(/Unterminated string/);
+    });
+  });
+
+  describe('parseStringsFile', () => {
+    it('should read UTF-16 files with a byte order mark', async () => {
+      const filePath = path.join(tempDir, 'utf16.strings');
+      await fs.writeFile(filePath, Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('"key" = "Grüße";', 'utf16le')]));
+
+      expect(await parseStringsFile(filePath)).toEqual([{ key: 'key', value: 'Grüße', lineNumber: 1 }]);
+    });
+  });
+
+  describe('parseStringsdictFile', () => {
+    it('should use the format key as the value', async () => {
+      const filePath = path.join(tempDir, 'Localizable.stringsdict');
+      await fs.writeFile(
+        filePath,
+        `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+  <key>items</key>
+  <dict>
+    <key>NSStringLocalizedFormatKey</key>
+    <string>%#@count@</string>
+    <key>count</key>
+    <dict>
+      <key>NSStringFormatSpecTypeKey</key>
+      <string>NSStringPluralRuleType</string>
+      <key>NSStringFormatValueTypeKey</key>
+      <string>d</string>
+      <key>one</key>
+      <string>%d item</string>
+      <key>other</key>
+      <string>%d items</string>
+    </dict>
+  </dict>
+</dict>
+</plist>`
+      );
+
+      expect(await parseStringsdictFile(filePath)).toEqual([{ key: 'items', value: '%#@count@' }]);
+    });
+  });
+
+  describe('parseStringCatalogContent', () => {
+    it('should collect localizations with their least complete state', () => {
+      const catalog = parseStringCatalogContent(
+        JSON.stringify({
+          sourceLanguage: 'en',
+          version: '1.0',
+          strings: {
+            Hello: {
+              localizations: {
+                de: { stringUnit: { state: 'translated', value: 'Hallo' } },
+              },
+            },
+            '%lld items': {
+              localizations: {
+                de: {
+                  variations: {
+                    plural: {
+                      one: { stringUnit: { state: 'translated', value: '%lld Artikel' } },
+                      other: { stringUnit: { state: 'needs_review', value: '%lld Artikel' } },
+                    },
+                  },
+                },
+              },
+            },
+            Old: { extractionState: 'stale' },
+            Brand: { shouldTranslate: false },
+          },
+        })
+      );
+
+      expect(catalog).toEqual({
+        sourceLanguage: 'en',
+        entries: [
+          {
+            key: 'Hello',
+            extractionState: undefined,
+            shouldTranslate: true,
+            localizations: { de: { state: 'translated', value: 'Hallo' } },
+          },
+          {
+            key: '%lld items',
+            extractionState: undefined,
+            shouldTranslate: true,
+            localizations: { de: { state: 'needs_review', value: undefined } },
+          },
+          { key: 'Old', extractionState: 'stale', shouldTranslate: true, localizations: {} },
+          { key: 'Brand', extractionState: undefined, shouldTranslate: false, localizations: {} },
+        ],
+      });
+    });
+
+    it('should throw for JSON that is not a string catalog', () => {
+      expect(() => parseStringCatalogContent('{"version": "1.0"}')).toThrow(/missing "strings"/);
+    });
+  });
+
+  describe('readUserFacingText', () => {
+    it('should read strings tables, catalogs and Interface Builder text', async () => {
+      const dir = path.join(tempDir, 'text');
+      await fs.mkdir(path.join(dir, 'en.lproj'), { recursive: true });
+      await fs.writeFile(path.join(dir, 'en.lproj', 'Localizable.strings'), '"a" = "Sign up";\n"b" = "Log in";\n');
+      await fs.writeFile(
+        path.join(dir, 'Localizable.xcstrings'),
+        JSON.stringify({
+          sourceLanguage: 'en',
+          strings: { 'Report post': { localizations: { de: { stringUnit: { state: 'translated', value: 'Beitrag melden' } } } } },
+        })
+      );
+      await fs.writeFile(
+        path.join(dir, 'Cell.xib'),
+        '<document type="com.apple.InterfaceBuilder3.CocoaTouch.XIB">\n  <objects>\n    <button title="Block" id="b"/>\n    <textView id="t"><string key="text">Terms</string></textView>\n  </objects>\n</document>'
+      );
+      await fs.writeFile(path.join(dir, 'Broken.storyboard'), '<document>\n<<<<<<< HEAD');
+
+      const texts = await readUserFacingText(
+        ['en.lproj/Localizable.strings', 'Localizable.xcstrings', 'Cell.xib', 'Broken.storyboard'].map((f) => path.join(dir, f))
+      );
+
+      expect(texts.map((t) => [t.text, path.basename(t.filePath), t.lineNumber])).toEqual([
+        ['Sign up', 'Localizable.strings', 1],
+        ['Log in', 'Localizable.strings', 2],
+        ['Report post', 'Localizable.xcstrings', undefined],
+        ['Beitrag melden', 'Localizable.xcstrings', undefined],
+        ['Block', 'Cell.xib', 3],
+        ['Terms', 'Cell.xib', 4],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { parseXcconfig, parseXcconfigContent } from '../../src/parsers/xcconfig.js';
+
+describe('xcconfig parser', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'xcconfig-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('parseXcconfigContent', () => {
+    it('should parse assignments and strip comments', () => {
+      const settings = parseXcconfigContent(`
+// Shared settings
+PRODUCT_BUNDLE_IDENTIFIER = com.acme.app // trailing comment
+INFOPLIST_FILE = App/Info.plist;
+SWIFT_VERSION=5.0
+`);
+
+      expect(settings).toEqual({
+        PRODUCT_BUNDLE_IDENTIFIER: 'com.acme.app',
+        INFOPLIST_FILE: 'App/Info.plist',
+        SWIFT_VERSION: '5.0',
+      });
+    });
+
+    it('should keep conditional keys verbatim', () => {
+      const settings = parseXcconfigContent('CODE_SIGN_IDENTITY[sdk=iphoneos*] = iPhone Distribution');
+
+      expect(settings['CODE_SIGN_IDENTITY[sdk=iphoneos*]']).toBe('iPhone Distribution');
+    });
+
+    it('should let later assignments override earlier ones', () => {
+      const settings = parseXcconfigContent('A = one\nA = two');
+
+      expect(settings['A']).toBe('two');
+    });
+
+    it('should resolve $(inherited) against an earlier assignment', () => {
+      const settings = parseXcconfigContent('FLAGS = -a\nFLAGS = $(inherited) -b');
+
+      expect(settings['FLAGS']).toBe('-a -b');
+    });
+
+    it('should leave $(inherited) unresolved when nothing precedes it', () => {
+      const settings = parseXcconfigContent('OTHER_LDFLAGS = $(inherited) -ObjC');
+
+      expect(settings['OTHER_LDFLAGS']).toBe('$(inherited) -ObjC');
+    });
+  });
+
+  describe('parseXcconfig', () => {
+    it('should follow #include directives relative to the including file', async () => {
+      const dir = path.join(tempDir, 'include');
+      await fs.mkdir(path.join(dir, 'Shared'), { recursive: true });
+      await fs.writeFile(
+        path.join(dir, 'Shared', 'Base.xcconfig'),
+        'PRODUCT_BUNDLE_IDENTIFIER = com.acme.base\nCODE_SIGN_ENTITLEMENTS = App/App.entitlements\n'
+      );
+      await fs.writeFile(
+        path.join(dir, 'App.xcconfig'),
+        '#include "Shared/Base.xcconfig"\nPRODUCT_BUNDLE_IDENTIFIER = com.acme.app\n'
+      );
+
+      const settings = await parseXcconfig(path.join(dir, 'App.xcconfig'));
+
+      expect(settings['PRODUCT_BUNDLE_IDENTIFIER']).toBe('com.acme.app');
+      expect(settings['CODE_SIGN_ENTITLEMENTS']).toBe('App/App.entitlements');
+    });
+
+    it('should skip missing optional includes', async () => {
+      const file = path.join(tempDir, 'optional.xcconfig');
+      await fs.writeFile(file, '#include? "Local.xcconfig"\nSWIFT_VERSION = 5.9\n');
+
+      const settings = await parseXcconfig(file);
+
+      expect(settings).toEqual({ SWIFT_VERSION: '5.9' });
+    });
+
+    it('should throw for missing required includes', async () => {
+      const file = path.join(tempDir, 'required.xcconfig');
+      await fs.writeFile(file, '#include "Missing.xcconfig"\n');
+
+      await expect(parseXcconfig(file)).rejects.toThrow('Included xcconfig not found');
+    });
+
+    it('should detect circular includes', async () => {
+      const a = path.join(tempDir, 'a.xcconfig');
+      const b = path.join(tempDir, 'b.xcconfig');
+      await fs.writeFile(a, '#include "b.xcconfig"\n');
+      await fs.writeFile(b, '#include "a.xcconfig"\n');
+
+      await expect(parseXcconfig(a)).rejects.toThrow('Circular #include');
+    });
+
+    it('should resolve $(inherited) across included files', async () => {
+      const dir = path.join(tempDir, 'inherited');
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(path.join(dir, 'Base.xcconfig'), 'OTHER_LDFLAGS = -ObjC\n');
+      await fs.writeFile(
+        path.join(dir, 'App.xcconfig'),
+        '#include "Base.xcconfig"\nOTHER_LDFLAGS = $(inherited) -lz\n'
+      );
+
+      const settings = await parseXcconfig(path.join(dir, 'App.xcconfig'));
+
+      expect(settings['OTHER_LDFLAGS']).toBe('-ObjC -lz');
+    });
+  });
+});
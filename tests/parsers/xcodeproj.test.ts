@@ -23,7 +23,7 @@ describe('parseXcodeProject', () => {
     AAAAAAAAAAAAAAAAAAAAAAAA = { isa = PBXProject; buildConfigurationList = BBBBBBBBBBBBBBBBBBBBBBBB; mainGroup = CCCCCCCCCCCCCCCCCCCCCCCC; targets = (DDDDDDDDDDDDDDDDDDDDDDDD); };
     BBBBBBBBBBBBBBBBBBBBBBBB = { isa = XCConfigurationList; buildConfigurations = (EEEEEEEEEEEEEEEEEEEEEEEE, FFFFFFFFFFFFFFFFFFFFFFFF); };
     EEEEEEEEEEEEEEEEEEEEEEEE = { isa = XCBuildConfiguration; name = Debug; buildSettings = { PRODUCT_BUNDLE_IDENTIFIER = "com.test.app"; IPHONEOS_DEPLOYMENT_TARGET = "16.0"; INFOPLIST_FILE = "TestApp/Info.plist"; CODE_SIGN_ENTITLEMENTS = "TestApp/TestApp.entitlements"; }; };
-    FFFFFFFFFFFFFFFFFFFFFFFF = { isa = XCBuildConfiguration; name = Release; buildSettings = { PRODUCT_BUNDLE_IDENTIFIER = "com.test.app"; IPHONEOS_DEPLOYMENT_TARGET = "16.0"; }; };
+    FFFFFFFFFFFFFFFFFFFFFFFF = { isa = XCBuildConfiguration; name = Release; buildSettings = { PRODUCT_BUNDLE_IDENTIFIER = "com.test.app"; IPHONEOS_DEPLOYMENT_TARGET = "16.0"; INFOPLIST_FILE = "TestApp/Info.plist"; CODE_SIGN_ENTITLEMENTS = "TestApp/TestApp.entitlements"; }; };
     DDDDDDDDDDDDDDDDDDDDDDDD = { isa = PBXNativeTarget; name = TestApp; productType = "com.apple.product-type.application"; buildConfigurationList = BBBBBBBBBBBBBBBBBBBBBBBB; buildPhases = (111111111111111111111111); };
     CCCCCCCCCCCCCCCCCCCCCCCC = { isa = PBXGroup; children = (); sourceTree = "<group>"; };
     111111111111111111111111 = { isa = PBXSourcesBuildPhase; files = (222222222222222222222222); };
@@ -73,6 +73,23 @@ describe('parseXcodeProject', () => {
       expect(project.configurations).toContain('Debug');
       expect(project.configurations).toContain('Release');
     });
+
+    it('should read the development region and known regions', async () => {
+      const xcodeproj = path.join(tempDir, 'RegionApp.xcodeproj');
+      await fs.mkdir(xcodeproj, { recursive: true });
+      await fs.writeFile(
+        path.join(xcodeproj, 'project.pbxproj'),
+        VALID_PBXPROJ.replace(
+          'isa = PBXProject;',
+          'isa = PBXProject; developmentRegion = en; knownRegions = (\n en,\n Base,\n "zh-Hans",\n );'
+        )
+      );
+
+      const project = await parseXcodeProject(xcodeproj);
+
+      expect(project.developmentRegion).toBe('en');
+      expect(project.knownRegions).toEqual(['en', 'Base', 'zh-Hans']);
+    });
   });
 
   describe('invalid project path', () => {
@@ -138,6 +155,55 @@ describe('parseXcodeProject', () => {
       );
     });
 
+    it('should merge targets from every project in nested groups', async () => {
+      const root = path.join(tempDir, 'multi-workspace');
+      const workspace = path.join(root, 'Shop.xcworkspace');
+      await fs.mkdir(workspace, { recursive: true });
+
+      const writeProject = async (projectPath: string, targetName: string): Promise<void> => {
+        await fs.mkdir(projectPath, { recursive: true });
+        await fs.writeFile(
+          path.join(projectPath, 'project.pbxproj'),
+          VALID_PBXPROJ.replace('name = TestApp;', `name = ${targetName};`)
+        );
+      };
+      const externalRoot = path.join(tempDir, 'external');
+      await writeProject(path.join(root, 'Modules', 'Cart', 'Cart.xcodeproj'), 'Cart');
+      await writeProject(path.join(root, 'Modules', 'Search.xcodeproj'), 'Search');
+      await writeProject(path.join(root, 'App', 'Shop.xcodeproj'), 'Shop');
+      await writeProject(path.join(externalRoot, 'Analytics.xcodeproj'), 'Analytics');
+
+      await fs.writeFile(
+        path.join(workspace, 'contents.xcworkspacedata'),
+        `<?xml version="1.0" encoding="UTF-8"?>
+<Workspace version="1.0">
+  <Group location="container:Modules" name="Modules">
+    <Group location="group:Cart" name="Cart">
+      <FileRef location="group:Cart.xcodeproj"></FileRef>
+    </Group>
+    <FileRef location="group:Search.xcodeproj"></FileRef>
+  </Group>
+  <FileRef location="container:App/Shop.xcodeproj"></FileRef>
+  <FileRef location="absolute:${path.join(externalRoot, 'Analytics.xcodeproj')}"></FileRef>
+  <FileRef location="group:Pods/Pods.xcodeproj"></FileRef>
+  <FileRef location="group:README.md"></FileRef>
+</Workspace>`
+      );
+
+      const project = await parseXcodeProject(workspace);
+
+      expect(project.name).toBe('Shop');
+      // The project named after the workspace comes first; missing Pods is skipped
+      expect(project.targets.map((t) => t.name)).toEqual(['Shop', 'Cart', 'Search', 'Analytics']);
+      expect(project.targets.find((t) => t.name === 'Cart')!.projectPath).toBe(
+        path.join(root, 'Modules', 'Cart', 'Cart.xcodeproj')
+      );
+      expect(project.targets.find((t) => t.name === 'Analytics')!.projectPath).toBe(
+        path.join(externalRoot, 'Analytics.xcodeproj')
+      );
+      expect(project.configurations).toEqual(['Debug', 'Release']);
+    });
+
     it('should throw if contents.xcworkspacedata is missing', async () => {
       const workspace = path.join(tempDir, 'NoContents.xcworkspace');
       await fs.mkdir(workspace, { recursive: true });
@@ -231,6 +297,554 @@ describe('parseXcodeProject', () => {
       expect(target!.entitlementsPath).toBeDefined();
       expect(target!.entitlementsPath).toContain('TestApp.entitlements');
     });
+
+    it('should apply conditional settings for the device SDK and configuration', async () => {
+      const pbxproj = VALID_PBXPROJ.replace(
+        /CODE_SIGN_ENTITLEMENTS = "TestApp\/TestApp.entitlements";/g,
+        `$&
+          "CODE_SIGN_ENTITLEMENTS[sdk=iphonesimulator*]" = "TestApp/Simulator.entitlements";
+          "CODE_SIGN_ENTITLEMENTS[config=Release]" = "TestApp/Release.entitlements";`
+      );
+      const xcodeproj = path.join(tempDir, 'ConditionalApp.xcodeproj');
+      await fs.mkdir(xcodeproj, { recursive: true });
+      await fs.writeFile(path.join(xcodeproj, 'project.pbxproj'), pbxproj);
+
+      const project = await parseXcodeProject(xcodeproj, { configuration: 'Debug' });
+      const target = project.targets.find((t) => t.name === 'TestApp');
+
+      expect(path.basename(target!.buildConfigurations!['Debug']!.entitlementsPath!)).toBe('TestApp.entitlements');
+      expect(path.basename(target!.buildConfigurations!['Release']!.entitlementsPath!)).toBe('Release.entitlements');
+    });
+  });
+
+  describe('xcconfig base configurations', () => {
+    const XCCONFIG_PBXPROJ = `// !$*UTF8*$!
+{
+  archiveVersion = 1;
+  objectVersion = 56;
+  objects = {
+    AAAAAAAAAAAAAAAAAAAAAAAA = { isa = PBXProject; buildConfigurationList = BBBBBBBBBBBBBBBBBBBBBBBB; mainGroup = CCCCCCCCCCCCCCCCCCCCCCCC; targets = (DDDDDDDDDDDDDDDDDDDDDDDD); };
+    BBBBBBBBBBBBBBBBBBBBBBBB = { isa = XCConfigurationList; buildConfigurations = (EEEEEEEEEEEEEEEEEEEEEEEE); };
+    EEEEEEEEEEEEEEEEEEEEEEEE = { isa = XCBuildConfiguration; baseConfigurationReference = 444444444444444444444444; buildSettings = { IPHONEOS_DEPLOYMENT_TARGET = "15.0"; }; name = Release; };
+    DDDDDDDDDDDDDDDDDDDDDDDD = { isa = PBXNativeTarget; buildConfigurationList = FFFFFFFFFFFFFFFFFFFFFFFF; buildPhases = (); name = App; productType = "com.apple.product-type.application"; };
+    FFFFFFFFFFFFFFFFFFFFFFFF = { isa = XCConfigurationList; buildConfigurations = (111111111111111111111111); };
+    111111111111111111111111 = { isa = XCBuildConfiguration; baseConfigurationReference = 555555555555555555555555; buildSettings = { IPHONEOS_DEPLOYMENT_TARGET = "16.0"; }; name = Release; };
+    CCCCCCCCCCCCCCCCCCCCCCCC = { isa = PBXGroup; children = (); sourceTree = "<group>"; };
+    444444444444444444444444 = { isa = PBXFileReference; lastKnownFileType = text.xcconfig; path = "Configs/Project.xcconfig"; sourceTree = "<group>"; };
+    555555555555555555555555 = { isa = PBXFileReference; lastKnownFileType = text.xcconfig; path = "Configs/App.xcconfig"; sourceTree = SOURCE_ROOT; };
+  };
+  rootObject = AAAAAAAAAAAAAAAAAAAAAAAA;
+}
+`;
+
+    it('should read build settings from target and project xcconfig files', async () => {
+      const root = path.join(tempDir, 'xcconfig-app');
+      const xcodeproj = path.join(root, 'App.xcodeproj');
+      await fs.mkdir(xcodeproj, { recursive: true });
+      await fs.mkdir(path.join(root, 'Configs'), { recursive: true });
+      await fs.writeFile(path.join(xcodeproj, 'project.pbxproj'), XCCONFIG_PBXPROJ);
+      await fs.writeFile(
+        path.join(root, 'Configs', 'Project.xcconfig'),
+        'PRODUCT_BUNDLE_IDENTIFIER = com.acme.project\nCODE_SIGN_ENTITLEMENTS = App/App.entitlements\n'
+      );
+      await fs.writeFile(
+        path.join(root, 'Configs', 'App.xcconfig'),
+        '#include "Shared.xcconfig"\nPRODUCT_BUNDLE_IDENTIFIER = com.acme.app\n'
+      );
+      await fs.writeFile(path.join(root, 'Configs', 'Shared.xcconfig'), 'INFOPLIST_FILE = App/Info.plist\n');
+
+      const project = await parseXcodeProject(xcodeproj);
+      const target = project.targets.find((t) => t.name === 'App');
+
+      expect(target!.bundleIdentifier).toBe('com.acme.app');
+      expect(target!.infoPlistPath).toBe(path.join(root, 'App', 'Info.plist'));
+      expect(target!.entitlementsPath).toBe(path.join(root, 'App', 'App.entitlements'));
+      // Inline target settings take precedence over every xcconfig
+      expect(target!.deploymentTarget).toBe('16.0');
+    });
+
+    it('should fall back to inline settings when the xcconfig is missing', async () => {
+      const root = path.join(tempDir, 'xcconfig-missing');
+      const xcodeproj = path.join(root, 'App.xcodeproj');
+      await fs.mkdir(xcodeproj, { recursive: true });
+      await fs.writeFile(path.join(xcodeproj, 'project.pbxproj'), XCCONFIG_PBXPROJ);
+
+      const project = await parseXcodeProject(xcodeproj);
+      const target = project.targets.find((t) => t.name === 'App');
+
+      expect(target!.bundleIdentifier).toBeUndefined();
+      expect(target!.deploymentTarget).toBe('16.0');
+    });
+  });
+
+  describe('build setting expansion', () => {
+    it('should expand variables in bundle identifiers and plist paths', async () => {
+      const pbxproj = VALID_PBXPROJ.replace(
+        'PRODUCT_BUNDLE_IDENTIFIER = "com.test.app"; IPHONEOS_DEPLOYMENT_TARGET = "16.0"; INFOPLIST_FILE = "TestApp/Info.plist";',
+        'PRODUCT_NAME = "$(TARGET_NAME)"; PRODUCT_BUNDLE_IDENTIFIER = "com.acme.$(PRODUCT_NAME:rfc1034identifier)"; IPHONEOS_DEPLOYMENT_TARGET = "16.0"; INFOPLIST_FILE = "$(SRCROOT)/$(TARGET_NAME)/Info.plist";'
+      );
+      const root = path.join(tempDir, 'expansion');
+      const xcodeproj = path.join(root, 'Expansion.xcodeproj');
+      await fs.mkdir(xcodeproj, { recursive: true });
+      await fs.writeFile(path.join(xcodeproj, 'project.pbxproj'), pbxproj);
+
+      const project = await parseXcodeProject(xcodeproj, { configuration: 'Debug' });
+      const target = project.targets.find((t) => t.name === 'TestApp');
+
+      expect(target!.bundleIdentifier).toBe('com.acme.TestApp');
+      expect(target!.infoPlistPath).toBe(path.join(root, 'TestApp', 'Info.plist'));
+    });
+  });
+
+  describe('per-configuration settings', () => {
+    const CONFIG_PBXPROJ = `// !$*UTF8*$!
+{
+  archiveVersion = 1;
+  objectVersion = 56;
+  objects = {
+    AAAAAAAAAAAAAAAAAAAAAAAA = { isa = PBXProject; buildConfigurationList = BBBBBBBBBBBBBBBBBBBBBBBB; mainGroup = CCCCCCCCCCCCCCCCCCCCCCCC; targets = (DDDDDDDDDDDDDDDDDDDDDDDD); };
+    BBBBBBBBBBBBBBBBBBBBBBBB = { isa = XCConfigurationList; buildConfigurations = (EEEEEEEEEEEEEEEEEEEEEEEE, FFFFFFFFFFFFFFFFFFFFFFFF, 999999999999999999999999); defaultConfigurationName = Release; };
+    EEEEEEEEEEEEEEEEEEEEEEEE = { isa = XCBuildConfiguration; name = Debug; buildSettings = { PRODUCT_BUNDLE_IDENTIFIER = "com.acme.app.debug"; CODE_SIGN_ENTITLEMENTS = "App/Debug.entitlements"; }; };
+    FFFFFFFFFFFFFFFFFFFFFFFF = { isa = XCBuildConfiguration; name = Release; buildSettings = { PRODUCT_BUNDLE_IDENTIFIER = "com.acme.app"; }; };
+    999999999999999999999999 = { isa = XCBuildConfiguration; name = Staging; buildSettings = { PRODUCT_BUNDLE_IDENTIFIER = "com.acme.app.staging"; CODE_SIGN_ENTITLEMENTS = "App/Staging.entitlements"; }; };
+    DDDDDDDDDDDDDDDDDDDDDDDD = { isa = PBXNativeTarget; name = App; productType = "com.apple.product-type.application"; buildConfigurationList = BBBBBBBBBBBBBBBBBBBBBBBB; buildPhases = (); };
+    CCCCCCCCCCCCCCCCCCCCCCCC = { isa = PBXGroup; children = (); sourceTree = "<group>"; };
+  };
+  rootObject = AAAAAAAAAAAAAAAAAAAAAAAA;
+}
+`;
+
+    let xcodeproj: string;
+
+    beforeAll(async () => {
+      xcodeproj = path.join(tempDir, 'Configs.xcodeproj');
+      await fs.mkdir(xcodeproj, { recursive: true });
+      await fs.writeFile(path.join(xcodeproj, 'project.pbxproj'), CONFIG_PBXPROJ);
+    });
+
+    it('should expose settings for every configuration', async () => {
+      const project = await parseXcodeProject(xcodeproj);
+      const target = project.targets[0]!;
+
+      expect(Object.keys(target.buildConfigurations!)).toEqual(['Debug', 'Release', 'Staging']);
+      expect(target.buildConfigurations!['Debug']!.entitlementsPath).toBe(
+        path.join(tempDir, 'App', 'Debug.entitlements')
+      );
+      expect(target.buildConfigurations!['Release']!.buildSettings['PRODUCT_BUNDLE_IDENTIFIER']).toBe(
+        'com.acme.app'
+      );
+    });
+
+    it('should not mix Debug settings into the default Release configuration', async () => {
+      const project = await parseXcodeProject(xcodeproj);
+      const target = project.targets[0]!;
+
+      expect(target.configuration).toBe('Release');
+      expect(target.bundleIdentifier).toBe('com.acme.app');
+      expect(target.entitlementsPath).toBeUndefined();
+    });
+
+    it('should use the requested configuration', async () => {
+      const project = await parseXcodeProject(xcodeproj, { configuration: 'Staging' });
+      const target = project.targets[0]!;
+
+      expect(target.configuration).toBe('Staging');
+      expect(target.bundleIdentifier).toBe('com.acme.app.staging');
+      expect(target.entitlementsPath).toBe(path.join(tempDir, 'App', 'Staging.entitlements'));
+    });
+
+    it('should throw for an unknown configuration', async () => {
+      await expect(parseXcodeProject(xcodeproj, { configuration: 'Beta' })).rejects.toThrow(
+        'Build configuration "Beta" not found'
+      );
+    });
+  });
+
+  describe('schemes', () => {
+    const SCHEME_PBXPROJ = `// !$*UTF8*$!
+{
+  archiveVersion = 1;
+  objectVersion = 56;
+  objects = {
+    AAAAAAAAAAAAAAAAAAAAAAAA = { isa = PBXProject; buildConfigurationList = BBBBBBBBBBBBBBBBBBBBBBBB; mainGroup = CCCCCCCCCCCCCCCCCCCCCCCC; targets = (DDDDDDDDDDDDDDDDDDDDDDDD, 444444444444444444444444, 555555555555555555555555); };
+    BBBBBBBBBBBBBBBBBBBBBBBB = { isa = XCConfigurationList; buildConfigurations = (EEEEEEEEEEEEEEEEEEEEEEEE, FFFFFFFFFFFFFFFFFFFFFFFF, 999999999999999999999999); defaultConfigurationName = Release; };
+    EEEEEEEEEEEEEEEEEEEEEEEE = { isa = XCBuildConfiguration; name = Debug; buildSettings = { PRODUCT_BUNDLE_IDENTIFIER = "com.acme.$(TARGET_NAME).debug"; }; };
+    FFFFFFFFFFFFFFFFFFFFFFFF = { isa = XCBuildConfiguration; name = Release; buildSettings = { PRODUCT_BUNDLE_IDENTIFIER = "com.acme.$(TARGET_NAME)"; }; };
+    999999999999999999999999 = { isa = XCBuildConfiguration; name = AppStore; buildSettings = { PRODUCT_BUNDLE_IDENTIFIER = "com.acme.$(TARGET_NAME).store"; }; };
+    DDDDDDDDDDDDDDDDDDDDDDDD = { isa = PBXNativeTarget; name = App; productType = "com.apple.product-type.application"; buildConfigurationList = BBBBBBBBBBBBBBBBBBBBBBBB; buildPhases = (); dependencies = (666666666666666666666666); };
+    444444444444444444444444 = { isa = PBXNativeTarget; name = Widget; productType = "com.apple.product-type.app-extension"; buildConfigurationList = BBBBBBBBBBBBBBBBBBBBBBBB; buildPhases = (); dependencies = (); };
+    555555555555555555555555 = { isa = PBXNativeTarget; name = AppTests; productType = "com.apple.product-type.bundle.unit-test"; buildConfigurationList = BBBBBBBBBBBBBBBBBBBBBBBB; buildPhases = (); dependencies = (); };
+    666666666666666666666666 = { isa = PBXTargetDependency; target = 444444444444444444444444 /* Widget */; targetProxy = 777777777777777777777777; };
+    CCCCCCCCCCCCCCCCCCCCCCCC = { isa = PBXGroup; children = (); sourceTree = "<group>"; };
+  };
+  rootObject = AAAAAAAAAAAAAAAAAAAAAAAA;
+}
+`;
+
+    const schemeXml = (archiveConfiguration: string, targets: string[]): string => `<?xml version="1.0" encoding="UTF-8"?>
+<Scheme version = "1.7">
+   <BuildAction buildImplicitDependencies = "YES">
+      <BuildActionEntries>${targets
+        .map(
+          (name) => `
+         <BuildActionEntry buildForRunning = "YES" buildForArchiving = "${name.endsWith('Tests') ? 'NO' : 'YES'}">
+            <BuildableReference BuildableIdentifier = "primary" BlueprintName = "${name}" ReferencedContainer = "container:Schemes.xcodeproj">
+            </BuildableReference>
+         </BuildActionEntry>`
+        )
+        .join('')}
+      </BuildActionEntries>
+   </BuildAction>
+   <ArchiveAction buildConfiguration = "${archiveConfiguration}" revealArchiveInOrganizer = "YES">
+   </ArchiveAction>
+</Scheme>
+`;
+
+    let xcodeproj: string;
+
+    beforeAll(async () => {
+      xcodeproj = path.join(tempDir, 'Schemes.xcodeproj');
+      const shared = path.join(xcodeproj, 'xcshareddata', 'xcschemes');
+      const user = path.join(xcodeproj, 'xcuserdata', 'dev.xcuserdatad', 'xcschemes');
+      await fs.mkdir(shared, { recursive: true });
+      await fs.mkdir(user, { recursive: true });
+      await fs.writeFile(path.join(xcodeproj, 'project.pbxproj'), SCHEME_PBXPROJ);
+      await fs.writeFile(path.join(shared, 'App.xcscheme'), schemeXml('AppStore', ['App', 'AppTests']));
+      await fs.writeFile(path.join(user, 'Widget.xcscheme'), schemeXml('Debug', ['Widget']));
+    });
+
+    it('should list shared and user schemes', async () => {
+      const project = await parseXcodeProject(xcodeproj);
+
+      expect(project.schemes!.map((s) => [s.name, s.shared])).toEqual([
+        ['App', true],
+        ['Widget', false],
+      ]);
+      expect(project.targets.find((t) => t.name === 'App')!.dependencies).toEqual(['Widget']);
+    });
+
+    it('should analyze the archive targets and their dependencies', async () => {
+      const project = await parseXcodeProject(xcodeproj, { scheme: 'App' });
+
+      expect(project.targets.map((t) => t.name)).toEqual(['App', 'Widget']);
+      expect(project.targets.map((t) => t.configuration)).toEqual(['AppStore', 'AppStore']);
+      expect(project.targets[0]!.bundleIdentifier).toBe('com.acme.App.store');
+    });
+
+    it('should prefer an explicit configuration over the archive configuration', async () => {
+      const project = await parseXcodeProject(xcodeproj, { scheme: 'App', configuration: 'Release' });
+
+      expect(project.targets[0]!.configuration).toBe('Release');
+      expect(project.targets[0]!.bundleIdentifier).toBe('com.acme.App');
+    });
+
+    it('should support user schemes', async () => {
+      const project = await parseXcodeProject(xcodeproj, { scheme: 'Widget' });
+
+      expect(project.targets.map((t) => t.name)).toEqual(['Widget']);
+      expect(project.targets[0]!.bundleIdentifier).toBe('com.acme.Widget.debug');
+    });
+
+    it('should throw for an unknown scheme', async () => {
+      await expect(parseXcodeProject(xcodeproj, { scheme: 'Beta' })).rejects.toThrow(
+        'Scheme "Beta" not found. Available schemes: App, Widget'
+      );
+    });
+
+    it('should include project schemes when parsing a workspace', async () => {
+      const workspace = path.join(tempDir, 'Schemes.xcworkspace');
+      await fs.mkdir(workspace, { recursive: true });
+      await fs.writeFile(
+        path.join(workspace, 'contents.xcworkspacedata'),
+        `<?xml version="1.0" encoding="UTF-8"?>
+<Workspace version="1.0">
+  <FileRef location="group:Schemes.xcodeproj"></FileRef>
+</Workspace>`
+      );
+
+      const project = await parseXcodeProject(workspace, { scheme: 'App' });
+
+      expect(project.schemes!.map((s) => s.name)).toEqual(['App', 'Widget']);
+      expect(project.targets.map((t) => t.name)).toEqual(['App', 'Widget']);
+    });
+  });
+
+  describe('group hierarchy', () => {
+    const GROUPS_PBXPROJ = `// !$*UTF8*$!
+{
+  archiveVersion = 1;
+  objectVersion = 56;
+  objects = {
+    AAAAAAAAAAAAAAAAAAAAAAAA = { isa = PBXProject; mainGroup = CCCCCCCCCCCCCCCCCCCCCCCC; targets = (DDDDDDDDDDDDDDDDDDDDDDDD); };
+    CCCCCCCCCCCCCCCCCCCCCCCC = { isa = PBXGroup; children = (111111111111111111111111, 555555555555555555555555, 666666666666666666666666); sourceTree = "<group>"; };
+    111111111111111111111111 /* App */ = { isa = PBXGroup; children = (222222222222222222222222, 333333333333333333333333, 444444444444444444444444, 777777777777777777777777); path = App; sourceTree = "<group>"; };
+    222222222222222222222222 /* Features */ = { isa = PBXGroup; children = (888888888888888888888888); name = Features; sourceTree = "<group>"; };
+    888888888888888888888888 /* Feed */ = { isa = PBXGroup; children = (999999999999999999999999); path = "Feed Screen"; sourceTree = "<group>"; };
+    999999999999999999999999 /* FeedView.swift */ = { isa = PBXFileReference; lastKnownFileType = sourcecode.swift; path = FeedView.swift; sourceTree = "<group>"; };
+    333333333333333333333333 /* AppDelegate.swift */ = { isa = PBXFileReference; lastKnownFileType = sourcecode.swift; path = AppDelegate.swift; sourceTree = "<group>"; };
+    444444444444444444444444 /* Assets.xcassets */ = { isa = PBXFileReference; lastKnownFileType = folder.assetcatalog; path = Assets.xcassets; sourceTree = "<group>"; };
+    777777777777777777777777 /* Main.storyboard */ = { isa = PBXVariantGroup; children = (AAAAAAAAAAAAAAAAAAAAAAA1, AAAAAAAAAAAAAAAAAAAAAAA2); name = Main.storyboard; sourceTree = "<group>"; };
+    AAAAAAAAAAAAAAAAAAAAAAA1 /* Base */ = { isa = PBXFileReference; lastKnownFileType = file.storyboard; name = Base; path = Base.lproj/Main.storyboard; sourceTree = "<group>"; };
+    AAAAAAAAAAAAAAAAAAAAAAA2 /* de */ = { isa = PBXFileReference; lastKnownFileType = text.plist.strings; name = de; path = de.lproj/Main.strings; sourceTree = "<group>"; };
+    555555555555555555555555 /* Generated.swift */ = { isa = PBXFileReference; path = Shared/Generated.swift; sourceTree = SOURCE_ROOT; };
+    666666666666666666666666 /* Products */ = { isa = PBXGroup; children = (BBBBBBBBBBBBBBBBBBBBBBB1); name = Products; sourceTree = "<group>"; };
+    BBBBBBBBBBBBBBBBBBBBBBB1 /* App.app */ = { isa = PBXFileReference; explicitFileType = wrapper.application; path = App.app; sourceTree = BUILT_PRODUCTS_DIR; };
+    DDDDDDDDDDDDDDDDDDDDDDDD = { isa = PBXNativeTarget; buildPhases = (EEEEEEEEEEEEEEEEEEEEEEE1, EEEEEEEEEEEEEEEEEEEEEEE2); name = App; productReference = BBBBBBBBBBBBBBBBBBBBBBB1; productType = "com.apple.product-type.application"; };
+    EEEEEEEEEEEEEEEEEEEEEEE1 = { isa = PBXSourcesBuildPhase; files = (FFFFFFFFFFFFFFFFFFFFFFF1, FFFFFFFFFFFFFFFFFFFFFFF2, FFFFFFFFFFFFFFFFFFFFFFF3); };
+    EEEEEEEEEEEEEEEEEEEEEEE2 = { isa = PBXResourcesBuildPhase; files = (FFFFFFFFFFFFFFFFFFFFFFF4, FFFFFFFFFFFFFFFFFFFFFFF5); };
+    FFFFFFFFFFFFFFFFFFFFFFF1 = { isa = PBXBuildFile; fileRef = 999999999999999999999999; };
+    FFFFFFFFFFFFFFFFFFFFFFF2 = { isa = PBXBuildFile; fileRef = 333333333333333333333333; };
+    FFFFFFFFFFFFFFFFFFFFFFF3 = { isa = PBXBuildFile; fileRef = 555555555555555555555555; };
+    FFFFFFFFFFFFFFFFFFFFFFF4 = { isa = PBXBuildFile; fileRef = 444444444444444444444444; };
+    FFFFFFFFFFFFFFFFFFFFFFF5 = { isa = PBXBuildFile; fileRef = 777777777777777777777777; };
+  };
+  rootObject = AAAAAAAAAAAAAAAAAAAAAAAA;
+}
+`;
+
+    it('should resolve file paths through nested groups and source trees', async () => {
+      const root = path.join(tempDir, 'groups');
+      const xcodeproj = path.join(root, 'App.xcodeproj');
+      await fs.mkdir(xcodeproj, { recursive: true });
+      await fs.writeFile(path.join(xcodeproj, 'project.pbxproj'), GROUPS_PBXPROJ);
+
+      const project = await parseXcodeProject(xcodeproj);
+      const target = project.targets[0]!;
+
+      expect(target.sourceFiles).toEqual([
+        // "Features" has no path, so it does not add a directory level
+        path.join(root, 'App', 'Feed Screen', 'FeedView.swift'),
+        path.join(root, 'App', 'AppDelegate.swift'),
+        path.join(root, 'Shared', 'Generated.swift'),
+      ]);
+    });
+
+    it('should expose resource files including every localization of a variant group', async () => {
+      const root = path.join(tempDir, 'groups-resources');
+      const xcodeproj = path.join(root, 'App.xcodeproj');
+      await fs.mkdir(xcodeproj, { recursive: true });
+      await fs.writeFile(path.join(xcodeproj, 'project.pbxproj'), GROUPS_PBXPROJ);
+
+      const project = await parseXcodeProject(xcodeproj);
+      const target = project.targets[0]!;
+
+      expect(target.resourceFiles).toEqual([
+        path.join(root, 'App', 'Assets.xcassets'),
+        path.join(root, 'App', 'Base.lproj', 'Main.storyboard'),
+        path.join(root, 'App', 'de.lproj', 'Main.strings'),
+      ]);
+    });
+  });
+
+  describe('synchronized folder groups', () => {
+    const SYNC_PBXPROJ = `// !$*UTF8*$!
+{
+  archiveVersion = 1;
+  objectVersion = 77;
+  objects = {
+    AAAAAAAAAAAAAAAAAAAAAAAA = { isa = PBXProject; mainGroup = CCCCCCCCCCCCCCCCCCCCCCCC; targets = (DDDDDDDDDDDDDDDDDDDDDDDD, EEEEEEEEEEEEEEEEEEEEEEEE, FFFFFFFFFFFFFFFFFFFFFFFF); };
+    CCCCCCCCCCCCCCCCCCCCCCCC = { isa = PBXGroup; children = (111111111111111111111111, 222222222222222222222222); sourceTree = "<group>"; };
+    111111111111111111111111 /* App */ = {
+      isa = PBXFileSystemSynchronizedRootGroup;
+      exceptions = (
+        333333333333333333333333 /* PBXFileSystemSynchronizedBuildFileExceptionSet */,
+        444444444444444444444444 /* PBXFileSystemSynchronizedBuildFileExceptionSet */,
+      );
+      path = App;
+      sourceTree = "<group>";
+    };
+    222222222222222222222222 /* AppTests */ = { isa = PBXFileSystemSynchronizedRootGroup; path = AppTests; sourceTree = "<group>"; };
+    333333333333333333333333 /* Exceptions for "App" folder in "App" target */ = {
+      isa = PBXFileSystemSynchronizedBuildFileExceptionSet;
+      membershipExceptions = (
+        Info.plist,
+        "Preview Content",
+        "Debug Tools/Logger.swift",
+      );
+      target = DDDDDDDDDDDDDDDDDDDDDDDD /* App */;
+    };
+    444444444444444444444444 /* Exceptions for "App" folder in "Widget" target */ = {
+      isa = PBXFileSystemSynchronizedBuildFileExceptionSet;
+      membershipExceptions = (
+        Shared/Model.swift,
+      );
+      target = EEEEEEEEEEEEEEEEEEEEEEEE /* Widget */;
+    };
+    DDDDDDDDDDDDDDDDDDDDDDDD /* App */ = {
+      isa = PBXNativeTarget;
+      buildPhases = ();
+      fileSystemSynchronizedGroups = (
+        111111111111111111111111 /* App */,
+      );
+      name = App;
+      productType = "com.apple.product-type.application";
+    };
+    EEEEEEEEEEEEEEEEEEEEEEEE /* Widget */ = { isa = PBXNativeTarget; buildPhases = (); name = Widget; productType = "com.apple.product-type.app-extension"; };
+    FFFFFFFFFFFFFFFFFFFFFFFF /* AppTests */ = { isa = PBXNativeTarget; buildPhases = (); fileSystemSynchronizedGroups = (222222222222222222222222 /* AppTests */); name = AppTests; productType = "com.apple.product-type.bundle.unit-test"; };
+  };
+  rootObject = AAAAAAAAAAAAAAAAAAAAAAAA;
+}
+`;
+
+    it('should resolve synchronized folders and membership exceptions per target', async () => {
+      const root = path.join(tempDir, 'sync-groups');
+      const xcodeproj = path.join(root, 'App.xcodeproj');
+      await fs.mkdir(xcodeproj, { recursive: true });
+      await fs.writeFile(path.join(xcodeproj, 'project.pbxproj'), SYNC_PBXPROJ);
+      for (const file of [
+        'App/AppMain.swift',
+        'App/Shared/Model.swift',
+        'App/Debug Tools/Logger.swift',
+        'App/Preview Content/PreviewData.swift',
+        'App/Info.plist',
+        'App/Legacy/Bridge.m',
+        'App/Assets.xcassets/Contents.json',
+        'App/Assets.xcassets/AppIcon.appiconset/Contents.json',
+        'AppTests/AppTests.swift',
+      ]) {
+        await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+        await fs.writeFile(path.join(root, file), '');
+      }
+
+      const project = await parseXcodeProject(xcodeproj);
+      const sourcesOf = (name: string): string[] =>
+        project.targets
+          .find((t) => t.name === name)!
+          .sourceFiles.map((f) => path.relative(root, f))
+          .sort();
+
+      expect(sourcesOf('App')).toEqual([
+        path.join('App', 'AppMain.swift'),
+        path.join('App', 'Legacy', 'Bridge.m'),
+        path.join('App', 'Shared', 'Model.swift'),
+      ]);
+      expect(sourcesOf('Widget')).toEqual([path.join('App', 'Shared', 'Model.swift')]);
+      expect(sourcesOf('AppTests')).toEqual([path.join('AppTests', 'AppTests.swift')]);
+      // Info.plist is excepted; the asset catalog counts as one resource
+      expect(project.targets.find((t) => t.name === 'App')!.resourceFiles).toEqual([
+        path.join(root, 'App', 'Assets.xcassets'),
+      ]);
+    });
+  });
+
+  describe('Swift packages', () => {
+    const SPM_PBXPROJ = `// !$*UTF8*$!
+{
+  archiveVersion = 1;
+  objectVersion = 60;
+  objects = {
+    AAAAAAAAAAAAAAAAAAAAAAAA = { isa = PBXProject; mainGroup = CCCCCCCCCCCCCCCCCCCCCCCC; packageReferences = (111111111111111111111111, 222222222222222222222222); targets = (DDDDDDDDDDDDDDDDDDDDDDDD); };
+    CCCCCCCCCCCCCCCCCCCCCCCC = { isa = PBXGroup; children = (); sourceTree = "<group>"; };
+    DDDDDDDDDDDDDDDDDDDDDDDD = {
+      isa = PBXNativeTarget;
+      buildPhases = ();
+      name = App;
+      packageProductDependencies = (
+        333333333333333333333333 /* Alamofire */,
+        444444444444444444444444 /* FeatureKit */,
+      );
+      productName = App;
+      productType = "com.apple.product-type.application";
+    };
+    111111111111111111111111 /* XCRemoteSwiftPackageReference "Alamofire" */ = {
+      isa = XCRemoteSwiftPackageReference;
+      repositoryURL = "https://github.com/Alamofire/Alamofire.git";
+      requirement = {
+        kind = upToNextMajorVersion;
+        minimumVersion = 5.8.0;
+      };
+    };
+    222222222222222222222222 /* XCLocalSwiftPackageReference "Packages/FeatureKit" */ = {
+      isa = XCLocalSwiftPackageReference;
+      relativePath = Packages/FeatureKit;
+    };
+    333333333333333333333333 /* Alamofire */ = {
+      isa = XCSwiftPackageProductDependency;
+      package = 111111111111111111111111 /* XCRemoteSwiftPackageReference "Alamofire" */;
+      productName = Alamofire;
+    };
+    444444444444444444444444 /* FeatureKit */ = {
+      isa = XCSwiftPackageProductDependency;
+      package = 222222222222222222222222 /* XCLocalSwiftPackageReference "Packages/FeatureKit" */;
+      productName = FeatureKit;
+    };
+  };
+  rootObject = AAAAAAAAAAAAAAAAAAAAAAAA;
+}
+`;
+
+    it('should inventory package references, resolved versions and linked products', async () => {
+      const root = path.join(tempDir, 'spm');
+      const xcodeproj = path.join(root, 'App.xcodeproj');
+      const swiftpmDir = path.join(xcodeproj, 'project.xcworkspace', 'xcshareddata', 'swiftpm');
+      await fs.mkdir(swiftpmDir, { recursive: true });
+      await fs.writeFile(path.join(xcodeproj, 'project.pbxproj'), SPM_PBXPROJ);
+      await fs.writeFile(
+        path.join(swiftpmDir, 'Package.resolved'),
+        JSON.stringify({
+          pins: [
+            {
+              identity: 'alamofire',
+              kind: 'remoteSourceControl',
+              location: 'https://github.com/Alamofire/Alamofire.git',
+              state: { revision: 'aaa111', version: '5.9.1' },
+            },
+            {
+              identity: 'swift-log',
+              kind: 'remoteSourceControl',
+              location: 'https://github.com/apple/swift-log.git',
+              state: { revision: 'bbb222', version: '1.5.4' },
+            },
+          ],
+          version: 2,
+        })
+      );
+
+      const project = await parseXcodeProject(xcodeproj);
+
+      expect(project.packages).toEqual([
+        {
+          identity: 'alamofire',
+          location: 'https://github.com/Alamofire/Alamofire.git',
+          kind: 'remote',
+          requirement: 'upToNextMajorVersion 5.8.0',
+          version: '5.9.1',
+          revision: 'aaa111',
+          branch: undefined,
+          direct: true,
+        },
+        {
+          identity: 'featurekit',
+          location: path.join(root, 'Packages', 'FeatureKit'),
+          kind: 'local',
+          direct: true,
+        },
+        {
+          identity: 'swift-log',
+          location: 'https://github.com/apple/swift-log.git',
+          kind: 'remote',
+          version: '1.5.4',
+          revision: 'bbb222',
+          branch: undefined,
+          direct: false,
+        },
+      ]);
+      expect(project.targets[0]!.packageProducts).toEqual([
+        { name: 'Alamofire', package: 'alamofire' },
+        { name: 'FeatureKit', package: 'featurekit' },
+      ]);
+    });
+
+    it('should list packages without versions when Package.resolved is missing', async () => {
+      const xcodeproj = path.join(tempDir, 'spm-unresolved', 'App.xcodeproj');
+      await fs.mkdir(xcodeproj, { recursive: true });
+      await fs.writeFile(path.join(xcodeproj, 'project.pbxproj'), SPM_PBXPROJ);
+
+      const project = await parseXcodeProject(xcodeproj);
+
+      expect(project.packages!.map((p) => p.identity)).toEqual(['alamofire', 'featurekit']);
+      expect(project.packages![0]!.version).toBeUndefined();
+    });
   });
 
   describe('product type mapping', () => {
@@ -272,6 +886,36 @@ describe('parseXcodeProject', () => {
       expect(target!.type).toBe('staticLibrary');
     });
 
+    it('should map App Clip targets to appClip', async () => {
+      const pbxproj = VALID_PBXPROJ.replace(
+        'com.apple.product-type.application',
+        'com.apple.product-type.application.on-demand-install-capable'
+      );
+      const xcodeproj = path.join(tempDir, 'AppClip.xcodeproj');
+      await fs.mkdir(xcodeproj, { recursive: true });
+      await fs.writeFile(path.join(xcodeproj, 'project.pbxproj'), pbxproj);
+
+      const project = await parseXcodeProject(xcodeproj);
+      const target = project.targets.find((t) => t.name === 'TestApp');
+      expect(target!.type).toBe('appClip');
+    });
+
+    it('should treat watchOS application targets as watch apps', async () => {
+      const pbxproj = VALID_PBXPROJ.replace(
+        /IPHONEOS_DEPLOYMENT_TARGET = "16.0";/g,
+        'SDKROOT = watchos; WATCHOS_DEPLOYMENT_TARGET = "10.0";'
+      );
+      const xcodeproj = path.join(tempDir, 'WatchApp.xcodeproj');
+      await fs.mkdir(xcodeproj, { recursive: true });
+      await fs.writeFile(path.join(xcodeproj, 'project.pbxproj'), pbxproj);
+
+      const project = await parseXcodeProject(xcodeproj);
+      const target = project.targets.find((t) => t.name === 'TestApp');
+      expect(target!.type).toBe('watchApp');
+      expect(target!.deploymentTarget).toBe('10.0');
+      expect(target!.buildConfigurations!['Release']!.buildSettings['PLATFORM_NAME']).toBe('watchos');
+    });
+
     it('should map unknown product types to unknown', async () => {
       const pbxproj = VALID_PBXPROJ.replace(
         'com.apple.product-type.application',
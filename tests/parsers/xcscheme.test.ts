@@ -0,0 +1,100 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { findSchemes, parseSchemeContent } from '../../src/parsers/xcscheme.js';
+
+const scheme = (archiveConfiguration: string, entries: string): string => `<?xml version="1.0" encoding="UTF-8"?>
+<Scheme LastUpgradeVersion = "1500" version = "1.7">
+   <BuildAction parallelizeBuildables = "YES" buildImplicitDependencies = "YES">
+      <BuildActionEntries>
+${entries}
+      </BuildActionEntries>
+   </BuildAction>
+   <LaunchAction buildConfiguration = "Debug" launchStyle = "0">
+   </LaunchAction>
+   <ArchiveAction buildConfiguration = "${archiveConfiguration}" revealArchiveInOrganizer = "YES">
+   </ArchiveAction>
+</Scheme>
+`;
+
+const entry = (name: string, container: string, archiving = 'YES'): string => `
+         <BuildActionEntry buildForTesting = "YES" buildForRunning = "YES" buildForArchiving = "${archiving}">
+            <BuildableReference
+               BuildableIdentifier = "primary"
+               BlueprintIdentifier = "DDDDDDDDDDDDDDDDDDDDDDDD"
+               BuildableName = "${name}.app"
+               BlueprintName = "${name}"
+               ReferencedContainer = "container:${container}">
+            </BuildableReference>
+         </BuildActionEntry>`;
+
+describe('xcscheme parser', () => {
+  describe('parseSchemeContent', () => {
+    it('should read action configurations and archive targets', () => {
+      const result = parseSchemeContent(
+        scheme('Release', entry('App', 'App.xcodeproj') + entry('AppTests', 'App.xcodeproj', 'NO')),
+        '/projects'
+      );
+
+      expect(result).toEqual({
+        archiveConfiguration: 'Release',
+        launchConfiguration: 'Debug',
+        archiveTargets: [{ name: 'App', projectPath: path.resolve('/projects', 'App.xcodeproj') }],
+      });
+    });
+
+    it('should resolve containers relative to the project directory', () => {
+      const result = parseSchemeContent(
+        scheme('Release', entry('Core', 'Modules/Core.xcodeproj')),
+        '/projects'
+      );
+
+      expect(result.archiveTargets[0]!.projectPath).toBe(
+        path.resolve('/projects', 'Modules', 'Core.xcodeproj')
+      );
+    });
+
+    it('should decode XML entities in names', () => {
+      const result = parseSchemeContent(scheme('App Store &amp; TestFlight', ''), '/projects');
+
+      expect(result.archiveConfiguration).toBe('App Store & TestFlight');
+      expect(result.archiveTargets).toEqual([]);
+    });
+  });
+
+  describe('findSchemes', () => {
+    let tempDir: string;
+    let xcodeproj: string;
+
+    beforeAll(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'xcscheme-test-'));
+      xcodeproj = path.join(tempDir, 'App.xcodeproj');
+
+      const shared = path.join(xcodeproj, 'xcshareddata', 'xcschemes');
+      const user = path.join(xcodeproj, 'xcuserdata', 'dev.xcuserdatad', 'xcschemes');
+      await fs.mkdir(shared, { recursive: true });
+      await fs.mkdir(user, { recursive: true });
+      await fs.writeFile(path.join(shared, 'App.xcscheme'), scheme('Release', entry('App', 'App.xcodeproj')));
+      await fs.writeFile(path.join(user, 'App.xcscheme'), scheme('Debug', entry('App', 'App.xcodeproj')));
+      await fs.writeFile(path.join(user, 'Staging.xcscheme'), scheme('Staging', entry('App', 'App.xcodeproj')));
+    });
+
+    afterAll(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should find shared and user schemes', async () => {
+      const schemes = await findSchemes(xcodeproj);
+
+      expect(schemes.map((s) => [s.name, s.shared, s.archiveConfiguration])).toEqual([
+        ['App', true, 'Release'],
+        ['Staging', false, 'Staging'],
+      ]);
+      expect(schemes[0]!.archiveTargets).toEqual([{ name: 'App', projectPath: xcodeproj }]);
+    });
+
+    it('should return an empty list without scheme directories', async () => {
+      expect(await findSchemes(path.join(tempDir, 'Missing.xcodeproj'))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { deflateRawSync } from 'zlib';
+import { extractZip, readZipEntries } from '../../src/parsers/zip.js';
+
+interface TestEntry {
+  name: string;
+  data?: string;
+  deflate?: boolean;
+  symlink?: boolean;
+}
+
+/**
+ * Minimal ZIP writer used to build test archives. CRCs are left at zero
+ * since the reader does not verify them.
+ */
+function buildZip(entries: TestEntry[], options: { zip64?: boolean } = {}): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const raw = Buffer.from(entry.data ?? '');
+    const data = entry.deflate ? deflateRawSync(raw) : raw;
+    const method = entry.deflate ? 8 : 0;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    let extra = Buffer.alloc(0);
+    if (options.zip64) {
+      extra = Buffer.alloc(28);
+      extra.writeUInt16LE(0x0001, 0);
+      extra.writeUInt16LE(24, 2);
+      extra.writeBigUInt64LE(BigInt(raw.length), 4);
+      extra.writeBigUInt64LE(BigInt(data.length), 12);
+      extra.writeBigUInt64LE(BigInt(offset), 20);
+    }
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE((3 << 8) | 20, 4);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(options.zip64 ? 0xffffffff : data.length, 20);
+    central.writeUInt32LE(options.zip64 ? 0xffffffff : raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt16LE(extra.length, 30);
+    central.writeUInt32LE(((entry.symlink ? 0o120777 : 0o100644) << 16) >>> 0, 38);
+    central.writeUInt32LE(options.zip64 ? 0xffffffff : offset, 42);
+    centrals.push(central, name, extra);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const records: Buffer[] = [];
+
+  if (options.zip64) {
+    const record = Buffer.alloc(56);
+    record.writeUInt32LE(0x06064b50, 0);
+    record.writeBigUInt64LE(44n, 4);
+    record.writeBigUInt64LE(BigInt(entries.length), 24);
+    record.writeBigUInt64LE(BigInt(entries.length), 32);
+    record.writeBigUInt64LE(BigInt(directory.length), 40);
+    record.writeBigUInt64LE(BigInt(offset), 48);
+
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeBigUInt64LE(BigInt(offset + directory.length), 8);
+    locator.writeUInt32LE(1, 16);
+    records.push(record, locator);
+  }
+
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(options.zip64 ? 0xffff : entries.length, 8);
+  eocd.writeUInt16LE(options.zip64 ? 0xffff : entries.length, 10);
+  eocd.writeUInt32LE(options.zip64 ? 0xffffffff : directory.length, 12);
+  eocd.writeUInt32LE(options.zip64 ? 0xffffffff : offset, 16);
+
+  return Buffer.concat([...locals, directory, ...records, eocd]);
+}
+
+describe('ZIP reader', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zip-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const writeZip = async (entries: TestEntry[], options?: { zip64?: boolean }): Promise<string> => {
+    const zipPath = path.join(tempDir, 'App.ipa');
+    await fs.writeFile(zipPath, buildZip(entries, options));
+    return zipPath;
+  };
+
+  describe('readZipEntries', () => {
+    it('should list files and directories', async () => {
+      const zipPath = await writeZip([
+        { name: 'Payload/' },
+        { name: 'Payload/App.app/Info.plist', data: 'plist', deflate: true },
+      ]);
+
+      const entries = await readZipEntries(zipPath);
+
+      expect(entries.map((e) => [e.name, e.isDirectory, e.method])).toEqual([
+        ['Payload/', true, 0],
+        ['Payload/App.app/Info.plist', false, 8],
+      ]);
+      expect(entries[1]!.uncompressedSize).toBe(5);
+    });
+
+    it('should read ZIP64 archives', async () => {
+      const zipPath = await writeZip(
+        [
+          { name: 'a.txt', data: 'first' },
+          { name: 'b.txt', data: 'second', deflate: true },
+        ],
+        { zip64: true }
+      );
+
+      const entries = await readZipEntries(zipPath);
+
+      expect(entries.map((e) => [e.name, e.uncompressedSize])).toEqual([
+        ['a.txt', 5],
+        ['b.txt', 6],
+      ]);
+      expect(entries[1]!.localHeaderOffset).toBe(30 + 5 + 5);
+    });
+
+    it('should throw for files that are not ZIP archives', async () => {
+      const filePath = path.join(tempDir, 'not-a-zip.ipa');
+      await fs.writeFile(filePath, 'hello');
+
+      await expect(readZipEntries(filePath)).rejects.toThrow('Not a ZIP archive');
+    });
+  });
+
+  describe('extractZip', () => {
+    it('should extract stored and deflated files', async () => {
+      const zipPath = await writeZip([
+        { name: 'Payload/App.app/Info.plist', data: '<plist/>' },
+        { name: 'Payload/App.app/en.lproj/Localizable.strings', data: '"a" = "b";'.repeat(50), deflate: true },
+        { name: 'Payload/App.app/Empty.txt' },
+      ]);
+      const destination = path.join(tempDir, 'out');
+
+      const files = await extractZip(zipPath, destination);
+
+      expect(files).toHaveLength(3);
+      expect(
+        await fs.readFile(path.join(destination, 'Payload/App.app/Info.plist'), 'utf-8')
+      ).toBe('<plist/>');
+      expect(
+        await fs.readFile(path.join(destination, 'Payload/App.app/en.lproj/Localizable.strings'), 'utf-8')
+      ).toBe('"a" = "b";'.repeat(50));
+      expect(await fs.readFile(path.join(destination, 'Payload/App.app/Empty.txt'), 'utf-8')).toBe('');
+    });
+
+    it('should skip symlinks', async () => {
+      const zipPath = await writeZip([
+        { name: 'link', data: '/etc/passwd', symlink: true },
+        { name: 'file.txt', data: 'ok' },
+      ]);
+      const destination = path.join(tempDir, 'out');
+
+      const files = await extractZip(zipPath, destination);
+
+      expect(files).toEqual([path.join(destination, 'file.txt')]);
+    });
+
+    it('should reject entries outside the destination', async () => {
+      const zipPath = await writeZip([{ name: '../evil.txt', data: 'x' }]);
+
+      await expect(extractZip(zipPath, path.join(tempDir, 'out'))).rejects.toThrow(
+        'escapes the extraction directory'
+      );
+    });
+  });
+});